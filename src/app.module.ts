@@ -25,9 +25,19 @@ import { VoucherIssueModule } from './modules/voucher-issue/voucher-issue.module
 import { StockTransferModule } from './modules/stock-transfer/stock-transfer.module';
 import { ShopeeFeesModule } from './modules/shopee-fees/shopee-fees.module';
 import { TikTokFeesModule } from './modules/tiktok-fees/tiktok-fees.module';
+import { LazadaFeesModule } from './modules/lazada-fees/lazada-fees.module';
 import { PurchaseOrderModule } from './modules/purchase-order/purchase-order.module';
 import { GoodsReceiptModule } from './modules/goods-receipt/goods-receipt.module';
 import { FastIntegrationModule } from './modules/fast-integration/fast-integration.module';
+import { AuthModule } from './modules/auth/auth.module';
+import { IntegrationAuditModule } from './modules/integration-audit/integration-audit.module';
+import { OrderTypesModule } from './modules/order-types/order-types.module';
+import { FeeReconciliationModule } from './modules/fee-reconciliation/fee-reconciliation.module';
+import { FastReversalModule } from './modules/fast-reversal/fast-reversal.module';
+import { BrandsModule } from './modules/brands/brands.module';
+import { ShiftEndReconciliationModule } from './modules/shift-end-reconciliation/shift-end-reconciliation.module';
+import { PaymentPartnersModule } from './modules/payment-partners/payment-partners.module';
+import { BankReconciliationModule } from './modules/bank-reconciliation/bank-reconciliation.module';
 
 @Module({
   imports: [
@@ -55,6 +65,7 @@ import { FastIntegrationModule } from './modules/fast-integration/fast-integrati
       useFactory: getThirdDatabaseConfig,
       inject: [ConfigService],
     }),
+    AuthModule,
     SyncModule,
     InvoicesModule,
     SalesModule,
@@ -69,9 +80,18 @@ import { FastIntegrationModule } from './modules/fast-integration/fast-integrati
     StockTransferModule,
     ShopeeFeesModule,
     TikTokFeesModule,
+    LazadaFeesModule,
     PurchaseOrderModule,
     GoodsReceiptModule,
     FastIntegrationModule,
+    IntegrationAuditModule,
+    OrderTypesModule,
+    FeeReconciliationModule,
+    FastReversalModule,
+    BrandsModule,
+    ShiftEndReconciliationModule,
+    PaymentPartnersModule,
+    BankReconciliationModule,
     TypeOrmModule.forFeature([Sale]),
   ],
   controllers: [AppController],
@@ -0,0 +1,24 @@
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Auth Configuration
+ * JWT_SECRET bắt buộc - không có secret thì không phát hành / xác thực được token
+ */
+export interface AuthConfig {
+  jwtSecret: string;
+  expiresInSeconds: number;
+}
+
+export const getAuthConfig = (configService: ConfigService): AuthConfig => {
+  const jwtSecret = configService.get<string>('JWT_SECRET');
+  if (!jwtSecret) {
+    throw new Error('JWT_SECRET chưa được cấu hình');
+  }
+
+  return {
+    jwtSecret,
+    expiresInSeconds: Number(
+      configService.get('JWT_EXPIRES_IN_SECONDS', 8 * 60 * 60), // Mặc định 8 giờ
+    ),
+  };
+};
@@ -0,0 +1,96 @@
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Retry policy cho các lệnh gọi Fast API
+ */
+export interface FastApiRetryPolicy {
+  maxAttempts: number; // Tổng số lần gọi (kể cả lần đầu)
+  baseDelayMs: number; // Delay gốc, nhân đôi sau mỗi lần lỗi
+  maxDelayMs: number; // Delay tối đa giữa 2 lần gọi
+}
+
+export const DEFAULT_FAST_API_RETRY_POLICY: FastApiRetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Policy riêng theo endpoint Fast (ghi đè default).
+ * Danh mục (Customer, Item, Lot...) gửi lại không tạo trùng nên cho retry nhiều hơn;
+ * chứng từ giữ ít lần hơn vì request timeout có thể đã được Fast ghi nhận.
+ */
+export const FAST_API_ENDPOINT_RETRY_POLICIES: Record<
+  string,
+  Partial<FastApiRetryPolicy>
+> = {
+  Customer: { maxAttempts: 5 },
+  Item: { maxAttempts: 5 },
+  Lot: { maxAttempts: 5 },
+  Site: { maxAttempts: 5 },
+  Serial: { maxAttempts: 5 },
+  Promotions: { maxAttempts: 5 },
+  paymentMethod: { maxAttempts: 5 },
+  salesOrder: { maxAttempts: 3 },
+  salesInvoice: { maxAttempts: 3 },
+  salesReturn: { maxAttempts: 3 },
+  gxtInvoice: { maxAttempts: 3 },
+  cashReceipt: { maxAttempts: 3 },
+  creditAdvice: { maxAttempts: 3 },
+  payment: { maxAttempts: 3 },
+  debitAdvice: { maxAttempts: 3 },
+  warehouseReceipt: { maxAttempts: 3 },
+  warehouseRelease: { maxAttempts: 3 },
+  warehouseTransfer: { maxAttempts: 3 },
+  POCharges: { maxAttempts: 3 },
+  PO2: { maxAttempts: 3 },
+};
+
+/**
+ * Lấy retry policy của endpoint.
+ * Thứ tự ưu tiên: env theo endpoint (FAST_API_RETRY_SALESINVOICE_MAX_ATTEMPTS)
+ * > FAST_API_ENDPOINT_RETRY_POLICIES > env chung (FAST_API_RETRY_MAX_ATTEMPTS) > default
+ */
+export const getFastApiRetryPolicy = (
+  configService: ConfigService,
+  endpoint: string,
+): FastApiRetryPolicy => {
+  const defaults: FastApiRetryPolicy = {
+    maxAttempts: Number(
+      configService.get(
+        'FAST_API_RETRY_MAX_ATTEMPTS',
+        DEFAULT_FAST_API_RETRY_POLICY.maxAttempts,
+      ),
+    ),
+    baseDelayMs: Number(
+      configService.get(
+        'FAST_API_RETRY_BASE_DELAY_MS',
+        DEFAULT_FAST_API_RETRY_POLICY.baseDelayMs,
+      ),
+    ),
+    maxDelayMs: Number(
+      configService.get(
+        'FAST_API_RETRY_MAX_DELAY_MS',
+        DEFAULT_FAST_API_RETRY_POLICY.maxDelayMs,
+      ),
+    ),
+  };
+  const policy = {
+    ...defaults,
+    ...FAST_API_ENDPOINT_RETRY_POLICIES[endpoint],
+  };
+  const prefix = `FAST_API_RETRY_${endpoint.toUpperCase()}`;
+
+  return {
+    maxAttempts: Math.max(
+      1,
+      Number(configService.get(`${prefix}_MAX_ATTEMPTS`, policy.maxAttempts)),
+    ),
+    baseDelayMs: Number(
+      configService.get(`${prefix}_BASE_DELAY_MS`, policy.baseDelayMs),
+    ),
+    maxDelayMs: Number(
+      configService.get(`${prefix}_MAX_DELAY_MS`, policy.maxDelayMs),
+    ),
+  };
+};
@@ -0,0 +1,14 @@
+import { ConfigService } from '@nestjs/config';
+import type { RedisOptions } from 'ioredis';
+
+/**
+ * Redis Configuration
+ * Dùng cho hàng đợi job (invoice job queue)
+ */
+export const getRedisConfig = (configService: ConfigService): RedisOptions => ({
+  host: configService.get('REDIS_HOST', 'localhost'),
+  port: Number(configService.get('REDIS_PORT', 6379)),
+  password: configService.get('REDIS_PASSWORD') || undefined,
+  db: Number(configService.get('REDIS_DB', 0)),
+  keyPrefix: configService.get('REDIS_KEY_PREFIX', 'invoiceflow:'),
+});
@@ -0,0 +1,20 @@
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Cấu hình xác thực webhook Fast API
+ * - FAST_WEBHOOK_SECRET: secret dùng chung để ký HMAC-SHA256
+ * - FAST_WEBHOOK_TOLERANCE_SECONDS: độ lệch tối đa giữa X-Fast-Timestamp và giờ server
+ */
+export interface FastWebhookConfig {
+  secret: string | null;
+  toleranceSeconds: number;
+}
+
+export const getFastWebhookConfig = (
+  configService: ConfigService,
+): FastWebhookConfig => ({
+  secret: configService.get<string>('FAST_WEBHOOK_SECRET') || null,
+  toleranceSeconds: Number(
+    configService.get('FAST_WEBHOOK_TOLERANCE_SECONDS', 300),
+  ),
+});
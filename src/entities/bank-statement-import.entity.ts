@@ -0,0 +1,60 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Một lần upload sao kê ngân hàng / file quyết toán cổng thanh toán (VNPAY, PAYOO)
+ */
+@Entity('bank_statement_imports')
+export class BankStatementImport {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  @Index()
+  source: string; // VCB, TCB, BIDV, ..., VNPAY, PAYOO, GENERIC
+
+  @Column({ nullable: true })
+  bankCode: string; // Ngân hàng / cổng thanh toán nhận tiền
+
+  @Column({ nullable: true })
+  accountNo: string; // Số tài khoản nhận tiền
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  fileName: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  headerRow: number; // Dòng header trong file (bắt đầu từ 1)
+
+  @Column({ type: 'int', default: 0 })
+  totalRows: number;
+
+  @Column({ type: 'int', default: 0 })
+  importedRows: number;
+
+  @Column({ type: 'int', default: 0 })
+  duplicateRows: number; // Dòng đã có từ lần import trước
+
+  @Column({ type: 'int', default: 0 })
+  skippedRows: number; // Dòng ghi nợ (tiền ra) hoặc số tiền bằng 0
+
+  @Column({ type: 'int', default: 0 })
+  invalidRows: number;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  errors: Array<{ row: number; error: string }>;
+
+  @Column({ nullable: true })
+  createdBy: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,90 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Trạng thái đối chiếu dòng sao kê với phiếu thu (daily_cashio)
+ */
+export const BANK_STATEMENT_MATCH_STATUS = {
+  UNMATCHED: 'UNMATCHED',
+  MATCHED: 'MATCHED',
+} as const;
+
+export type BankStatementMatchStatus =
+  (typeof BANK_STATEMENT_MATCH_STATUS)[keyof typeof BANK_STATEMENT_MATCH_STATUS];
+
+/**
+ * Một dòng tiền vào trên sao kê ngân hàng / file quyết toán cổng thanh toán
+ * Mỗi dòng khớp tối đa 1 dòng cashio (dailyCashioId), mỗi dòng cashio chỉ khớp 1 dòng sao kê
+ */
+@Entity('bank_statement_lines')
+export class BankStatementLine {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  @Index()
+  importId: string;
+
+  @Column()
+  source: string;
+
+  @Column({ nullable: true })
+  bankCode: string;
+
+  @Column({ nullable: true })
+  accountNo: string;
+
+  @Column({ type: 'int' })
+  rowNumber: number; // Dòng trong file gốc
+
+  @Column({ type: 'timestamp' })
+  @Index()
+  transactionDate: Date;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2 })
+  amount: number; // Số tiền vào (gross với file cổng thanh toán)
+
+  @Column({ nullable: true })
+  @Index()
+  reference: string; // Số tham chiếu / mã giao dịch
+
+  @Column({ type: 'text', nullable: true })
+  description: string; // Nội dung chuyển khoản
+
+  @Column({ nullable: true })
+  counterparty: string; // Tên / tài khoản người chuyển
+
+  @Column({ unique: true })
+  lineKey: string; // Hash nội dung dòng, tránh import trùng khi upload lại file
+
+  @Column({ default: BANK_STATEMENT_MATCH_STATUS.UNMATCHED })
+  @Index()
+  matchStatus: string;
+
+  @Column({ type: 'uuid', nullable: true, unique: true })
+  dailyCashioId: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  matchRule: string | null; // REFERENCE | AMOUNT_DATE | MANUAL
+
+  @Column({ type: 'text', nullable: true })
+  matchNote: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  matchedBy: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  matchedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
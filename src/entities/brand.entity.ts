@@ -0,0 +1,69 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * Bảng log / phí đơn Pancake của brand (DB phụ), dùng cho sync phí sàn (multi-db)
+ */
+export interface BrandPancakeConfig {
+  tableLogs: string;
+  tableDetail: string;
+  tableFee: string;
+  tableOrders: string;
+  detailIdColumn: string;
+}
+
+/**
+ * Brand (f3, labhair, yaman, menard, chando...) và cấu hình tích hợp tương ứng
+ */
+@Entity('brands')
+export class Brand {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ unique: true })
+  code: string; // Tên brand chuẩn (chữ thường), ví dụ: "f3"
+
+  @Column()
+  displayName: string;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  aliases: string[]; // Tên khác / company trên Loyalty cùng brand, ví dụ: "facialbar"
+
+  @Column({ type: 'varchar', nullable: true })
+  zappyApiUrl: string | null; // null = dùng ZAPPY_API_BASE_URL mặc định
+
+  @Column({ type: 'varchar', nullable: true })
+  salesSource: string | null; // Nguồn đơn bán: zappy | ecs (null = chưa cấu hình, khởi tạo theo mặc định)
+
+  @Column({ type: 'varchar', nullable: true })
+  cashioEndpoint: string | null; // API phiếu thu trên Zappy: get_daily_cash | get_daily_cashio
+
+  @Column({ type: 'varchar', nullable: true })
+  fastDvcsPrefix: string | null; // Mã brand trên Fast (MN, FBV, LHV, BTH, CDV)
+
+  @Column({ type: 'jsonb', nullable: true })
+  pancake: BrandPancakeConfig | null;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  syncJobs: string[]; // Các job đồng bộ chạy cho brand khi không chỉ định brand
+
+  @Column({ default: true })
+  resolveBrandFromDepartment: boolean; // Lấy brand từ department.company trên Loyalty khi sync đơn
+
+  @Column({ type: 'int', default: 100 })
+  sortOrder: number;
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
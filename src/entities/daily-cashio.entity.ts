@@ -4,8 +4,23 @@ import {
   Column,
   CreateDateColumn,
   UpdateDateColumn,
+  Index,
 } from 'typeorm';
 
+/**
+ * Trạng thái gửi hình thức thanh toán (paymentMethod) sang Fast của từng dòng cashio
+ */
+export const DAILY_CASHIO_POSTING_STATUS = {
+  PENDING: 'PENDING',
+  POSTING: 'POSTING', // Đang gửi Fast, chặn gửi trùng
+  POSTED: 'POSTED',
+  FAILED: 'FAILED',
+  SKIPPED: 'SKIPPED', // Không thuộc diện gửi Fast, lý do ở posting_reason
+} as const;
+
+export type DailyCashioPostingStatus =
+  (typeof DAILY_CASHIO_POSTING_STATUS)[keyof typeof DAILY_CASHIO_POSTING_STATUS];
+
 @Entity('daily_cashio')
 export class DailyCashio {
   @PrimaryGeneratedColumn('uuid')
@@ -85,6 +100,28 @@ export class DailyCashio {
   @Column({ nullable: true })
   partner_type: string; // CUSTOMER, VENDOR, etc.
 
+  @Column({ default: DAILY_CASHIO_POSTING_STATUS.PENDING })
+  @Index()
+  posting_status: string;
+
+  @Column({ type: 'text', nullable: true })
+  posting_reason: string | null; // Lý do bỏ qua / lỗi lần gửi gần nhất
+
+  @Column({ nullable: true })
+  fast_reference: string; // so_pt đã gửi sang Fast
+
+  @Column({ nullable: true })
+  fast_idempotency_key: string; // Key của lần gửi gần nhất (FastDocumentSubmission)
+
+  @Column({ type: 'int', default: 0 })
+  posting_attempts: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  posting_started_at: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  posted_at: Date | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
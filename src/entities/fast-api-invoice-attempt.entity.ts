@@ -0,0 +1,51 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Lịch sử từng lần tạo hóa đơn sang Fast của một đơn hàng
+ * fast_api_invoices chỉ giữ lần gần nhất, bảng này giữ toàn bộ để so sánh payload giữa các lần
+ */
+@Entity('fast_api_invoice_attempts')
+@Index(['docCode', 'attemptNo'], { unique: true })
+export class FastApiInvoiceAttempt {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  docCode: string;
+
+  @Column({ type: 'int' })
+  attemptNo: number; // Lần thứ mấy (bắt đầu từ 1)
+
+  @Column({ type: 'int', default: 0 })
+  status: number; // 0 = lỗi, 1 = thành công
+
+  @Column({ nullable: true })
+  maDvcs: string;
+
+  @Column({ nullable: true })
+  maKh: string;
+
+  @Column({ type: 'text', nullable: true })
+  guid: string;
+
+  @Column({ type: 'text', nullable: true })
+  payload: string; // JSON string, giống fast_api_invoices.payload
+
+  @Column({ type: 'text', nullable: true })
+  fastApiResponse: string;
+
+  @Column({ type: 'text', nullable: true })
+  lastErrorMessage: string;
+
+  @Column({ nullable: true })
+  idempotencyKey: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -52,6 +52,9 @@ export class FastApiInvoice {
   @Column({ default: false })
   isManuallyCreated: boolean;
 
+  @Column({ nullable: true })
+  idempotencyKey: string; // Key của lần gửi chứng từ gần nhất (FastDocumentSubmission)
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,105 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export const FAST_REVERSAL_STATUS = {
+  SUBMITTING: 'SUBMITTING', // Đang gửi chứng từ huỷ
+  REVERSED: 'REVERSED', // Fast đã nhận chứng từ huỷ - chặn gửi lại chứng từ gốc
+  FAILED: 'FAILED', // Gửi huỷ thất bại - được phép huỷ lại
+  REOPENED: 'REOPENED', // Đã mở lại, cho phép xử lý lại chứng từ gốc
+} as const;
+
+export type FastReversalStatus =
+  (typeof FAST_REVERSAL_STATUS)[keyof typeof FAST_REVERSAL_STATUS];
+
+/**
+ * Bảng lưu chứng từ gốc đã đẩy sang Fast
+ */
+export const FAST_REVERSAL_SOURCE_TYPES = {
+  FAST_API_INVOICE: 'FAST_API_INVOICE', // fast_api_invoices (salesOrder, salesInvoice, gxtInvoice, salesReturn)
+  WAREHOUSE_PROCESSED: 'WAREHOUSE_PROCESSED', // warehouse_processed (phiếu nhập / xuất / điều chuyển kho)
+  PAYMENT_SYNC_LOG: 'PAYMENT_SYNC_LOG', // payment_sync_log (dữ liệu cũ) hoặc integration_audit_logs (paymentMethod)
+  DAILY_CASHIO: 'DAILY_CASHIO', // daily_cashio đã gửi Fast (paymentMethod), payload lấy từ integration_audit_logs
+  AUDIT_PO: 'AUDIT_PO', // audit_po (POCharges)
+} as const;
+
+export type FastReversalSourceType =
+  (typeof FAST_REVERSAL_SOURCE_TYPES)[keyof typeof FAST_REVERSAL_SOURCE_TYPES];
+
+/**
+ * Chứng từ huỷ (action = CANCEL_UPDATE) cho 1 chứng từ đã đẩy sang Fast
+ * Mỗi dòng ứng với 1 chứng từ Fast (documentKind + docCode), liên kết về dòng nguồn (sourceType + sourceId)
+ * Trong lúc SUBMITTING / REVERSED, FastDocumentSubmissionService chặn gửi lại chứng từ gốc
+ */
+@Entity('fast_document_reversals')
+@Index(['sourceType', 'sourceId'])
+@Index('UQ_fast_document_reversals_active', ['documentKind', 'docCode'], {
+  unique: true,
+  where: `"status" IN ('SUBMITTING', 'REVERSED')`,
+})
+export class FastDocumentReversal {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  sourceType: string;
+
+  @Column()
+  sourceId: string;
+
+  @Column()
+  documentKind: string; // Endpoint Fast: salesInvoice, warehouseRelease, POCharges, ...
+
+  @Column()
+  docCode: string; // paymentMethod: so_hd/so_pt/httt (xem resolveFastReversalDocCode)
+
+  @Column({ type: 'jsonb', nullable: true })
+  originalPayload: any;
+
+  @Column({ type: 'jsonb', nullable: true })
+  reversalPayload: any;
+
+  @Column({ type: 'varchar', nullable: true })
+  originalIdempotencyKey: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  reversalIdempotencyKey: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  fastApiResponse: any;
+
+  @Column({ default: FAST_REVERSAL_STATUS.SUBMITTING })
+  status: string;
+
+  @Column({ type: 'text', nullable: true })
+  errorMessage: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  requestedBy: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  reversedAt: Date | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  reopenedBy: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  reopenReason: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  reopenedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
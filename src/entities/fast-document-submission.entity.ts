@@ -0,0 +1,56 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Sổ ghi nhận các lần gửi chứng từ sang Fast theo idempotency key
+ * (docCode + loại chứng từ + hash payload)
+ */
+@Entity('fast_document_submissions')
+@Index(['docCode'])
+@Index(['status'])
+export class FastDocumentSubmission {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ unique: true })
+  idempotencyKey: string; // <documentKind>:<docCode>:<payloadHash>
+
+  @Column()
+  docCode: string; // so_ct (hoặc dh_so với POCharges)
+
+  @Column()
+  documentKind: string; // Endpoint Fast: salesOrder, salesInvoice, warehouseRelease, ...
+
+  @Column()
+  payloadHash: string; // sha256 của payload (JSON đã sắp xếp key)
+
+  @Column({ default: 'IN_FLIGHT' })
+  status: string; // IN_FLIGHT, SUCCESS, REJECTED, FAILED, UNKNOWN
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number; // Số lần thực sự gọi sang Fast với key này
+
+  @Column({ type: 'text', nullable: true })
+  fastApiResponse: string | null; // Response của lần gọi gần nhất (JSON string)
+
+  @Column({ type: 'text', nullable: true })
+  lastErrorMessage: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  reconcileNote: string | null; // Ghi chú khi đối soát thủ công
+
+  @Column({ type: 'timestamp', nullable: true })
+  reconciledAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Audit chung cho mọi lệnh gọi ra hệ thống ngoài (Fast API).
+ * Mỗi lần gọi HTTP (kể cả retry) là một dòng, không cập nhật; chỉ xoá khi admin xoá lịch sử theo khoảng ngày.
+ */
+@Entity('integration_audit_logs')
+@Index(['docCode'])
+@Index(['documentType'])
+@Index(['outcome'])
+@Index(['createdAt'])
+export class IntegrationAuditLog {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ default: 'FAST' })
+  integration: string; // Hệ thống đích
+
+  @Column()
+  documentType: string; // salesInvoice, cashReceipt, POCharges, paymentMethod, ...
+
+  @Column({ type: 'varchar', nullable: true })
+  docCode: string | null; // so_ct / dh_so / so_hd
+
+  @Column({ type: 'varchar', nullable: true })
+  brand: string | null;
+
+  @Column()
+  endpoint: string; // URL được gọi
+
+  @Column({ type: 'text', nullable: true })
+  requestPayload: string | null; // JSON string
+
+  @Column({ type: 'text', nullable: true })
+  responsePayload: string | null; // JSON string
+
+  @Column({ type: 'int', nullable: true })
+  httpStatus: number | null;
+
+  @Column({ type: 'int', default: 0 })
+  durationMs: number;
+
+  @Column({ type: 'int', default: 1 })
+  attempt: number; // Lần gọi thứ mấy trong retry policy
+
+  @Column()
+  outcome: string; // SUCCESS, REJECTED, ERROR
+
+  @Column({ type: 'text', nullable: true })
+  errorMessage: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  idempotencyKey: string | null; // FastDocumentSubmission.idempotencyKey (nếu là chứng từ)
+
+  @Column({ type: 'varchar', nullable: true, unique: true })
+  legacyRef: string | null; // Dòng gốc khi chuyển từ bảng audit cũ: audit_po:<id>, payment_sync_log:<id>
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,34 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+@Entity('invoice_job_batches')
+export class InvoiceJobBatch {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  type: string; // DATE_RANGE, RETRY_FAILED, MANUAL
+
+  @Column({ nullable: true })
+  startDate: string; // DDMMMYYYY (chỉ với DATE_RANGE)
+
+  @Column({ nullable: true })
+  endDate: string; // DDMMMYYYY (chỉ với DATE_RANGE)
+
+  @Column({ type: 'int', default: 0 })
+  totalJobs: number;
+
+  @Column({ type: 'int', default: 0 })
+  skippedCount: number; // Số đơn bỏ qua vì đã có job đang chờ/đang chạy
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
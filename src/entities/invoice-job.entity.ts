@@ -0,0 +1,53 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('invoice_jobs')
+@Index(['batchId'])
+@Index(['docCode'])
+@Index(['status'])
+export class InvoiceJob {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  batchId: string | null; // Batch chứa job (InvoiceJobBatch.id)
+
+  @Column()
+  docCode: string; // Mã đơn hàng cần tạo hóa đơn
+
+  @Column({ default: false })
+  forceRetry: boolean; // true = bỏ qua check đã tạo thành công (retry đơn lỗi)
+
+  @Column({ default: 'PENDING' })
+  status: string; // PENDING, PROCESSING, SUCCESS, FAILED, CANCELLED
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number; // Số lần worker đã chạy job
+
+  @Column({ type: 'int', default: 3 })
+  maxAttempts: number; // Số lần chạy tối đa khi gặp lỗi hệ thống
+
+  @Column({ type: 'text', nullable: true })
+  result: string | null; // Kết quả trả về từ flow tạo hóa đơn (JSON string)
+
+  @Column({ type: 'text', nullable: true })
+  lastErrorMessage: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt: Date | null; // Thời điểm worker nhận job lần gần nhất
+
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,52 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Điều kiện của rule định tuyến. Điều kiện bỏ trống = không xét.
+ * Rule khớp khi TẤT CẢ điều kiện được khai báo đều khớp
+ */
+export interface InvoiceRoutingConditions {
+  docSourceTypes?: string[]; // SALE_RETURN, ORDER_RETURN...
+  docCodeSuffixes?: string[]; // _X
+  ordertypeNames?: string[]; // Có ít nhất 1 sale thuộc loại đơn này
+  brands?: string[];
+  branchCodes?: string[];
+  productTypes?: string[]; // Có ít nhất 1 sale có productType này (S, V, I...)
+}
+
+@Entity('invoice_routing_rules')
+@Index(['priority'])
+export class InvoiceRoutingRule {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'int', default: 100 })
+  priority: number; // Nhỏ hơn được xét trước
+
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  conditions: InvoiceRoutingConditions;
+
+  @Column()
+  flow: string; // normal, special, tach-the, service, return, cancelled-order, order-type
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @Column({ type: 'text', nullable: true })
+  note: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
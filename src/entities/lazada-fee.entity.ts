@@ -0,0 +1,113 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export interface LazadaFeeLine {
+  feeName: string;
+  amount: number;
+  field: string; // Cột tổng hợp mà dòng phí được cộng vào
+}
+
+@Entity('lazada_fee')
+@Index(['erpOrderCode', 'orderSn'], { unique: true })
+export class LazadaFee {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'brand', length: 50, nullable: true })
+  @Index()
+  brand: string;
+
+  @Column({ name: 'platform', length: 50, default: 'lazada' })
+  platform: string;
+
+  @Column({ name: 'erp_order_code', length: 100 })
+  @Index()
+  erpOrderCode: string;
+
+  @Column({ name: 'order_sn', length: 100, nullable: true })
+  @Index()
+  orderSn: string;
+
+  @Column({ name: 'order_status', length: 100, nullable: true })
+  orderStatus: string;
+
+  @Column({ name: 'currency', length: 20, nullable: true })
+  currency: string;
+
+  @Column({
+    name: 'commission_fee',
+    type: 'decimal',
+    precision: 15,
+    scale: 2,
+    default: 0,
+  })
+  commissionFee: number;
+
+  @Column({
+    name: 'payment_fee',
+    type: 'decimal',
+    precision: 15,
+    scale: 2,
+    default: 0,
+  })
+  paymentFee: number;
+
+  @Column({
+    name: 'shipping_fee',
+    type: 'decimal',
+    precision: 15,
+    scale: 2,
+    default: 0,
+  })
+  shippingFee: number; // Phí vận chuyển người bán trả
+
+  @Column({
+    name: 'affiliate_fee',
+    type: 'decimal',
+    precision: 15,
+    scale: 2,
+    default: 0,
+  })
+  affiliateFee: number;
+
+  @Column({
+    name: 'other_fee',
+    type: 'decimal',
+    precision: 15,
+    scale: 2,
+    default: 0,
+  })
+  otherFee: number;
+
+  @Column({
+    name: 'total_fee',
+    type: 'decimal',
+    precision: 15,
+    scale: 2,
+    default: 0,
+  })
+  totalFee: number;
+
+  @Column({ name: 'fee_lines', type: 'jsonb', nullable: true })
+  feeLines: LazadaFeeLine[] | null; // Chi tiết từng khoản phí Lazada trả về
+
+  @Column({ name: 'order_created_at', type: 'timestamp', nullable: true })
+  @Index()
+  orderCreatedAt: Date;
+
+  @Column({ name: 'synced_at', type: 'timestamp' })
+  @Index()
+  syncedAt: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
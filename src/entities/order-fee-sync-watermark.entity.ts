@@ -0,0 +1,58 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Mốc sync phí đơn hàng theo brand
+ * Mỗi lần chạy đọc tiếp log ERP từ (lastCreatedAt, lastErpOrderCode) thay vì quét lại cả bảng
+ */
+@Entity('order_fee_sync_watermarks')
+export class OrderFeeSyncWatermark {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 50 })
+  @Index({ unique: true })
+  brand: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastCreatedAt: Date | null; // createdAt của log ERP cuối cùng đã sync
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  lastErpOrderCode: string | null; // Phân biệt các log cùng createdAt
+
+  @Column({ type: 'varchar', length: 20, default: 'IDLE' })
+  lastRunStatus: string; // IDLE | RUNNING | SUCCESS | FAILED
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastRunStartedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastRunFinishedAt: Date | null;
+
+  @Column({ type: 'int', default: 0 })
+  lastRunTotal: number; // Số log ERP đọc được trong lần chạy gần nhất
+
+  @Column({ type: 'int', default: 0 })
+  lastRunSynced: number;
+
+  @Column({ type: 'int', default: 0 })
+  lastRunFailed: number;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  totalSynced: number; // Cộng dồn qua các lần chạy
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * Loại đơn hàng Zappy (ordertypeName) và luồng xử lý tạo hóa đơn tương ứng
+ */
+@Entity('order_types')
+export class OrderType {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ unique: true })
+  code: string; // Tên chuẩn, ví dụ: "02. Làm dịch vụ"
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  aliases: string[]; // Các tên khác Zappy có thể gửi (ngoài biến thể khoảng trắng)
+
+  @Column({ default: 'normal' })
+  flowHandler: string; // normal, special, tach-the, service, return
+
+  @Column({ default: true })
+  invoiceAllowed: boolean;
+
+  @Column({ type: 'int', default: 100 })
+  sortOrder: number; // Thứ tự ưu tiên khi tên đơn khớp nhiều loại
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @Column({ type: 'text', nullable: true })
+  note: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
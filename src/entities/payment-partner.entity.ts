@@ -0,0 +1,55 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Đối tác thanh toán (cổng thanh toán, đối tác trả góp) và mã NCC tương ứng trên Fast (ma_kh2 của paymentMethod)
+ * Khớp theo mẫu trên mã đối tác hoặc fop_syscode; dòng có brand / ma_dvcs được ưu tiên hơn dòng dùng chung
+ */
+@Entity('payment_partners')
+@Index(['matchField', 'pattern'])
+export class PaymentPartner {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  name: string; // VNPAY, MoMo, ZaloPay, HD SAISON, ...
+
+  @Column({ default: 'partner_code' })
+  matchField: string; // partner_code (PaymentMethod.maDoiTac) | fop_syscode
+
+  @Column({ default: 'EXACT' })
+  matchType: string; // EXACT | PREFIX | CONTAINS | REGEX
+
+  @Column()
+  pattern: string;
+
+  @Column()
+  supplierCode: string; // Mã NCC trên Fast, ví dụ: NCC0618
+
+  @Column({ type: 'varchar', nullable: true })
+  brand: string | null; // null = áp dụng mọi brand
+
+  @Column({ type: 'varchar', nullable: true })
+  maDvcs: string | null; // null = áp dụng mọi đơn vị
+
+  @Column({ type: 'int', default: 100 })
+  sortOrder: number; // Thứ tự ưu tiên khi nhiều dòng cùng mức cụ thể khớp
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @Column({ type: 'text', nullable: true })
+  note: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Một lần upload file phí sàn. Dữ liệu nằm ở bảng staging cho tới khi commit
+ * id của batch chính là import_batch_id ghi vào bảng platform_fee_import_<platform>
+ */
+@Entity('platform_fee_import_batches')
+export class PlatformFeeImportBatch {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'platform', type: 'varchar', length: 20 })
+  @Index()
+  platform: string; // shopee | tiktok | lazada
+
+  @Column({ name: 'file_name', type: 'varchar', length: 500, nullable: true })
+  fileName: string | null;
+
+  @Column({ name: 'profile_id', type: 'uuid', nullable: true })
+  profileId: string | null; // Profile mapping cột dùng khi parse file
+
+  @Column({ name: 'status', type: 'varchar', length: 20, default: 'PENDING' })
+  @Index()
+  status: string; // PENDING | COMMITTED | DISCARDED
+
+  @Column({ name: 'total_rows', type: 'int', default: 0 })
+  totalRows: number;
+
+  @Column({ name: 'valid_rows', type: 'int', default: 0 })
+  validRows: number;
+
+  @Column({ name: 'invalid_rows', type: 'int', default: 0 })
+  invalidRows: number;
+
+  @Column({ name: 'committed_rows', type: 'int', default: 0 })
+  committedRows: number;
+
+  @Column({
+    name: 'unknown_order_ids',
+    type: 'jsonb',
+    default: () => "'[]'",
+  })
+  unknownOrderIds: string[]; // Mã đơn không có trong bảng platform_fee
+
+  @Column({ name: 'created_by', type: 'varchar', length: 200, nullable: true })
+  createdBy: string | null;
+
+  @Column({ name: 'committed_at', type: 'timestamp', nullable: true })
+  committedAt: Date | null;
+
+  @Column({ name: 'discarded_at', type: 'timestamp', nullable: true })
+  discardedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
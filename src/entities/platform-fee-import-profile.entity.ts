@@ -0,0 +1,65 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Cột trong file báo cáo phí sàn -> trường của entity platform_fee_import_<platform>
+ */
+export interface PlatformFeeImportColumn {
+  field: string; // Tên trường entity, ví dụ: maSan, phiDichVu6MaPhi164020
+  headers: string[]; // Tên cột trong file (header đầu tiên dùng cho file mẫu), các header sau là tên đồng nghĩa
+  type: 'text' | 'decimal' | 'date';
+  required?: boolean;
+}
+
+/**
+ * Profile mapping cột cho file báo cáo phí sàn (Shopee/TikTok đổi tên cột thường xuyên)
+ */
+@Entity('platform_fee_import_profiles')
+export class PlatformFeeImportProfile {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'platform', type: 'varchar', length: 20 })
+  @Index()
+  platform: string; // shopee | tiktok | lazada
+
+  @Column({ name: 'name', type: 'varchar', length: 200 })
+  name: string;
+
+  @Column({ name: 'columns', type: 'jsonb', default: () => "'[]'" })
+  columns: PlatformFeeImportColumn[];
+
+  @Column({
+    name: 'date_format',
+    type: 'varchar',
+    length: 20,
+    default: 'YYYY-MM-DD',
+  })
+  dateFormat: string; // Định dạng ngày dạng text: YYYY-MM-DD | DD/MM/YYYY | MM/DD/YYYY
+
+  @Column({
+    name: 'decimal_separator',
+    type: 'varchar',
+    length: 1,
+    default: '.',
+  })
+  decimalSeparator: string; // '.' (1,234.5) hoặc ',' (1.234,5)
+
+  @Column({ name: 'is_default', type: 'boolean', default: false })
+  isDefault: boolean; // Profile dùng cho file mẫu của platform
+
+  @Column({ name: 'active', type: 'boolean', default: true })
+  active: boolean;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
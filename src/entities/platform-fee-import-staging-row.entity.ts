@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Dòng dữ liệu đã parse từ file phí sàn, chờ review trước khi commit
+ */
+@Entity('platform_fee_import_staging_rows')
+@Index(['batchId', 'rowNumber'])
+export class PlatformFeeImportStagingRow {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'batch_id', type: 'uuid' })
+  batchId: string;
+
+  @Column({ name: 'row_number', type: 'int' })
+  rowNumber: number;
+
+  @Column({ name: 'order_id', type: 'varchar', length: 200, nullable: true })
+  orderId: string | null; // Mã đơn trên sàn (hoặc mã đơn hoàn)
+
+  @Column({ name: 'data', type: 'jsonb', nullable: true })
+  data: Record<string, any> | null; // Các trường đã map theo entity của platform
+
+  @Column({ name: 'errors', type: 'jsonb', default: () => "'[]'" })
+  errors: string[];
+
+  @Column({ name: 'is_valid', type: 'boolean', default: true })
+  isValid: boolean;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,87 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export const PO_CHARGE_BATCH_ITEM_STATUS = {
+  PENDING: 'PENDING',
+  SKIPPED: 'SKIPPED', // Bị loại khi dựng lô hoặc khi huỷ lô
+  SUBMITTING: 'SUBMITTING',
+  SUCCESS: 'SUCCESS',
+  FAILED: 'FAILED',
+} as const;
+
+/**
+ * 1 dòng phí của đơn trong lô (kèm tên phí / trường nguồn để người duyệt đối chiếu)
+ */
+export interface PoChargeBatchLine {
+  dong: number;
+  ma_cp: string;
+  field: string;
+  rawName: string;
+  amount: number;
+  targetCol: string;
+}
+
+/**
+ * 1 đơn trong lô POCharges, payload = đúng payload sẽ gửi vào syncPOCharges
+ */
+@Entity('po_charge_batch_items')
+@Index(['batchId', 'erpOrderCode'])
+@Index(['batchId', 'status'])
+export class PoChargeBatchItem {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  batchId: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  erpOrderCode: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  orderSn: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  brand: string | null;
+
+  @Column()
+  platform: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  ruleSetId: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  ruleSetVersion: number | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  payload: any;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  lines: PoChargeBatchLine[];
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  anomalies: string[];
+
+  @Column({ type: 'int', default: 0 })
+  previousRounds: number; // Số lần đã đẩy trước đó (audit_po)
+
+  @Column({ default: PO_CHARGE_BATCH_ITEM_STATUS.PENDING })
+  status: string;
+
+  @Column({ type: 'text', nullable: true })
+  errorMessage: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  committedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
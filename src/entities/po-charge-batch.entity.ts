@@ -0,0 +1,80 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export const PO_CHARGE_BATCH_STATUS = {
+  PENDING: 'PENDING', // Đã dựng, chờ duyệt
+  PARTIALLY_COMMITTED: 'PARTIALLY_COMMITTED', // Đã đẩy 1 phần đơn
+  COMMITTED: 'COMMITTED',
+  DISCARDED: 'DISCARDED',
+} as const;
+
+/**
+ * Tổng tiền theo mã phí trong 1 lô
+ */
+export interface PoChargeBatchFeeTotal {
+  ma_cp: string;
+  amount: number;
+  lines: number;
+}
+
+/**
+ * Lô đẩy phí POCharges: dựng trước để xem, người duyệt đẩy cả lô hoặc 1 phần đơn
+ * Mỗi dòng audit_po sinh ra từ lô có batch_id để truy vết / xử lý theo lô
+ */
+@Entity('po_charge_batches')
+@Index(['status', 'createdAt'])
+export class PoChargeBatch {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'date' })
+  startDate: string;
+
+  @Column({ type: 'date' })
+  endDate: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  platform: string | null; // null = tất cả sàn
+
+  @Column({ default: PO_CHARGE_BATCH_STATUS.PENDING })
+  status: string;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  totals: PoChargeBatchFeeTotal[];
+
+  @Column({ type: 'int', default: 0 })
+  totalOrders: number;
+
+  @Column({ type: 'int', default: 0 })
+  skippedCount: number; // Đơn bị loại khi dựng lô (thiếu mã đơn, không có bộ mã phí...)
+
+  @Column({ type: 'int', default: 0 })
+  anomalyCount: number;
+
+  @Column({ type: 'int', default: 0 })
+  successCount: number;
+
+  @Column({ type: 'int', default: 0 })
+  failedCount: number;
+
+  @Column({ type: 'varchar', nullable: true })
+  createdBy: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  approvedBy: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  committedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
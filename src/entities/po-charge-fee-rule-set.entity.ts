@@ -0,0 +1,63 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * 1 dòng phí trong chứng từ POCharges: lấy giá trị từ `field` của bản ghi phí, đẩy với mã phí `defaultCode` ở dòng `row`
+ */
+export interface PoChargeFeeRule {
+  field: string;
+  rawName: string;
+  defaultCode: string;
+  row: number; // dong 1 -> 6 (ứng với ngay_phi1 -> ngay_phi6)
+  targetCol?: 'cp01_nt' | 'cp02_nt';
+}
+
+/**
+ * Bộ quy tắc mã phí POCharges theo sàn, có phiên bản và thời gian hiệu lực
+ * Sàn đổi tỷ lệ phí thì tạo phiên bản mới với effectiveFrom, đơn cũ vẫn dùng phiên bản cũ
+ */
+@Entity('po_charge_fee_rule_sets')
+@Index(['platform', 'source', 'version'], { unique: true })
+export class PoChargeFeeRuleSet {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  platform: string; // shopee | tiktok | lazada
+
+  @Column({ default: 'synced' })
+  source: string; // synced = phí sync từ DB brand, import = file phí sàn
+
+  @Column({ type: 'int' })
+  version: number;
+
+  @Column({ type: 'date', nullable: true })
+  effectiveFrom: string | null; // null = áp dụng từ đầu
+
+  @Column({ type: 'date', nullable: true })
+  effectiveTo: string | null; // null = chưa hết hiệu lực
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  rules: PoChargeFeeRule[];
+
+  @Column({ type: 'text', nullable: true })
+  note: string | null;
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @Column({ type: 'varchar', nullable: true })
+  createdBy: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
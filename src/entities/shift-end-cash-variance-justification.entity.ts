@@ -0,0 +1,40 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Giải trình chênh lệch nộp quỹ cuối ca, 1 dòng / ca / hình thức thanh toán (fop_code)
+ * Lưu lại số chênh lệch tại thời điểm giải trình để biết dữ liệu có thay đổi sau đó không
+ */
+@Entity('shift_end_cash_variance_justifications')
+@Index(['shiftEndCashId', 'fopCode'], { unique: true })
+export class ShiftEndCashVarianceJustification {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  shiftEndCashId: string;
+
+  @Column()
+  fopCode: string; // CASH, VOUCHER, BANK301, ...
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  varianceAmount: number; // Chênh lệch lớn nhất lúc giải trình
+
+  @Column({ type: 'text' })
+  reason: string;
+
+  @Column({ nullable: true })
+  justifiedBy: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
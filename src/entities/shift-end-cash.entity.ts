@@ -9,6 +9,19 @@ import {
 } from 'typeorm';
 import { ShiftEndCashLine } from './shift-end-cash-line.entity';
 
+/**
+ * Trạng thái tạo phiếu chi (payment) sang Fast của báo cáo nộp quỹ cuối ca
+ */
+export const SHIFT_END_CASH_POSTING_STATUS = {
+  PENDING: 'PENDING',
+  POSTING: 'POSTING', // Đang gửi Fast, chặn gửi trùng
+  POSTED: 'POSTED',
+  FAILED: 'FAILED',
+} as const;
+
+export type ShiftEndCashPostingStatus =
+  (typeof SHIFT_END_CASH_POSTING_STATUS)[keyof typeof SHIFT_END_CASH_POSTING_STATUS];
+
 @Entity('shift_end_cash')
 @Index(['api_id', 'brand'], { unique: true })
 @Index(['draw_code', 'brand'])
@@ -91,6 +104,28 @@ export class ShiftEndCash {
   @Column({ type: 'text', nullable: true })
   payment_response: string;
 
+  @Column({ default: SHIFT_END_CASH_POSTING_STATUS.PENDING })
+  @Index()
+  posting_status: string;
+
+  @Column({ nullable: true })
+  fast_doc_code: string; // so_ct của phiếu chi trên Fast
+
+  @Column({ nullable: true })
+  fast_idempotency_key: string; // Key của lần gửi phiếu chi gần nhất (FastDocumentSubmission)
+
+  @Column({ type: 'int', default: 0 })
+  posting_attempts: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  posting_started_at: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  posted_at: Date | null;
+
+  @Column({ nullable: true })
+  posted_by: string; // Người / job tạo phiếu chi
+
   @CreateDateColumn()
   createdAt: Date;
 
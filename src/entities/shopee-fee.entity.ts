@@ -64,6 +64,15 @@ export class ShopeeFee {
   })
   paymentFee: number;
 
+  @Column({
+    name: 'affiliate_fee',
+    type: 'decimal',
+    precision: 15,
+    scale: 2,
+    default: 0,
+  })
+  affiliateFee: number; // Phí hoa hồng Tiếp thị liên kết (order_ams_commission_fee)
+
   @Column({ name: 'order_created_at', type: 'timestamp', nullable: true })
   @Index()
   orderCreatedAt: Date;
@@ -136,6 +136,43 @@ export class TikTokFee {
   })
   shippingFeePlatformDiscount: number;
 
+  // Phí sàn (payment.tiktokCommission, transactionFee, sfpServiceFee, affiliateCommission)
+  @Column({
+    name: 'tiktok_commission',
+    type: 'decimal',
+    precision: 15,
+    scale: 2,
+    default: 0,
+  })
+  tiktokCommission: number;
+
+  @Column({
+    name: 'transaction_fee',
+    type: 'decimal',
+    precision: 15,
+    scale: 2,
+    default: 0,
+  })
+  transactionFee: number;
+
+  @Column({
+    name: 'sfp_service_fee',
+    type: 'decimal',
+    precision: 15,
+    scale: 2,
+    default: 0,
+  })
+  sfpServiceFee: number;
+
+  @Column({
+    name: 'affiliate_commission',
+    type: 'decimal',
+    precision: 15,
+    scale: 2,
+    default: 0,
+  })
+  affiliateCommission: number;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -45,6 +45,9 @@ export class WarehouseProcessed {
   @Column({ type: 'text', nullable: true })
   fastApiResponse?: string; // Toàn bộ response từ Fast API (JSON string)
 
+  @Column({ nullable: true })
+  idempotencyKey?: string; // Key của lần gửi phiếu kho gần nhất (FastDocumentSubmission)
+
   @CreateDateColumn()
   createdAt: Date;
 
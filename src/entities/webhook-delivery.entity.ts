@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Nhật ký các lần webhook được gọi (kể cả bị từ chối) để audit thay đổi trạng thái hóa đơn
+ */
+@Entity('webhook_deliveries')
+@Index(['docCode'])
+// Mỗi chữ ký chỉ được xác thực 1 lần: request chạy song song cùng chữ ký bị ghi REPLAYED
+@Index('UQ_webhook_deliveries_verified_signature', ['signature'], {
+  unique: true,
+  where: `"verificationResult" = 'VERIFIED'`,
+})
+@Index(['createdAt'])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  source: string; // fast-api-status
+
+  @Column({ type: 'varchar', nullable: true })
+  docCode: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  rawBody: string | null; // Body gốc dùng để tính chữ ký
+
+  @Column({ type: 'text', nullable: true })
+  headers: string | null; // Headers (JSON string, đã bỏ authorization / cookie)
+
+  @Column({ type: 'varchar', nullable: true })
+  remoteIp: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  signature: string | null;
+
+  @Column({ type: 'bigint', nullable: true })
+  signedTimestamp: string | null; // Unix seconds từ header X-Fast-Timestamp
+
+  @Column()
+  verificationResult: string; // VERIFIED, MISSING_SIGNATURE, INVALID_SIGNATURE, EXPIRED_TIMESTAMP, REPLAYED, SECRET_NOT_CONFIGURED
+
+  @Column({ default: 'PENDING' })
+  processingStatus: string; // PENDING, PROCESSED, REJECTED, NOT_FOUND, INVALID_PAYLOAD, FAILED
+
+  @Column({ type: 'text', nullable: true })
+  processingMessage: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  previousStatus: number | null; // FastApiInvoice.status trước khi webhook cập nhật
+
+  @Column({ type: 'int', nullable: true })
+  newStatus: number | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
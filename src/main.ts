@@ -4,7 +4,8 @@ import { AppModule } from './app.module';
 import * as express from 'express';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // rawBody: cần body gốc để xác thực chữ ký webhook
+  const app = await NestFactory.create(AppModule, { rawBody: true });
 
   // Enable CORS for frontend
   app.enableCors({
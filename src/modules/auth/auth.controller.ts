@@ -0,0 +1,49 @@
+import { Controller, Get, Post, Patch, Body, Param } from '@nestjs/common';
+import { AuthService } from './auth.service';
+import { LoginDto } from './dto/login.dto';
+import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { CurrentUser, Public, Roles } from './decorators/auth.decorators';
+import { ROLES } from './constants/auth.constants';
+import type { AuthUser } from './constants/auth.constants';
+
+@Controller('auth')
+export class AuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  /**
+   * POST /auth/login
+   * Đăng nhập, trả về access token (Bearer)
+   */
+  @Public()
+  @Post('login')
+  async login(@Body() loginDto: LoginDto) {
+    return this.authService.login(loginDto.username, loginDto.password);
+  }
+
+  /**
+   * GET /auth/me
+   */
+  @Get('me')
+  me(@CurrentUser() user: AuthUser) {
+    return user;
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Get('users')
+  async findUsers() {
+    return this.authService.findUsers();
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Post('users')
+  async createUser(@Body() createDto: CreateUserDto) {
+    return this.authService.createUser(createDto);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Patch('users/:id')
+  async updateUser(@Param('id') id: string, @Body() updateDto: UpdateUserDto) {
+    return this.authService.updateUser(id, updateDto);
+  }
+}
@@ -0,0 +1,169 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from '../../entities/user.entity';
+import { AuthConfig, getAuthConfig } from '../../config/auth.config';
+import {
+  hashPassword,
+  signJwt,
+  verifyJwt,
+  verifyPassword,
+} from '../../utils/auth.utils';
+import { AuthUser, ROLES, Role } from './constants/auth.constants';
+import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+
+@Injectable()
+export class AuthService implements OnModuleInit {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly authConfig: AuthConfig;
+
+  constructor(
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private configService: ConfigService,
+  ) {
+    this.authConfig = getAuthConfig(this.configService);
+  }
+
+  /**
+   * Tạo tài khoản admin đầu tiên từ AUTH_ADMIN_USERNAME / AUTH_ADMIN_PASSWORD khi chưa có user nào
+   */
+  async onModuleInit() {
+    const userCount = await this.userRepository.count();
+    if (userCount > 0) {
+      return;
+    }
+
+    const username = this.configService.get<string>('AUTH_ADMIN_USERNAME');
+    const password = this.configService.get<string>('AUTH_ADMIN_PASSWORD');
+    if (!username || !password) {
+      this.logger.warn(
+        'Chưa có người dùng nào. Cấu hình AUTH_ADMIN_USERNAME và AUTH_ADMIN_PASSWORD để tạo tài khoản admin',
+      );
+      return;
+    }
+
+    await this.userRepository.save(
+      this.userRepository.create({
+        username,
+        passwordHash: hashPassword(password),
+        fullName: 'Administrator',
+        role: ROLES.ADMIN,
+      }),
+    );
+    this.logger.log(`Đã tạo tài khoản admin ${username}`);
+  }
+
+  async login(username: string, password: string) {
+    const user = await this.userRepository
+      .createQueryBuilder('user')
+      .addSelect('user.passwordHash')
+      .where('user.username = :username', { username })
+      .getOne();
+
+    if (
+      !user ||
+      !user.isActive ||
+      !verifyPassword(password, user.passwordHash)
+    ) {
+      throw new UnauthorizedException('Sai tên đăng nhập hoặc mật khẩu');
+    }
+
+    await this.userRepository.update(user.id, { lastLoginAt: new Date() });
+
+    const accessToken = signJwt(
+      { sub: user.id, username: user.username, role: user.role },
+      this.authConfig.jwtSecret,
+      this.authConfig.expiresInSeconds,
+    );
+
+    return {
+      accessToken,
+      expiresIn: this.authConfig.expiresInSeconds,
+      user: this.toAuthUser(user),
+    };
+  }
+
+  /**
+   * Xác thực token và kiểm tra user còn hoạt động.
+   * Role lấy từ DB nên đổi quyền / khóa tài khoản có hiệu lực ngay, không cần chờ token hết hạn
+   */
+  async authenticateToken(token: string): Promise<AuthUser | null> {
+    const payload = verifyJwt(token, this.authConfig.jwtSecret);
+    if (!payload?.sub) {
+      return null;
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { id: payload.sub },
+    });
+    if (!user || !user.isActive) {
+      return null;
+    }
+    return this.toAuthUser(user);
+  }
+
+  async findUsers() {
+    return this.userRepository.find({ order: { username: 'ASC' } });
+  }
+
+  async createUser(createDto: CreateUserDto) {
+    const existing = await this.userRepository.findOne({
+      where: { username: createDto.username },
+    });
+    if (existing) {
+      throw new BadRequestException(
+        `Tên đăng nhập ${createDto.username} đã tồn tại`,
+      );
+    }
+
+    const user = await this.userRepository.save(
+      this.userRepository.create({
+        username: createDto.username,
+        passwordHash: hashPassword(createDto.password),
+        fullName: createDto.fullName,
+        role: createDto.role,
+      }),
+    );
+    return this.findUser(user.id);
+  }
+
+  async updateUser(id: string, updateDto: UpdateUserDto) {
+    const user = await this.findUser(id);
+
+    if (updateDto.password) {
+      user.passwordHash = hashPassword(updateDto.password);
+    }
+    if (updateDto.fullName !== undefined) user.fullName = updateDto.fullName;
+    if (updateDto.role !== undefined) user.role = updateDto.role;
+    if (updateDto.isActive !== undefined) user.isActive = updateDto.isActive;
+
+    await this.userRepository.save(user);
+    return this.findUser(id);
+  }
+
+  async findUser(id: string) {
+    const user = await this.userRepository.findOne({ where: { id } });
+    if (!user) {
+      throw new NotFoundException(`User ${id} not found`);
+    }
+    return user;
+  }
+
+  private toAuthUser(user: User): AuthUser {
+    return {
+      id: user.id,
+      username: user.username,
+      role: user.role as Role,
+    };
+  }
+}
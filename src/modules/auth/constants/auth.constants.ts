@@ -0,0 +1,29 @@
+/**
+ * Vai trò người dùng
+ * - viewer: chỉ xem (GET)
+ * - accountant: tạo / gửi chứng từ sang Fast, cập nhật danh mục
+ * - sync-operator: đồng bộ dữ liệu từ Zappy / các DB nguồn
+ * - admin: toàn quyền (kể cả xóa dữ liệu, quản lý người dùng)
+ */
+export const ROLES = {
+  VIEWER: 'viewer',
+  ACCOUNTANT: 'accountant',
+  SYNC_OPERATOR: 'sync-operator',
+  ADMIN: 'admin',
+} as const;
+
+export type Role = (typeof ROLES)[keyof typeof ROLES];
+
+export const ALL_ROLES: Role[] = Object.values(ROLES);
+
+export const IS_PUBLIC_KEY = 'isPublic';
+export const ROLES_KEY = 'roles';
+
+/**
+ * Thông tin người dùng gắn vào request sau khi xác thực
+ */
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: Role;
+}
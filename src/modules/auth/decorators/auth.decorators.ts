@@ -0,0 +1,25 @@
+import {
+  SetMetadata,
+  createParamDecorator,
+  ExecutionContext,
+} from '@nestjs/common';
+import { IS_PUBLIC_KEY, ROLES_KEY, Role } from '../constants/auth.constants';
+
+/**
+ * Route không cần đăng nhập
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+/**
+ * Giới hạn route cho các vai trò (admin luôn được phép).
+ * Route không khai báo: GET cho mọi người dùng đã đăng nhập, còn lại chỉ admin.
+ */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
+
+/**
+ * Lấy người dùng hiện tại (AuthUser) từ request
+ */
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext) =>
+    ctx.switchToHttp().getRequest().user,
+);
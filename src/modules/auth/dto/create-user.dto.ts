@@ -0,0 +1,19 @@
+import { IsIn, IsOptional, IsString, MinLength } from 'class-validator';
+import { ALL_ROLES } from '../constants/auth.constants';
+import type { Role } from '../constants/auth.constants';
+
+export class CreateUserDto {
+  @IsString()
+  username: string;
+
+  @IsString()
+  @MinLength(8)
+  password: string;
+
+  @IsString()
+  @IsOptional()
+  fullName?: string;
+
+  @IsIn(ALL_ROLES)
+  role: Role;
+}
@@ -0,0 +1,28 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  MinLength,
+} from 'class-validator';
+import { ALL_ROLES } from '../constants/auth.constants';
+import type { Role } from '../constants/auth.constants';
+
+export class UpdateUserDto {
+  @IsString()
+  @MinLength(8)
+  @IsOptional()
+  password?: string;
+
+  @IsString()
+  @IsOptional()
+  fullName?: string;
+
+  @IsIn(ALL_ROLES)
+  @IsOptional()
+  role?: Role;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
@@ -0,0 +1,44 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthService } from '../auth.service';
+import { IS_PUBLIC_KEY } from '../constants/auth.constants';
+
+/**
+ * Guard toàn cục: yêu cầu header Authorization: Bearer <token> cho mọi route trừ @Public()
+ */
+@Injectable()
+export class JwtAuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isPublic) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const [type, token] = (request.headers?.authorization || '').split(' ');
+    if (type !== 'Bearer' || !token) {
+      throw new UnauthorizedException('Chưa đăng nhập');
+    }
+
+    const user = await this.authService.authenticateToken(token);
+    if (!user) {
+      throw new UnauthorizedException('Token không hợp lệ hoặc đã hết hạn');
+    }
+
+    request.user = user;
+    return true;
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  AuthUser,
+  IS_PUBLIC_KEY,
+  ROLES,
+  ROLES_KEY,
+  Role,
+} from '../constants/auth.constants';
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Guard toàn cục kiểm tra vai trò (chạy sau JwtAuthGuard)
+ * - Route có @Roles(): chỉ các vai trò được khai báo (và admin)
+ * - Route không khai báo: GET cho mọi vai trò, thao tác ghi chỉ admin
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isPublic) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user: AuthUser | undefined = request.user;
+    if (!user) {
+      return false;
+    }
+    if (user.role === ROLES.ADMIN) {
+      return true;
+    }
+
+    const requiredRoles = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (requiredRoles) {
+      if (requiredRoles.includes(user.role)) {
+        return true;
+      }
+    } else if (READ_METHODS.includes(request.method)) {
+      return true;
+    }
+
+    throw new ForbiddenException(
+      `Vai trò ${user.role} không có quyền thực hiện thao tác này`,
+    );
+  }
+}
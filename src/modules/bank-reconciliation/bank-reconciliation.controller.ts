@@ -0,0 +1,240 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Query,
+  Res,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Response } from 'express';
+import { BankStatementImportService } from './bank-statement-import.service';
+import {
+  BankReconciliationQuery,
+  BankReconciliationService,
+} from './bank-reconciliation.service';
+import { AutoMatchDto } from './dto/auto-match.dto';
+import {
+  MatchStatementLineDto,
+  UnmatchStatementLineDto,
+} from './dto/match-statement-line.dto';
+import { CurrentUser, Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
+import type { AuthUser } from '../auth/constants/auth.constants';
+
+@Controller('bank-reconciliation')
+export class BankReconciliationController {
+  constructor(
+    private readonly bankStatementImportService: BankStatementImportService,
+    private readonly bankReconciliationService: BankReconciliationService,
+  ) {}
+
+  /**
+   * Danh sách định dạng sao kê / file quyết toán hỗ trợ
+   */
+  @Get('sources')
+  getSources() {
+    return this.bankStatementImportService.getSources();
+  }
+
+  /**
+   * Upload sao kê ngân hàng hoặc file quyết toán VNPAY / PAYOO
+   * Không truyền source thì tự nhận diện định dạng; mặc định tự khớp các dòng vừa import (autoMatch=false để bỏ qua)
+   */
+  @Roles(ROLES.ACCOUNTANT)
+  @Post('statements/import')
+  @UseInterceptors(FileInterceptor('file'))
+  async importStatement(
+    @UploadedFile() file: Express.Multer.File,
+    @Body()
+    body: {
+      source?: string;
+      bankCode?: string;
+      accountNo?: string;
+      autoMatch?: string;
+    },
+    @CurrentUser() user?: AuthUser,
+  ) {
+    if (!file) {
+      throw new BadRequestException('File không được tìm thấy');
+    }
+
+    const allowedMimes = [
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-excel',
+      'text/csv',
+    ];
+
+    if (!allowedMimes.includes(file.mimetype)) {
+      throw new BadRequestException(
+        'File không hợp lệ. Vui lòng upload file Excel (.xlsx, .xls) hoặc CSV',
+      );
+    }
+
+    const statementImport =
+      await this.bankStatementImportService.importStatement(
+        file,
+        {
+          source: body.source,
+          bankCode: body.bankCode,
+          accountNo: body.accountNo,
+        },
+        user?.username,
+      );
+
+    const matchResult =
+      body.autoMatch !== 'false' && statementImport.importedRows > 0
+        ? await this.bankReconciliationService.autoMatch(
+            { importId: statementImport.id },
+            user?.username,
+          )
+        : null;
+
+    return {
+      message: `Đã import ${statementImport.importedRows}/${statementImport.totalRows} dòng (${statementImport.duplicateRows} trùng, ${statementImport.skippedRows} bỏ qua, ${statementImport.invalidRows} lỗi)`,
+      import: statementImport,
+      autoMatch: matchResult,
+    };
+  }
+
+  @Get('statements/imports')
+  async findImports(
+    @Query('source') source?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.bankStatementImportService.findImports({
+      source,
+      page: page ? parseInt(page, 10) : 1,
+      limit: limit ? parseInt(limit, 10) : 20,
+    });
+  }
+
+  /**
+   * Xoá 1 lần import cùng các dòng sao kê (kể cả dòng đã khớp)
+   */
+  @Roles(ROLES.ADMIN)
+  @Delete('statements/imports/:id')
+  async removeImport(@Param('id') id: string) {
+    return this.bankStatementImportService.removeImport(id);
+  }
+
+  /**
+   * Dòng sao kê đã import
+   * matchStatus: MATCHED | UNMATCHED
+   */
+  @Get('statements')
+  async findLines(
+    @Query('importId') importId?: string,
+    @Query('matchStatus') matchStatus?: string,
+    @Query('dateFrom') dateFrom?: string,
+    @Query('dateTo') dateTo?: string,
+    @Query('search') search?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.bankStatementImportService.findLines({
+      importId,
+      matchStatus,
+      dateFrom,
+      dateTo,
+      search,
+      page: page ? parseInt(page, 10) : 1,
+      limit: limit ? parseInt(limit, 10) : 50,
+    });
+  }
+
+  @Roles(ROLES.ACCOUNTANT)
+  @Post('auto-match')
+  async autoMatch(@Body() body: AutoMatchDto, @CurrentUser() user: AuthUser) {
+    return this.bankReconciliationService.autoMatch(body, user?.username);
+  }
+
+  @Roles(ROLES.ACCOUNTANT)
+  @Post('statements/:lineId/match')
+  async match(
+    @Param('lineId') lineId: string,
+    @Body() body: MatchStatementLineDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.bankReconciliationService.match(
+      lineId,
+      body.dailyCashioId,
+      body.note,
+      user?.username,
+    );
+  }
+
+  @Roles(ROLES.ACCOUNTANT)
+  @Post('statements/:lineId/unmatch')
+  async unmatch(
+    @Param('lineId') lineId: string,
+    @Body() body: UnmatchStatementLineDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.bankReconciliationService.unmatch(
+      lineId,
+      body?.note,
+      user?.username,
+    );
+  }
+
+  /**
+   * Báo cáo chưa khớp: tiền về chưa có phiếu thu, phiếu thu thẻ / chuyển khoản chưa thấy tiền về
+   */
+  @Get('report')
+  async getReport(
+    @Query('dateFrom') dateFrom: string,
+    @Query('dateTo') dateTo: string,
+    @Query('brand') brand?: string,
+    @Query('bankCode') bankCode?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.bankReconciliationService.getReport(
+      this.buildQuery(dateFrom, dateTo, brand, bankCode),
+      {
+        page: page ? parseInt(page, 10) : 1,
+        limit: limit ? parseInt(limit, 10) : 50,
+      },
+    );
+  }
+
+  @Get('report/export')
+  async exportReport(
+    @Res() res: Response,
+    @Query('dateFrom') dateFrom: string,
+    @Query('dateTo') dateTo: string,
+    @Query('brand') brand?: string,
+    @Query('bankCode') bankCode?: string,
+  ) {
+    const buffer = await this.bankReconciliationService.exportReport(
+      this.buildQuery(dateFrom, dateTo, brand, bankCode),
+    );
+
+    res.setHeader(
+      'Content-Type',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="Doi_soat_ngan_hang_${dateFrom}_${dateTo}.xlsx"`,
+    );
+    res.setHeader('Content-Length', buffer.length);
+    res.send(buffer);
+  }
+
+  private buildQuery(
+    dateFrom: string,
+    dateTo: string,
+    brand?: string,
+    bankCode?: string,
+  ): BankReconciliationQuery {
+    return { dateFrom, dateTo, brand, bankCode };
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { BankStatementImport } from '../../entities/bank-statement-import.entity';
+import { BankStatementLine } from '../../entities/bank-statement-line.entity';
+import { DailyCashio } from '../../entities/daily-cashio.entity';
+import { CategoriesModule } from '../categories/categories.module';
+import { BankReconciliationController } from './bank-reconciliation.controller';
+import { BankReconciliationService } from './bank-reconciliation.service';
+import { BankStatementImportService } from './bank-statement-import.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      BankStatementImport,
+      BankStatementLine,
+      DailyCashio,
+    ]),
+    CategoriesModule,
+  ],
+  controllers: [BankReconciliationController],
+  providers: [BankStatementImportService, BankReconciliationService],
+  exports: [BankStatementImportService, BankReconciliationService],
+})
+export class BankReconciliationModule {}
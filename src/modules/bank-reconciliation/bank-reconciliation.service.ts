@@ -0,0 +1,598 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as _ from 'lodash';
+import * as XLSX from 'xlsx';
+import { DailyCashio } from '../../entities/daily-cashio.entity';
+import {
+  BANK_STATEMENT_MATCH_STATUS,
+  BankStatementLine,
+} from '../../entities/bank-statement-line.entity';
+import { CategoriesService } from '../categories/categories.service';
+import {
+  BANK_MATCH_RULES,
+  DEFAULT_MATCH_DATE_WINDOW_DAYS,
+  normalizeStatementReference,
+} from './constants/bank-reconciliation.constants';
+
+const LOOKUP_CHUNK_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Số tham chiếu ngắn hơn dễ trùng ngẫu nhiên trong nội dung chuyển khoản
+const MIN_REFERENCE_LENGTH = 6;
+
+export interface BankReconciliationQuery {
+  dateFrom: string; // YYYY-MM-DD
+  dateTo: string; // YYYY-MM-DD
+  brand?: string; // Lọc phiếu thu (daily_cashio.brand)
+  bankCode?: string; // Lọc dòng sao kê
+}
+
+export interface BankAutoMatchParams {
+  dateFrom?: string; // YYYY-MM-DD
+  dateTo?: string; // YYYY-MM-DD
+  importId?: string;
+  dateWindowDays?: number;
+}
+
+/**
+ * Đối chiếu tiền về tài khoản (bank_statement_lines) với phiếu thu thẻ / chuyển khoản (daily_cashio)
+ * Phiếu thu được đối chiếu: hình thức thanh toán loại "Giấy báo có" (đã gửi Fast dạng báo có), tiền vào > 0
+ */
+@Injectable()
+export class BankReconciliationService {
+  private readonly logger = new Logger(BankReconciliationService.name);
+
+  constructor(
+    @InjectRepository(BankStatementLine)
+    private lineRepository: Repository<BankStatementLine>,
+
+    @InjectRepository(DailyCashio)
+    private dailyCashioRepository: Repository<DailyCashio>,
+
+    private categoriesService: CategoriesService,
+  ) {}
+
+  /**
+   * Tự động khớp dòng sao kê chưa khớp với phiếu thu
+   * Lượt 1: số tham chiếu (refno / so_code xuất hiện trong số tham chiếu hoặc nội dung) + số tiền + khoảng ngày
+   * Lượt 2: số tiền + khoảng ngày, chỉ khi dòng sao kê và phiếu thu là ứng viên duy nhất của nhau
+   */
+  async autoMatch(params: BankAutoMatchParams, matchedBy?: string) {
+    if (!params.importId && (!params.dateFrom || !params.dateTo)) {
+      throw new BadRequestException(
+        'Cần importId hoặc khoảng ngày dateFrom, dateTo (YYYY-MM-DD)',
+      );
+    }
+    const windowMs =
+      (params.dateWindowDays ?? DEFAULT_MATCH_DATE_WINDOW_DAYS) * DAY_MS;
+
+    const lineQuery = this.lineRepository
+      .createQueryBuilder('line')
+      .where('line.matchStatus = :unmatched', {
+        unmatched: BANK_STATEMENT_MATCH_STATUS.UNMATCHED,
+      });
+    if (params.importId) {
+      lineQuery.andWhere('line.importId = :importId', {
+        importId: params.importId,
+      });
+    }
+    if (params.dateFrom && params.dateTo) {
+      lineQuery.andWhere('line.transactionDate BETWEEN :dateFrom AND :dateTo', {
+        dateFrom: params.dateFrom,
+        dateTo: `${params.dateTo} 23:59:59`,
+      });
+    }
+    const lines = await lineQuery.getMany();
+    if (lines.length === 0) {
+      return {
+        totalLines: 0,
+        matched: 0,
+        byRule: {
+          [BANK_MATCH_RULES.REFERENCE]: 0,
+          [BANK_MATCH_RULES.AMOUNT_DATE]: 0,
+        },
+        unmatched: 0,
+      };
+    }
+
+    const times = lines.map((line) => new Date(line.transactionDate).getTime());
+    const cashios = await this.findUnmatchedCashio({
+      dateFrom: new Date(_.min(times)! - windowMs),
+      dateTo: new Date(_.max(times)! + windowMs),
+      amounts: _.uniq(lines.map((line) => Math.round(Number(line.amount)))),
+    });
+    const cashiosByAmount = _.groupBy(cashios, (cashio) =>
+      Math.round(Number(cashio.total_in)),
+    );
+
+    const usedCashioIds = new Set<string>();
+    const candidatesOf = (line: BankStatementLine) =>
+      (cashiosByAmount[Math.round(Number(line.amount))] || []).filter(
+        (cashio) =>
+          !usedCashioIds.has(cashio.id) &&
+          Math.abs(
+            new Date(cashio.docdate).getTime() -
+              new Date(line.transactionDate).getTime(),
+          ) <= windowMs,
+      );
+    const distance = (line: BankStatementLine, cashio: DailyCashio) =>
+      Math.abs(
+        new Date(cashio.docdate).getTime() -
+          new Date(line.transactionDate).getTime(),
+      );
+
+    const matches: Array<{
+      line: BankStatementLine;
+      cashio: DailyCashio;
+      rule: string;
+    }> = [];
+
+    // Lượt 1: số tham chiếu
+    for (const line of lines) {
+      const lineText = normalizeStatementReference(
+        `${line.reference || ''} ${line.description || ''}`,
+      );
+      const cashio = _.minBy(
+        candidatesOf(line).filter((candidate) =>
+          [candidate.refno, candidate.so_code].some((reference) => {
+            const key = normalizeStatementReference(reference);
+            return key.length >= MIN_REFERENCE_LENGTH && lineText.includes(key);
+          }),
+        ),
+        (candidate) => distance(line, candidate),
+      );
+      if (cashio) {
+        usedCashioIds.add(cashio.id);
+        matches.push({ line, cashio, rule: BANK_MATCH_RULES.REFERENCE });
+      }
+    }
+
+    // Lượt 2: số tiền + khoảng ngày, ứng viên duy nhất ở cả hai phía
+    const matchedLineIds = new Set(matches.map(({ line }) => line.id));
+    const remaining = lines.filter((line) => !matchedLineIds.has(line.id));
+    const lineCandidates = new Map(
+      remaining.map((line) => [
+        line.id,
+        candidatesOf(line).filter(
+          (cashio) =>
+            !line.bankCode ||
+            !cashio.bank_code ||
+            line.bankCode.toUpperCase() === cashio.bank_code.toUpperCase(),
+        ),
+      ]),
+    );
+    const cashioLineCounts = _.countBy(
+      [...lineCandidates.values()].flat(),
+      (cashio) => cashio.id,
+    );
+    for (const line of remaining) {
+      const candidates = lineCandidates.get(line.id) || [];
+      if (candidates.length === 1 && cashioLineCounts[candidates[0].id] === 1) {
+        usedCashioIds.add(candidates[0].id);
+        matches.push({
+          line,
+          cashio: candidates[0],
+          rule: BANK_MATCH_RULES.AMOUNT_DATE,
+        });
+      }
+    }
+
+    let matched = 0;
+    const byRule: Record<string, number> = {
+      [BANK_MATCH_RULES.REFERENCE]: 0,
+      [BANK_MATCH_RULES.AMOUNT_DATE]: 0,
+    };
+    for (const { line, cashio, rule } of matches) {
+      try {
+        // Chỉ cập nhật dòng còn UNMATCHED; unique dailyCashioId chặn 2 dòng cùng khớp 1 phiếu thu
+        const result = await this.lineRepository.update(
+          { id: line.id, matchStatus: BANK_STATEMENT_MATCH_STATUS.UNMATCHED },
+          {
+            matchStatus: BANK_STATEMENT_MATCH_STATUS.MATCHED,
+            dailyCashioId: cashio.id,
+            matchRule: rule,
+            matchNote: null,
+            matchedBy: matchedBy || null,
+            matchedAt: new Date(),
+          },
+        );
+        if (result.affected) {
+          matched++;
+          byRule[rule]++;
+        }
+      } catch (error: any) {
+        this.logger.warn(
+          `[BankReconciliation] Không khớp được dòng sao kê ${line.id} với phiếu thu ${cashio.code}: ${error?.message || error}`,
+        );
+      }
+    }
+
+    this.logger.log(
+      `[BankReconciliation] Tự động khớp ${matched}/${lines.length} dòng sao kê`,
+    );
+    return {
+      totalLines: lines.length,
+      matched,
+      byRule,
+      unmatched: lines.length - matched,
+    };
+  }
+
+  /**
+   * Khớp tay 1 dòng sao kê với 1 phiếu thu giấy báo có cùng số tiền
+   */
+  async match(
+    lineId: string,
+    dailyCashioId: string,
+    note?: string,
+    matchedBy?: string,
+  ) {
+    const line = await this.findLine(lineId);
+    if (line.matchStatus === BANK_STATEMENT_MATCH_STATUS.MATCHED) {
+      throw new BadRequestException(
+        `Dòng sao kê đã khớp với phiếu thu ${line.dailyCashioId}, cần bỏ khớp trước`,
+      );
+    }
+    const cashio = await this.dailyCashioRepository.findOne({
+      where: { id: dailyCashioId },
+    });
+    if (!cashio) {
+      throw new NotFoundException(`Daily cashio ${dailyCashioId} not found`);
+    }
+    const fopCodes = await this.getCreditAdviceFopCodes();
+    if (
+      !fopCodes.includes(cashio.fop_syscode) ||
+      !(Number(cashio.total_in) > 0)
+    ) {
+      throw new BadRequestException(
+        `Phiếu thu ${cashio.code} không phải phiếu thu giấy báo có (hình thức thanh toán ${cashio.fop_syscode || 'trống'})`,
+      );
+    }
+    if (
+      Math.round(Number(cashio.total_in)) !== Math.round(Number(line.amount))
+    ) {
+      throw new BadRequestException(
+        `Số tiền phiếu thu ${cashio.code} (${Number(cashio.total_in)}) khác số tiền dòng sao kê (${Number(line.amount)})`,
+      );
+    }
+    const existing = await this.lineRepository.findOne({
+      where: { dailyCashioId },
+    });
+    if (existing) {
+      throw new BadRequestException(
+        `Phiếu thu ${cashio.code} đã khớp với dòng sao kê ${existing.reference || existing.id}`,
+      );
+    }
+
+    // Cập nhật có điều kiện như autoMatch; unique dailyCashioId chặn khớp đồng thời cùng 1 phiếu thu
+    const result = await this.lineRepository
+      .update(
+        { id: lineId, matchStatus: BANK_STATEMENT_MATCH_STATUS.UNMATCHED },
+        {
+          matchStatus: BANK_STATEMENT_MATCH_STATUS.MATCHED,
+          dailyCashioId,
+          matchRule: BANK_MATCH_RULES.MANUAL,
+          matchNote: note?.trim() || null,
+          matchedBy: matchedBy || null,
+          matchedAt: new Date(),
+        },
+      )
+      .catch((error) => {
+        if (error?.code === '23505') {
+          throw new BadRequestException(
+            `Phiếu thu ${cashio.code} vừa được khớp với dòng sao kê khác`,
+          );
+        }
+        throw error;
+      });
+    if (!result.affected) {
+      throw new BadRequestException(
+        'Dòng sao kê vừa được khớp bởi yêu cầu khác, cần bỏ khớp trước',
+      );
+    }
+    return this.findLine(lineId);
+  }
+
+  async unmatch(lineId: string, note?: string, unmatchedBy?: string) {
+    const line = await this.findLine(lineId);
+    if (line.matchStatus !== BANK_STATEMENT_MATCH_STATUS.MATCHED) {
+      throw new BadRequestException('Dòng sao kê chưa được khớp');
+    }
+    this.logger.log(
+      `[BankReconciliation] ${unmatchedBy || 'unknown'} bỏ khớp dòng sao kê ${line.id} với phiếu thu ${line.dailyCashioId}`,
+    );
+    Object.assign(line, {
+      matchStatus: BANK_STATEMENT_MATCH_STATUS.UNMATCHED,
+      dailyCashioId: null,
+      matchRule: null,
+      matchNote: note?.trim() || null,
+      matchedBy: unmatchedBy || null,
+      matchedAt: null,
+    });
+    return this.lineRepository.save(line);
+  }
+
+  /**
+   * Báo cáo chưa khớp 2 phía: dòng sao kê chưa có phiếu thu, phiếu thu chưa thấy tiền về
+   */
+  async getReport(
+    query: BankReconciliationQuery,
+    options: { page?: number; limit?: number } = {},
+  ) {
+    this.validateQuery(query);
+    const page = options.page || 1;
+    const limit = options.limit || 50;
+    const [summary, statementLines, cashio] = await Promise.all([
+      this.summarize(query),
+      this.buildUnmatchedLineQuery(query)
+        .skip((page - 1) * limit)
+        .take(limit)
+        .getManyAndCount(),
+      // Join 1-1 với dòng sao kê nên phân trang trực tiếp bằng offset / limit
+      this.buildUnmatchedCashioQuery(query).then((cashioQuery) =>
+        cashioQuery
+          .offset((page - 1) * limit)
+          .limit(limit)
+          .getManyAndCount(),
+      ),
+    ]);
+
+    const toPage = <T>([data, total]: [T[], number]) => ({
+      data,
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    });
+    return {
+      summary,
+      statementLines: toPage(statementLines),
+      cashio: toPage(cashio),
+    };
+  }
+
+  /**
+   * Xuất Excel: sheet tổng hợp + dòng sao kê chưa khớp + phiếu thu chưa khớp
+   */
+  async exportReport(query: BankReconciliationQuery): Promise<Buffer> {
+    this.validateQuery(query);
+    const summary = await this.summarize(query);
+    const lines = await this.buildUnmatchedLineQuery(query).getMany();
+    const cashios = await (
+      await this.buildUnmatchedCashioQuery(query)
+    ).getMany();
+
+    const summaryRows = [
+      { 'Chỉ tiêu': 'Từ ngày', 'Giá trị': query.dateFrom },
+      { 'Chỉ tiêu': 'Đến ngày', 'Giá trị': query.dateTo },
+      {
+        'Chỉ tiêu': 'Dòng sao kê đã khớp',
+        'Giá trị': summary.statement.matchedCount,
+      },
+      {
+        'Chỉ tiêu': 'Số tiền sao kê đã khớp',
+        'Giá trị': summary.statement.matchedAmount,
+      },
+      {
+        'Chỉ tiêu': 'Dòng sao kê chưa khớp',
+        'Giá trị': summary.statement.unmatchedCount,
+      },
+      {
+        'Chỉ tiêu': 'Số tiền sao kê chưa khớp',
+        'Giá trị': summary.statement.unmatchedAmount,
+      },
+      {
+        'Chỉ tiêu': 'Phiếu thu đã khớp',
+        'Giá trị': summary.cashio.matchedCount,
+      },
+      {
+        'Chỉ tiêu': 'Số tiền phiếu thu đã khớp',
+        'Giá trị': summary.cashio.matchedAmount,
+      },
+      {
+        'Chỉ tiêu': 'Phiếu thu chưa khớp',
+        'Giá trị': summary.cashio.unmatchedCount,
+      },
+      {
+        'Chỉ tiêu': 'Số tiền phiếu thu chưa khớp',
+        'Giá trị': summary.cashio.unmatchedAmount,
+      },
+    ];
+    const lineRows = lines.map((line) => ({
+      Nguồn: line.source,
+      'Ngân hàng': line.bankCode || '',
+      'Số tài khoản': line.accountNo || '',
+      'Ngày giao dịch': new Date(line.transactionDate).toLocaleString('vi-VN'),
+      'Số tiền': Number(line.amount),
+      'Số tham chiếu': line.reference || '',
+      'Nội dung': line.description || '',
+      'Người chuyển': line.counterparty || '',
+      'Dòng trong file': line.rowNumber,
+    }));
+    const cashioRows = cashios.map((cashio) => ({
+      'Mã phiếu thu': cashio.code,
+      'Mã đơn hàng': cashio.so_code,
+      Brand: cashio.brand || '',
+      'Chi nhánh': cashio.branch_code || '',
+      'Mã HTTT': cashio.fop_syscode || '',
+      'Ngân hàng': cashio.bank_code || '',
+      Ngày: new Date(cashio.docdate).toLocaleString('vi-VN'),
+      'Số tiền': Number(cashio.total_in),
+      'Số tham chiếu': cashio.refno || '',
+    }));
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet(summaryRows),
+      'Tổng hợp',
+    );
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet(lineRows),
+      'Sao kê chưa khớp',
+    );
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet(cashioRows),
+      'Phiếu thu chưa khớp',
+    );
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+  }
+
+  private async summarize(query: BankReconciliationQuery) {
+    const lineQuery = this.lineRepository
+      .createQueryBuilder('line')
+      .select('line.matchStatus', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .addSelect('COALESCE(SUM(line.amount), 0)', 'amount')
+      .where('line.transactionDate BETWEEN :dateFrom AND :dateTo', {
+        dateFrom: query.dateFrom,
+        dateTo: `${query.dateTo} 23:59:59`,
+      })
+      .groupBy('line.matchStatus');
+    if (query.bankCode) {
+      lineQuery.andWhere('line.bankCode = :bankCode', {
+        bankCode: query.bankCode,
+      });
+    }
+    const lineTotals = await lineQuery.getRawMany();
+    const lineTotal = (status: string) =>
+      lineTotals.find((row) => row.status === status);
+
+    const cashioTotals = await (await this.buildCashioQuery(query))
+      .select('line.id IS NULL', 'unmatched')
+      .addSelect('COUNT(*)', 'count')
+      .addSelect('COALESCE(SUM(ds.total_in), 0)', 'amount')
+      .groupBy('line.id IS NULL')
+      .getRawMany();
+    const cashioTotal = (status: string) =>
+      cashioTotals.find(
+        (row) =>
+          row.unmatched === (status === BANK_STATEMENT_MATCH_STATUS.UNMATCHED),
+      );
+
+    const toTotals = (find: (status: string) => any) => ({
+      matchedCount: parseInt(
+        find(BANK_STATEMENT_MATCH_STATUS.MATCHED)?.count || 0,
+      ),
+      matchedAmount: parseFloat(
+        find(BANK_STATEMENT_MATCH_STATUS.MATCHED)?.amount || 0,
+      ),
+      unmatchedCount: parseInt(
+        find(BANK_STATEMENT_MATCH_STATUS.UNMATCHED)?.count || 0,
+      ),
+      unmatchedAmount: parseFloat(
+        find(BANK_STATEMENT_MATCH_STATUS.UNMATCHED)?.amount || 0,
+      ),
+    });
+    return {
+      dateFrom: query.dateFrom,
+      dateTo: query.dateTo,
+      statement: toTotals(lineTotal),
+      cashio: toTotals(cashioTotal),
+    };
+  }
+
+  private buildUnmatchedLineQuery(query: BankReconciliationQuery) {
+    const lineQuery = this.lineRepository
+      .createQueryBuilder('line')
+      .where('line.matchStatus = :unmatched', {
+        unmatched: BANK_STATEMENT_MATCH_STATUS.UNMATCHED,
+      })
+      .andWhere('line.transactionDate BETWEEN :dateFrom AND :dateTo', {
+        dateFrom: query.dateFrom,
+        dateTo: `${query.dateTo} 23:59:59`,
+      })
+      .orderBy('line.transactionDate', 'ASC')
+      .addOrderBy('line.rowNumber', 'ASC');
+    if (query.bankCode) {
+      lineQuery.andWhere('line.bankCode = :bankCode', {
+        bankCode: query.bankCode,
+      });
+    }
+    return lineQuery;
+  }
+
+  private async buildUnmatchedCashioQuery(query: BankReconciliationQuery) {
+    return (await this.buildCashioQuery(query))
+      .andWhere('line.id IS NULL')
+      .orderBy('ds.docdate', 'ASC');
+  }
+
+  /**
+   * Phiếu thu thẻ / chuyển khoản trong kỳ, join dòng sao kê đã khớp (alias line)
+   */
+  private async buildCashioQuery(query: BankReconciliationQuery) {
+    const fopCodes = await this.getCreditAdviceFopCodes();
+    const cashioQuery = this.dailyCashioRepository
+      .createQueryBuilder('ds')
+      .leftJoin(BankStatementLine, 'line', 'line.dailyCashioId = ds.id')
+      .where('ds.docdate BETWEEN :dateFrom AND :dateTo', {
+        dateFrom: query.dateFrom,
+        dateTo: `${query.dateTo} 23:59:59`,
+      })
+      .andWhere('ds.total_in > 0')
+      .andWhere('ds.fop_syscode IN (:...fopCodes)', {
+        fopCodes: fopCodes.length > 0 ? fopCodes : [''],
+      });
+    if (query.brand) {
+      cashioQuery.andWhere('ds.brand = :brand', { brand: query.brand });
+    }
+    return cashioQuery;
+  }
+
+  private async findUnmatchedCashio(params: {
+    dateFrom: Date;
+    dateTo: Date;
+    amounts: number[];
+  }): Promise<DailyCashio[]> {
+    const fopCodes = await this.getCreditAdviceFopCodes();
+    if (fopCodes.length === 0) {
+      return [];
+    }
+    const result: DailyCashio[] = [];
+    for (const amounts of _.chunk(params.amounts, LOOKUP_CHUNK_SIZE)) {
+      const cashios = await this.dailyCashioRepository
+        .createQueryBuilder('ds')
+        .leftJoin(BankStatementLine, 'line', 'line.dailyCashioId = ds.id')
+        .where('line.id IS NULL')
+        .andWhere('ds.docdate BETWEEN :dateFrom AND :dateTo', {
+          dateFrom: params.dateFrom,
+          dateTo: params.dateTo,
+        })
+        .andWhere('ds.fop_syscode IN (:...fopCodes)', { fopCodes })
+        .andWhere('ROUND(ds.total_in) IN (:...amounts)', { amounts })
+        .getMany();
+      result.push(...cashios);
+    }
+    return result;
+  }
+
+  /**
+   * Hình thức thanh toán được gửi Fast dạng giấy báo có (thẻ, chuyển khoản, cổng thanh toán)
+   */
+  private async getCreditAdviceFopCodes(): Promise<string[]> {
+    const codes = await this.categoriesService.getGiayBaoCoPaymentMethodCodes();
+    return _.uniq(codes.filter((code) => code && code !== 'CASH'));
+  }
+
+  private async findLine(id: string) {
+    const line = await this.lineRepository.findOne({ where: { id } });
+    if (!line) {
+      throw new NotFoundException(`Bank statement line ${id} not found`);
+    }
+    return line;
+  }
+
+  private validateQuery(query: BankReconciliationQuery) {
+    if (!query.dateFrom || !query.dateTo) {
+      throw new BadRequestException(
+        'Tham số dateFrom và dateTo là bắt buộc (format: YYYY-MM-DD)',
+      );
+    }
+  }
+}
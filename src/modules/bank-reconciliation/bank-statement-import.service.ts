@@ -0,0 +1,486 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import * as _ from 'lodash';
+import * as XLSX from 'xlsx';
+import { BankStatementImport } from '../../entities/bank-statement-import.entity';
+import { BankStatementLine } from '../../entities/bank-statement-line.entity';
+import {
+  BANK_STATEMENT_HEADER_SCAN_ROWS,
+  BANK_STATEMENT_SOURCES,
+  normalizeStatementText,
+} from './constants/bank-reconciliation.constants';
+import type {
+  BankStatementField,
+  BankStatementSourceDefinition,
+} from './constants/bank-reconciliation.constants';
+
+const LOOKUP_CHUNK_SIZE = 1000;
+
+export interface BankStatementImportOptions {
+  source?: string;
+  bankCode?: string;
+  accountNo?: string;
+}
+
+interface DetectedLayout {
+  source: BankStatementSourceDefinition;
+  headerIndex: number; // Vị trí dòng header trong mảng dòng (bắt đầu từ 0)
+  columns: Map<BankStatementField, number>;
+}
+
+/**
+ * Import sao kê ngân hàng / file quyết toán cổng thanh toán vào bank_statement_lines
+ * Chỉ lưu dòng tiền vào; dòng đã import trước đó (cùng nội dung) được bỏ qua
+ */
+@Injectable()
+export class BankStatementImportService {
+  private readonly logger = new Logger(BankStatementImportService.name);
+
+  constructor(
+    @InjectRepository(BankStatementImport)
+    private importRepository: Repository<BankStatementImport>,
+
+    @InjectRepository(BankStatementLine)
+    private lineRepository: Repository<BankStatementLine>,
+  ) {}
+
+  getSources() {
+    return BANK_STATEMENT_SOURCES.map(({ code, name, type }) => ({
+      code,
+      name,
+      type,
+    }));
+  }
+
+  async importStatement(
+    file: Express.Multer.File,
+    options: BankStatementImportOptions = {},
+    createdBy?: string,
+  ) {
+    const rows = this.readRows(file);
+    const layout = this.detectLayout(rows, options.source);
+    const { source, headerIndex, columns } = layout;
+    const bankCode = options.bankCode?.trim() || source.code;
+    const accountNo = options.accountNo?.trim() || null;
+
+    const errors: Array<{ row: number; error: string }> = [];
+    const parsed: Array<Partial<BankStatementLine>> = [];
+    let totalRows = 0;
+    let skippedRows = 0;
+
+    const cell = (row: any[], field: BankStatementField) =>
+      columns.has(field) ? row[columns.get(field)!] : null;
+
+    for (let index = headerIndex + 1; index < rows.length; index++) {
+      const row = rows[index] || [];
+      if (row.every((value) => this.toText(value) === null)) {
+        continue;
+      }
+      const rowNumber = index + 1;
+      const transactionDate = this.parseDate(cell(row, 'transactionDate'));
+      const amount = columns.has('credit')
+        ? this.parseAmount(cell(row, 'credit'))
+        : this.parseAmount(cell(row, 'amount'));
+
+      // Dòng tổng cộng / chữ ký cuối file: không có ngày và không có số tiền
+      if (!transactionDate && amount === null) {
+        continue;
+      }
+      totalRows++;
+
+      if (!transactionDate) {
+        errors.push({
+          row: rowNumber,
+          error: `Ngày giao dịch không hợp lệ: ${cell(row, 'transactionDate')}`,
+        });
+        continue;
+      }
+      if (amount === null || amount <= 0) {
+        // Ghi nợ (tiền ra) hoặc không có số tiền ghi có
+        skippedRows++;
+        continue;
+      }
+
+      const reference = this.toText(cell(row, 'reference'));
+      const description = [
+        this.toText(cell(row, 'description')),
+        this.toText(cell(row, 'reference2')),
+      ]
+        .filter(Boolean)
+        .join(' | ');
+      parsed.push({
+        source: source.code,
+        bankCode,
+        accountNo: accountNo || undefined,
+        rowNumber,
+        transactionDate,
+        amount,
+        reference: reference || undefined,
+        description: description || undefined,
+        counterparty: this.toText(cell(row, 'counterparty')) || undefined,
+        lineKey: this.buildLineKey(source.code, accountNo, {
+          transactionDate,
+          amount,
+          reference,
+          description,
+        }),
+      });
+    }
+
+    // Bỏ dòng trùng trong file và dòng đã import ở lần trước
+    const unique = _.uniqBy(parsed, 'lineKey');
+    const existingKeys = await this.findExistingKeys(
+      unique.map((line) => line.lineKey!),
+    );
+    const toSave = unique.filter((line) => !existingKeys.has(line.lineKey!));
+    const duplicateRows = parsed.length - toSave.length;
+
+    // Lần import và các dòng sao kê ghi trong 1 transaction
+    const statementImport = await this.importRepository.manager
+      .transaction(async (manager) => {
+        const importRepository = manager.getRepository(BankStatementImport);
+        const lineRepository = manager.getRepository(BankStatementLine);
+        const saved = await importRepository.save(
+          importRepository.create({
+            source: source.code,
+            bankCode,
+            accountNo: accountNo || undefined,
+            fileName: file.originalname || null,
+            headerRow: headerIndex + 1,
+            totalRows,
+            importedRows: toSave.length,
+            duplicateRows,
+            skippedRows,
+            invalidRows: errors.length,
+            errors,
+            createdBy,
+          }),
+        );
+        for (const chunk of _.chunk(toSave, LOOKUP_CHUNK_SIZE)) {
+          await lineRepository.save(
+            chunk.map((line) =>
+              lineRepository.create({ ...line, importId: saved.id }),
+            ),
+          );
+        }
+        return saved;
+      })
+      .catch((error) => {
+        // Trùng lineKey: file cùng nội dung đang được import song song
+        if (error?.code === '23505') {
+          throw new BadRequestException(
+            'Dòng sao kê trong file vừa được import bởi yêu cầu khác, vui lòng tải lại danh sách trước khi import lại',
+          );
+        }
+        throw error;
+      });
+
+    this.logger.log(
+      `[BankStatement] Import ${source.code} ${file.originalname || ''}: ${toSave.length} dòng mới, ${duplicateRows} trùng, ${skippedRows} bỏ qua, ${errors.length} lỗi`,
+    );
+    return statementImport;
+  }
+
+  async findImports(options: {
+    source?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const page = options.page || 1;
+    const limit = options.limit || 20;
+    const [data, total] = await this.importRepository.findAndCount({
+      where: options.source ? { source: options.source } : {},
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return {
+      data,
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  async findLines(options: {
+    importId?: string;
+    matchStatus?: string;
+    dateFrom?: string;
+    dateTo?: string;
+    search?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const page = options.page || 1;
+    const limit = options.limit || 50;
+    const query = this.lineRepository
+      .createQueryBuilder('line')
+      .orderBy('line.transactionDate', 'DESC')
+      .addOrderBy('line.rowNumber', 'ASC');
+
+    if (options.importId) {
+      query.andWhere('line.importId = :importId', {
+        importId: options.importId,
+      });
+    }
+    if (options.matchStatus) {
+      query.andWhere('line.matchStatus = :matchStatus', {
+        matchStatus: options.matchStatus,
+      });
+    }
+    if (options.dateFrom) {
+      query.andWhere('line.transactionDate >= :dateFrom', {
+        dateFrom: options.dateFrom,
+      });
+    }
+    if (options.dateTo) {
+      query.andWhere('line.transactionDate <= :dateTo', {
+        dateTo: `${options.dateTo} 23:59:59`,
+      });
+    }
+    if (options.search) {
+      query.andWhere(
+        '(line.reference ILIKE :search OR line.description ILIKE :search OR line.counterparty ILIKE :search)',
+        { search: `%${options.search}%` },
+      );
+    }
+
+    const [data, total] = await query
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+    return {
+      data,
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  /**
+   * Xoá một lần import cùng các dòng sao kê (các cặp đã khớp của lần import này cũng bị huỷ)
+   */
+  async removeImport(id: string) {
+    const statementImport = await this.importRepository.findOne({
+      where: { id },
+    });
+    if (!statementImport) {
+      throw new NotFoundException(`Bank statement import ${id} not found`);
+    }
+    const { affected } = await this.lineRepository.delete({ importId: id });
+    await this.importRepository.remove(statementImport);
+    return {
+      success: true,
+      message: `Đã xoá lần import ${statementImport.fileName || id} (${affected || 0} dòng sao kê)`,
+    };
+  }
+
+  private readRows(file: Express.Multer.File): any[][] {
+    const workbook = XLSX.read(file.buffer, { type: 'buffer' });
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    const rows = XLSX.utils.sheet_to_json<any[]>(worksheet, {
+      header: 1,
+      raw: true,
+      defval: null,
+    });
+    if (rows.length === 0) {
+      throw new BadRequestException('File sao kê không có dữ liệu');
+    }
+    return rows;
+  }
+
+  /**
+   * Tìm dòng header và định dạng file trong BANK_STATEMENT_HEADER_SCAN_ROWS dòng đầu
+   * Dòng header phải có cột ngày giao dịch và cột số tiền (ghi có hoặc số tiền)
+   */
+  private detectLayout(rows: any[][], sourceCode?: string): DetectedLayout {
+    const sources = sourceCode
+      ? BANK_STATEMENT_SOURCES.filter(
+          (source) => source.code === sourceCode.toUpperCase(),
+        )
+      : BANK_STATEMENT_SOURCES;
+    if (sources.length === 0) {
+      throw new BadRequestException(
+        `Định dạng sao kê không hợp lệ: ${sourceCode} (hỗ trợ: ${BANK_STATEMENT_SOURCES.map((source) => source.code).join(', ')})`,
+      );
+    }
+
+    const scanRows = rows.slice(0, BANK_STATEMENT_HEADER_SCAN_ROWS);
+    let best: (DetectedLayout & { score: number }) | null = null;
+    for (const [headerIndex, row] of scanRows.entries()) {
+      const headers = (row || []).map((value) =>
+        normalizeStatementText(this.toText(value)),
+      );
+      // Tên ngân hàng / cổng thanh toán thường nằm ở phần tiêu đề phía trên header
+      const titleText = normalizeStatementText(
+        scanRows
+          .slice(0, headerIndex + 1)
+          .flat()
+          .map((value) => this.toText(value) || '')
+          .join(' '),
+      );
+
+      for (const source of sources) {
+        const columns = this.matchColumns(source, headers);
+        if (
+          !columns.has('transactionDate') ||
+          (!columns.has('credit') && !columns.has('amount'))
+        ) {
+          continue;
+        }
+        const keywordHit = source.keywords.some((keyword) =>
+          titleText.includes(keyword),
+        );
+        const score = columns.size + (keywordHit ? 10 : 0);
+        if (!best || score > best.score) {
+          best = { source, headerIndex, columns, score };
+        }
+      }
+    }
+
+    if (!best) {
+      throw new BadRequestException(
+        'Không tìm thấy dòng header của sao kê (cần có cột ngày giao dịch và số tiền ghi có / số tiền)',
+      );
+    }
+    return best;
+  }
+
+  /**
+   * Lượt 1 khớp chính xác header (bỏ dấu, hoa thường), lượt 2 header chứa tên cột; mỗi cột file chỉ dùng 1 lần
+   */
+  private matchColumns(
+    source: BankStatementSourceDefinition,
+    headers: string[],
+  ): Map<BankStatementField, number> {
+    const columns = new Map<BankStatementField, number>();
+    const used = new Set<number>();
+    const entries = Object.entries(source.columns) as Array<
+      [BankStatementField, string[]]
+    >;
+
+    const assign = (matches: (header: string, synonym: string) => boolean) => {
+      for (const [field, synonyms] of entries) {
+        if (columns.has(field)) continue;
+        for (const synonym of synonyms.map(normalizeStatementText)) {
+          const index = headers.findIndex(
+            (header, i) => !used.has(i) && !!header && matches(header, synonym),
+          );
+          if (index !== -1) {
+            used.add(index);
+            columns.set(field, index);
+            break;
+          }
+        }
+      }
+    };
+    assign((header, synonym) => header === synonym);
+    // Tên cột ngắn (có, nợ, ngày) chỉ khớp chính xác
+    assign(
+      (header, synonym) => synonym.length >= 5 && header.includes(synonym),
+    );
+
+    // File có cột ghi có thì không dùng cột số tiền chung
+    if (columns.has('credit')) {
+      columns.delete('amount');
+    }
+    return columns;
+  }
+
+  private async findExistingKeys(lineKeys: string[]): Promise<Set<string>> {
+    const existing = new Set<string>();
+    for (const chunk of _.chunk(lineKeys, LOOKUP_CHUNK_SIZE)) {
+      const lines = await this.lineRepository.find({
+        where: { lineKey: In(chunk) },
+        select: ['id', 'lineKey'],
+      });
+      lines.forEach((line) => existing.add(line.lineKey));
+    }
+    return existing;
+  }
+
+  private buildLineKey(
+    source: string,
+    accountNo: string | null,
+    line: {
+      transactionDate: Date;
+      amount: number;
+      reference: string | null;
+      description: string;
+    },
+  ): string {
+    return createHash('sha256')
+      .update(
+        [
+          source,
+          accountNo || '',
+          line.transactionDate.toISOString(),
+          line.amount.toFixed(2),
+          line.reference || '',
+          line.description,
+        ].join('|'),
+      )
+      .digest('hex');
+  }
+
+  private toText(value: any): string | null {
+    if (value === null || value === undefined) return null;
+    const trimmed = String(value).trim();
+    return trimmed.length ? trimmed : null;
+  }
+
+  /**
+   * Ngày dạng Excel serial, DD/MM/YYYY [HH:mm[:ss]] (mặc định của ngân hàng trong nước) hoặc ISO
+   */
+  private parseDate(value: any): Date | null {
+    if (value === null || value === undefined || value === '') return null;
+    if (value instanceof Date) return value;
+    if (typeof value === 'number') {
+      const excelEpoch = new Date(1899, 11, 30);
+      return new Date(excelEpoch.getTime() + value * 86400000);
+    }
+    const text = String(value).trim();
+    const match = text.match(
+      /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/,
+    );
+    if (match) {
+      const [day, month, year, hour, minute, second] = match
+        .slice(1)
+        .map((part) => Number(part || 0));
+      const date = new Date(year, month - 1, day, hour, minute, second);
+      return isNaN(date.getTime()) || date.getMonth() !== month - 1
+        ? null
+        : date;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}/.test(text)) return null;
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  /**
+   * Số tiền dạng số hoặc chuỗi "1,000,000" / "1.000.000" / "1,000,000.50"
+   * Dấu phân cách cuối cùng theo sau đúng 3 chữ số được coi là phân cách hàng nghìn
+   */
+  private parseAmount(value: any): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    if (typeof value === 'number') return value;
+    let text = String(value).replace(/[^\d.,-]/g, '');
+    if (!/\d/.test(text)) return null;
+
+    const lastSeparator = Math.max(
+      text.lastIndexOf('.'),
+      text.lastIndexOf(','),
+    );
+    const decimals = lastSeparator === -1 ? '' : text.slice(lastSeparator + 1);
+    if (lastSeparator !== -1 && decimals.length !== 3) {
+      text = `${text.slice(0, lastSeparator).replace(/[.,]/g, '')}.${decimals}`;
+    } else {
+      text = text.replace(/[.,]/g, '');
+    }
+    const parsed = parseFloat(text);
+    return isNaN(parsed) ? null : parsed;
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Trường chuẩn của 1 dòng sao kê, map từ các cột trong file
+ */
+export type BankStatementField =
+  | 'transactionDate'
+  | 'credit' // Số tiền ghi có (tiền vào)
+  | 'debit' // Số tiền ghi nợ (tiền ra)
+  | 'amount' // Một cột số tiền (file cổng thanh toán / sao kê dùng số âm cho tiền ra)
+  | 'reference'
+  | 'reference2' // Mã tham chiếu phụ (mã đơn hàng trên file cổng thanh toán)
+  | 'description'
+  | 'counterparty';
+
+export interface BankStatementSourceDefinition {
+  code: string;
+  name: string;
+  type: 'BANK' | 'GATEWAY';
+  keywords: string[]; // Từ khoá nhận diện trong header / các dòng tiêu đề phía trên header
+  columns: Partial<Record<BankStatementField, string[]>>;
+}
+
+// Header dùng chung cho phần lớn sao kê ngân hàng trong nước
+const COMMON_BANK_COLUMNS: Partial<Record<BankStatementField, string[]>> = {
+  transactionDate: [
+    'ngày giao dịch',
+    'ngày gd',
+    'ngày hiệu lực',
+    'ngày hạch toán',
+    'transaction date',
+    'value date',
+    'posting date',
+    'ngày',
+  ],
+  credit: [
+    'số tiền ghi có',
+    'ghi có',
+    'phát sinh có',
+    'tiền vào',
+    'gửi vào',
+    'credit amount',
+    'credit',
+    'có',
+  ],
+  debit: [
+    'số tiền ghi nợ',
+    'ghi nợ',
+    'phát sinh nợ',
+    'tiền ra',
+    'rút ra',
+    'debit amount',
+    'debit',
+    'nợ',
+  ],
+  reference: [
+    'số tham chiếu',
+    'mã tham chiếu',
+    'số bút toán',
+    'số giao dịch',
+    'mã giao dịch',
+    'số gd',
+    'reference no',
+    'reference',
+    'ref no',
+    'transaction no',
+  ],
+  description: [
+    'nội dung chi tiết',
+    'nội dung giao dịch',
+    'nội dung',
+    'mô tả giao dịch',
+    'mô tả',
+    'diễn giải',
+    'description',
+    'details',
+  ],
+  counterparty: [
+    'tên đơn vị chuyển',
+    'tên người chuyển',
+    'tài khoản đối ứng',
+    'đơn vị thụ hưởng/đơn vị chuyển',
+    'counterparty',
+    'beneficiary/remitter',
+  ],
+};
+
+/**
+ * Định dạng sao kê / file quyết toán được hỗ trợ
+ * Không chỉ định source khi import thì chọn định dạng khớp nhiều cột nhất, ưu tiên định dạng có từ khoá xuất hiện trong file
+ */
+export const BANK_STATEMENT_SOURCES: BankStatementSourceDefinition[] = [
+  {
+    code: 'VCB',
+    name: 'Vietcombank',
+    type: 'BANK',
+    keywords: ['vietcombank', 'ngoai thuong'],
+    columns: COMMON_BANK_COLUMNS,
+  },
+  {
+    code: 'TCB',
+    name: 'Techcombank',
+    type: 'BANK',
+    keywords: ['techcombank', 'ky thuong'],
+    columns: COMMON_BANK_COLUMNS,
+  },
+  {
+    code: 'BIDV',
+    name: 'BIDV',
+    type: 'BANK',
+    keywords: ['bidv', 'dau tu va phat trien'],
+    columns: COMMON_BANK_COLUMNS,
+  },
+  {
+    code: 'VTB',
+    name: 'VietinBank',
+    type: 'BANK',
+    keywords: ['vietinbank', 'cong thuong'],
+    columns: COMMON_BANK_COLUMNS,
+  },
+  {
+    code: 'ACB',
+    name: 'ACB',
+    type: 'BANK',
+    keywords: ['acb', 'a chau'],
+    columns: COMMON_BANK_COLUMNS,
+  },
+  {
+    code: 'MB',
+    name: 'MB Bank',
+    type: 'BANK',
+    keywords: ['mbbank', 'mb bank', 'quan doi'],
+    columns: COMMON_BANK_COLUMNS,
+  },
+  {
+    code: 'VPB',
+    name: 'VPBank',
+    type: 'BANK',
+    keywords: ['vpbank', 'viet nam thinh vuong'],
+    columns: COMMON_BANK_COLUMNS,
+  },
+  {
+    code: 'VNPAY',
+    name: 'VNPAY - File quyết toán',
+    type: 'GATEWAY',
+    keywords: ['vnpay'],
+    columns: {
+      transactionDate: [
+        'thời gian giao dịch',
+        'ngày giao dịch',
+        'ngày thanh toán',
+        'transaction date',
+      ],
+      amount: ['số tiền giao dịch', 'số tiền thanh toán', 'số tiền', 'amount'],
+      reference: [
+        'mã giao dịch vnpay',
+        'mã gd vnpay',
+        'số tham chiếu',
+        'mã tham chiếu',
+        'mã giao dịch',
+      ],
+      reference2: ['mã đơn hàng', 'mã hóa đơn', 'số hóa đơn', 'order id'],
+      description: ['nội dung', 'thông tin đơn hàng', 'mô tả'],
+      counterparty: ['ngân hàng', 'tên chủ thẻ', 'số thẻ'],
+    },
+  },
+  {
+    code: 'PAYOO',
+    name: 'PAYOO - File quyết toán',
+    type: 'GATEWAY',
+    keywords: ['payoo'],
+    columns: {
+      transactionDate: [
+        'ngày giao dịch',
+        'ngày thanh toán',
+        'thời gian thanh toán',
+        'transaction date',
+      ],
+      amount: ['số tiền thanh toán', 'số tiền giao dịch', 'số tiền', 'amount'],
+      reference: [
+        'mã giao dịch payoo',
+        'mã gd payoo',
+        'số tham chiếu',
+        'mã tham chiếu',
+        'mã giao dịch',
+      ],
+      reference2: ['mã đơn hàng', 'mã hóa đơn', 'order no', 'order id'],
+      description: ['nội dung', 'mô tả', 'dịch vụ'],
+      counterparty: ['ngân hàng', 'tên khách hàng', 'số thẻ'],
+    },
+  },
+  {
+    code: 'GENERIC',
+    name: 'Sao kê ngân hàng (định dạng chung)',
+    type: 'BANK',
+    keywords: [],
+    columns: {
+      ...COMMON_BANK_COLUMNS,
+      amount: ['số tiền', 'amount'],
+    },
+  },
+];
+
+// Số dòng đầu file được quét để tìm dòng header (sao kê thường có phần thông tin tài khoản phía trên)
+export const BANK_STATEMENT_HEADER_SCAN_ROWS = 30;
+
+// Khoảng ngày (±) giữa ngày giao dịch trên sao kê và ngày phiếu thu khi tự động khớp
+export const DEFAULT_MATCH_DATE_WINDOW_DAYS = 3;
+
+export const BANK_MATCH_RULES = {
+  REFERENCE: 'REFERENCE', // Số tham chiếu + số tiền + khoảng ngày
+  AMOUNT_DATE: 'AMOUNT_DATE', // Số tiền + khoảng ngày, chỉ khi duy nhất 1 cặp ứng viên
+  MANUAL: 'MANUAL',
+} as const;
+
+export function normalizeStatementText(value: string | null | undefined) {
+  return String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * Chuẩn hoá số tham chiếu để so sánh: bỏ khoảng trắng / ký tự phân cách, chữ hoa
+ */
+export function normalizeStatementReference(value: string | null | undefined) {
+  return String(value ?? '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, '');
+}
@@ -0,0 +1,29 @@
+import {
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class AutoMatchDto {
+  @IsDateString()
+  @IsOptional()
+  dateFrom?: string;
+
+  @IsDateString()
+  @IsOptional()
+  dateTo?: string;
+
+  @IsUUID()
+  @IsOptional()
+  importId?: string;
+
+  // Khoảng ngày (±) giữa ngày giao dịch trên sao kê và ngày phiếu thu
+  @IsInt()
+  @Min(0)
+  @Max(31)
+  @IsOptional()
+  dateWindowDays?: number;
+}
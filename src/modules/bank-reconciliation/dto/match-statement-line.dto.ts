@@ -0,0 +1,17 @@
+import { IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
+
+export class MatchStatementLineDto {
+  @IsUUID()
+  @IsNotEmpty()
+  dailyCashioId: string;
+
+  @IsString()
+  @IsOptional()
+  note?: string;
+}
+
+export class UnmatchStatementLineDto {
+  @IsString()
+  @IsOptional()
+  note?: string;
+}
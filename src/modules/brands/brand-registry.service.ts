@@ -0,0 +1,262 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { Brand, BrandPancakeConfig } from '../../entities/brand.entity';
+import {
+  BRAND_CASHIO_ENDPOINTS,
+  BRAND_SALES_SOURCES,
+  DEFAULT_BRANDS,
+  normalizeBrandKey,
+  setBrandSnapshot,
+} from './constants/brand.constants';
+import { CreateBrandDto } from './dto/create-brand.dto';
+import { UpdateBrandDto } from './dto/update-brand.dto';
+import { TtlCache } from '../../utils/ttl-cache.utils';
+
+/**
+ * Registry brand (bảng brands): Zappy API, mã brand trên Fast, bảng Pancake và các job đồng bộ
+ * Thêm brand mới chỉ cần cấu hình qua API /brands
+ */
+@Injectable()
+export class BrandRegistryService implements OnModuleInit {
+  private readonly logger = new Logger(BrandRegistryService.name);
+  private readonly cache = new TtlCache<Brand[]>(async () => {
+    const brands = await this.brandRepository.find({
+      order: { sortOrder: 'ASC', code: 'ASC' },
+    });
+    setBrandSnapshot(brands);
+    return brands;
+  });
+
+  constructor(
+    @InjectRepository(Brand)
+    private brandRepository: Repository<Brand>,
+  ) {}
+
+  async onModuleInit() {
+    const count = await this.brandRepository.count();
+    if (count === 0) {
+      await this.brandRepository.save(
+        DEFAULT_BRANDS.map((item) => this.brandRepository.create(item)),
+      );
+      this.logger.log(`Đã khởi tạo ${DEFAULT_BRANDS.length} brand mặc định`);
+    }
+    await this.backfillSourceSettings();
+    await this.getBrands();
+  }
+
+  /**
+   * Tìm brand theo code hoặc alias
+   */
+  async resolve(value: string | null | undefined): Promise<Brand | null> {
+    const key = normalizeBrandKey(value);
+    if (!key) {
+      return null;
+    }
+    const brands = await this.getBrands();
+    return (
+      brands.find((brand) =>
+        [brand.code, ...(brand.aliases || [])]
+          .map(normalizeBrandKey)
+          .includes(key),
+      ) || null
+    );
+  }
+
+  /**
+   * Brand chạy cho 1 job đồng bộ: brand chỉ định (nếu có) hoặc các brand đang bật job đó
+   */
+  async getBrandCodesForJob(job: string, brand?: string): Promise<string[]> {
+    if (brand) {
+      return [brand];
+    }
+    const brands = await this.getActiveBrands();
+    return brands
+      .filter((item) => (item.syncJobs || []).includes(job))
+      .map((item) => item.code);
+  }
+
+  /**
+   * Zappy API base URL của brand, null nếu brand dùng URL mặc định
+   */
+  async getZappyApiUrl(brand?: string): Promise<string | null> {
+    const found = await this.resolve(brand);
+    return found?.zappyApiUrl || null;
+  }
+
+  /**
+   * Nguồn lấy đơn bán của brand, brand chưa khai báo dùng Zappy
+   */
+  async getSalesSource(brand?: string): Promise<string> {
+    const found = await this.resolve(brand);
+    return found?.salesSource || BRAND_SALES_SOURCES.ZAPPY;
+  }
+
+  /**
+   * API phiếu thu trên Zappy của brand, brand chưa khai báo dùng get_daily_cash
+   */
+  async getCashioEndpoint(brand?: string): Promise<string> {
+    const found = await this.resolve(brand);
+    return found?.cashioEndpoint || BRAND_CASHIO_ENDPOINTS.DAILY_CASH;
+  }
+
+  /**
+   * Cấu hình bảng Pancake của các brand đang bật job đồng bộ phí sàn
+   */
+  async getPancakeConfigs(
+    job: string,
+  ): Promise<Array<BrandPancakeConfig & { name: string }>> {
+    const brands = await this.getActiveBrands();
+    return brands
+      .filter((brand) => brand.pancake && (brand.syncJobs || []).includes(job))
+      .map((brand) => ({
+        ...(brand.pancake as BrandPancakeConfig),
+        name: brand.code,
+      }));
+  }
+
+  /**
+   * Có lấy brand từ department.company (Loyalty) khi sync đơn của brand hay không
+   */
+  async shouldResolveBrandFromDepartment(brand?: string): Promise<boolean> {
+    if (!brand) {
+      return true;
+    }
+    const found = await this.resolve(brand);
+    return found ? found.resolveBrandFromDepartment : true;
+  }
+
+  async findAll(includeInactive = false) {
+    const brands = await this.getBrands();
+    return includeInactive ? brands : brands.filter((brand) => brand.isActive);
+  }
+
+  async findOne(code: string) {
+    const brand = await this.brandRepository.findOne({
+      where: { code: normalizeBrandKey(code) },
+    });
+    if (!brand) {
+      throw new NotFoundException(`Brand ${code} not found`);
+    }
+    return brand;
+  }
+
+  async create(createDto: CreateBrandDto) {
+    const code = normalizeBrandKey(createDto.code);
+    if (!code) {
+      throw new BadRequestException('code không được để trống');
+    }
+    const aliases = this.cleanAliases(createDto.aliases);
+    await this.ensureNamesAvailable([code, ...aliases]);
+
+    const saved = await this.brandRepository.save(
+      this.brandRepository.create({
+        ...createDto,
+        code,
+        aliases,
+        syncJobs: createDto.syncJobs || [],
+      }),
+    );
+    this.invalidateCache();
+    return saved;
+  }
+
+  async update(code: string, updateDto: UpdateBrandDto) {
+    const brand = await this.findOne(code);
+    if (updateDto.aliases !== undefined) {
+      await this.ensureNamesAvailable(
+        this.cleanAliases(updateDto.aliases),
+        brand.id,
+      );
+    }
+
+    Object.assign(brand, {
+      ...updateDto,
+      ...(updateDto.aliases !== undefined && {
+        aliases: this.cleanAliases(updateDto.aliases),
+      }),
+    });
+    const saved = await this.brandRepository.save(brand);
+    this.invalidateCache();
+    return saved;
+  }
+
+  async remove(code: string) {
+    const brand = await this.findOne(code);
+    await this.brandRepository.remove(brand);
+    this.invalidateCache();
+    return { success: true, message: `Đã xoá brand ${brand.code}` };
+  }
+
+  /**
+   * Brand tạo trước khi có salesSource / cashioEndpoint: lấy theo danh sách mặc định
+   */
+  private async backfillSourceSettings() {
+    const brands = await this.brandRepository.find({
+      where: [{ salesSource: IsNull() }, { cashioEndpoint: IsNull() }],
+    });
+    for (const brand of brands) {
+      const definition = DEFAULT_BRANDS.find(
+        (item) => item.code === brand.code,
+      );
+      await this.brandRepository.update(brand.id, {
+        salesSource:
+          brand.salesSource ||
+          definition?.salesSource ||
+          BRAND_SALES_SOURCES.ZAPPY,
+        cashioEndpoint:
+          brand.cashioEndpoint ||
+          definition?.cashioEndpoint ||
+          BRAND_CASHIO_ENDPOINTS.DAILY_CASH,
+      });
+    }
+  }
+
+  private async getActiveBrands(): Promise<Brand[]> {
+    const brands = await this.getBrands();
+    return brands.filter((brand) => brand.isActive);
+  }
+
+  private getBrands(): Promise<Brand[]> {
+    return this.cache.get();
+  }
+
+  private invalidateCache() {
+    this.cache.invalidate();
+    // Tải lại ngay để bản chụp cho sales.utils cập nhật
+    void this.getBrands().catch((error) =>
+      this.logger.warn(`Không tải lại được danh sách brand: ${error}`),
+    );
+  }
+
+  /**
+   * Code / alias không được trùng với code / alias của brand khác
+   */
+  private async ensureNamesAvailable(names: string[], excludeId?: string) {
+    const existing = await this.brandRepository.find();
+    for (const name of names) {
+      const conflict = existing.find(
+        (item) =>
+          item.id !== excludeId &&
+          [item.code, ...(item.aliases || [])]
+            .map(normalizeBrandKey)
+            .includes(name),
+      );
+      if (conflict) {
+        throw new BadRequestException(
+          `Brand "${name}" đã tồn tại (${conflict.code})`,
+        );
+      }
+    }
+  }
+
+  private cleanAliases(aliases?: string[]): string[] {
+    return [...new Set((aliases || []).map(normalizeBrandKey).filter(Boolean))];
+  }
+}
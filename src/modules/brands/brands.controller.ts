@@ -0,0 +1,48 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+} from '@nestjs/common';
+import { BrandRegistryService } from './brand-registry.service';
+import { CreateBrandDto } from './dto/create-brand.dto';
+import { UpdateBrandDto } from './dto/update-brand.dto';
+import { Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
+
+@Controller('brands')
+export class BrandsController {
+  constructor(private readonly brandRegistryService: BrandRegistryService) {}
+
+  @Get()
+  async findAll(@Query('includeInactive') includeInactive?: string) {
+    return this.brandRegistryService.findAll(includeInactive === 'true');
+  }
+
+  @Get(':code')
+  async findOne(@Param('code') code: string) {
+    return this.brandRegistryService.findOne(code);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Post()
+  async create(@Body() createDto: CreateBrandDto) {
+    return this.brandRegistryService.create(createDto);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Patch(':code')
+  async update(@Param('code') code: string, @Body() updateDto: UpdateBrandDto) {
+    return this.brandRegistryService.update(code, updateDto);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Delete(':code')
+  async remove(@Param('code') code: string) {
+    return this.brandRegistryService.remove(code);
+  }
+}
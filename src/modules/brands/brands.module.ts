@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Brand } from '../../entities/brand.entity';
+import { BrandsController } from './brands.controller';
+import { BrandRegistryService } from './brand-registry.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Brand])],
+  controllers: [BrandsController],
+  providers: [BrandRegistryService],
+  exports: [BrandRegistryService],
+})
+export class BrandsModule {}
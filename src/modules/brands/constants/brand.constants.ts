@@ -0,0 +1,190 @@
+import type { BrandPancakeConfig } from '../../../entities/brand.entity';
+
+/**
+ * Các job đồng bộ theo brand (brand.syncJobs)
+ */
+export const BRAND_SYNC_JOBS = {
+  SALES: 'sales', // Cron đồng bộ bán hàng T-1
+  SALES_BY_DATE_RANGE: 'salesByDateRange',
+  WHOLESALE: 'wholesale',
+  STOCK_TRANSFER: 'stockTransfer',
+  SHIFT_END_CASH: 'shiftEndCash',
+  REPACK_FORMULA: 'repackFormula',
+  PROMOTION: 'promotion',
+  CASHIO: 'cashio',
+  VOUCHER_ISSUE: 'voucherIssue',
+  PURCHASE_ORDER: 'purchaseOrder',
+  GOODS_RECEIPT: 'goodsReceipt',
+  ORDER_FEES: 'orderFees', // Phí sàn từ DB Pancake, cần brand.pancake
+} as const;
+
+export type BrandSyncJob =
+  (typeof BRAND_SYNC_JOBS)[keyof typeof BRAND_SYNC_JOBS];
+
+export const ALL_BRAND_SYNC_JOBS = Object.values(BRAND_SYNC_JOBS);
+
+/**
+ * Nguồn lấy đơn bán của brand (brand.salesSource)
+ */
+export const BRAND_SALES_SOURCES = {
+  ZAPPY: 'zappy', // get_daily_sale trên Zappy API
+  ECS: 'ecs', // Đơn online (ECS) + POS của VMT, không qua Zappy
+} as const;
+
+export const ALL_BRAND_SALES_SOURCES = Object.values(BRAND_SALES_SOURCES);
+
+/**
+ * API phiếu thu trên Zappy (brand.cashioEndpoint)
+ */
+export const BRAND_CASHIO_ENDPOINTS = {
+  DAILY_CASH: 'get_daily_cash',
+  DAILY_CASHIO: 'get_daily_cashio',
+} as const;
+
+export const ALL_BRAND_CASHIO_ENDPOINTS = Object.values(BRAND_CASHIO_ENDPOINTS);
+
+// Mã brand mặc định khi không xác định được brand (mapBrandToCode)
+export const DEFAULT_FAST_DVCS_PREFIX = 'MN';
+
+export interface BrandDefinition {
+  code: string;
+  displayName: string;
+  aliases: string[];
+  zappyApiUrl: string | null;
+  salesSource: string | null;
+  cashioEndpoint: string | null;
+  fastDvcsPrefix: string | null;
+  pancake: BrandPancakeConfig | null;
+  syncJobs: string[];
+  resolveBrandFromDepartment: boolean;
+  sortOrder: number;
+  isActive: boolean;
+}
+
+const ZAPPY_SYNC_JOBS = ALL_BRAND_SYNC_JOBS.filter(
+  (job) =>
+    job !== BRAND_SYNC_JOBS.ORDER_FEES && job !== BRAND_SYNC_JOBS.WHOLESALE,
+);
+
+/**
+ * Danh sách mặc định, dùng để khởi tạo bảng brands khi còn trống
+ * và làm bản chụp ban đầu trước khi đọc được DB
+ */
+export const DEFAULT_BRANDS: BrandDefinition[] = [
+  {
+    code: 'f3',
+    displayName: 'F3',
+    aliases: ['facialbar'],
+    zappyApiUrl: 'https://zappy.io.vn/ords/vmt/api',
+    salesSource: BRAND_SALES_SOURCES.ZAPPY,
+    cashioEndpoint: BRAND_CASHIO_ENDPOINTS.DAILY_CASH,
+    fastDvcsPrefix: 'FBV',
+    pancake: null,
+    syncJobs: ZAPPY_SYNC_JOBS,
+    resolveBrandFromDepartment: true,
+    sortOrder: 10,
+    isActive: true,
+  },
+  {
+    code: 'labhair',
+    displayName: 'LabHair',
+    aliases: [],
+    zappyApiUrl: 'https://zappy.io.vn/ords/labhair/api',
+    salesSource: BRAND_SALES_SOURCES.ZAPPY,
+    cashioEndpoint: BRAND_CASHIO_ENDPOINTS.DAILY_CASHIO,
+    fastDvcsPrefix: 'LHV',
+    pancake: null,
+    syncJobs: ZAPPY_SYNC_JOBS,
+    resolveBrandFromDepartment: true,
+    sortOrder: 20,
+    isActive: true,
+  },
+  {
+    code: 'yaman',
+    displayName: 'Yaman',
+    aliases: [],
+    zappyApiUrl: 'https://zappy.io.vn/ords/yaman/api',
+    salesSource: BRAND_SALES_SOURCES.ZAPPY,
+    cashioEndpoint: BRAND_CASHIO_ENDPOINTS.DAILY_CASHIO,
+    fastDvcsPrefix: 'BTH',
+    pancake: {
+      tableLogs: '"erp_order_logs"',
+      tableDetail: 'public.yaman_ecommer_detail_order',
+      tableFee: 'public.yaman_ecommer_detail_order_fee',
+      tableOrders: '"yaman_orders"',
+      detailIdColumn: 'yaman_ecommer_detail_order_id',
+    },
+    syncJobs: ALL_BRAND_SYNC_JOBS.filter(
+      (job) => job !== BRAND_SYNC_JOBS.WHOLESALE,
+    ),
+    resolveBrandFromDepartment: true,
+    sortOrder: 30,
+    isActive: true,
+  },
+  {
+    code: 'menard',
+    displayName: 'Menard',
+    aliases: [],
+    zappyApiUrl: 'https://vmterp.com/ords/erp/retail/api',
+    salesSource: BRAND_SALES_SOURCES.ZAPPY,
+    cashioEndpoint: BRAND_CASHIO_ENDPOINTS.DAILY_CASHIO,
+    fastDvcsPrefix: 'MN',
+    pancake: {
+      tableLogs: '"menard_erp_order_logs"',
+      tableDetail: 'public.menard_ecommer_detail_order',
+      tableFee: 'public.menard_ecommer_detail_order_fee',
+      tableOrders: 'public.menard_orders',
+      detailIdColumn: 'menard_ecommer_detail_order_id',
+    },
+    syncJobs: ALL_BRAND_SYNC_JOBS,
+    resolveBrandFromDepartment: true,
+    sortOrder: 40,
+    isActive: true,
+  },
+  {
+    // Đơn chando lấy từ ECS, chỉ chạy trong cron bán hàng T-1
+    code: 'chando',
+    displayName: 'Chando',
+    aliases: [],
+    zappyApiUrl: null,
+    salesSource: BRAND_SALES_SOURCES.ECS,
+    cashioEndpoint: BRAND_CASHIO_ENDPOINTS.DAILY_CASH,
+    fastDvcsPrefix: 'CDV',
+    pancake: null,
+    syncJobs: [BRAND_SYNC_JOBS.SALES],
+    resolveBrandFromDepartment: false,
+    sortOrder: 50,
+    isActive: true,
+  },
+];
+
+export function normalizeBrandKey(value: string | null | undefined): string {
+  return (value || '').trim().toLowerCase();
+}
+
+/**
+ * Bản chụp registry cho các hàm đồng bộ (sales.utils)
+ * BrandRegistryService cập nhật mỗi lần tải lại danh sách brand từ DB
+ */
+let brandSnapshot: BrandDefinition[] = DEFAULT_BRANDS;
+
+export function setBrandSnapshot(brands: BrandDefinition[]): void {
+  brandSnapshot = brands;
+}
+
+/**
+ * Tìm brand theo code hoặc alias (không phân biệt hoa thường)
+ */
+export function findBrandInSnapshot(
+  value: string | null | undefined,
+): BrandDefinition | undefined {
+  const key = normalizeBrandKey(value);
+  if (!key) {
+    return undefined;
+  }
+  return brandSnapshot.find(
+    (brand) =>
+      normalizeBrandKey(brand.code) === key ||
+      (brand.aliases || []).some((alias) => normalizeBrandKey(alias) === key),
+  );
+}
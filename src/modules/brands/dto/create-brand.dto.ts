@@ -0,0 +1,83 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import {
+  ALL_BRAND_CASHIO_ENDPOINTS,
+  ALL_BRAND_SALES_SOURCES,
+  ALL_BRAND_SYNC_JOBS,
+} from '../constants/brand.constants';
+
+export class BrandPancakeConfigDto {
+  @IsString()
+  tableLogs: string;
+
+  @IsString()
+  tableDetail: string;
+
+  @IsString()
+  tableFee: string;
+
+  @IsString()
+  tableOrders: string;
+
+  @IsString()
+  detailIdColumn: string;
+}
+
+export class CreateBrandDto {
+  @IsString()
+  code: string;
+
+  @IsString()
+  displayName: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  aliases?: string[];
+
+  @IsString()
+  @IsOptional()
+  zappyApiUrl?: string | null;
+
+  @IsIn(ALL_BRAND_SALES_SOURCES)
+  @IsOptional()
+  salesSource?: string;
+
+  @IsIn(ALL_BRAND_CASHIO_ENDPOINTS)
+  @IsOptional()
+  cashioEndpoint?: string;
+
+  @IsString()
+  @IsOptional()
+  fastDvcsPrefix?: string | null;
+
+  @ValidateNested()
+  @Type(() => BrandPancakeConfigDto)
+  @IsOptional()
+  pancake?: BrandPancakeConfigDto | null;
+
+  @IsArray()
+  @IsIn(ALL_BRAND_SYNC_JOBS, { each: true })
+  @IsOptional()
+  syncJobs?: string[];
+
+  @IsBoolean()
+  @IsOptional()
+  resolveBrandFromDepartment?: boolean;
+
+  @IsInt()
+  @IsOptional()
+  sortOrder?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { CreateBrandDto } from './create-brand.dto';
+
+export class UpdateBrandDto extends PartialType(
+  OmitType(CreateBrandDto, ['code'] as const),
+) {}
@@ -39,6 +39,8 @@ import {
   CreateEcommerceCustomerDto,
   UpdateEcommerceCustomerDto,
 } from '../../dto/create-ecommerce-customer.dto';
+import { Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
 
 @Controller('categories')
 export class CategoriesController {
@@ -62,11 +64,13 @@ export class CategoriesController {
     return this.categoriesService.findOne(id);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('products')
   async create(@Body() createDto: CreateProductItemDto) {
     return this.categoriesService.create(createDto);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Put('products/:id')
   async update(
     @Param('id') id: string,
@@ -75,12 +79,14 @@ export class CategoriesController {
     return this.categoriesService.update(id, updateDto);
   }
 
+  @Roles(ROLES.ADMIN)
   @Delete('products/:id')
   async delete(@Param('id') id: string) {
     await this.categoriesService.delete(id);
     return { message: 'Product deleted successfully' };
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('products/import')
   @UseInterceptors(FileInterceptor('file'))
   async importExcel(@UploadedFile() file: Express.Multer.File) {
@@ -134,11 +140,13 @@ export class CategoriesController {
     return this.categoriesService.findOnePromotion(id);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('promotions')
   async createPromotion(@Body() createDto: CreatePromotionItemDto) {
     return this.categoriesService.createPromotion(createDto);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Put('promotions/:id')
   async updatePromotion(
     @Param('id') id: string,
@@ -147,12 +155,14 @@ export class CategoriesController {
     return this.categoriesService.updatePromotion(id, updateDto);
   }
 
+  @Roles(ROLES.ADMIN)
   @Delete('promotions/:id')
   async deletePromotion(@Param('id') id: string) {
     await this.categoriesService.deletePromotion(id);
     return { message: 'Promotion deleted successfully' };
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('promotions/import')
   @UseInterceptors(FileInterceptor('file'))
   async importPromotionsExcel(@UploadedFile() file: Express.Multer.File) {
@@ -207,11 +217,13 @@ export class CategoriesController {
     return this.categoriesService.findOneWarehouse(id);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('warehouses')
   async createWarehouse(@Body() createDto: CreateWarehouseItemDto) {
     return this.categoriesService.createWarehouse(createDto);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Put('warehouses/:id')
   async updateWarehouse(
     @Param('id') id: string,
@@ -220,12 +232,14 @@ export class CategoriesController {
     return this.categoriesService.updateWarehouse(id, updateDto);
   }
 
+  @Roles(ROLES.ADMIN)
   @Delete('warehouses/:id')
   async deleteWarehouse(@Param('id') id: string) {
     await this.categoriesService.deleteWarehouse(id);
     return { message: 'Warehouse deleted successfully' };
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('warehouses/import')
   @UseInterceptors(FileInterceptor('file'))
   async importWarehousesExcel(@UploadedFile() file: Express.Multer.File) {
@@ -276,6 +290,7 @@ export class CategoriesController {
   }
 
   // Các route cụ thể phải đặt TRƯỚC route có parameter :id để tránh conflict
+  @Roles(ROLES.ACCOUNTANT)
   @Post('warehouse-code-mappings/map')
   async mapWarehouseCode(@Body() body: { maCu: string }) {
     const maMoi = await this.categoriesService.mapWarehouseCode(body.maCu);
@@ -306,6 +321,7 @@ export class CategoriesController {
     return this.categoriesService.findOneWarehouseCodeMapping(id);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('warehouse-code-mappings')
   async createWarehouseCodeMapping(
     @Body() createDto: CreateWarehouseCodeMappingDto,
@@ -313,6 +329,7 @@ export class CategoriesController {
     return this.categoriesService.createWarehouseCodeMapping(createDto);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Put('warehouse-code-mappings/:id')
   async updateWarehouseCodeMapping(
     @Param('id') id: string,
@@ -321,12 +338,14 @@ export class CategoriesController {
     return this.categoriesService.updateWarehouseCodeMapping(id, updateDto);
   }
 
+  @Roles(ROLES.ADMIN)
   @Delete('warehouse-code-mappings/:id')
   async deleteWarehouseCodeMapping(@Param('id') id: string) {
     await this.categoriesService.deleteWarehouseCodeMapping(id);
     return { message: 'Warehouse code mapping deleted successfully' };
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('warehouse-code-mappings/import')
   @UseInterceptors(FileInterceptor('file'))
   async importWarehouseCodeMappingsExcel(
@@ -406,11 +425,13 @@ export class CategoriesController {
     return this.categoriesService.findOnePaymentMethod(id);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('payment-methods')
   async createPaymentMethod(@Body() createDto: CreatePaymentMethodDto) {
     return this.categoriesService.createPaymentMethod(createDto);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Put('payment-methods/:id')
   async updatePaymentMethod(
     @Param('id') id: string,
@@ -419,12 +440,14 @@ export class CategoriesController {
     return this.categoriesService.updatePaymentMethod(id, updateDto);
   }
 
+  @Roles(ROLES.ADMIN)
   @Delete('payment-methods/:id')
   async deletePaymentMethod(@Param('id') id: string) {
     await this.categoriesService.deletePaymentMethod(id);
     return { message: 'Payment method deleted successfully' };
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('payment-methods/import')
   @UseInterceptors(FileInterceptor('file'))
   async importPaymentMethodsExcel(@UploadedFile() file: Express.Multer.File) {
@@ -524,11 +547,13 @@ export class CategoriesController {
     return this.categoriesService.findOneEcommerceCustomer(id);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('ecommerce-customers')
   async createEcommerceCustomer(@Body() createDto: CreateEcommerceCustomerDto) {
     return this.categoriesService.createEcommerceCustomer(createDto);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Put('ecommerce-customers/:id')
   async updateEcommerceCustomer(
     @Param('id') id: string,
@@ -537,12 +562,14 @@ export class CategoriesController {
     return this.categoriesService.updateEcommerceCustomer(id, updateDto);
   }
 
+  @Roles(ROLES.ADMIN)
   @Delete('ecommerce-customers/:id')
   async deleteEcommerceCustomer(@Param('id') id: string) {
     await this.categoriesService.deleteEcommerceCustomer(id);
     return { message: 'Ecommerce customer deleted successfully' };
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('ecommerce-customers/import')
   @UseInterceptors(FileInterceptor('file'))
   async importEcommerceCustomersExcel(
@@ -1,65 +1,65 @@
-import {
-  Controller,
-  Post,
-  Body,
-  Res,
-  HttpStatus,
-  Logger,
-} from '@nestjs/common';
+import { Controller, Get, Post, Param, Query, Req, Res } from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
 import express from 'express';
-import { FastApiInvoiceService } from '../fast-api-invoice.service';
-
-interface FastApiStatusPayload {
-  docCode: string;
-  status: number;
-  message?: string;
-  fastApiResponse?: any; // The full response from Fast API if available
-  payload?: any; // The original payload if passed back
-}
+import { FastApiWebhookService } from '../fast-api-webhook.service';
+import { Public, Roles } from '../../auth/decorators/auth.decorators';
+import { ROLES } from '../../auth/constants/auth.constants';
 
+/**
+ * Body webhook Fast API gửi về:
+ * { docCode, status, message?, fastApiResponse?, payload? }
+ * Headers bắt buộc: X-Fast-Timestamp (unix seconds), X-Fast-Signature (sha256=<hex>)
+ */
 @Controller('sales/webhooks')
 export class WebhookController {
-  private readonly logger = new Logger(WebhookController.name);
-
-  constructor(private readonly fastApiInvoiceService: FastApiInvoiceService) {}
+  constructor(private readonly fastApiWebhookService: FastApiWebhookService) {}
 
+  // Webhook do hệ thống ngoài gọi nên không dùng token người dùng, xác thực bằng chữ ký HMAC
+  @Public()
   @Post('fast-api-status')
   async updateFastApiStatus(
-    @Body() body: FastApiStatusPayload,
+    @Req() req: RawBodyRequest<express.Request>,
     @Res() res: express.Response,
   ) {
-    try {
-      this.logger.log(
-        `[Webhook] Received status update for ${body.docCode}: Status ${body.status}`,
-      );
+    const rawBody = req.rawBody ? req.rawBody.toString('utf8') : '';
+    const result = await this.fastApiWebhookService.handleFastApiStatus(
+      rawBody,
+      req.headers,
+      req.ip,
+    );
 
-      if (!body.docCode) {
-        return res.status(HttpStatus.BAD_REQUEST).json({
-          success: false,
-          message: 'docCode is required',
-        });
-      }
+    return res.status(result.statusCode).json({
+      success: result.success,
+      message: result.message,
+      deliveryId: result.deliveryId,
+    });
+  }
 
-      await this.fastApiInvoiceService.updateFastApiStatus(
-        body.docCode,
-        body.status,
-        body.message,
-        body.fastApiResponse,
-        body.payload,
-      );
+  /**
+   * GET /sales/webhooks/deliveries
+   * Nhật ký webhook (audit thay đổi trạng thái hóa đơn)
+   */
+  @Roles(ROLES.ACCOUNTANT)
+  @Get('deliveries')
+  async findDeliveries(
+    @Query('docCode') docCode?: string,
+    @Query('verificationResult') verificationResult?: string,
+    @Query('processingStatus') processingStatus?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.fastApiWebhookService.findDeliveries({
+      docCode,
+      verificationResult,
+      processingStatus,
+      page: page ? parseInt(page) : undefined,
+      limit: limit ? parseInt(limit) : undefined,
+    });
+  }
 
-      return res.status(HttpStatus.OK).json({
-        success: true,
-        message: 'Status updated successfully',
-      });
-    } catch (error: any) {
-      this.logger.error(
-        `[Webhook] Error processing callback for ${body?.docCode}: ${error?.message}`,
-      );
-      return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
-        success: false,
-        message: 'Internal server error processing webhook',
-      });
-    }
+  @Roles(ROLES.ACCOUNTANT)
+  @Get('deliveries/:id')
+  async findDelivery(@Param('id') id: string) {
+    return this.fastApiWebhookService.findDelivery(id);
   }
 }
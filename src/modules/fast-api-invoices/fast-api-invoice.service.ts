@@ -7,9 +7,12 @@ import {
   SelectQueryBuilder,
 } from 'typeorm';
 import { FastApiInvoice } from '../../entities/fast-api-invoice.entity';
+import { FastApiInvoiceAttempt } from '../../entities/fast-api-invoice-attempt.entity';
 import { HttpService } from '@nestjs/axios';
 import { firstValueFrom } from 'rxjs';
 import * as XLSX from 'xlsx';
+import { IntegrationAuditService } from '../integration-audit/integration-audit.service';
+import { diffInvoicePayloads } from '../../utils/invoice-payload-diff.utils';
 
 @Injectable()
 export class FastApiInvoiceService {
@@ -18,7 +21,10 @@ export class FastApiInvoiceService {
   constructor(
     @InjectRepository(FastApiInvoice)
     private fastApiInvoiceRepository: Repository<FastApiInvoice>,
+    @InjectRepository(FastApiInvoiceAttempt)
+    private fastApiInvoiceAttemptRepository: Repository<FastApiInvoiceAttempt>,
     private httpService: HttpService,
+    private integrationAuditService: IntegrationAuditService,
   ) {}
 
   /**
@@ -62,8 +68,16 @@ export class FastApiInvoiceService {
     // Map branchcode to ma_dvcs via Loyalty API
     await this.mapMaDvcs(items);
 
+    // Lần gọi Fast gần nhất của từng hóa đơn (integration_audit_logs)
+    const lastCalls = await this.integrationAuditService.findLatestByDocCodes(
+      items.map((item) => item.docCode).filter(Boolean),
+    );
+
     return {
-      items,
+      items: items.map((item) => ({
+        ...item,
+        lastCall: lastCalls.get(item.docCode) || null,
+      })),
       pagination: {
         page,
         limit,
@@ -76,9 +90,9 @@ export class FastApiInvoiceService {
   }
 
   /**
-   * Lấy chi tiết một hóa đơn theo ID
+   * Lấy chi tiết một hóa đơn theo ID, kèm lịch sử gọi Fast
    */
-  async findOne(id: string): Promise<FastApiInvoice> {
+  async findOne(id: string) {
     const invoice = await this.fastApiInvoiceRepository.findOne({
       where: { id },
     });
@@ -87,18 +101,91 @@ export class FastApiInvoiceService {
       throw new NotFoundException(`FastApiInvoice with ID ${id} not found`);
     }
 
-    return invoice;
+    return this.withAuditLogs(invoice);
+  }
+
+  /**
+   * Lấy hóa đơn theo docCode, kèm lịch sử gọi Fast
+   */
+  async findByDocCode(docCode: string) {
+    const invoice = await this.fastApiInvoiceRepository.findOne({
+      where: { docCode },
+    });
+    return invoice ? this.withAuditLogs(invoice) : null;
   }
 
   /**
-   * Lấy hóa đơn theo docCode
+   * Danh sách các lần tạo hóa đơn của đơn hàng (không kèm payload)
    */
-  async findByDocCode(docCode: string): Promise<FastApiInvoice | null> {
-    return await this.fastApiInvoiceRepository.findOne({
+  async findAttempts(docCode: string) {
+    return this.fastApiInvoiceAttemptRepository.find({
       where: { docCode },
+      select: [
+        'id',
+        'docCode',
+        'attemptNo',
+        'status',
+        'maDvcs',
+        'maKh',
+        'guid',
+        'lastErrorMessage',
+        'idempotencyKey',
+        'createdAt',
+      ],
+      order: { attemptNo: 'ASC' },
     });
   }
 
+  async findAttempt(docCode: string, attemptNo: number) {
+    const attempt = await this.fastApiInvoiceAttemptRepository.findOne({
+      where: { docCode, attemptNo },
+    });
+    if (!attempt) {
+      throw new NotFoundException(
+        `Invoice attempt ${attemptNo} of ${docCode} not found`,
+      );
+    }
+    return attempt;
+  }
+
+  /**
+   * So sánh payload giữa 2 lần tạo hóa đơn
+   * Mặc định so sánh 2 lần gần nhất
+   */
+  async diffAttempts(docCode: string, from?: number, to?: number) {
+    let toAttempt: FastApiInvoiceAttempt;
+    if (to) {
+      toAttempt = await this.findAttempt(docCode, to);
+    } else {
+      const latest = await this.fastApiInvoiceAttemptRepository.findOne({
+        where: { docCode },
+        order: { attemptNo: 'DESC' },
+      });
+      if (!latest) {
+        throw new NotFoundException(`Invoice attempts of ${docCode} not found`);
+      }
+      toAttempt = latest;
+    }
+    const fromAttempt = await this.findAttempt(
+      docCode,
+      from ?? toAttempt.attemptNo - 1,
+    );
+
+    const summary = (attempt: FastApiInvoiceAttempt) => ({
+      attemptNo: attempt.attemptNo,
+      status: attempt.status,
+      lastErrorMessage: attempt.lastErrorMessage,
+      createdAt: attempt.createdAt,
+    });
+
+    return {
+      docCode,
+      from: summary(fromAttempt),
+      to: summary(toAttempt),
+      documents: diffInvoicePayloads(fromAttempt.payload, toAttempt.payload),
+    };
+  }
+
   /**
    * Lấy thống kê
    */
@@ -188,6 +275,7 @@ export class FastApiInvoiceService {
 
   /**
    * Update status from Webhook
+   * @returns Status trước khi cập nhật, null nếu không tìm thấy hóa đơn
    */
   async updateFastApiStatus(
     docCode: string,
@@ -195,13 +283,14 @@ export class FastApiInvoiceService {
     message?: string,
     fastApiResponse?: any,
     payload?: any,
-  ): Promise<void> {
+  ): Promise<{ previousStatus: number } | null> {
     try {
       const existing = await this.fastApiInvoiceRepository.findOne({
         where: { docCode },
       });
 
       if (existing) {
+        const previousStatus = existing.status;
         existing.status = status;
 
         if (fastApiResponse) {
@@ -222,11 +311,13 @@ export class FastApiInvoiceService {
 
         await this.fastApiInvoiceRepository.save(existing);
         this.logger.log(`[Webhook] Updated status for ${docCode} to ${status}`);
-      } else {
-        this.logger.warn(
-          `[Webhook] FastApiInvoice not found for docCode: ${docCode}`,
-        );
+        return { previousStatus };
       }
+
+      this.logger.warn(
+        `[Webhook] FastApiInvoice not found for docCode: ${docCode}`,
+      );
+      return null;
     } catch (error: any) {
       this.logger.error(
         `[Webhook] Error updating status for ${docCode}: ${error?.message}`,
@@ -294,6 +385,13 @@ export class FastApiInvoiceService {
     return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
   }
 
+  private async withAuditLogs(invoice: FastApiInvoice) {
+    const auditLogs = await this.integrationAuditService.findByDocCode(
+      invoice.docCode,
+    );
+    return { ...invoice, auditLogs };
+  }
+
   /**
    * Helper to map branchcode to ma_dvcs
    */
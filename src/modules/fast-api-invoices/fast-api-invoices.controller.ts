@@ -13,6 +13,8 @@ import {
 import type { Response } from 'express';
 import { FastApiInvoiceService } from './fast-api-invoice.service';
 import { SalesService } from 'src/modules/sales/services/sales.service';
+import { Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
 
 @Controller('fast-api-invoices')
 export class FastApiInvoicesController {
@@ -98,6 +100,28 @@ export class FastApiInvoicesController {
     return this.fastApiInvoiceService.findByDocCode(docCode);
   }
 
+  @Get('doc-code/:docCode/attempts')
+  async findAttempts(@Param('docCode') docCode: string) {
+    return this.fastApiInvoiceService.findAttempts(docCode);
+  }
+
+  @Get('doc-code/:docCode/attempts/diff')
+  async diffAttempts(
+    @Param('docCode') docCode: string,
+    @Query('from', new ParseIntPipe({ optional: true })) from?: number,
+    @Query('to', new ParseIntPipe({ optional: true })) to?: number,
+  ) {
+    return this.fastApiInvoiceService.diffAttempts(docCode, from, to);
+  }
+
+  @Get('doc-code/:docCode/attempts/:attemptNo')
+  async findAttempt(
+    @Param('docCode') docCode: string,
+    @Param('attemptNo', ParseIntPipe) attemptNo: number,
+  ) {
+    return this.fastApiInvoiceService.findAttempt(docCode, attemptNo);
+  }
+
   @Get(':id')
   async findOne(@Param('id') id: string) {
     return this.fastApiInvoiceService.findOne(id);
@@ -151,6 +175,7 @@ export class FastApiInvoicesController {
     return this.fastApiInvoiceService.findAll(options);
   }
 
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('sync-by-date-range')
   async syncByDateRange(
     @Body('startDate') startDate: string,
@@ -4,17 +4,26 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { FastApiInvoicesController } from './fast-api-invoices.controller';
 import { WebhookController } from './controllers/webhook.controller';
 import { FastApiInvoiceService } from './fast-api-invoice.service';
+import { FastApiWebhookService } from './fast-api-webhook.service';
 import { FastApiInvoice } from '../../entities/fast-api-invoice.entity';
+import { FastApiInvoiceAttempt } from '../../entities/fast-api-invoice-attempt.entity';
+import { WebhookDelivery } from '../../entities/webhook-delivery.entity';
 import { SalesModule } from '../sales/sales.module';
+import { IntegrationAuditModule } from '../integration-audit/integration-audit.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([FastApiInvoice]),
+    TypeOrmModule.forFeature([
+      FastApiInvoice,
+      FastApiInvoiceAttempt,
+      WebhookDelivery,
+    ]),
     forwardRef(() => SalesModule),
     HttpModule,
+    IntegrationAuditModule,
   ],
   controllers: [FastApiInvoicesController, WebhookController],
-  providers: [FastApiInvoiceService],
+  providers: [FastApiInvoiceService, FastApiWebhookService],
   exports: [FastApiInvoiceService],
 })
 export class FastApiInvoicesModule {}
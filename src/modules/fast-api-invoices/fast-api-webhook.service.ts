@@ -0,0 +1,321 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { WebhookDelivery } from '../../entities/webhook-delivery.entity';
+import {
+  FastWebhookConfig,
+  getFastWebhookConfig,
+} from '../../config/webhook.config';
+import { isValidWebhookSignature } from '../../utils/webhook-signature.utils';
+import { FastApiInvoiceService } from './fast-api-invoice.service';
+
+export const WEBHOOK_VERIFICATION_RESULTS = {
+  VERIFIED: 'VERIFIED',
+  MISSING_SIGNATURE: 'MISSING_SIGNATURE',
+  INVALID_SIGNATURE: 'INVALID_SIGNATURE',
+  EXPIRED_TIMESTAMP: 'EXPIRED_TIMESTAMP',
+  REPLAYED: 'REPLAYED',
+  SECRET_NOT_CONFIGURED: 'SECRET_NOT_CONFIGURED',
+} as const;
+
+export const WEBHOOK_PROCESSING_STATUS = {
+  PENDING: 'PENDING',
+  PROCESSED: 'PROCESSED',
+  REJECTED: 'REJECTED',
+  NOT_FOUND: 'NOT_FOUND',
+  INVALID_PAYLOAD: 'INVALID_PAYLOAD',
+  FAILED: 'FAILED',
+} as const;
+
+const SIGNATURE_HEADER = 'x-fast-signature';
+const TIMESTAMP_HEADER = 'x-fast-timestamp';
+const SENSITIVE_HEADERS = ['authorization', 'cookie'];
+
+export interface WebhookHandleResult {
+  statusCode: number;
+  success: boolean;
+  message: string;
+  deliveryId: string;
+}
+
+/**
+ * Xử lý webhook trạng thái từ Fast API
+ * - Xác thực chữ ký HMAC-SHA256 (header X-Fast-Signature) trên `${X-Fast-Timestamp}.${rawBody}`
+ * - Chặn timestamp lệch quá FAST_WEBHOOK_TOLERANCE_SECONDS và chữ ký đã dùng (replay)
+ * - Mọi lần gọi đều được ghi vào webhook_deliveries
+ */
+@Injectable()
+export class FastApiWebhookService {
+  private readonly logger = new Logger(FastApiWebhookService.name);
+  private readonly webhookConfig: FastWebhookConfig;
+
+  constructor(
+    @InjectRepository(WebhookDelivery)
+    private webhookDeliveryRepository: Repository<WebhookDelivery>,
+    private fastApiInvoiceService: FastApiInvoiceService,
+    private configService: ConfigService,
+  ) {
+    this.webhookConfig = getFastWebhookConfig(this.configService);
+    if (!this.webhookConfig.secret) {
+      this.logger.warn(
+        'FAST_WEBHOOK_SECRET chưa được cấu hình - mọi webhook Fast API sẽ bị từ chối',
+      );
+    }
+  }
+
+  async handleFastApiStatus(
+    rawBody: string,
+    headers: Record<string, any>,
+    remoteIp?: string,
+  ): Promise<WebhookHandleResult> {
+    const signature = this.getHeader(headers, SIGNATURE_HEADER);
+    const timestamp = this.getHeader(headers, TIMESTAMP_HEADER);
+    const body = this.parseBody(rawBody);
+
+    const delivery = await this.saveDelivery(
+      this.webhookDeliveryRepository.create({
+        source: 'fast-api-status',
+        docCode: body?.docCode ? String(body.docCode) : null,
+        rawBody,
+        headers: JSON.stringify(this.sanitizeHeaders(headers)),
+        remoteIp: remoteIp || null,
+        signature,
+        signedTimestamp: /^\d+$/.test(timestamp || '') ? timestamp : null,
+        verificationResult: await this.verify(rawBody, signature, timestamp),
+      }),
+    );
+    const { verificationResult } = delivery;
+
+    if (verificationResult !== WEBHOOK_VERIFICATION_RESULTS.VERIFIED) {
+      this.logger.warn(
+        `[Webhook] Từ chối callback ${delivery.docCode || ''} (${verificationResult}) từ ${remoteIp || 'unknown'}`,
+      );
+      return this.finish(
+        delivery,
+        verificationResult === WEBHOOK_VERIFICATION_RESULTS.REPLAYED
+          ? 409
+          : 401,
+        WEBHOOK_PROCESSING_STATUS.REJECTED,
+        `Webhook verification failed: ${verificationResult}`,
+      );
+    }
+
+    const status = Number(body?.status);
+    if (!body?.docCode || body.status === undefined || isNaN(status)) {
+      return this.finish(
+        delivery,
+        400,
+        WEBHOOK_PROCESSING_STATUS.INVALID_PAYLOAD,
+        'docCode and numeric status are required',
+      );
+    }
+
+    try {
+      this.logger.log(
+        `[Webhook] Received status update for ${body.docCode}: Status ${status}`,
+      );
+      const updated = await this.fastApiInvoiceService.updateFastApiStatus(
+        String(body.docCode),
+        status,
+        body.message,
+        body.fastApiResponse,
+        body.payload,
+      );
+
+      if (!updated) {
+        return this.finish(
+          delivery,
+          404,
+          WEBHOOK_PROCESSING_STATUS.NOT_FOUND,
+          `FastApiInvoice not found for docCode: ${body.docCode}`,
+        );
+      }
+
+      delivery.previousStatus = updated.previousStatus;
+      delivery.newStatus = status;
+      return this.finish(
+        delivery,
+        200,
+        WEBHOOK_PROCESSING_STATUS.PROCESSED,
+        'Status updated successfully',
+      );
+    } catch (error: any) {
+      this.logger.error(
+        `[Webhook] Error processing callback for ${body.docCode}: ${error?.message}`,
+      );
+      return this.finish(
+        delivery,
+        500,
+        WEBHOOK_PROCESSING_STATUS.FAILED,
+        error?.message || 'Internal server error processing webhook',
+      );
+    }
+  }
+
+  async findDeliveries(params: {
+    docCode?: string;
+    verificationResult?: string;
+    processingStatus?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const page = params.page || 1;
+    const limit = params.limit || 50;
+
+    const queryBuilder =
+      this.webhookDeliveryRepository.createQueryBuilder('delivery');
+
+    if (params.docCode) {
+      queryBuilder.andWhere('delivery.docCode ILIKE :docCode', {
+        docCode: `%${params.docCode}%`,
+      });
+    }
+    if (params.verificationResult) {
+      queryBuilder.andWhere(
+        'delivery.verificationResult = :verificationResult',
+        {
+          verificationResult: params.verificationResult.toUpperCase(),
+        },
+      );
+    }
+    if (params.processingStatus) {
+      queryBuilder.andWhere('delivery.processingStatus = :processingStatus', {
+        processingStatus: params.processingStatus.toUpperCase(),
+      });
+    }
+
+    const [data, total] = await queryBuilder
+      .orderBy('delivery.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      data,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async findDelivery(id: string) {
+    const delivery = await this.webhookDeliveryRepository.findOne({
+      where: { id },
+    });
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery ${id} not found`);
+    }
+    return delivery;
+  }
+
+  private async verify(
+    rawBody: string,
+    signature: string | null,
+    timestamp: string | null,
+  ): Promise<string> {
+    const { secret, toleranceSeconds } = this.webhookConfig;
+    if (!secret) {
+      return WEBHOOK_VERIFICATION_RESULTS.SECRET_NOT_CONFIGURED;
+    }
+    if (!signature || !timestamp) {
+      return WEBHOOK_VERIFICATION_RESULTS.MISSING_SIGNATURE;
+    }
+
+    const signedAt = Number(timestamp);
+    if (
+      !Number.isInteger(signedAt) ||
+      Math.abs(Date.now() / 1000 - signedAt) > toleranceSeconds
+    ) {
+      return WEBHOOK_VERIFICATION_RESULTS.EXPIRED_TIMESTAMP;
+    }
+
+    if (!isValidWebhookSignature(secret, timestamp, rawBody, signature)) {
+      return WEBHOOK_VERIFICATION_RESULTS.INVALID_SIGNATURE;
+    }
+
+    // Chữ ký gắn với timestamp nên chỉ cần kiểm tra trùng trong các lần đã xác thực
+    const replayed = await this.webhookDeliveryRepository.exists({
+      where: {
+        signature,
+        verificationResult: WEBHOOK_VERIFICATION_RESULTS.VERIFIED,
+      },
+    });
+    if (replayed) {
+      return WEBHOOK_VERIFICATION_RESULTS.REPLAYED;
+    }
+
+    return WEBHOOK_VERIFICATION_RESULTS.VERIFIED;
+  }
+
+  /**
+   * Kiểm tra replay (exists) rồi mới lưu nên 2 request cùng chữ ký có thể cùng qua bước kiểm tra,
+   * index unique trên chữ ký VERIFIED chặn lần lưu sau -> ghi nhận là REPLAYED
+   */
+  private async saveDelivery(
+    delivery: WebhookDelivery,
+  ): Promise<WebhookDelivery> {
+    try {
+      return await this.webhookDeliveryRepository.save(delivery);
+    } catch (error: any) {
+      // 23505: unique_violation
+      if (
+        error?.code !== '23505' ||
+        delivery.verificationResult !== WEBHOOK_VERIFICATION_RESULTS.VERIFIED
+      ) {
+        throw error;
+      }
+      return this.webhookDeliveryRepository.save(
+        this.webhookDeliveryRepository.create({
+          ...delivery,
+          verificationResult: WEBHOOK_VERIFICATION_RESULTS.REPLAYED,
+        }),
+      );
+    }
+  }
+
+  private async finish(
+    delivery: WebhookDelivery,
+    statusCode: number,
+    processingStatus: string,
+    message: string,
+  ): Promise<WebhookHandleResult> {
+    delivery.processingStatus = processingStatus;
+    delivery.processingMessage = message;
+    await this.webhookDeliveryRepository.save(delivery);
+
+    return {
+      statusCode,
+      success: processingStatus === WEBHOOK_PROCESSING_STATUS.PROCESSED,
+      message,
+      deliveryId: delivery.id,
+    };
+  }
+
+  private parseBody(rawBody: string): any {
+    try {
+      return JSON.parse(rawBody);
+    } catch {
+      return null;
+    }
+  }
+
+  private getHeader(headers: Record<string, any>, name: string): string | null {
+    const value = headers?.[name];
+    if (Array.isArray(value)) {
+      return value[0] || null;
+    }
+    return value ? String(value) : null;
+  }
+
+  private sanitizeHeaders(headers: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(headers || {}).filter(
+        ([key]) => !SENSITIVE_HEADERS.includes(key.toLowerCase()),
+      ),
+    );
+  }
+}
@@ -1,3 +1,9 @@
+import type { PoChargeFeeRule } from '../../../entities/po-charge-fee-rule-set.entity';
+
+export const PO_CHARGE_PLATFORMS = ['shopee', 'tiktok', 'lazada'] as const;
+
+export const PO_CHARGE_RULE_SOURCES = ['synced', 'import'] as const;
+
 export interface FeeMappingRule {
     field: string;
     rawName: string;
@@ -139,3 +145,53 @@ export const TIKTOK_FEE_CONFIG: FeeMappingRule[] = [
         row: 4,
     },
 ];
+
+// Cột tổng hợp của lazada_fee (sync từ DB brand)
+export const LAZADA_FEE_CONFIG: FeeMappingRule[] = [
+    {
+        field: 'commissionFee',
+        rawName: 'Phí cố định (Commission) 164020',
+        defaultCode: '164020',
+        row: 1,
+    },
+    {
+        field: 'paymentFee',
+        rawName: 'Phí thanh toán (Payment Fee) 164020',
+        defaultCode: '164020',
+        row: 2,
+    },
+    {
+        field: 'affiliateFee',
+        rawName: 'Phí hoa hồng Tiếp thị liên kết 150050',
+        defaultCode: '150050',
+        row: 3,
+    },
+    {
+        field: 'shippingFee',
+        rawName: 'Phí vận chuyển người bán trả 164010',
+        defaultCode: '164010',
+        row: 4,
+    },
+    {
+        field: 'otherFee',
+        rawName: 'Phí khác 164020',
+        defaultCode: '164020',
+        row: 5,
+    },
+];
+
+/**
+ * Bộ quy tắc mặc định, seed vào bảng po_charge_fee_rule_sets khi bảng trống
+ * Sau khi seed, POCharges đọc quy tắc từ DB (xem PoChargeFeeRuleService)
+ */
+export const DEFAULT_PO_CHARGE_FEE_RULE_SETS: Array<{
+    platform: string;
+    source: string;
+    rules: PoChargeFeeRule[];
+}> = [
+    { platform: 'shopee', source: 'synced', rules: SHOPEE_FEE_CONFIG },
+    { platform: 'tiktok', source: 'synced', rules: TIKTOK_FEE_CONFIG },
+    { platform: 'lazada', source: 'synced', rules: LAZADA_FEE_CONFIG },
+    { platform: 'shopee', source: 'import', rules: SHOPEE_IMPORT_FEE_CONFIG },
+    { platform: 'tiktok', source: 'import', rules: TIKTOK_IMPORT_FEE_CONFIG },
+];
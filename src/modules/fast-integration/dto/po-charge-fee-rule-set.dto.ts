@@ -0,0 +1,75 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import {
+  PO_CHARGE_PLATFORMS,
+  PO_CHARGE_RULE_SOURCES,
+} from '../constants/fee-config.constant';
+
+export class PoChargeFeeRuleDto {
+  @IsString()
+  field: string;
+
+  @IsString()
+  rawName: string;
+
+  @IsString()
+  defaultCode: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(6)
+  row: number;
+
+  @IsIn(['cp01_nt', 'cp02_nt'])
+  @IsOptional()
+  targetCol?: 'cp01_nt' | 'cp02_nt';
+}
+
+export class CreatePoChargeFeeRuleSetDto {
+  @IsIn(PO_CHARGE_PLATFORMS)
+  platform: string;
+
+  @IsIn(PO_CHARGE_RULE_SOURCES)
+  @IsOptional()
+  source?: string;
+
+  @IsDateString()
+  @IsOptional()
+  effectiveFrom?: string | null;
+
+  @IsDateString()
+  @IsOptional()
+  effectiveTo?: string | null;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => PoChargeFeeRuleDto)
+  rules: PoChargeFeeRuleDto[];
+
+  @IsString()
+  @IsOptional()
+  note?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
+
+// Không đổi platform/source của phiên bản đã tạo
+export class UpdatePoChargeFeeRuleSetDto extends PartialType(
+  OmitType(CreatePoChargeFeeRuleSetDto, ['platform', 'source'] as const),
+) {}
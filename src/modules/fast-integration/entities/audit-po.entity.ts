@@ -1,4 +1,4 @@
-import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn } from 'typeorm';
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, Index } from 'typeorm';
 
 @Entity('audit_po')
 export class AuditPo {
@@ -26,6 +26,11 @@ export class AuditPo {
     @Column({ type: 'text', nullable: true })
     error: string | null;
 
+    // Lô POCharges sinh ra dòng này (null = đẩy lẻ / thử lại)
+    @Index()
+    @Column({ type: 'uuid', nullable: true })
+    batch_id: string | null;
+
     @CreateDateColumn()
     created_at: Date;
 }
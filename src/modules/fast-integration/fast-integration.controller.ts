@@ -1,10 +1,24 @@
-import { Controller, Post, Body, BadRequestException, Get, Query, Param, Delete } from '@nestjs/common';
+import { Controller, Post, Put, Body, BadRequestException, Get, Query, Param, Delete } from '@nestjs/common';
 import { FastIntegrationService } from './fast-integration.service';
+import { FastDocumentSubmissionService } from '../../services/fast-document-submission.service';
+import { PoChargeFeeRuleService } from './po-charge-fee-rule.service';
+import { PoChargeBatchService } from './po-charge-batch.service';
+import {
+    CreatePoChargeFeeRuleSetDto,
+    UpdatePoChargeFeeRuleSetDto,
+} from './dto/po-charge-fee-rule-set.dto';
+import { CurrentUser, Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
+import type { AuthUser } from '../auth/constants/auth.constants';
+import { PO_CHARGE_BATCH_ITEM_STATUS } from '../../entities/po-charge-batch-item.entity';
 
 @Controller('fast-integration')
 export class FastIntegrationController {
     constructor(
         private readonly fastIntegrationService: FastIntegrationService,
+        private readonly fastDocumentSubmissionService: FastDocumentSubmissionService,
+        private readonly poChargeFeeRuleService: PoChargeFeeRuleService,
+        private readonly poChargeBatchService: PoChargeBatchService,
     ) { }
 
     @Get('audit')
@@ -17,16 +31,19 @@ export class FastIntegrationController {
         return this.fastIntegrationService.getAuditLogs(search, dateFrom, dateTo, status);
     }
 
+    @Roles(ROLES.ACCOUNTANT)
     @Post('retry/:id')
     async retrySync(@Param('id') id: string) {
-        return this.fastIntegrationService.retrySync(Number(id));
+        return this.fastIntegrationService.retrySync(id);
     }
 
+    @Roles(ROLES.ADMIN)
     @Delete('audit/:id')
     async deleteAuditLog(@Param('id') id: string) {
-        return this.fastIntegrationService.deleteAuditLog(Number(id));
+        return this.fastIntegrationService.deleteAuditLog(id);
     }
 
+    @Roles(ROLES.ADMIN)
     @Delete('audit')
     async deleteAuditLogsByDateRange(
         @Query('startDate') startDate: string,
@@ -39,6 +56,7 @@ export class FastIntegrationController {
         return this.fastIntegrationService.deleteAuditLogsByDateRange(startDate, endDate, status);
     }
 
+    @Roles(ROLES.ACCOUNTANT)
     @Post('po-charges')
     async syncPOCharges(@Body() payload: any) {
         // Basic validation
@@ -49,13 +67,197 @@ export class FastIntegrationController {
         return this.fastIntegrationService.syncPOCharges(payload);
     }
 
+    /**
+     * Giữ tương thích luồng cũ: chỉ dựng lô, việc đẩy sang Fast phải qua po-charges/batches/:id/commit (ADMIN duyệt)
+     */
+    @Roles(ROLES.ACCOUNTANT)
     @Post('po-charges/batch-sync')
-    async batchSyncPOCharges(@Body() payload: { startDate: string; endDate: string; platform?: string }) {
+    async batchSyncPOCharges(
+        @Body() payload: { startDate: string; endDate: string; platform?: string },
+        @CurrentUser() user: AuthUser,
+    ) {
         if (!payload.startDate || !payload.endDate) {
             throw new BadRequestException('startDate and endDate are required');
         }
 
-        return this.fastIntegrationService.batchSyncPOCharges(payload.startDate, payload.endDate, payload.platform);
+        const batch = await this.poChargeBatchService.createBatch(payload.startDate, payload.endDate, payload.platform, user?.username);
+        return {
+            success: true,
+            batchId: batch.id,
+            message: `Đã dựng lô ${batch.id} (${batch.totalOrders} đơn), chờ duyệt để đẩy sang Fast`,
+            total: batch.totalOrders,
+            errors: batch.items
+                .filter((item) => item.status === PO_CHARGE_BATCH_ITEM_STATUS.SKIPPED && item.erpOrderCode)
+                .map((item) => ({ order: item.erpOrderCode, error: item.errorMessage })),
+        };
+    }
+
+    /**
+     * Bước 1: dựng lô POCharges để xem trước (dòng phí, tổng theo mã phí, bất thường)
+     */
+    @Roles(ROLES.ACCOUNTANT)
+    @Post('po-charges/batches')
+    async createPOChargeBatch(
+        @Body() payload: { startDate: string; endDate: string; platform?: string },
+        @CurrentUser() user: AuthUser,
+    ) {
+        if (!payload?.startDate || !payload?.endDate) {
+            throw new BadRequestException('startDate và endDate là bắt buộc');
+        }
+
+        return this.poChargeBatchService.createBatch(payload.startDate, payload.endDate, payload.platform, user?.username);
+    }
+
+    @Get('po-charges/batches')
+    async getPOChargeBatches(
+        @Query('status') status?: string,
+        @Query('page') page?: string,
+        @Query('limit') limit?: string,
+    ) {
+        return this.poChargeBatchService.findBatches(
+            page ? parseInt(page) : 1,
+            limit ? parseInt(limit) : 20,
+            status,
+        );
+    }
+
+    @Get('po-charges/batches/:id')
+    async getPOChargeBatch(
+        @Param('id') id: string,
+        @Query('status') status?: string,
+        @Query('onlyAnomalies') onlyAnomalies?: string,
+    ) {
+        return this.poChargeBatchService.getBatch(id, {
+            status,
+            onlyAnomalies: onlyAnomalies === 'true',
+        });
     }
-}
 
+    @Get('po-charges/batches/:id/audit')
+    async getPOChargeBatchAuditLogs(@Param('id') id: string) {
+        return this.poChargeBatchService.getBatchAuditLogs(id);
+    }
+
+    /**
+     * Bước 2: người duyệt đẩy cả lô hoặc 1 phần đơn (erpOrderCodes) sang Fast
+     */
+    @Roles(ROLES.ADMIN)
+    @Post('po-charges/batches/:id/commit')
+    async commitPOChargeBatch(
+        @Param('id') id: string,
+        @Body() body: { erpOrderCodes?: string[] },
+        @CurrentUser() user: AuthUser,
+    ) {
+        if (body?.erpOrderCodes && !Array.isArray(body.erpOrderCodes)) {
+            throw new BadRequestException('erpOrderCodes phải là mảng mã đơn');
+        }
+        return this.poChargeBatchService.commitBatch(id, body?.erpOrderCodes, user?.username);
+    }
+
+    @Roles(ROLES.ACCOUNTANT)
+    @Post('po-charges/batches/:id/discard')
+    async discardPOChargeBatch(@Param('id') id: string) {
+        return this.poChargeBatchService.discardBatch(id);
+    }
+
+    /**
+     * Danh sách các lần gửi chứng từ sang Fast (idempotency key)
+     */
+    @Get('submissions')
+    async getSubmissions(
+        @Query('docCode') docCode?: string,
+        @Query('documentKind') documentKind?: string,
+        @Query('status') status?: string,
+        @Query('page') page?: string,
+        @Query('limit') limit?: string,
+    ) {
+        return this.fastDocumentSubmissionService.findSubmissions({
+            docCode,
+            documentKind,
+            status,
+            page: page ? parseInt(page) : undefined,
+            limit: limit ? parseInt(limit) : undefined,
+        });
+    }
+
+    @Get('submissions/:id')
+    async getSubmission(@Param('id') id: string) {
+        return this.fastDocumentSubmissionService.findSubmission(id);
+    }
+
+    /**
+     * Đối soát lần gửi UNKNOWN sau khi kiểm tra trên Fast
+     * outcome = SUCCESS (đã có trên Fast) | FAILED (chưa có, cho phép gửi lại)
+     */
+    @Roles(ROLES.ACCOUNTANT)
+    @Post('submissions/:id/reconcile')
+    async reconcileSubmission(
+        @Param('id') id: string,
+        @Body() body: { outcome: string; guid?: string; note?: string },
+    ) {
+        if (!body?.outcome) {
+            throw new BadRequestException('outcome là bắt buộc (SUCCESS hoặc FAILED)');
+        }
+        return this.fastDocumentSubmissionService.reconcile(id, body);
+    }
+
+    /**
+     * Bộ mã phí POCharges theo sàn (có phiên bản, thời gian hiệu lực)
+     */
+    @Get('fee-rule-sets')
+    async getFeeRuleSets(
+        @Query('platform') platform?: string,
+        @Query('source') source?: string,
+    ) {
+        return this.poChargeFeeRuleService.findAll(platform, source);
+    }
+
+    /**
+     * Bộ mã phí hiệu lực tại 1 ngày, dùng khi dựng payload POCharges thủ công
+     */
+    @Get('fee-rule-sets/resolve')
+    async resolveFeeRuleSet(
+        @Query('platform') platform: string,
+        @Query('date') date: string,
+        @Query('source') source?: string,
+    ) {
+        if (!platform || !date) {
+            throw new BadRequestException('platform và date là bắt buộc');
+        }
+        return this.poChargeFeeRuleService.resolve(platform.toLowerCase(), date, source || 'synced');
+    }
+
+    @Get('fee-rule-sets/:id')
+    async getFeeRuleSet(@Param('id') id: string) {
+        return this.poChargeFeeRuleService.findOne(id);
+    }
+
+    @Roles(ROLES.ACCOUNTANT)
+    @Post('fee-rule-sets')
+    async createFeeRuleSet(
+        @Body() createDto: CreatePoChargeFeeRuleSetDto,
+        @CurrentUser() user: AuthUser,
+    ) {
+        return this.poChargeFeeRuleService.create(createDto, user?.username);
+    }
+
+    @Roles(ROLES.ACCOUNTANT)
+    @Put('fee-rule-sets/:id')
+    async updateFeeRuleSet(
+        @Param('id') id: string,
+        @Body() updateDto: UpdatePoChargeFeeRuleSetDto,
+        @CurrentUser() user: AuthUser,
+    ) {
+        return this.poChargeFeeRuleService.update(
+            id,
+            updateDto,
+            user?.username,
+        );
+    }
+
+    @Roles(ROLES.ADMIN)
+    @Delete('fee-rule-sets/:id')
+    async deleteFeeRuleSet(@Param('id') id: string) {
+        return this.poChargeFeeRuleService.remove(id);
+    }
+}
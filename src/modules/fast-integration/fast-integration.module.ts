@@ -6,17 +6,24 @@ import { FastIntegrationController } from './fast-integration.controller';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { POChargeHistory } from './entities/po-charge-history.entity';
 import { AuditPo } from './entities/audit-po.entity';
+import { PoChargeFeeRuleSet } from '../../entities/po-charge-fee-rule-set.entity';
+import { PoChargeFeeRuleService } from './po-charge-fee-rule.service';
+import { PoChargeBatch } from '../../entities/po-charge-batch.entity';
+import { PoChargeBatchItem } from '../../entities/po-charge-batch-item.entity';
+import { PoChargeBatchService } from './po-charge-batch.service';
 import { OrderFeeModule } from '../order-fee/order-fee.module';
+import { IntegrationAuditModule } from '../integration-audit/integration-audit.module';
 
 @Module({
     imports: [
         HttpModule,
-        TypeOrmModule.forFeature([POChargeHistory, AuditPo]),
+        TypeOrmModule.forFeature([POChargeHistory, AuditPo, PoChargeFeeRuleSet, PoChargeBatch, PoChargeBatchItem]),
         forwardRef(() => SalesModule),
         OrderFeeModule,
+        IntegrationAuditModule,
     ],
     controllers: [FastIntegrationController],
-    providers: [FastIntegrationService],
-    exports: [FastIntegrationService],
+    providers: [FastIntegrationService, PoChargeFeeRuleService, PoChargeBatchService],
+    exports: [FastIntegrationService, PoChargeFeeRuleService],
 })
 export class FastIntegrationModule { }
@@ -5,8 +5,11 @@ import { Repository, Between } from 'typeorm';
 import { POChargeHistory } from './entities/po-charge-history.entity';
 import { AuditPo } from './entities/audit-po.entity';
 import { FastApiClientService } from '../../services/fast-api-client.service';
-import { SHOPEE_FEE_CONFIG, TIKTOK_FEE_CONFIG } from './constants/fee-config.constant';
-import { OrderFeeService } from '../order-fee/order-fee.service';
+import {
+  INTEGRATION_AUDIT_OUTCOMES,
+  IntegrationAuditService,
+} from '../integration-audit/integration-audit.service';
+import { IntegrationAuditLog } from '../../entities/integration-audit-log.entity';
 
 function safeNumber(val: any): number {
   const num = Number(val);
@@ -23,13 +26,14 @@ export class FastIntegrationService {
     private readonly historyRepo: Repository<POChargeHistory>,
     @InjectRepository(AuditPo)
     private readonly auditRepo: Repository<AuditPo>,
-    private readonly orderFeeService: OrderFeeService,
+    private readonly integrationAuditService: IntegrationAuditService,
   ) { }
 
   /**
    * Đẩy phí đơn hàng lên Fast API (POCharges)
    * Có logic merge với lịch sử (Lần 1, Lần 2...)
    * Logic mới: Chỉ lưu vào History NẾU Fast API trả về thành công (status = 1)
+   * options.batchId: lô POCharges sinh ra lần đẩy này (ghi vào audit_po.batch_id)
    */
   async syncPOCharges(payload: {
     master: {
@@ -53,7 +57,7 @@ export class FastIntegrationService {
       cp05_nt: number;
       cp06_nt: number;
     }>;
-  }): Promise<any> {
+  }, options: { batchId?: string } = {}): Promise<any> {
     const { master, detail } = payload;
     this.logger.log(
       `[FastIntegration] Syncing POCharges for order ${master.dh_so}...`,
@@ -218,6 +222,7 @@ export class FastIntegrationService {
           response: result,
           status: status,
           error: errorMessage,
+          batch_id: options.batchId || null,
         });
       } catch (auditError: any) {
         this.logger.error(
@@ -228,179 +233,68 @@ export class FastIntegrationService {
     }
   }
 
-  async batchSyncPOCharges(startDate: string, endDate: string, platform?: string): Promise<any> {
-    this.logger.log(`[FastIntegration] Starting batch sync PO Charges for ${startDate} to ${endDate} (Platform: ${platform || 'ALL'})`);
-
-    try {
-      const startStr = startDate;
-      const endStr = endDate;
-
-      let fees: any[] = [];
-
-      if (!platform || platform.toLowerCase() === 'shopee') {
-        const result = await this.orderFeeService.findShopeeFees(1, 100000, undefined, undefined, startStr, endStr);
-        fees = fees.concat(result.data.map(item => ({ ...item, platform: 'shopee' })));
-      }
-
-      if (!platform || platform.toLowerCase() === 'tiktok') {
-        const result = await this.orderFeeService.findTikTokFees(1, 100000, undefined, undefined, startStr, endStr);
-        fees = fees.concat(result.data.map(item => ({ ...item, platform: 'tiktok' })));
-      }
-
-      this.logger.log(`[FastIntegration] Found ${fees.length} fees to sync`);
-
-      const results: any[] = [];
-      let successCount = 0;
-      let failCount = 0;
-
-      for (const item of fees) {
-        if (!item.erpOrderCode) {
-          this.logger.warn(`[FastIntegration] Order missing erpOrderCode, skipping.`);
-          failCount++;
-          continue;
-        }
-
-        const orderDate = item.invoiceDate
-          ? new Date(item.invoiceDate).toISOString()
-          : (item.orderCreatedAt ? new Date(item.orderCreatedAt).toISOString() : new Date().toISOString());
-
-        const config = (item.platform || '').toLowerCase() === 'tiktok' ? TIKTOK_FEE_CONFIG : SHOPEE_FEE_CONFIG;
-
-        const dateStr = item.invoiceDate
-          ? format(new Date(item.invoiceDate), "yyyy-MM-dd'T'HH:mm:ss")
-          : (item.orderCreatedAt ? format(new Date(item.orderCreatedAt), "yyyy-MM-dd'T'HH:mm:ss") : format(new Date(), "yyyy-MM-dd'T'HH:mm:ss"));
-
-
-        const master = {
-          dh_so: item.erpOrderCode,
-          dh_ngay: orderDate,
-          dh_dvcs: "TTM",
-          ngay_phi1: dateStr,
-          ngay_phi2: dateStr,
-          ngay_phi3: dateStr,
-          ngay_phi4: dateStr,
-          ngay_phi5: dateStr,
-          ngay_phi6: dateStr,
-        };
-
-        const details: any[] = [];
-        config.forEach((rule) => {
-          const value = Number(item[rule.field]);
-          if (value && value !== 0 && !isNaN(value)) {
-            const code = rule.defaultCode;
-
-            const detail = {
-              dong: rule.row,
-              ma_cp: code,
-              cp01_nt: 0,
-              cp02_nt: 0,
-              cp03_nt: 0,
-              cp04_nt: 0,
-              cp05_nt: 0,
-              cp06_nt: 0,
-            };
-
-            if (rule.targetCol === "cp02_nt") {
-              detail.cp02_nt = value;
-            } else {
-              detail.cp01_nt = value;
-            }
-            details.push(detail);
-          }
-        });
-
-        if (details.length === 0) {
-          continue;
-        }
-
-        try {
-          await this.syncPOCharges({ master, detail: details });
-          successCount++;
-        } catch (error: any) {
-          failCount++;
-          results.push({ order: item.erpOrderCode, error: error.message });
-        }
-      }
-
-      return { success: true, message: `Thành công ${successCount}, Thất bại ${failCount}`, total: fees.length, errors: results };
-    } catch (error: any) {
-      throw new BadRequestException(`Batch sync failed: ${error.message}`);
-    }
-  }
-
+  /**
+   * Lịch sử đẩy POCharges, đọc từ integration_audit_logs (giữ nguyên dạng response cũ)
+   * Bảng audit_po chỉ còn dùng để xác định lần đẩy (cp01 -> cp06)
+   */
   async getAuditLogs(
     search?: string,
     dateFrom?: string,
     dateTo?: string,
     status?: string,
-  ): Promise<AuditPo[]> {
-    const query = this.auditRepo
-      .createQueryBuilder('audit')
-      .orderBy('audit.created_at', 'DESC')
-      .take(500);
-
-    if (search) {
-      query.andWhere('audit.dh_so ILIKE :search', { search: `%${search}%` });
-    }
-
-    if (status) {
-      query.andWhere('audit.status = :status', { status: status.toUpperCase() });
-    }
-
-    if (dateFrom) {
-      const start = new Date(dateFrom);
-      start.setHours(0, 0, 0, 0);
-      query.andWhere('audit.dh_ngay >= :dateFrom', { dateFrom: start });
-    }
-
-    if (dateTo) {
-      const endOfDay = new Date(dateTo);
-      endOfDay.setHours(23, 59, 59, 999);
-      query.andWhere('audit.dh_ngay <= :dateTo', { dateTo: endOfDay });
-    }
-
-    return query.getMany();
+  ): Promise<any[]> {
+    const outcomes = status
+      ? status.toUpperCase() === 'SUCCESS'
+        ? [INTEGRATION_AUDIT_OUTCOMES.SUCCESS]
+        : [INTEGRATION_AUDIT_OUTCOMES.REJECTED, INTEGRATION_AUDIT_OUTCOMES.ERROR]
+      : undefined;
+
+    const { data } = await this.integrationAuditService.findLogs({
+      documentTypes: ['POCharges'],
+      docCode: search,
+      outcomes,
+      dateFrom,
+      dateTo,
+      limit: 500,
+    });
+
+    return data.map((log) => this.toLegacyAuditLog(log));
   }
 
-  async retrySync(id: number): Promise<any> {
-    const audit = await this.auditRepo.findOne({ where: { id } });
-    if (!audit) {
-      throw new BadRequestException(`Audit log #${id} not found`);
-    }
+  async retrySync(id: string): Promise<any> {
+    const log = await this.integrationAuditService.findLog(id);
 
-    if (!audit.payload) {
+    if (!log.requestPayload) {
       throw new BadRequestException(`Audit log #${id} has no payload to retry`);
     }
 
     this.logger.log(
-      `[FastIntegration] Retrying sync for PO ${audit.dh_so} from audit #${id}`,
+      `[FastIntegration] Retrying sync for PO ${log.docCode} from audit #${id}`,
     );
-    return this.syncPOCharges(audit.payload);
+    return this.syncPOCharges(JSON.parse(log.requestPayload));
   }
 
   /**
-   * Xoá một audit log theo ID
+   * Reset lịch sử đẩy phí của đơn theo audit log
+   * Xoá audit_po + po_charge_history của đơn, lần đẩy sau bắt đầu lại từ cp01.
+   * integration_audit_logs được giữ nguyên (append-only)
    */
-  async deleteAuditLog(id: number): Promise<{ success: boolean; message: string }> {
-    const audit = await this.auditRepo.findOne({ where: { id } });
-    if (!audit) {
-      throw new NotFoundException(`Audit log #${id} không tồn tại`);
+  async deleteAuditLog(id: string): Promise<{ success: boolean; message: string }> {
+    const log = await this.integrationAuditService.findLog(id);
+    const dhSo = log.docCode;
+    if (!dhSo) {
+      throw new BadRequestException(`Audit log #${id} không có số đơn hàng`);
     }
-    const dhSo = audit.dh_so;
 
-    // Cascade: delete po_charge_history for this order
-    if (dhSo) {
-      await this.historyRepo.delete({ dh_so: dhSo });
-      this.logger.log(`[FastIntegration] Deleted po_charge_history for ${dhSo}`);
-    }
-
-    await this.auditRepo.delete(id);
-    this.logger.log(`[FastIntegration] Deleted audit log #${id} (${dhSo})`);
-    return { success: true, message: `Đã xoá log #${id} và lịch sử phí của ${dhSo}` };
+    await this.historyRepo.delete({ dh_so: dhSo });
+    await this.auditRepo.delete({ dh_so: dhSo });
+    this.logger.log(`[FastIntegration] Reset po_charge_history/audit_po for ${dhSo} (audit #${id})`);
+    return { success: true, message: `Đã xoá lịch sử phí của ${dhSo}` };
   }
 
   /**
-   * Xoá nhiều audit log theo khoảng ngày (created_at)
+   * Xoá lịch sử đẩy POCharges theo khoảng ngày (createdAt, giống danh sách getAuditLogs)
+   * Kèm audit_po cùng khoảng ngày + po_charge_history của các đơn liên quan
    */
   async deleteAuditLogsByDateRange(
     startDate: string,
@@ -411,39 +305,66 @@ export class FastIntegrationService {
       throw new BadRequestException('startDate và endDate là bắt buộc');
     }
 
+    const statusKey = status?.toUpperCase();
+    const { deleted, docCodes } = await this.integrationAuditService.deleteLogs({
+      documentTypes: ['POCharges'],
+      outcomes: statusKey
+        ? statusKey === 'SUCCESS'
+          ? [INTEGRATION_AUDIT_OUTCOMES.SUCCESS]
+          : [INTEGRATION_AUDIT_OUTCOMES.REJECTED, INTEGRATION_AUDIT_OUTCOMES.ERROR]
+        : undefined,
+      dateFrom: startDate,
+      dateTo: endDate,
+    });
+
+    if (deleted === 0) {
+      return { success: true, message: 'Không có log nào để xoá', deleted: 0 };
+    }
+
     const start = new Date(startDate);
     start.setHours(0, 0, 0, 0);
     const end = new Date(endDate);
     end.setHours(23, 59, 59, 999);
 
-    const query = this.auditRepo
-      .createQueryBuilder('audit')
-      .where('audit.dh_ngay >= :start', { start })
-      .andWhere('audit.dh_ngay <= :end', { end });
-
-    if (status) {
-      query.andWhere('audit.status = :status', { status: status.toUpperCase() });
-    }
-
-    const logsToDelete = await query.select(['audit.id', 'audit.dh_so']).getMany();
-    const ids = logsToDelete.map(l => l.id);
-
-    if (ids.length === 0) {
-      return { success: true, message: 'Không có log nào để xoá', deleted: 0 };
-    }
-
-    // Cascade: delete po_charge_history for all affected orders
-    const uniqueDhSo = [...new Set(logsToDelete.map(l => l.dh_so).filter((s): s is string => !!s))];
-    if (uniqueDhSo.length > 0) {
-      for (const dhSo of uniqueDhSo) {
-        await this.historyRepo.delete({ dh_so: dhSo });
-      }
-      this.logger.log(`[FastIntegration] Deleted po_charge_history for ${uniqueDhSo.length} orders`);
+    // Cascade: audit_po cùng khoảng ngày + po_charge_history của các đơn bị xoá log
+    for (const dhSo of docCodes) {
+      await this.auditRepo.delete({
+        dh_so: dhSo,
+        action: 'SYNC_PO_CHARGES',
+        created_at: Between(start, end),
+        ...(statusKey && { status: statusKey === 'SUCCESS' ? 'SUCCESS' : 'ERROR' }),
+      });
+      await this.historyRepo.delete({ dh_so: dhSo });
     }
+    this.logger.log(`[FastIntegration] Deleted po_charge_history for ${docCodes.length} orders`);
 
-    const result = await this.auditRepo.delete(ids);
-    const deleted = result.affected || 0;
     this.logger.log(`[FastIntegration] Deleted ${deleted} audit logs (${startDate} -> ${endDate})`);
     return { success: true, message: `Đã xoá ${deleted} log và lịch sử phí tương ứng`, deleted };
   }
+
+  private toLegacyAuditLog(log: IntegrationAuditLog) {
+    const parse = (value: string | null) => {
+      if (!value) return null;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    };
+    const payload = parse(log.requestPayload);
+
+    return {
+      id: log.id,
+      dh_so: log.docCode,
+      dh_ngay: payload?.master?.dh_ngay || null,
+      action: 'SYNC_PO_CHARGES',
+      payload,
+      response: parse(log.responsePayload),
+      status: log.outcome === INTEGRATION_AUDIT_OUTCOMES.SUCCESS ? 'SUCCESS' : 'ERROR',
+      error: log.errorMessage,
+      attempt: log.attempt,
+      duration_ms: log.durationMs,
+      created_at: log.createdAt,
+    };
+  }
 }
@@ -0,0 +1,664 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, In, LessThan, MoreThanOrEqual, Repository } from 'typeorm';
+import { format } from 'date-fns';
+import * as _ from 'lodash';
+import {
+  PO_CHARGE_BATCH_STATUS,
+  PoChargeBatch,
+  PoChargeBatchFeeTotal,
+} from '../../entities/po-charge-batch.entity';
+import {
+  PO_CHARGE_BATCH_ITEM_STATUS,
+  PoChargeBatchItem,
+  PoChargeBatchLine,
+} from '../../entities/po-charge-batch-item.entity';
+import { AuditPo } from './entities/audit-po.entity';
+import { FastIntegrationService } from './fast-integration.service';
+import { PoChargeFeeRuleService } from './po-charge-fee-rule.service';
+import { OrderFeeService } from '../order-fee/order-fee.service';
+import { PO_CHARGE_PLATFORMS } from './constants/fee-config.constant';
+import { FAST_SUBMISSION_IN_FLIGHT_TIMEOUT_MS } from '../../utils/fast-idempotency.utils';
+
+const CHUNK_SIZE = 1000;
+// Fast chỉ có 6 cột cp01 -> cp06, từ lần thứ 7 sẽ ghi đè cp06
+const MAX_PO_CHARGE_ROUNDS = 6;
+
+/**
+ * Lô đẩy phí POCharges theo 2 bước: dựng lô (xem trước dòng phí, tổng theo mã phí, bất thường)
+ * rồi người duyệt đẩy cả lô hoặc 1 phần đơn sang Fast
+ */
+@Injectable()
+export class PoChargeBatchService {
+  private readonly logger = new Logger(PoChargeBatchService.name);
+
+  constructor(
+    @InjectRepository(PoChargeBatch)
+    private readonly batchRepository: Repository<PoChargeBatch>,
+    @InjectRepository(PoChargeBatchItem)
+    private readonly itemRepository: Repository<PoChargeBatchItem>,
+    @InjectRepository(AuditPo)
+    private readonly auditRepository: Repository<AuditPo>,
+    private readonly dataSource: DataSource,
+    private readonly orderFeeService: OrderFeeService,
+    private readonly poChargeFeeRuleService: PoChargeFeeRuleService,
+    private readonly fastIntegrationService: FastIntegrationService,
+  ) {}
+
+  /**
+   * Dựng lô từ phí đã sync trong khoảng ngày, chưa gửi gì sang Fast
+   */
+  async createBatch(
+    startDate: string,
+    endDate: string,
+    platform?: string,
+    createdBy?: string,
+  ) {
+    const platformKey = platform ? platform.toLowerCase() : null;
+    if (
+      platformKey &&
+      !(PO_CHARGE_PLATFORMS as readonly string[]).includes(platformKey)
+    ) {
+      throw new BadRequestException(
+        `Sàn không hợp lệ: ${platform} (hỗ trợ: ${PO_CHARGE_PLATFORMS.join(', ')})`,
+      );
+    }
+    if (startDate > endDate) {
+      throw new BadRequestException('startDate phải trước hoặc bằng endDate');
+    }
+
+    const fees = await this.loadFees(startDate, endDate, platformKey);
+    this.logger.log(
+      `[POChargeBatch] Building batch ${startDate} -> ${endDate} (${platformKey || 'ALL'}): ${fees.length} orders`,
+    );
+
+    const previousRounds = await this.countPreviousRounds(
+      fees.map((fee) => fee.erpOrderCode).filter(Boolean),
+    );
+
+    const items: Partial<PoChargeBatchItem>[] = [];
+    for (const fee of fees) {
+      items.push(await this.buildItem(fee, previousRounds));
+    }
+
+    // Cùng 1 đơn xuất hiện nhiều lần thì lần đẩy sau sẽ sang cột cp0N kế tiếp
+    const occurrences = _.countBy(
+      items.filter((item) => item.erpOrderCode),
+      'erpOrderCode',
+    );
+    items
+      .filter((item) => item.erpOrderCode && occurrences[item.erpOrderCode] > 1)
+      .forEach((item) =>
+        item.anomalies!.push(
+          `Đơn xuất hiện ${occurrences[item.erpOrderCode!]} lần trong lô`,
+        ),
+      );
+
+    const pendingItems = items.filter(
+      (item) => item.status === PO_CHARGE_BATCH_ITEM_STATUS.PENDING,
+    );
+
+    const batchId = await this.dataSource.transaction(async (manager) => {
+      const batch = await manager.save(
+        manager.create(PoChargeBatch, {
+          startDate,
+          endDate,
+          platform: platformKey,
+          status: PO_CHARGE_BATCH_STATUS.PENDING,
+          totals: this.computeTotals(pendingItems),
+          totalOrders: items.length,
+          skippedCount: items.length - pendingItems.length,
+          anomalyCount: items.filter((item) => item.anomalies?.length).length,
+          createdBy: createdBy || null,
+        }),
+      );
+
+      for (const chunk of _.chunk(items, CHUNK_SIZE)) {
+        await manager.insert(
+          PoChargeBatchItem,
+          chunk.map((item) => ({ ...item, batchId: batch.id })),
+        );
+      }
+
+      return batch.id;
+    });
+
+    return this.getBatch(batchId);
+  }
+
+  async findBatches(page = 1, limit = 20, status?: string) {
+    const [data, total] = await this.batchRepository.findAndCount({
+      where: status ? { status } : {},
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Chi tiết lô: dòng phí từng đơn, lọc theo trạng thái / chỉ đơn có bất thường
+   */
+  async getBatch(
+    id: string,
+    options: { status?: string; onlyAnomalies?: boolean } = {},
+  ) {
+    const batch = await this.findBatchOrFail(id);
+
+    const query = this.itemRepository
+      .createQueryBuilder('item')
+      .where('item.batchId = :id', { id })
+      .orderBy('item.erpOrderCode', 'ASC');
+
+    if (options.status) {
+      query.andWhere('item.status = :status', { status: options.status });
+    }
+    if (options.onlyAnomalies) {
+      query.andWhere('jsonb_array_length(item.anomalies) > 0');
+    }
+
+    const items = await query.getMany();
+    const itemCounts = await this.countItemsByStatus(id);
+
+    return { ...batch, itemCounts, items };
+  }
+
+  /**
+   * Các dòng audit_po sinh ra từ lô (để truy vết / xử lý theo lô)
+   */
+  async getBatchAuditLogs(id: string) {
+    await this.findBatchOrFail(id);
+    return this.auditRepository.find({
+      where: { batch_id: id },
+      order: { created_at: 'DESC' },
+    });
+  }
+
+  /**
+   * Duyệt lô: đẩy các đơn PENDING (hoặc FAILED để thử lại) sang Fast
+   * erpOrderCodes rỗng = đẩy toàn bộ lô
+   */
+  async commitBatch(id: string, erpOrderCodes?: string[], approvedBy?: string) {
+    const batch = await this.findBatchOrFail(id);
+    if (
+      batch.status === PO_CHARGE_BATCH_STATUS.DISCARDED ||
+      batch.status === PO_CHARGE_BATCH_STATUS.COMMITTED
+    ) {
+      throw new BadRequestException(
+        `Lô ${id} đang ở trạng thái ${batch.status}, không thể đẩy`,
+      );
+    }
+
+    await this.recoverStuckItems(id);
+
+    const where: any = {
+      batchId: id,
+      status: In([
+        PO_CHARGE_BATCH_ITEM_STATUS.PENDING,
+        PO_CHARGE_BATCH_ITEM_STATUS.FAILED,
+      ]),
+    };
+    const codes = _.uniq((erpOrderCodes || []).filter(Boolean));
+    if (codes.length > 0) {
+      where.erpOrderCode = In(codes);
+    }
+
+    const items = await this.itemRepository.find({
+      where,
+      order: { erpOrderCode: 'ASC' },
+    });
+
+    if (codes.length > 0) {
+      const found = new Set(items.map((item) => item.erpOrderCode));
+      const missing = codes.filter((code) => !found.has(code));
+      if (missing.length > 0) {
+        throw new BadRequestException(
+          `Đơn không thuộc lô hoặc không ở trạng thái chờ đẩy: ${missing.join(', ')}`,
+        );
+      }
+    }
+
+    let successCount = 0;
+    let failCount = 0;
+    const errors: Array<{ order: string | null; error: string }> = [];
+
+    for (const item of items) {
+      // Claim đơn để 2 người duyệt cùng lúc không đẩy trùng
+      const claimed = await this.itemRepository.update(
+        { id: item.id, status: item.status },
+        { status: PO_CHARGE_BATCH_ITEM_STATUS.SUBMITTING },
+      );
+      if (!claimed.affected) {
+        continue;
+      }
+
+      try {
+        await this.fastIntegrationService.syncPOCharges(item.payload, {
+          batchId: id,
+        });
+        successCount++;
+        await this.itemRepository.update(item.id, {
+          status: PO_CHARGE_BATCH_ITEM_STATUS.SUCCESS,
+          errorMessage: null,
+          committedAt: new Date(),
+        });
+      } catch (error: any) {
+        failCount++;
+        const message = error?.message || String(error);
+        errors.push({ order: item.erpOrderCode, error: message });
+        await this.itemRepository.update(item.id, {
+          status: PO_CHARGE_BATCH_ITEM_STATUS.FAILED,
+          errorMessage: message,
+        });
+      }
+    }
+
+    const remaining = await this.refreshBatchStatus(id, {
+      approvedBy: approvedBy || batch.approvedBy,
+      committedAt: new Date(),
+    });
+
+    this.logger.log(
+      `[POChargeBatch] Batch ${id} committed: ${successCount} success, ${failCount} failed, ${remaining} remaining`,
+    );
+
+    return {
+      batchId: id,
+      message: `Thành công ${successCount}, Thất bại ${failCount}`,
+      successCount,
+      failCount,
+      remaining,
+      errors,
+    };
+  }
+
+  /**
+   * Huỷ lô: các đơn chưa đẩy chuyển SKIPPED, đơn đã đẩy giữ nguyên
+   */
+  async discardBatch(id: string) {
+    const batch = await this.findBatchOrFail(id);
+    if (
+      batch.status === PO_CHARGE_BATCH_STATUS.DISCARDED ||
+      batch.status === PO_CHARGE_BATCH_STATUS.COMMITTED
+    ) {
+      throw new BadRequestException(
+        `Lô ${id} đang ở trạng thái ${batch.status}, không thể huỷ`,
+      );
+    }
+
+    await this.itemRepository.update(
+      {
+        batchId: id,
+        status: In([
+          PO_CHARGE_BATCH_ITEM_STATUS.PENDING,
+          PO_CHARGE_BATCH_ITEM_STATUS.FAILED,
+        ]),
+      },
+      {
+        status: PO_CHARGE_BATCH_ITEM_STATUS.SKIPPED,
+        errorMessage: 'Lô đã bị huỷ',
+      },
+    );
+    await this.batchRepository.update(id, {
+      status: PO_CHARGE_BATCH_STATUS.DISCARDED,
+    });
+
+    return this.findBatchOrFail(id);
+  }
+
+  /**
+   * Đơn kẹt SUBMITTING quá thời gian chờ (tiến trình dừng giữa lúc đẩy):
+   * chốt theo audit_po của lô, không có audit thì chuyển FAILED để người duyệt kiểm tra rồi đẩy lại
+   */
+  async recoverStuckItems(batchId?: string): Promise<number> {
+    const items = await this.itemRepository.find({
+      where: {
+        ...(batchId ? { batchId } : {}),
+        status: PO_CHARGE_BATCH_ITEM_STATUS.SUBMITTING,
+        updatedAt: LessThan(
+          new Date(Date.now() - FAST_SUBMISSION_IN_FLIGHT_TIMEOUT_MS),
+        ),
+      },
+    });
+
+    for (const item of items) {
+      const audit = item.erpOrderCode
+        ? await this.auditRepository.findOne({
+            where: {
+              dh_so: item.erpOrderCode,
+              batch_id: item.batchId,
+              action: 'SYNC_PO_CHARGES',
+              created_at: MoreThanOrEqual(item.updatedAt),
+            },
+            order: { created_at: 'DESC' },
+          })
+        : null;
+
+      await this.itemRepository.update(
+        { id: item.id, status: PO_CHARGE_BATCH_ITEM_STATUS.SUBMITTING },
+        audit?.status === 'SUCCESS'
+          ? {
+              status: PO_CHARGE_BATCH_ITEM_STATUS.SUCCESS,
+              errorMessage: null,
+              committedAt: audit.created_at,
+            }
+          : {
+              status: PO_CHARGE_BATCH_ITEM_STATUS.FAILED,
+              errorMessage:
+                audit?.error ||
+                'Bị gián đoạn khi đang đẩy sang Fast, kiểm tra trên Fast trước khi đẩy lại',
+            },
+      );
+    }
+
+    for (const id of _.uniq(items.map((item) => item.batchId))) {
+      await this.refreshBatchStatus(id);
+    }
+
+    if (items.length > 0) {
+      this.logger.warn(
+        `[POChargeBatch] Recovered ${items.length} items stuck in SUBMITTING`,
+      );
+    }
+    return items.length;
+  }
+
+  @Cron(CronExpression.EVERY_30_MINUTES, {
+    name: 'recover-po-charge-batch-items',
+  })
+  async handleStuckItems() {
+    try {
+      await this.recoverStuckItems();
+    } catch (error: any) {
+      this.logger.error(
+        `[POChargeBatch] Lỗi khi xử lý đơn bị treo: ${error?.message || error}`,
+      );
+    }
+  }
+
+  /**
+   * Cập nhật trạng thái + số đếm của lô theo trạng thái các đơn, trả về số đơn còn chờ đẩy
+   */
+  private async refreshBatchStatus(
+    id: string,
+    extra: Partial<PoChargeBatch> = {},
+  ): Promise<number> {
+    const itemCounts = await this.countItemsByStatus(id);
+    const remaining =
+      (itemCounts[PO_CHARGE_BATCH_ITEM_STATUS.PENDING] || 0) +
+      (itemCounts[PO_CHARGE_BATCH_ITEM_STATUS.FAILED] || 0) +
+      (itemCounts[PO_CHARGE_BATCH_ITEM_STATUS.SUBMITTING] || 0);
+
+    await this.batchRepository.update(id, {
+      ...extra,
+      status:
+        remaining > 0
+          ? PO_CHARGE_BATCH_STATUS.PARTIALLY_COMMITTED
+          : PO_CHARGE_BATCH_STATUS.COMMITTED,
+      successCount: itemCounts[PO_CHARGE_BATCH_ITEM_STATUS.SUCCESS] || 0,
+      failedCount: itemCounts[PO_CHARGE_BATCH_ITEM_STATUS.FAILED] || 0,
+    });
+
+    return remaining;
+  }
+
+  private async loadFees(
+    startDate: string,
+    endDate: string,
+    platform: string | null,
+  ): Promise<any[]> {
+    let fees: any[] = [];
+
+    if (!platform || platform === 'shopee') {
+      const result = await this.orderFeeService.findShopeeFees(
+        1,
+        100000,
+        undefined,
+        undefined,
+        startDate,
+        endDate,
+      );
+      fees = fees.concat(
+        result.data.map((item) => ({ ...item, platform: 'shopee' })),
+      );
+    }
+
+    if (!platform || platform === 'tiktok') {
+      const result = await this.orderFeeService.findTikTokFees(
+        1,
+        100000,
+        undefined,
+        undefined,
+        startDate,
+        endDate,
+      );
+      fees = fees.concat(
+        result.data.map((item) => ({ ...item, platform: 'tiktok' })),
+      );
+    }
+
+    if (!platform || platform === 'lazada') {
+      const result = await this.orderFeeService.findLazadaFees(
+        1,
+        100000,
+        undefined,
+        undefined,
+        startDate,
+        endDate,
+      );
+      fees = fees.concat(
+        result.data.map((item) => ({ ...item, platform: 'lazada' })),
+      );
+    }
+
+    return fees;
+  }
+
+  /**
+   * Dựng payload POCharges cho 1 đơn (giống batch-sync cũ) kèm các bất thường
+   */
+  private async buildItem(
+    fee: any,
+    previousRounds: Map<string, number>,
+  ): Promise<Partial<PoChargeBatchItem>> {
+    const item: Partial<PoChargeBatchItem> = {
+      erpOrderCode: fee.erpOrderCode || null,
+      orderSn: fee.orderSn || null,
+      brand: fee.brand || null,
+      platform: fee.platform,
+      lines: [],
+      anomalies: [],
+      previousRounds: fee.erpOrderCode
+        ? previousRounds.get(fee.erpOrderCode) || 0
+        : 0,
+      status: PO_CHARGE_BATCH_ITEM_STATUS.PENDING,
+    };
+
+    if (!fee.erpOrderCode) {
+      return this.skip(item, 'Thiếu mã đơn ERP');
+    }
+
+    const sourceDate = fee.invoiceDate || fee.orderCreatedAt || new Date();
+    const orderDate = new Date(sourceDate).toISOString();
+    const dateStr = format(new Date(sourceDate), "yyyy-MM-dd'T'HH:mm:ss");
+
+    const master = {
+      dh_so: fee.erpOrderCode,
+      dh_ngay: orderDate,
+      dh_dvcs: 'TTM',
+      ngay_phi1: dateStr,
+      ngay_phi2: dateStr,
+      ngay_phi3: dateStr,
+      ngay_phi4: dateStr,
+      ngay_phi5: dateStr,
+      ngay_phi6: dateStr,
+    };
+
+    // Bộ mã phí hiệu lực tại ngày của đơn
+    try {
+      const ruleSet = await this.poChargeFeeRuleService.resolve(
+        (fee.platform || 'shopee').toLowerCase(),
+        dateStr,
+      );
+      item.ruleSetId = ruleSet.id;
+      item.ruleSetVersion = ruleSet.version;
+
+      for (const rule of ruleSet.rules) {
+        const value = Number(fee[rule.field]);
+        if (!value || isNaN(value)) {
+          continue;
+        }
+        item.lines!.push({
+          dong: rule.row,
+          ma_cp: rule.defaultCode,
+          field: rule.field,
+          rawName: rule.rawName,
+          amount: value,
+          targetCol: rule.targetCol === 'cp02_nt' ? 'cp02_nt' : 'cp01_nt',
+        });
+      }
+    } catch (error: any) {
+      return this.skip(item, error.message);
+    }
+
+    if (item.lines!.length === 0) {
+      return this.skip(item, 'Không có phí để đẩy');
+    }
+
+    for (const line of item.lines!) {
+      if (!line.ma_cp) {
+        item.anomalies!.push(`Thiếu mã phí: ${line.rawName}`);
+      }
+      if (line.amount < 0) {
+        item.anomalies!.push(`Phí âm: ${line.rawName} = ${line.amount}`);
+      }
+    }
+
+    // Cùng dòng nhưng khác cột (cp01_nt / cp02_nt) là hợp lệ, giống slot trong PoChargeFeeRuleService.validate
+    const duplicatedSlots = _.uniq(
+      item
+        .lines!.map((line) => `${line.dong}:${line.targetCol}`)
+        .filter((slot, index, slots) => slots.indexOf(slot) !== index),
+    );
+    if (duplicatedSlots.length > 0) {
+      item.anomalies!.push(
+        `Trùng dòng ${duplicatedSlots.join(', ')}, dòng sau ghi đè dòng trước`,
+      );
+    }
+
+    if (item.previousRounds! >= MAX_PO_CHARGE_ROUNDS) {
+      item.anomalies!.push(
+        `Đơn đã đẩy ${item.previousRounds} lần, lần này sẽ ghi đè cp06`,
+      );
+    } else if (item.previousRounds! > 0) {
+      item.anomalies!.push(
+        `Đơn đã đẩy ${item.previousRounds} lần, lần này ghi vào cp0${item.previousRounds! + 1}`,
+      );
+    }
+
+    item.payload = {
+      master,
+      detail: item.lines!.map((line) => ({
+        dong: line.dong,
+        ma_cp: line.ma_cp,
+        cp01_nt: line.targetCol === 'cp01_nt' ? line.amount : 0,
+        cp02_nt: line.targetCol === 'cp02_nt' ? line.amount : 0,
+        cp03_nt: 0,
+        cp04_nt: 0,
+        cp05_nt: 0,
+        cp06_nt: 0,
+      })),
+    };
+
+    return item;
+  }
+
+  private skip(
+    item: Partial<PoChargeBatchItem>,
+    reason: string,
+  ): Partial<PoChargeBatchItem> {
+    item.status = PO_CHARGE_BATCH_ITEM_STATUS.SKIPPED;
+    item.errorMessage = reason;
+    item.anomalies!.push(reason);
+    return item;
+  }
+
+  private computeTotals(
+    items: Partial<PoChargeBatchItem>[],
+  ): PoChargeBatchFeeTotal[] {
+    const lines: PoChargeBatchLine[] = _.flatMap(
+      items,
+      (item) => item.lines || [],
+    );
+
+    return _.map(
+      _.groupBy(lines, (line) => line.ma_cp || ''),
+      (group, code) => ({
+        ma_cp: code,
+        amount: _.sumBy(group, 'amount'),
+        lines: group.length,
+      }),
+    );
+  }
+
+  /**
+   * Số lần đã đẩy POCharges của từng đơn (giống cách syncPOCharges chọn cột cp0N)
+   */
+  private async countPreviousRounds(
+    erpOrderCodes: string[],
+  ): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+
+    for (const chunk of _.chunk(_.uniq(erpOrderCodes), CHUNK_SIZE)) {
+      const rows = await this.auditRepository
+        .createQueryBuilder('audit')
+        .select('audit.dh_so', 'dh_so')
+        .addSelect('COUNT(*)', 'count')
+        .where('audit.dh_so IN (:...codes)', { codes: chunk })
+        .andWhere('audit.action = :action', { action: 'SYNC_PO_CHARGES' })
+        .groupBy('audit.dh_so')
+        .getRawMany();
+
+      rows.forEach((row) => counts.set(row.dh_so, Number(row.count)));
+    }
+
+    return counts;
+  }
+
+  private async countItemsByStatus(
+    batchId: string,
+  ): Promise<Record<string, number>> {
+    const rows = await this.itemRepository
+      .createQueryBuilder('item')
+      .select('item.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .where('item.batchId = :batchId', { batchId })
+      .groupBy('item.status')
+      .getRawMany();
+
+    return _.fromPairs(rows.map((row) => [row.status, Number(row.count)]));
+  }
+
+  private async findBatchOrFail(id: string): Promise<PoChargeBatch> {
+    const batch = await this.batchRepository.findOne({ where: { id } });
+    if (!batch) {
+      throw new NotFoundException(`PO charge batch ${id} not found`);
+    }
+    return batch;
+  }
+}
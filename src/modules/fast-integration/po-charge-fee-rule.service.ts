@@ -0,0 +1,258 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { format, subDays } from 'date-fns';
+import { PoChargeFeeRuleSet } from '../../entities/po-charge-fee-rule-set.entity';
+import { DEFAULT_PO_CHARGE_FEE_RULE_SETS } from './constants/fee-config.constant';
+import {
+  CreatePoChargeFeeRuleSetDto,
+  UpdatePoChargeFeeRuleSetDto,
+} from './dto/po-charge-fee-rule-set.dto';
+import { TtlCache } from '../../utils/ttl-cache.utils';
+
+/**
+ * Bộ quy tắc mã phí POCharges (bảng po_charge_fee_rule_sets)
+ * Mỗi lần đẩy phí chọn phiên bản mới nhất đang hiệu lực tại ngày của đơn
+ */
+@Injectable()
+export class PoChargeFeeRuleService implements OnModuleInit {
+  private readonly logger = new Logger(PoChargeFeeRuleService.name);
+  private readonly cache = new TtlCache<PoChargeFeeRuleSet[]>(() =>
+    this.ruleSetRepository.find({ where: { isActive: true } }),
+  );
+
+  constructor(
+    @InjectRepository(PoChargeFeeRuleSet)
+    private ruleSetRepository: Repository<PoChargeFeeRuleSet>,
+  ) {}
+
+  async onModuleInit() {
+    const count = await this.ruleSetRepository.count();
+    if (count > 0) {
+      return;
+    }
+
+    await this.ruleSetRepository.save(
+      DEFAULT_PO_CHARGE_FEE_RULE_SETS.map((item) =>
+        this.ruleSetRepository.create({
+          ...item,
+          version: 1,
+          note: 'Khởi tạo từ cấu hình mặc định',
+        }),
+      ),
+    );
+    this.logger.log(
+      `Đã khởi tạo ${DEFAULT_PO_CHARGE_FEE_RULE_SETS.length} bộ mã phí POCharges mặc định`,
+    );
+  }
+
+  /**
+   * Bộ quy tắc hiệu lực tại ngày `date` (YYYY-MM-DD): phiên bản cao nhất có effectiveFrom <= date <= effectiveTo
+   */
+  async resolve(
+    platform: string,
+    date: string,
+    source = 'synced',
+  ): Promise<PoChargeFeeRuleSet> {
+    const day = date.slice(0, 10);
+    const ruleSets = await this.getActiveRuleSets();
+    const matched = ruleSets
+      .filter(
+        (item) =>
+          item.platform === platform &&
+          item.source === source &&
+          (!item.effectiveFrom || item.effectiveFrom <= day) &&
+          (!item.effectiveTo || item.effectiveTo >= day),
+      )
+      .sort((a, b) => b.version - a.version)[0];
+
+    if (!matched) {
+      throw new BadRequestException(
+        `Chưa có bộ mã phí POCharges cho ${platform} (${source}) hiệu lực ngày ${day}`,
+      );
+    }
+    return matched;
+  }
+
+  async findAll(platform?: string, source?: string) {
+    return this.ruleSetRepository.find({
+      where: {
+        ...(platform && { platform }),
+        ...(source && { source }),
+      },
+      order: { platform: 'ASC', source: 'ASC', version: 'DESC' },
+    });
+  }
+
+  async findOne(id: string) {
+    const ruleSet = await this.ruleSetRepository.findOne({ where: { id } });
+    if (!ruleSet) {
+      throw new NotFoundException(`PO charge fee rule set ${id} not found`);
+    }
+    return ruleSet;
+  }
+
+  /**
+   * Tạo phiên bản mới cho platform/source (version tự tăng)
+   */
+  async create(createDto: CreatePoChargeFeeRuleSetDto, createdBy?: string) {
+    const source = createDto.source || 'synced';
+    this.validate(createDto);
+
+    const latest = await this.ruleSetRepository.findOne({
+      where: { platform: createDto.platform, source },
+      order: { version: 'DESC' },
+    });
+    const saved = await this.ruleSetRepository.save(
+      this.ruleSetRepository.create({
+        ...createDto,
+        source,
+        version: (latest?.version || 0) + 1,
+        createdBy: createdBy || null,
+      }),
+    );
+    this.invalidateCache();
+    return saved;
+  }
+
+  /**
+   * Sửa quy tắc / thời gian hiệu lực: đóng phiên bản hiện tại và tạo phiên bản mới, không sửa đè
+   * Phiên bản mới hiệu lực từ effectiveFrom (mặc định hôm nay), phiên bản cũ kết thúc ngay trước đó
+   * Chỉ đổi note / isActive thì cập nhật trực tiếp. Chỉ sửa được phiên bản mới nhất của platform/source
+   */
+  async update(
+    id: string,
+    updateDto: UpdatePoChargeFeeRuleSetDto,
+    updatedBy?: string,
+  ) {
+    const current = await this.findOne(id);
+    await this.assertLatestVersion(current);
+    const { note, isActive, ...versionedChanges } = updateDto;
+    if (Object.values(versionedChanges).every((value) => value === undefined)) {
+      Object.assign(current, {
+        ...(note !== undefined && { note }),
+        ...(isActive !== undefined && { isActive }),
+      });
+      const saved = await this.ruleSetRepository.save(current);
+      this.invalidateCache();
+      return saved;
+    }
+
+    const effectiveFrom = (
+      versionedChanges.effectiveFrom || format(new Date(), 'yyyy-MM-dd')
+    ).slice(0, 10);
+    if (current.effectiveFrom && effectiveFrom <= current.effectiveFrom) {
+      throw new BadRequestException(
+        `Phiên bản mới phải hiệu lực sau ngày ${current.effectiveFrom} của phiên bản ${current.version}`,
+      );
+    }
+    const next = this.ruleSetRepository.create({
+      platform: current.platform,
+      source: current.source,
+      rules: versionedChanges.rules || current.rules,
+      effectiveFrom,
+      effectiveTo:
+        versionedChanges.effectiveTo !== undefined
+          ? versionedChanges.effectiveTo
+          : current.effectiveTo,
+      note: note !== undefined ? note : current.note,
+      isActive: isActive ?? current.isActive,
+      createdBy: updatedBy || null,
+    });
+    this.validate(next);
+    const closedAt = format(
+      subDays(new Date(`${effectiveFrom}T00:00:00`), 1),
+      'yyyy-MM-dd',
+    );
+
+    const saved = await this.ruleSetRepository.manager.transaction(
+      async (manager) => {
+        const repository = manager.getRepository(PoChargeFeeRuleSet);
+        if (!current.effectiveTo || current.effectiveTo > closedAt) {
+          await repository.update(current.id, { effectiveTo: closedAt });
+        }
+        const latest = await repository.findOne({
+          where: { platform: current.platform, source: current.source },
+          order: { version: 'DESC' },
+        });
+        if (latest && latest.id !== current.id) {
+          throw new BadRequestException(
+            `Bộ mã phí ${current.platform} (${current.source}) vừa có phiên bản mới ${latest.version}, vui lòng tải lại`,
+          );
+        }
+        next.version = (latest?.version || 0) + 1;
+        return repository.save(next);
+      },
+    );
+    this.invalidateCache();
+    return saved;
+  }
+
+  /**
+   * Ngừng dùng phiên bản (isActive = false), không xoá để giữ lịch sử quy tắc đã áp dụng
+   */
+  async remove(id: string) {
+    const ruleSet = await this.findOne(id);
+    await this.ruleSetRepository.update(ruleSet.id, { isActive: false });
+    this.invalidateCache();
+    return {
+      success: true,
+      message: `Đã ngừng dùng bộ mã phí ${ruleSet.platform} phiên bản ${ruleSet.version}`,
+    };
+  }
+
+  private async assertLatestVersion(ruleSet: PoChargeFeeRuleSet) {
+    const latest = await this.ruleSetRepository.findOne({
+      where: { platform: ruleSet.platform, source: ruleSet.source },
+      order: { version: 'DESC' },
+    });
+    if (latest && latest.id !== ruleSet.id) {
+      throw new BadRequestException(
+        `Chỉ sửa được phiên bản mới nhất (${latest.version}) của bộ mã phí ${ruleSet.platform} (${ruleSet.source})`,
+      );
+    }
+  }
+
+  private validate(ruleSet: {
+    effectiveFrom?: string | null;
+    effectiveTo?: string | null;
+    rules?: Array<{ row: number; targetCol?: string }>;
+  }) {
+    if (
+      ruleSet.effectiveFrom &&
+      ruleSet.effectiveTo &&
+      ruleSet.effectiveFrom > ruleSet.effectiveTo
+    ) {
+      throw new BadRequestException(
+        'Ngày bắt đầu hiệu lực phải trước ngày kết thúc',
+      );
+    }
+
+    // 1 dòng chỉ có 1 giá trị cp01_nt và 1 giá trị cp02_nt
+    const slots = (ruleSet.rules || []).map(
+      (rule) => `${rule.row}:${rule.targetCol || 'cp01_nt'}`,
+    );
+    const duplicated = slots.filter(
+      (slot, index) => slots.indexOf(slot) !== index,
+    );
+    if (duplicated.length > 0) {
+      throw new BadRequestException(
+        `Trùng dòng/cột phí trong bộ quy tắc: ${[...new Set(duplicated)].join(', ')}`,
+      );
+    }
+  }
+
+  private getActiveRuleSets(): Promise<PoChargeFeeRuleSet[]> {
+    return this.cache.get();
+  }
+
+  private invalidateCache() {
+    this.cache.invalidate();
+  }
+}
@@ -0,0 +1,21 @@
+import { IsIn, IsNotEmpty, IsString } from 'class-validator';
+import { FAST_REVERSAL_SOURCE_TYPES } from '../../../entities/fast-document-reversal.entity';
+
+export class CreateFastReversalDto {
+  @IsIn(Object.values(FAST_REVERSAL_SOURCE_TYPES))
+  sourceType: string;
+
+  @IsString()
+  @IsNotEmpty()
+  sourceId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class FastReversalReasonDto {
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
@@ -0,0 +1,102 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { FastReversalService } from './fast-reversal.service';
+import {
+  CreateFastReversalDto,
+  FastReversalReasonDto,
+} from './dto/fast-reversal.dto';
+import { CurrentUser, Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
+import type { AuthUser } from '../auth/constants/auth.constants';
+
+@Controller('fast-reversals')
+export class FastReversalController {
+  constructor(private readonly fastReversalService: FastReversalService) {}
+
+  @Get()
+  async findAll(
+    @Query('sourceType') sourceType?: string,
+    @Query('docCode') docCode?: string,
+    @Query('status') status?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.fastReversalService.findAll({
+      sourceType,
+      docCode,
+      status,
+      page: page ? parseInt(page) : undefined,
+      limit: limit ? parseInt(limit) : undefined,
+    });
+  }
+
+  /**
+   * Xem trước chứng từ huỷ (action = CANCEL_UPDATE) sẽ gửi cho 1 dòng nguồn
+   */
+  @Get('preview')
+  async preview(
+    @Query('sourceType') sourceType: string,
+    @Query('sourceId') sourceId: string,
+  ) {
+    if (!sourceType || !sourceId) {
+      throw new BadRequestException('sourceType và sourceId là bắt buộc');
+    }
+    return this.fastReversalService.preview(sourceType, sourceId);
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.fastReversalService.findOne(id);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Post()
+  async reverse(
+    @Body() createDto: CreateFastReversalDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.fastReversalService.reverseSource(
+      createDto.sourceType,
+      createDto.sourceId,
+      createDto.reason,
+      user,
+    );
+  }
+
+  /**
+   * Huỷ toàn bộ POCharges đã đẩy từ 1 lô (audit_po.batch_id)
+   */
+  @Roles(ROLES.ADMIN)
+  @Post('po-charge-batches/:batchId')
+  async reversePoChargeBatch(
+    @Param('batchId') batchId: string,
+    @Body() body: FastReversalReasonDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.fastReversalService.reversePoChargeBatch(
+      batchId,
+      body.reason,
+      user,
+    );
+  }
+
+  /**
+   * Mở lại chứng từ đã huỷ để được xử lý / gửi lại
+   */
+  @Roles(ROLES.ADMIN)
+  @Post(':id/reopen')
+  async reopen(
+    @Param('id') id: string,
+    @Body() body: FastReversalReasonDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.fastReversalService.reopen(id, body.reason, user);
+  }
+}
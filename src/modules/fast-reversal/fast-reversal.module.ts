@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { FastDocumentReversal } from '../../entities/fast-document-reversal.entity';
+import { FastApiInvoice } from '../../entities/fast-api-invoice.entity';
+import { WarehouseProcessed } from '../../entities/warehouse-processed.entity';
+import { PaymentSyncLog } from '../../entities/payment-sync-log.entity';
+import { AuditPo } from '../fast-integration/entities/audit-po.entity';
+import { IntegrationAuditLog } from '../../entities/integration-audit-log.entity';
+import { DailyCashio } from '../../entities/daily-cashio.entity';
+import { SalesModule } from '../sales/sales.module';
+import { FastReversalService } from './fast-reversal.service';
+import { FastReversalController } from './fast-reversal.controller';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      FastDocumentReversal,
+      FastApiInvoice,
+      WarehouseProcessed,
+      PaymentSyncLog,
+      AuditPo,
+      IntegrationAuditLog,
+      DailyCashio,
+    ]),
+    SalesModule,
+  ],
+  controllers: [FastReversalController],
+  providers: [FastReversalService],
+  exports: [FastReversalService],
+})
+export class FastReversalModule {}
@@ -0,0 +1,650 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as _ from 'lodash';
+import {
+  FAST_REVERSAL_SOURCE_TYPES,
+  FAST_REVERSAL_STATUS,
+  FastDocumentReversal,
+} from '../../entities/fast-document-reversal.entity';
+import { FastApiInvoice } from '../../entities/fast-api-invoice.entity';
+import { WarehouseProcessed } from '../../entities/warehouse-processed.entity';
+import { PaymentSyncLog } from '../../entities/payment-sync-log.entity';
+import { AuditPo } from '../fast-integration/entities/audit-po.entity';
+import { IntegrationAuditLog } from '../../entities/integration-audit-log.entity';
+import {
+  DAILY_CASHIO_POSTING_STATUS,
+  DailyCashio,
+} from '../../entities/daily-cashio.entity';
+import { INTEGRATION_AUDIT_OUTCOMES } from '../integration-audit/integration-audit.service';
+import { FastApiClientService } from '../../services/fast-api-client.service';
+import { FastDocumentSubmissionService } from '../../services/fast-document-submission.service';
+import { ACTION, STATUS } from '../sales/constants/sales-invoice.constants';
+import {
+  resolveFastReversalDocCode,
+  withFastAction,
+} from '../../utils/fast-idempotency.utils';
+import { getFastApiMessage } from '../../utils/fast-api-retry.utils';
+import type { AuthUser } from '../auth/constants/auth.constants';
+
+/**
+ * 1 chứng từ Fast cần huỷ, lấy từ payload đã lưu ở bảng nguồn
+ */
+interface ReversalDocument {
+  documentKind: string;
+  docCode: string;
+  payload: any;
+}
+
+// Thứ tự huỷ trong payload FastApiInvoice: chứng từ phát sinh sau huỷ trước
+const INVOICE_PAYLOAD_KEYS = [
+  'gxtInvoice',
+  'salesInvoice',
+  'salesReturn',
+  'salesOrder',
+];
+
+const WAREHOUSE_DOCUMENT_KINDS: Record<string, string> = {
+  I: 'warehouseReceipt',
+  O: 'warehouseRelease',
+  T: 'warehouseTransfer',
+};
+
+/**
+ * Huỷ chứng từ đã đẩy sang Fast: dựng lại payload gốc với action = CANCEL_UPDATE,
+ * gửi sang Fast và lưu liên kết chứng từ gốc <-> chứng từ huỷ (fast_document_reversals)
+ */
+@Injectable()
+export class FastReversalService {
+  private readonly logger = new Logger(FastReversalService.name);
+
+  constructor(
+    @InjectRepository(FastDocumentReversal)
+    private reversalRepository: Repository<FastDocumentReversal>,
+    @InjectRepository(FastApiInvoice)
+    private fastApiInvoiceRepository: Repository<FastApiInvoice>,
+    @InjectRepository(WarehouseProcessed)
+    private warehouseProcessedRepository: Repository<WarehouseProcessed>,
+    @InjectRepository(PaymentSyncLog)
+    private paymentSyncLogRepository: Repository<PaymentSyncLog>,
+    @InjectRepository(AuditPo)
+    private auditPoRepository: Repository<AuditPo>,
+    @InjectRepository(IntegrationAuditLog)
+    private integrationAuditLogRepository: Repository<IntegrationAuditLog>,
+    @InjectRepository(DailyCashio)
+    private dailyCashioRepository: Repository<DailyCashio>,
+    private readonly fastApiClient: FastApiClientService,
+    private readonly fastDocumentSubmissionService: FastDocumentSubmissionService,
+  ) {}
+
+  async findAll(params: {
+    sourceType?: string;
+    docCode?: string;
+    status?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const page = params.page || 1;
+    const limit = params.limit || 50;
+
+    const queryBuilder = this.reversalRepository.createQueryBuilder('reversal');
+    if (params.sourceType) {
+      queryBuilder.andWhere('reversal.sourceType = :sourceType', {
+        sourceType: params.sourceType,
+      });
+    }
+    if (params.docCode) {
+      queryBuilder.andWhere('reversal.docCode ILIKE :docCode', {
+        docCode: `%${params.docCode}%`,
+      });
+    }
+    if (params.status) {
+      queryBuilder.andWhere('reversal.status = :status', {
+        status: params.status.toUpperCase(),
+      });
+    }
+
+    const [data, total] = await queryBuilder
+      .orderBy('reversal.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async findOne(id: string) {
+    const reversal = await this.reversalRepository.findOne({ where: { id } });
+    if (!reversal) {
+      throw new NotFoundException(`Fast reversal ${id} not found`);
+    }
+    return reversal;
+  }
+
+  /**
+   * Xem trước các chứng từ huỷ sẽ gửi cho 1 dòng nguồn (không gọi Fast)
+   */
+  async preview(sourceType: string, sourceId: string) {
+    const documents = await this.loadSourceDocuments(sourceType, sourceId);
+    const history = await this.reversalRepository.find({
+      where: { sourceType, sourceId },
+      order: { createdAt: 'DESC' },
+    });
+
+    const result: any[] = [];
+    for (const document of documents) {
+      result.push({
+        documentKind: document.documentKind,
+        docCode: document.docCode,
+        activeReversal: await this.findActiveReversal(
+          document.documentKind,
+          document.docCode,
+        ),
+        reversalPayload: withFastAction(document.payload, ACTION.CANCEL_UPDATE),
+      });
+    }
+
+    return { sourceType, sourceId, documents: result, history };
+  }
+
+  /**
+   * Huỷ toàn bộ chứng từ Fast sinh ra từ 1 dòng nguồn
+   * Chứng từ đã huỷ (hoặc đang huỷ) được bỏ qua; dừng ở chứng từ đầu tiên huỷ thất bại
+   */
+  async reverseSource(
+    sourceType: string,
+    sourceId: string,
+    reason: string,
+    user?: AuthUser,
+  ) {
+    const documents = await this.loadSourceDocuments(sourceType, sourceId);
+
+    const reversals: FastDocumentReversal[] = [];
+    const skipped: Array<{
+      documentKind: string;
+      docCode: string;
+      reversalId: string;
+    }> = [];
+
+    for (const document of documents) {
+      const active = await this.findActiveReversal(
+        document.documentKind,
+        document.docCode,
+      );
+      if (active) {
+        skipped.push({
+          documentKind: document.documentKind,
+          docCode: document.docCode,
+          reversalId: active.id,
+        });
+        continue;
+      }
+
+      const reversal = await this.reverseDocument(
+        sourceType,
+        sourceId,
+        document,
+        reason,
+        user,
+      );
+      reversals.push(reversal);
+      if (reversal.status !== FAST_REVERSAL_STATUS.REVERSED) {
+        break;
+      }
+    }
+
+    const failed = reversals.filter(
+      (reversal) => reversal.status === FAST_REVERSAL_STATUS.FAILED,
+    );
+
+    // Phiếu thu đã huỷ trên Fast: đưa về PENDING để có thể gửi lại
+    if (
+      sourceType === FAST_REVERSAL_SOURCE_TYPES.DAILY_CASHIO &&
+      failed.length === 0 &&
+      reversals.length > 0
+    ) {
+      await this.dailyCashioRepository.update(sourceId, {
+        posting_status: DAILY_CASHIO_POSTING_STATUS.PENDING,
+        posting_reason: `Đã huỷ trên Fast: ${reason}`,
+        posted_at: null,
+      });
+    }
+
+    return {
+      success: failed.length === 0,
+      sourceType,
+      sourceId,
+      reversals,
+      skipped,
+    };
+  }
+
+  /**
+   * Huỷ theo lô POCharges: mỗi đơn lấy dòng audit_po thành công gần nhất trong lô
+   */
+  async reversePoChargeBatch(batchId: string, reason: string, user?: AuthUser) {
+    const audits = await this.auditPoRepository.find({
+      where: {
+        batch_id: batchId,
+        action: 'SYNC_PO_CHARGES',
+        status: 'SUCCESS',
+      },
+      order: { id: 'DESC' },
+    });
+    if (audits.length === 0) {
+      throw new NotFoundException(
+        `No successful PO charges found for batch ${batchId}`,
+      );
+    }
+
+    const latestByOrder = _.uniqBy(audits, 'dh_so');
+    let reversedCount = 0;
+    let skippedCount = 0;
+    const errors: Array<{ order: string | null; error: string }> = [];
+
+    for (const audit of latestByOrder) {
+      try {
+        const result = await this.reverseSource(
+          FAST_REVERSAL_SOURCE_TYPES.AUDIT_PO,
+          String(audit.id),
+          reason,
+          user,
+        );
+        if (!result.success) {
+          errors.push({
+            order: audit.dh_so,
+            error: result.reversals.find((reversal) => reversal.errorMessage)
+              ?.errorMessage as string,
+          });
+        } else if (result.reversals.length > 0) {
+          reversedCount++;
+        } else {
+          skippedCount++;
+        }
+      } catch (error: any) {
+        errors.push({ order: audit.dh_so, error: error?.message || error });
+      }
+    }
+
+    return {
+      batchId,
+      message: `Đã huỷ ${reversedCount}, bỏ qua ${skippedCount} (đã huỷ trước đó), lỗi ${errors.length}`,
+      total: latestByOrder.length,
+      reversedCount,
+      skippedCount,
+      errors,
+    };
+  }
+
+  /**
+   * Mở lại chứng từ đã huỷ: cho phép xử lý / gửi lại chứng từ gốc
+   */
+  async reopen(id: string, reason: string, user?: AuthUser) {
+    const reversal = await this.findOne(id);
+    if (reversal.status !== FAST_REVERSAL_STATUS.REVERSED) {
+      throw new BadRequestException(
+        `Chỉ mở lại được chứng từ đã huỷ (hiện tại: ${reversal.status})`,
+      );
+    }
+
+    reversal.status = FAST_REVERSAL_STATUS.REOPENED;
+    reversal.reopenReason = reason;
+    reversal.reopenedBy = user?.username || null;
+    reversal.reopenedAt = new Date();
+
+    this.logger.log(
+      `[Reversal] Mở lại ${reversal.documentKind} ${reversal.docCode} (reversal ${id})`,
+    );
+    return this.reversalRepository.save(reversal);
+  }
+
+  private async reverseDocument(
+    sourceType: string,
+    sourceId: string,
+    document: ReversalDocument,
+    reason: string,
+    user?: AuthUser,
+  ): Promise<FastDocumentReversal> {
+    const reversalPayload = withFastAction(
+      document.payload,
+      ACTION.CANCEL_UPDATE,
+    );
+
+    let reversal: FastDocumentReversal;
+    try {
+      // Index unique (documentKind, docCode) khi SUBMITTING/REVERSED: chỉ 1 tiến trình được huỷ
+      reversal = await this.reversalRepository.save(
+        this.reversalRepository.create({
+          sourceType,
+          sourceId,
+          documentKind: document.documentKind,
+          docCode: document.docCode,
+          originalPayload: document.payload,
+          reversalPayload,
+          originalIdempotencyKey:
+            await this.fastDocumentSubmissionService.getLatestKey(
+              document.docCode,
+              [document.documentKind],
+            ),
+          status: FAST_REVERSAL_STATUS.SUBMITTING,
+          reason,
+          requestedBy: user?.username || null,
+        }),
+      );
+    } catch (error: any) {
+      // 23505: unique_violation
+      if (error?.code === '23505') {
+        throw new BadRequestException(
+          `${document.documentKind} ${document.docCode} đang được huỷ hoặc đã huỷ`,
+        );
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `[Reversal] Huỷ ${document.documentKind} ${document.docCode} (${sourceType} ${sourceId})`,
+    );
+
+    try {
+      const response = await this.submit(
+        document.documentKind,
+        reversalPayload,
+      );
+      const result = Array.isArray(response) ? response[0] : response;
+      reversal.fastApiResponse = response;
+      reversal.reversalIdempotencyKey =
+        await this.fastDocumentSubmissionService.getLatestKey(
+          document.docCode,
+          [document.documentKind],
+        );
+
+      if (result?.status === STATUS.SUCCESS) {
+        reversal.status = FAST_REVERSAL_STATUS.REVERSED;
+        reversal.reversedAt = new Date();
+        await this.fastDocumentSubmissionService.releaseReversedKeys(
+          document.documentKind,
+          document.docCode,
+          reversal.reversalIdempotencyKey,
+          `Đã huỷ trên Fast (reversal ${reversal.id})`,
+        );
+      } else {
+        reversal.status = FAST_REVERSAL_STATUS.FAILED;
+        reversal.errorMessage =
+          getFastApiMessage(response) || 'Fast không nhận chứng từ huỷ';
+      }
+    } catch (error: any) {
+      reversal.status = FAST_REVERSAL_STATUS.FAILED;
+      reversal.errorMessage = error?.message || String(error);
+    }
+
+    if (reversal.status === FAST_REVERSAL_STATUS.FAILED) {
+      this.logger.warn(
+        `[Reversal] Huỷ ${document.documentKind} ${document.docCode} thất bại: ${reversal.errorMessage}`,
+      );
+    }
+    return this.reversalRepository.save(reversal);
+  }
+
+  private submit(documentKind: string, payload: any): Promise<any> {
+    switch (documentKind) {
+      case 'salesOrder':
+        return this.fastApiClient.submitSalesOrder(payload);
+      case 'salesInvoice':
+        return this.fastApiClient.submitSalesInvoice(payload);
+      case 'salesReturn':
+        return this.fastApiClient.submitSalesReturn(payload);
+      case 'gxtInvoice':
+        return this.fastApiClient.submitGxtInvoice(payload);
+      case 'warehouseReceipt':
+        return this.fastApiClient.submitWarehouseReceipt(payload);
+      case 'warehouseRelease':
+        return this.fastApiClient.submitWarehouseRelease(payload);
+      case 'warehouseTransfer':
+        return this.fastApiClient.submitWarehouseTransfer(payload);
+      case 'POCharges':
+        return this.fastApiClient.submitPOCharges(payload);
+      case 'paymentMethod':
+        return this.fastApiClient.submitPaymentMethod(payload);
+      default:
+        throw new BadRequestException(
+          `Chưa hỗ trợ huỷ chứng từ ${documentKind}`,
+        );
+    }
+  }
+
+  private findActiveReversal(documentKind: string, docCode: string) {
+    return this.reversalRepository
+      .createQueryBuilder('reversal')
+      .where('reversal.documentKind = :documentKind', { documentKind })
+      .andWhere('reversal.docCode = :docCode', { docCode })
+      .andWhere('reversal.status IN (:...statuses)', {
+        statuses: [
+          FAST_REVERSAL_STATUS.SUBMITTING,
+          FAST_REVERSAL_STATUS.REVERSED,
+        ],
+      })
+      .getOne();
+  }
+
+  /**
+   * Lấy payload các chứng từ đã đẩy thành công từ bảng nguồn
+   */
+  private async loadSourceDocuments(
+    sourceType: string,
+    sourceId: string,
+  ): Promise<ReversalDocument[]> {
+    let documents: Array<{ documentKind: string; payload: any }> = [];
+
+    switch (sourceType) {
+      case FAST_REVERSAL_SOURCE_TYPES.FAST_API_INVOICE: {
+        const invoice = await this.fastApiInvoiceRepository.findOne({
+          where: { id: sourceId },
+        });
+        if (!invoice) {
+          throw new NotFoundException(`Fast API invoice ${sourceId} not found`);
+        }
+        if (invoice.status !== STATUS.SUCCESS) {
+          throw new BadRequestException(
+            `Đơn ${invoice.docCode} chưa đẩy thành công sang Fast, không cần huỷ`,
+          );
+        }
+        const payload = this.parseJson(invoice.payload) || {};
+        documents = INVOICE_PAYLOAD_KEYS.flatMap((key) =>
+          _.castArray(payload[key] || []).map((entry: any) => ({
+            documentKind: key,
+            // salesInvoice tách theo ngày lưu dạng [{ docCode, payload }]
+            payload: entry?.payload || entry,
+          })),
+        );
+        break;
+      }
+
+      case FAST_REVERSAL_SOURCE_TYPES.WAREHOUSE_PROCESSED: {
+        const processed = await this.warehouseProcessedRepository.findOne({
+          where: { id: sourceId },
+        });
+        if (!processed) {
+          throw new NotFoundException(
+            `Warehouse processed ${sourceId} not found`,
+          );
+        }
+        if (!processed.success) {
+          throw new BadRequestException(
+            `Phiếu kho ${processed.docCode} chưa đẩy thành công sang Fast, không cần huỷ`,
+          );
+        }
+        const payload = this.parseJson(processed.payload);
+        if (payload?.release || payload?.receipt) {
+          throw new BadRequestException(
+            `Phiếu kho ${processed.docCode} xuất + nhập khác ĐVCS chưa hỗ trợ huỷ tự động`,
+          );
+        }
+        documents = [
+          {
+            documentKind: WAREHOUSE_DOCUMENT_KINDS[processed.ioType],
+            payload,
+          },
+        ];
+        break;
+      }
+
+      case FAST_REVERSAL_SOURCE_TYPES.PAYMENT_SYNC_LOG: {
+        // payment_sync_log chỉ còn dữ liệu cũ, audit mới nằm ở integration_audit_logs
+        const legacyLog = await this.paymentSyncLogRepository.findOne({
+          where: { id: sourceId },
+        });
+        const auditLog = legacyLog
+          ? null
+          : await this.integrationAuditLogRepository.findOne({
+              where: { id: sourceId, documentType: 'paymentMethod' },
+            });
+        if (!legacyLog && !auditLog) {
+          throw new NotFoundException(`Payment sync log ${sourceId} not found`);
+        }
+        const succeeded = legacyLog
+          ? legacyLog.status === 'SUCCESS'
+          : auditLog!.outcome === INTEGRATION_AUDIT_OUTCOMES.SUCCESS;
+        if (!succeeded) {
+          throw new BadRequestException(
+            `Thanh toán ${legacyLog?.docCode ?? auditLog!.docCode} chưa đẩy thành công sang Fast, không cần huỷ`,
+          );
+        }
+        documents = [
+          {
+            documentKind: 'paymentMethod',
+            payload: this.parseJson(
+              legacyLog?.requestPayload ?? auditLog!.requestPayload,
+            ),
+          },
+        ];
+        break;
+      }
+
+      case FAST_REVERSAL_SOURCE_TYPES.DAILY_CASHIO: {
+        const cashio = await this.dailyCashioRepository.findOne({
+          where: { id: sourceId },
+        });
+        if (!cashio) {
+          throw new NotFoundException(`Daily cashio ${sourceId} not found`);
+        }
+        if (cashio.posting_status !== DAILY_CASHIO_POSTING_STATUS.POSTED) {
+          throw new BadRequestException(
+            `Phiếu thu ${cashio.code} chưa gửi thành công sang Fast, không cần huỷ`,
+          );
+        }
+        const auditLog = await this.findCashioAuditLog(cashio);
+        if (!auditLog) {
+          throw new NotFoundException(
+            `No successful paymentMethod audit log found for daily cashio ${sourceId}`,
+          );
+        }
+        documents = [
+          {
+            documentKind: 'paymentMethod',
+            payload: this.parseJson(auditLog.requestPayload),
+          },
+        ];
+        break;
+      }
+
+      case FAST_REVERSAL_SOURCE_TYPES.AUDIT_PO: {
+        const audit = await this.auditPoRepository.findOne({
+          where: { id: parseInt(sourceId) },
+        });
+        if (!audit) {
+          throw new NotFoundException(`Audit PO ${sourceId} not found`);
+        }
+        if (audit.status !== 'SUCCESS') {
+          throw new BadRequestException(
+            `POCharges ${audit.dh_so} chưa đẩy thành công sang Fast, không cần huỷ`,
+          );
+        }
+        documents = [{ documentKind: 'POCharges', payload: audit.payload }];
+        break;
+      }
+
+      default:
+        throw new BadRequestException(
+          `sourceType không hợp lệ: ${sourceType} (hỗ trợ: ${Object.values(FAST_REVERSAL_SOURCE_TYPES).join(', ')})`,
+        );
+    }
+
+    const result: ReversalDocument[] = [];
+    for (const document of documents) {
+      const docCode = resolveFastReversalDocCode(
+        document.documentKind,
+        document.payload,
+      );
+      if (!document.documentKind || !docCode) {
+        continue;
+      }
+      result.push({ ...document, docCode });
+    }
+
+    if (result.length === 0) {
+      throw new BadRequestException(
+        `Không tìm thấy payload chứng từ đã gửi Fast cho ${sourceType} ${sourceId}`,
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Lần gửi thành công gần nhất của dòng cashio: theo idempotency key lúc gửi,
+   * thiếu key thì theo mã đơn + so_pt + hình thức thanh toán (1 đơn có nhiều dòng cashio)
+   */
+  private async findCashioAuditLog(
+    cashio: DailyCashio,
+  ): Promise<IntegrationAuditLog | null> {
+    if (cashio.fast_idempotency_key) {
+      return this.integrationAuditLogRepository.findOne({
+        where: {
+          documentType: 'paymentMethod',
+          outcome: INTEGRATION_AUDIT_OUTCOMES.SUCCESS,
+          idempotencyKey: cashio.fast_idempotency_key,
+        },
+        order: { createdAt: 'DESC' },
+      });
+    }
+
+    const logs = await this.integrationAuditLogRepository.find({
+      where: {
+        documentType: 'paymentMethod',
+        outcome: INTEGRATION_AUDIT_OUTCOMES.SUCCESS,
+        docCode: cashio.so_code,
+      },
+      order: { createdAt: 'DESC' },
+    });
+    const soPt = cashio.refno || cashio.so_code;
+    return (
+      logs.find((log) => {
+        const payload = this.parseJson(log.requestPayload);
+        return payload?.httt === cashio.fop_syscode && payload?.so_pt === soPt;
+      }) || null
+    );
+  }
+
+  private parseJson(value: string | null | undefined): any {
+    if (!value) {
+      return null;
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,90 @@
+export const RECONCILIATION_STATUS = {
+  MATCHED: 'MATCHED',
+  AMOUNT_MISMATCH: 'AMOUNT_MISMATCH',
+  MISSING_SYNC: 'MISSING_SYNC', // Có trong file đối soát, chưa sync từ DB brand
+  MISSING_IMPORT: 'MISSING_IMPORT', // Đã sync, chưa có trong file đối soát
+} as const;
+
+export type ReconciliationStatus =
+  (typeof RECONCILIATION_STATUS)[keyof typeof RECONCILIATION_STATUS];
+
+export const RECONCILIATION_PLATFORMS = ['shopee', 'tiktok', 'lazada'] as const;
+
+// Chênh lệch (VNĐ) tối đa vẫn coi là khớp
+export const DEFAULT_RECONCILIATION_TOLERANCE = 1;
+
+/**
+ * Cặp trường so sánh theo mã phí: tổng các trường import vs tổng các trường đã sync
+ * File dạng dọc (Lazada, 1 dòng / khoản phí): chỉ cộng importFields của các dòng có mã phí hạch toán thuộc importFeeCodes
+ */
+export interface ReconciliationFeeRule {
+  feeCode: string;
+  label: string;
+  importFields: string[];
+  syncedFields: string[];
+  importFeeCodes?: string[];
+}
+
+export const RECONCILIATION_FEE_RULES: Record<string, ReconciliationFeeRule[]> =
+  {
+    // Phí 164010 (Shipping Fee Saver, Pi Ship) chỉ có trong file quyết toán, escrow Shopee không trả về
+    shopee: [
+      {
+        feeCode: '164020',
+        label: 'Phí cố định + Phí dịch vụ + Phí thanh toán',
+        importFields: [
+          'phiCoDinh605MaPhi164020',
+          'phiDichVu6MaPhi164020',
+          'phiThanhToan5MaPhi164020',
+        ],
+        syncedFields: ['commissionFee', 'serviceFee', 'paymentFee'],
+      },
+      {
+        feeCode: '150050',
+        label: 'Phí hoa hồng Tiếp thị liên kết',
+        importFields: ['phiHoaHongTiepThiLienKet21150050'],
+        syncedFields: ['affiliateFee'],
+      },
+    ],
+    tiktok: [
+      {
+        feeCode: '164020',
+        label: 'Phí giao dịch + Phí hoa hồng TikTok + Phí dịch vụ SFP',
+        importFields: [
+          'phiGiaoDichTyLe5164020',
+          'phiHoaHongTraChoTiktok454164020',
+          'phiDichVuSfp6164020',
+        ],
+        syncedFields: ['transactionFee', 'tiktokCommission', 'sfpServiceFee'],
+      },
+      {
+        feeCode: '150050',
+        label: 'Phí hoa hồng Tiếp thị liên kết',
+        importFields: ['phiHoaHongTiepThiLienKet150050'],
+        syncedFields: ['affiliateCommission'],
+      },
+    ],
+    lazada: [
+      {
+        feeCode: '164020',
+        label: 'Phí cố định + Phí thanh toán + Phí khác',
+        importFields: ['soTienPhi'],
+        syncedFields: ['commissionFee', 'paymentFee', 'otherFee'],
+        importFeeCodes: ['164020'],
+      },
+      {
+        feeCode: '150050',
+        label: 'Phí hoa hồng Tiếp thị liên kết',
+        importFields: ['soTienPhi'],
+        syncedFields: ['affiliateFee'],
+        importFeeCodes: ['150050'],
+      },
+      {
+        feeCode: '164010',
+        label: 'Phí vận chuyển người bán trả',
+        importFields: ['soTienPhi'],
+        syncedFields: ['shippingFee'],
+        importFeeCodes: ['164010'],
+      },
+    ],
+  };
@@ -0,0 +1,100 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Query,
+  Res,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import {
+  FeeReconciliationQuery,
+  FeeReconciliationService,
+} from './fee-reconciliation.service';
+
+@Controller('fee-reconciliation')
+export class FeeReconciliationController {
+  constructor(
+    private readonly feeReconciliationService: FeeReconciliationService,
+  ) {}
+
+  /**
+   * Đối soát phí sàn trong kỳ: file import vs phí đã sync
+   * status: MATCHED | AMOUNT_MISMATCH | MISSING_SYNC | MISSING_IMPORT
+   */
+  @Get()
+  async getReport(
+    @Query('platform') platform: string,
+    @Query('dateFrom') dateFrom: string,
+    @Query('dateTo') dateTo: string,
+    @Query('brand') brand?: string,
+    @Query('tolerance') tolerance?: string,
+    @Query('status') status?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.feeReconciliationService.getReport(
+      this.buildQuery(platform, dateFrom, dateTo, brand, tolerance),
+      {
+        status,
+        page: page ? parseInt(page, 10) : 1,
+        limit: limit ? parseInt(limit, 10) : 50,
+      },
+    );
+  }
+
+  @Get('export')
+  async exportReport(
+    @Res() res: Response,
+    @Query('platform') platform: string,
+    @Query('dateFrom') dateFrom: string,
+    @Query('dateTo') dateTo: string,
+    @Query('brand') brand?: string,
+    @Query('tolerance') tolerance?: string,
+    @Query('status') status?: string,
+  ) {
+    const buffer = await this.feeReconciliationService.exportReport(
+      this.buildQuery(platform, dateFrom, dateTo, brand, tolerance),
+      status,
+    );
+
+    res.setHeader(
+      'Content-Type',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="Doi_soat_phi_${platform}_${dateFrom}_${dateTo}.xlsx"`,
+    );
+    res.setHeader('Content-Length', buffer.length);
+    res.send(buffer);
+  }
+
+  private buildQuery(
+    platform: string,
+    dateFrom: string,
+    dateTo: string,
+    brand?: string,
+    tolerance?: string,
+  ): FeeReconciliationQuery {
+    return {
+      platform,
+      dateFrom,
+      dateTo,
+      brand,
+      tolerance: this.parseTolerance(tolerance),
+    };
+  }
+
+  private parseTolerance(tolerance?: string): number | undefined {
+    if (tolerance === undefined || tolerance === '') {
+      return undefined;
+    }
+    const value = Number(tolerance);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new BadRequestException(
+        `Ngưỡng chênh lệch không hợp lệ: ${tolerance}`,
+      );
+    }
+    return value;
+  }
+}
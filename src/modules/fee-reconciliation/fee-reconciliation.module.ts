@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ShopeeFee } from '../../entities/shopee-fee.entity';
+import { TikTokFee } from '../../entities/tiktok-fee.entity';
+import { LazadaFee } from '../../entities/lazada-fee.entity';
+import { PlatformFeeImportShopee } from '../../entities/platform-fee-import-shopee.entity';
+import { PlatformFeeImportTiktok } from '../../entities/platform-fee-import-tiktok.entity';
+import { PlatformFeeImportLazada } from '../../entities/platform-fee-import-lazada.entity';
+import { FeeReconciliationController } from './fee-reconciliation.controller';
+import { FeeReconciliationService } from './fee-reconciliation.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      ShopeeFee,
+      TikTokFee,
+      LazadaFee,
+      PlatformFeeImportShopee,
+      PlatformFeeImportTiktok,
+      PlatformFeeImportLazada,
+    ]),
+  ],
+  controllers: [FeeReconciliationController],
+  providers: [FeeReconciliationService],
+  exports: [FeeReconciliationService],
+})
+export class FeeReconciliationModule {}
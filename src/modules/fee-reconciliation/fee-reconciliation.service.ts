@@ -0,0 +1,420 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as _ from 'lodash';
+import * as XLSX from 'xlsx';
+import { ShopeeFee } from '../../entities/shopee-fee.entity';
+import { TikTokFee } from '../../entities/tiktok-fee.entity';
+import { LazadaFee } from '../../entities/lazada-fee.entity';
+import { PlatformFeeImportShopee } from '../../entities/platform-fee-import-shopee.entity';
+import { PlatformFeeImportTiktok } from '../../entities/platform-fee-import-tiktok.entity';
+import { PlatformFeeImportLazada } from '../../entities/platform-fee-import-lazada.entity';
+import {
+  DEFAULT_RECONCILIATION_TOLERANCE,
+  RECONCILIATION_FEE_RULES,
+  RECONCILIATION_PLATFORMS,
+  RECONCILIATION_STATUS,
+} from './constants/fee-reconciliation.constants';
+import type { ReconciliationStatus } from './constants/fee-reconciliation.constants';
+import { findByKeys } from '../../utils/repository-lookup.utils';
+
+export interface FeeReconciliationQuery {
+  platform: string;
+  dateFrom: string; // YYYY-MM-DD
+  dateTo: string; // YYYY-MM-DD
+  brand?: string;
+  tolerance?: number;
+}
+
+export interface FeeReconciliationLine {
+  feeCode: string;
+  label: string;
+  importAmount: number;
+  syncedAmount: number;
+  difference: number;
+  status: ReconciliationStatus;
+}
+
+export interface FeeReconciliationRow {
+  platform: string;
+  brand: string | null;
+  orderSn: string | null;
+  erpOrderCode: string | null;
+  ngayDoiSoat: string | null;
+  orderCreatedAt: Date | null;
+  importRows: number;
+  status: ReconciliationStatus;
+  fees: FeeReconciliationLine[];
+}
+
+type ImportRecord =
+  | PlatformFeeImportShopee
+  | PlatformFeeImportTiktok
+  | PlatformFeeImportLazada;
+type SyncedRecord = ShopeeFee | TikTokFee | LazadaFee;
+
+/**
+ * Đối soát phí sàn giữa file quyết toán import (platform_fee_import_*) và phí sync từ DB brand (shopee_fee, tiktok_fee, lazada_fee)
+ * Khớp theo đơn: maSan <-> orderSn, nếu không có thì maNoiBoSp <-> erpOrderCode; sau đó so theo từng mã phí
+ */
+@Injectable()
+export class FeeReconciliationService {
+  private readonly logger = new Logger(FeeReconciliationService.name);
+
+  constructor(
+    @InjectRepository(ShopeeFee)
+    private shopeeFeeRepository: Repository<ShopeeFee>,
+
+    @InjectRepository(TikTokFee)
+    private tiktokFeeRepository: Repository<TikTokFee>,
+
+    @InjectRepository(LazadaFee)
+    private lazadaFeeRepository: Repository<LazadaFee>,
+
+    @InjectRepository(PlatformFeeImportShopee)
+    private importShopeeRepository: Repository<PlatformFeeImportShopee>,
+
+    @InjectRepository(PlatformFeeImportTiktok)
+    private importTiktokRepository: Repository<PlatformFeeImportTiktok>,
+
+    @InjectRepository(PlatformFeeImportLazada)
+    private importLazadaRepository: Repository<PlatformFeeImportLazada>,
+  ) {}
+
+  /**
+   * Báo cáo đối soát có phân trang, kèm tổng hợp theo trạng thái của cả kỳ
+   */
+  async getReport(
+    query: FeeReconciliationQuery,
+    options: { status?: string; page?: number; limit?: number } = {},
+  ) {
+    const page = options.page || 1;
+    const limit = options.limit || 50;
+    const rows = await this.reconcile(query);
+    const filtered = options.status
+      ? rows.filter((row) => row.status === options.status)
+      : rows;
+
+    return {
+      summary: this.summarize(rows, query),
+      data: filtered.slice((page - 1) * limit, page * limit),
+      meta: {
+        total: filtered.length,
+        page,
+        limit,
+        totalPages: Math.ceil(filtered.length / limit),
+      },
+    };
+  }
+
+  /**
+   * Xuất Excel: sheet tổng hợp + sheet chi tiết (1 dòng / đơn / mã phí)
+   */
+  async exportReport(
+    query: FeeReconciliationQuery,
+    status?: string,
+  ): Promise<Buffer> {
+    const rows = await this.reconcile(query);
+    const summary = this.summarize(rows, query);
+    const filtered = status
+      ? rows.filter((row) => row.status === status)
+      : rows;
+
+    const detailRows = filtered.flatMap((row) => {
+      const base = {
+        'Sàn TMĐT': row.platform,
+        Brand: row.brand || '',
+        'Mã đơn sàn': row.orderSn || '',
+        'Mã đơn ERP': row.erpOrderCode || '',
+        'Ngày đối soát': row.ngayDoiSoat || '',
+        'Trạng thái đơn': row.status,
+      };
+      if (row.fees.length === 0) {
+        return [base];
+      }
+      return row.fees.map((fee) => ({
+        ...base,
+        'Mã phí': fee.feeCode,
+        'Diễn giải': fee.label,
+        'Số tiền import': fee.importAmount,
+        'Số tiền sync': fee.syncedAmount,
+        'Chênh lệch': fee.difference,
+        'Trạng thái phí': fee.status,
+      }));
+    });
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet([
+        { 'Chỉ tiêu': 'Sàn TMĐT', 'Giá trị': summary.platform },
+        { 'Chỉ tiêu': 'Từ ngày', 'Giá trị': summary.dateFrom },
+        { 'Chỉ tiêu': 'Đến ngày', 'Giá trị': summary.dateTo },
+        { 'Chỉ tiêu': 'Ngưỡng chênh lệch', 'Giá trị': summary.tolerance },
+        { 'Chỉ tiêu': 'Tổng số đơn', 'Giá trị': summary.totalOrders },
+        ...Object.entries(summary.byStatus).map(([key, value]) => ({
+          'Chỉ tiêu': key,
+          'Giá trị': value,
+        })),
+        { 'Chỉ tiêu': 'Tổng phí import', 'Giá trị': summary.importAmount },
+        { 'Chỉ tiêu': 'Tổng phí sync', 'Giá trị': summary.syncedAmount },
+        { 'Chỉ tiêu': 'Chênh lệch', 'Giá trị': summary.difference },
+      ]),
+      'Tổng hợp',
+    );
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet(detailRows),
+      'Chi tiết',
+    );
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+  }
+
+  async reconcile(
+    query: FeeReconciliationQuery,
+  ): Promise<FeeReconciliationRow[]> {
+    const platform = (query.platform || '').toLowerCase();
+    if (!(RECONCILIATION_PLATFORMS as readonly string[]).includes(platform)) {
+      throw new BadRequestException(
+        `Chưa hỗ trợ đối soát cho sàn ${query.platform}. Hỗ trợ: ${RECONCILIATION_PLATFORMS.join(', ')}`,
+      );
+    }
+    if (!query.dateFrom || !query.dateTo) {
+      throw new BadRequestException(
+        'Thiếu khoảng thời gian đối soát (dateFrom, dateTo)',
+      );
+    }
+    const tolerance = query.tolerance ?? DEFAULT_RECONCILIATION_TOLERANCE;
+    const rules = RECONCILIATION_FEE_RULES[platform] || [];
+    const importRepository = this.getImportRepository(platform);
+    const syncedRepository = this.getSyncedRepository(platform);
+
+    // 1. Dữ liệu trong kỳ: import theo ngày đối soát, sync theo ngày tạo đơn
+    const imports: ImportRecord[] = await importRepository
+      .createQueryBuilder('imp')
+      .where('imp.ngayDoiSoat BETWEEN :dateFrom AND :dateTo', {
+        dateFrom: query.dateFrom,
+        dateTo: query.dateTo,
+      })
+      .getMany();
+
+    const synced: SyncedRecord[] = await syncedRepository
+      .createQueryBuilder('fee')
+      .where('fee.orderCreatedAt BETWEEN :start AND :end', {
+        start: new Date(`${query.dateFrom}T00:00:00`),
+        end: new Date(`${query.dateTo}T23:59:59.999`),
+      })
+      .getMany();
+
+    // 2. Ngày đối soát và ngày tạo đơn có thể lệch kỳ: tìm thêm phía còn lại theo mã đơn
+    const syncedOrderSns = new Set(synced.map((fee) => fee.orderSn));
+    const syncedErpCodes = new Set(synced.map((fee) => fee.erpOrderCode));
+    const extraSynced = await findByKeys<SyncedRecord>(
+      syncedRepository,
+      'orderSn',
+      imports
+        .map((imp) => imp.maSan)
+        .filter((key): key is string => !!key && !syncedOrderSns.has(key)),
+    );
+    extraSynced.push(
+      ...(await findByKeys<SyncedRecord>(
+        syncedRepository,
+        'erpOrderCode',
+        imports
+          .map((imp) => imp.maNoiBoSp)
+          .filter((key): key is string => !!key && !syncedErpCodes.has(key)),
+      )),
+    );
+    const allSynced = _.uniqBy([...synced, ...extraSynced], 'id');
+
+    const importMaSans = new Set(imports.map((imp) => imp.maSan));
+    const importMaNoiBos = new Set(imports.map((imp) => imp.maNoiBoSp));
+    const extraImports = [
+      ...(await findByKeys<ImportRecord>(
+        importRepository,
+        'maSan',
+        synced
+          .map((fee) => fee.orderSn)
+          .filter((key) => !!key && !importMaSans.has(key)),
+      )),
+      ...(await findByKeys<ImportRecord>(
+        importRepository,
+        'maNoiBoSp',
+        synced
+          .map((fee) => fee.erpOrderCode)
+          .filter((key) => !!key && !importMaNoiBos.has(key)),
+      )),
+    ];
+    const allImports = _.uniqBy([...imports, ...extraImports], 'id');
+
+    // 3. Gom theo đơn và ghép 2 phía
+    const syncedBySn = _.groupBy(
+      allSynced.filter((fee) => !!fee.orderSn),
+      'orderSn',
+    );
+    const syncedByErp = _.groupBy(allSynced, 'erpOrderCode');
+    const importGroups = _.groupBy(
+      allImports.filter((imp) => !!(imp.maSan || imp.maNoiBoSp)),
+      (imp) => imp.maSan || imp.maNoiBoSp,
+    );
+
+    const matchedSyncedIds = new Set<string>();
+    const rows: FeeReconciliationRow[] = [];
+
+    for (const group of Object.values(importGroups)) {
+      const first = group[0];
+      const matched =
+        (first.maSan && syncedBySn[first.maSan]) ||
+        (first.maNoiBoSp && syncedByErp[first.maNoiBoSp]) ||
+        [];
+      matched.forEach((fee) => matchedSyncedIds.add(fee.id));
+      rows.push(this.buildRow(platform, group, matched, rules, tolerance));
+    }
+
+    const unmatchedSynced = allSynced.filter(
+      (fee) => !matchedSyncedIds.has(fee.id),
+    );
+    for (const group of Object.values(
+      _.groupBy(unmatchedSynced, (fee) => fee.orderSn || fee.erpOrderCode),
+    )) {
+      rows.push(this.buildRow(platform, [], group, rules, tolerance));
+    }
+
+    // File import không có brand: đơn chưa sync (không xác định được brand) vẫn giữ lại khi lọc brand
+    const result = query.brand
+      ? rows.filter((row) => !row.brand || row.brand === query.brand)
+      : rows;
+
+    this.logger.log(
+      `[FeeReconciliation] ${platform} ${query.dateFrom} -> ${query.dateTo}: ${result.length} đơn`,
+    );
+
+    return _.sortBy(result, [
+      (row) => (row.status === RECONCILIATION_STATUS.MATCHED ? 1 : 0),
+      (row) => row.ngayDoiSoat || '',
+      (row) => row.orderSn || row.erpOrderCode || '',
+    ]);
+  }
+
+  private buildRow(
+    platform: string,
+    imports: ImportRecord[],
+    synced: SyncedRecord[],
+    rules: (typeof RECONCILIATION_FEE_RULES)[string],
+    tolerance: number,
+  ): FeeReconciliationRow {
+    // Dấu của số tiền phí khác nhau giữa file sàn và API, so sánh theo giá trị tuyệt đối
+    const sum = (records: any[], fields: string[]) =>
+      Math.abs(
+        _.sumBy(records, (record) =>
+          _.sumBy(fields, (field) => Number(record[field]) || 0),
+        ),
+      );
+
+    const fees: FeeReconciliationLine[] = rules.map((rule) => {
+      const feeCodes = rule.importFeeCodes;
+      const importAmount = sum(
+        feeCodes
+          ? imports.filter((imp) =>
+              feeCodes.includes(
+                String(
+                  (imp as PlatformFeeImportLazada).maPhiNhanDienHachToan || '',
+                ).trim(),
+              ),
+            )
+          : imports,
+        rule.importFields,
+      );
+      const syncedAmount = sum(synced, rule.syncedFields);
+      const difference = _.round(importAmount - syncedAmount, 2);
+      return {
+        feeCode: rule.feeCode,
+        label: rule.label,
+        importAmount,
+        syncedAmount,
+        difference,
+        status:
+          imports.length === 0
+            ? RECONCILIATION_STATUS.MISSING_IMPORT
+            : synced.length === 0
+              ? RECONCILIATION_STATUS.MISSING_SYNC
+              : Math.abs(difference) > tolerance
+                ? RECONCILIATION_STATUS.AMOUNT_MISMATCH
+                : RECONCILIATION_STATUS.MATCHED,
+      };
+    });
+
+    const status =
+      imports.length === 0
+        ? RECONCILIATION_STATUS.MISSING_IMPORT
+        : synced.length === 0
+          ? RECONCILIATION_STATUS.MISSING_SYNC
+          : fees.some(
+                (fee) => fee.status === RECONCILIATION_STATUS.AMOUNT_MISMATCH,
+              )
+            ? RECONCILIATION_STATUS.AMOUNT_MISMATCH
+            : RECONCILIATION_STATUS.MATCHED;
+
+    const importDates = imports
+      .map((imp) => imp.ngayDoiSoat as unknown as string | null)
+      .filter(Boolean)
+      .sort();
+
+    return {
+      platform,
+      brand: synced[0]?.brand || null,
+      orderSn: imports[0]?.maSan || synced[0]?.orderSn || null,
+      erpOrderCode: synced[0]?.erpOrderCode || imports[0]?.maNoiBoSp || null,
+      ngayDoiSoat: importDates[0] || null,
+      orderCreatedAt: synced[0]?.orderCreatedAt || null,
+      importRows: imports.length,
+      status,
+      fees,
+    };
+  }
+
+  private summarize(
+    rows: FeeReconciliationRow[],
+    query: FeeReconciliationQuery,
+  ) {
+    const allFees = rows.flatMap((row) => row.fees);
+    const importAmount = _.round(_.sumBy(allFees, 'importAmount'), 2);
+    const syncedAmount = _.round(_.sumBy(allFees, 'syncedAmount'), 2);
+
+    return {
+      platform: query.platform,
+      dateFrom: query.dateFrom,
+      dateTo: query.dateTo,
+      brand: query.brand || null,
+      tolerance: query.tolerance ?? DEFAULT_RECONCILIATION_TOLERANCE,
+      totalOrders: rows.length,
+      byStatus: Object.fromEntries(
+        Object.values(RECONCILIATION_STATUS).map((status) => [
+          status,
+          rows.filter((row) => row.status === status).length,
+        ]),
+      ) as Record<ReconciliationStatus, number>,
+      importAmount,
+      syncedAmount,
+      difference: _.round(importAmount - syncedAmount, 2),
+    };
+  }
+
+  private getImportRepository(platform: string): Repository<ImportRecord> {
+    const repositories: Record<string, Repository<ImportRecord>> = {
+      shopee: this.importShopeeRepository as Repository<ImportRecord>,
+      tiktok: this.importTiktokRepository as Repository<ImportRecord>,
+      lazada: this.importLazadaRepository as Repository<ImportRecord>,
+    };
+    return repositories[platform];
+  }
+
+  private getSyncedRepository(platform: string): Repository<SyncedRecord> {
+    const repositories: Record<string, Repository<SyncedRecord>> = {
+      shopee: this.shopeeFeeRepository as Repository<SyncedRecord>,
+      tiktok: this.tiktokFeeRepository as Repository<SyncedRecord>,
+      lazada: this.lazadaFeeRepository as Repository<SyncedRecord>,
+    };
+    return repositories[platform];
+  }
+}
@@ -1,10 +1,13 @@
 import { Controller, Get, Post, Query, Body } from '@nestjs/common';
 import { GoodsReceiptService } from './goods-receipt.service';
+import { Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
 
 @Controller('goods-receipts')
 export class GoodsReceiptController {
   constructor(private readonly goodsReceiptService: GoodsReceiptService) {}
 
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('sync')
   async syncGR(
     @Body() body: { startDate: string; endDate: string; brand?: string },
@@ -6,9 +6,10 @@ import { GoodsReceiptService } from './goods-receipt.service';
 import { ZappyApiService } from '../../services/zappy-api.service';
 import { LoyaltyService } from '../../services/loyalty.service';
 import { GoodsReceiptController } from './goods-receipt.controller';
+import { BrandsModule } from '../brands/brands.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([GoodsReceipt]), HttpModule],
+  imports: [TypeOrmModule.forFeature([GoodsReceipt]), HttpModule, BrandsModule],
   providers: [GoodsReceiptService, ZappyApiService, LoyaltyService],
   controllers: [GoodsReceiptController],
   exports: [GoodsReceiptService],
@@ -4,6 +4,8 @@ import { Repository, Between } from 'typeorm';
 import { GoodsReceipt } from '../../entities/goods-receipt.entity';
 import { ZappyApiService } from '../../services/zappy-api.service';
 import { LoyaltyService } from '../../services/loyalty.service';
+import { BrandRegistryService } from '../brands/brand-registry.service';
+import { BRAND_SYNC_JOBS } from '../brands/constants/brand.constants';
 
 @Injectable()
 export class GoodsReceiptService {
@@ -14,14 +16,17 @@ export class GoodsReceiptService {
     private grRepository: Repository<GoodsReceipt>,
     private zappyService: ZappyApiService,
     private loyaltyService: LoyaltyService,
+    private brandRegistryService: BrandRegistryService,
   ) { }
 
   /**
    * Sync Goods Receipts for a date range
    */
   async syncGoodsReceipts(startDate: string, endDate: string, brand?: string) {
-    const brands =
-      brand && brand !== 'all' ? [brand] : ['menard', 'f3', 'labhair', 'yaman'];
+    const brands = await this.brandRegistryService.getBrandCodesForJob(
+      BRAND_SYNC_JOBS.GOODS_RECEIPT,
+      brand !== 'all' ? brand : undefined,
+    );
 
     this.logger.log(
       `Starting GR sync from ${startDate} to ${endDate} for brands: ${brands.join(', ')}`,
@@ -0,0 +1,113 @@
+import { Controller, Get, Param, Query, Res } from '@nestjs/common';
+import express from 'express';
+import {
+  IntegrationAuditFilters,
+  IntegrationAuditService,
+} from './integration-audit.service';
+
+@Controller('integration-audit')
+export class IntegrationAuditController {
+  constructor(
+    private readonly integrationAuditService: IntegrationAuditService,
+  ) {}
+
+  /**
+   * GET /integration-audit
+   * Danh sách lệnh gọi ra hệ thống ngoài
+   * Query: documentType, outcome (nhiều giá trị cách nhau bởi dấu phẩy), docCode, brand, dateFrom, dateTo
+   */
+  @Get()
+  async findLogs(
+    @Query('integration') integration?: string,
+    @Query('documentType') documentType?: string,
+    @Query('docCode') docCode?: string,
+    @Query('brand') brand?: string,
+    @Query('outcome') outcome?: string,
+    @Query('dateFrom') dateFrom?: string,
+    @Query('dateTo') dateTo?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.integrationAuditService.findLogs({
+      ...this.toFilters({
+        integration,
+        documentType,
+        docCode,
+        brand,
+        outcome,
+        dateFrom,
+        dateTo,
+      }),
+      page: page ? parseInt(page) : undefined,
+      limit: limit ? parseInt(limit) : undefined,
+    });
+  }
+
+  /**
+   * GET /integration-audit/export
+   * Xuất Excel theo cùng bộ lọc
+   */
+  @Get('export')
+  async exportExcel(
+    @Res() res: express.Response,
+    @Query('integration') integration?: string,
+    @Query('documentType') documentType?: string,
+    @Query('docCode') docCode?: string,
+    @Query('brand') brand?: string,
+    @Query('outcome') outcome?: string,
+    @Query('dateFrom') dateFrom?: string,
+    @Query('dateTo') dateTo?: string,
+  ) {
+    const buffer = await this.integrationAuditService.exportExcel(
+      this.toFilters({
+        integration,
+        documentType,
+        docCode,
+        brand,
+        outcome,
+        dateFrom,
+        dateTo,
+      }),
+    );
+
+    const fileName = `IntegrationAudit_${new Date().toISOString().split('T')[0]}.xlsx`;
+    res.set({
+      'Content-Type':
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Content-Length': buffer.length,
+    });
+    res.send(buffer);
+  }
+
+  @Get(':id')
+  async findLog(@Param('id') id: string) {
+    return this.integrationAuditService.findLog(id);
+  }
+
+  private toFilters(query: {
+    integration?: string;
+    documentType?: string;
+    docCode?: string;
+    brand?: string;
+    outcome?: string;
+    dateFrom?: string;
+    dateTo?: string;
+  }): IntegrationAuditFilters {
+    const { documentType, outcome, ...rest } = query;
+    return {
+      ...rest,
+      documentTypes: this.splitList(documentType),
+      outcomes: this.splitList(outcome),
+    };
+  }
+
+  private splitList(value?: string): string[] | undefined {
+    return value
+      ? value
+          .split(',')
+          .map((item) => item.trim())
+          .filter(Boolean)
+      : undefined;
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { IntegrationAuditLog } from '../../entities/integration-audit-log.entity';
+import { IntegrationAuditService } from './integration-audit.service';
+import { IntegrationAuditController } from './integration-audit.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([IntegrationAuditLog])],
+  controllers: [IntegrationAuditController],
+  providers: [IntegrationAuditService],
+  exports: [IntegrationAuditService],
+})
+export class IntegrationAuditModule {}
@@ -0,0 +1,360 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, SelectQueryBuilder } from 'typeorm';
+import * as XLSX from 'xlsx';
+import { IntegrationAuditLog } from '../../entities/integration-audit-log.entity';
+
+export const INTEGRATION_AUDIT_OUTCOMES = {
+  SUCCESS: 'SUCCESS',
+  REJECTED: 'REJECTED', // Fast nhận request nhưng trả status != 1
+  ERROR: 'ERROR', // Lỗi HTTP / network
+} as const;
+
+/**
+ * Ngữ cảnh nghiệp vụ của lệnh gọi (brand...) - FastApiClientService không biết các thông tin này
+ */
+export interface IntegrationAuditContext {
+  brand?: string | null;
+}
+
+export interface IntegrationAuditFilters {
+  integration?: string;
+  documentTypes?: string[];
+  docCode?: string;
+  brand?: string;
+  outcomes?: string[];
+  dateFrom?: string;
+  dateTo?: string;
+  page?: number;
+  limit?: number;
+}
+
+const auditContext = new AsyncLocalStorage<IntegrationAuditContext>();
+
+const EXPORT_LIMIT = 50000;
+const DELETE_CHUNK_SIZE = 1000;
+
+@Injectable()
+export class IntegrationAuditService implements OnModuleInit {
+  private readonly logger = new Logger(IntegrationAuditService.name);
+
+  constructor(
+    @InjectRepository(IntegrationAuditLog)
+    private auditLogRepository: Repository<IntegrationAuditLog>,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.backfillLegacyLogs();
+    } catch (error: any) {
+      this.logger.error(
+        `Failed to backfill legacy audit logs: ${error?.message || error}`,
+      );
+    }
+  }
+
+  /**
+   * Chuyển lịch sử cũ (audit_po - POCharges, payment_sync_log - paymentMethod) sang integration_audit_logs
+   * Mỗi dòng cũ chuyển đúng 1 lần (legacyRef), chạy lại không sinh trùng.
+   * audit_po vẫn được ghi (đếm lần đẩy cp01 -> cp06) nhưng lần gọi đó đã có log trực tiếp từ FastApiClientService,
+   * nên chỉ chuyển các dòng tạo trước log POCharges trực tiếp đầu tiên (mốc chuyển đổi)
+   */
+  async backfillLegacyLogs(): Promise<number> {
+    const cutover = `(SELECT COALESCE(MIN(c."createdAt"), 'infinity'::timestamp)
+      FROM integration_audit_logs c
+      WHERE c."documentType" = 'POCharges' AND c."legacyRef" IS NULL)`;
+
+    // Bản sao của các dòng audit_po sau mốc chuyển đổi (do các lần backfill trước) bị trùng với log trực tiếp
+    const duplicated = await this.auditLogRepository.query(
+      `DELETE FROM integration_audit_logs
+      WHERE "legacyRef" LIKE 'audit_po:%' AND "createdAt" >= ${cutover}
+      RETURNING id`,
+    );
+    if (duplicated.length > 0) {
+      this.logger.log(
+        `Đã xoá ${duplicated.length} dòng audit_po chuyển trùng sau mốc chuyển đổi`,
+      );
+    }
+
+    const poCharges = await this.auditLogRepository.query(
+      `INSERT INTO integration_audit_logs
+        ("documentType", "docCode", "endpoint", "requestPayload", "responsePayload",
+         "durationMs", "attempt", "outcome", "errorMessage", "legacyRef", "createdAt")
+      SELECT 'POCharges', a.dh_so, 'POCharges', a.payload::text, a.response::text,
+        0, 1,
+        CASE WHEN a.status = 'SUCCESS' THEN 'SUCCESS'
+             WHEN a.response IS NOT NULL THEN 'REJECTED'
+             ELSE 'ERROR' END,
+        a.error, 'audit_po:' || a.id, a.created_at
+      FROM audit_po a
+      WHERE a.action = 'SYNC_PO_CHARGES'
+        AND a.created_at < ${cutover}
+        AND NOT EXISTS (
+          SELECT 1 FROM integration_audit_logs l WHERE l."legacyRef" = 'audit_po:' || a.id
+        )
+      RETURNING id`,
+    );
+    const payments = await this.auditLogRepository.query(
+      `INSERT INTO integration_audit_logs
+        ("documentType", "docCode", "endpoint", "requestPayload", "responsePayload",
+         "durationMs", "attempt", "outcome", "errorMessage", "legacyRef", "createdAt")
+      SELECT 'paymentMethod', p."docCode", 'paymentMethod', p."requestPayload", p."responsePayload",
+        0, p."retryCount" + 1,
+        CASE WHEN p.status = 'SUCCESS' THEN 'SUCCESS'
+             WHEN p."responsePayload" IS NOT NULL THEN 'REJECTED'
+             ELSE 'ERROR' END,
+        p."errorMessage", 'payment_sync_log:' || p.id, p."createdAt"
+      FROM payment_sync_log p
+      WHERE NOT EXISTS (
+        SELECT 1 FROM integration_audit_logs l WHERE l."legacyRef" = 'payment_sync_log:' || p.id
+      )
+      RETURNING id`,
+    );
+
+    const count = poCharges.length + payments.length;
+    if (count > 0) {
+      this.logger.log(
+        `Đã chuyển ${poCharges.length} dòng audit_po và ${payments.length} dòng payment_sync_log sang integration_audit_logs`,
+      );
+    }
+    return count;
+  }
+
+  /**
+   * Chạy fn với ngữ cảnh audit (brand...), các lệnh gọi Fast bên trong sẽ được gắn ngữ cảnh này
+   */
+  runWithContext<T>(
+    context: IntegrationAuditContext,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    return auditContext.run({ ...auditContext.getStore(), ...context }, fn);
+  }
+
+  /**
+   * Ghi một lần gọi. Lỗi khi ghi audit chỉ log, không làm hỏng luồng nghiệp vụ
+   */
+  async record(
+    entry: Omit<
+      Partial<IntegrationAuditLog>,
+      'id' | 'createdAt' | 'requestPayload' | 'responsePayload'
+    > & {
+      documentType: string;
+      endpoint: string;
+      outcome: string;
+      request?: any;
+      response?: any;
+    },
+  ): Promise<void> {
+    const { request, response, ...rest } = entry;
+    try {
+      await this.auditLogRepository.insert({
+        ...rest,
+        brand: rest.brand ?? auditContext.getStore()?.brand ?? null,
+        requestPayload: this.stringify(request),
+        responsePayload: this.stringify(response),
+      });
+    } catch (error: any) {
+      this.logger.error(
+        `Failed to save integration audit log for ${entry.documentType} ${entry.docCode || ''}: ${error?.message || error}`,
+      );
+    }
+  }
+
+  async findLogs(filters: IntegrationAuditFilters) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 50;
+
+    const [data, total] = await this.buildQuery(filters)
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      data,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async findLog(id: string) {
+    const log = await this.auditLogRepository.findOne({ where: { id } });
+    if (!log) {
+      throw new NotFoundException(`Integration audit log ${id} not found`);
+    }
+    return log;
+  }
+
+  /**
+   * Lịch sử gọi của một chứng từ (mới nhất trước)
+   */
+  async findByDocCode(docCode: string, documentTypes?: string[]) {
+    return this.auditLogRepository.find({
+      where: {
+        docCode,
+        ...(documentTypes && { documentType: In(documentTypes) }),
+      },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Lần gọi gần nhất của từng docCode (1 query)
+   */
+  async findLatestByDocCodes(
+    docCodes: string[],
+  ): Promise<Map<string, IntegrationAuditLog>> {
+    const result = new Map<string, IntegrationAuditLog>();
+    if (docCodes.length === 0) {
+      return result;
+    }
+
+    const logs = await this.auditLogRepository
+      .createQueryBuilder('log')
+      .distinctOn(['log.docCode'])
+      .where('log.docCode IN (:...docCodes)', { docCodes })
+      .orderBy('log.docCode')
+      .addOrderBy('log.createdAt', 'DESC')
+      .getMany();
+
+    for (const log of logs) {
+      if (log.docCode) {
+        result.set(log.docCode, log);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Xoá các lần gọi khớp bộ lọc, trả về docCode của các dòng đã xoá
+   */
+  async deleteLogs(
+    filters: IntegrationAuditFilters,
+  ): Promise<{ deleted: number; docCodes: string[] }> {
+    const logs = await this.buildQuery(filters)
+      .select(['log.id', 'log.docCode'])
+      .getMany();
+    if (logs.length === 0) {
+      return { deleted: 0, docCodes: [] };
+    }
+
+    let deleted = 0;
+    for (let i = 0; i < logs.length; i += DELETE_CHUNK_SIZE) {
+      const result = await this.auditLogRepository.delete(
+        logs.slice(i, i + DELETE_CHUNK_SIZE).map((log) => log.id),
+      );
+      deleted += result.affected || 0;
+    }
+
+    return {
+      deleted,
+      docCodes: [
+        ...new Set(
+          logs
+            .map((log) => log.docCode)
+            .filter((code): code is string => !!code),
+        ),
+      ],
+    };
+  }
+
+  async exportExcel(filters: IntegrationAuditFilters): Promise<Buffer> {
+    const logs = await this.buildQuery(filters).take(EXPORT_LIMIT).getMany();
+
+    const data = logs.map((log) => ({
+      'Thời gian': new Date(log.createdAt).toLocaleString('vi-VN'),
+      'Hệ thống': log.integration,
+      'Loại chứng từ': log.documentType,
+      'Số chứng từ': log.docCode,
+      Brand: log.brand,
+      Endpoint: log.endpoint,
+      'Lần gọi': log.attempt,
+      'Kết quả': log.outcome,
+      'HTTP status': log.httpStatus,
+      'Thời gian xử lý (ms)': log.durationMs,
+      Lỗi: log.errorMessage,
+      Request: log.requestPayload,
+      Response: log.responsePayload,
+    }));
+
+    const worksheet = XLSX.utils.json_to_sheet(data);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Integration Audit');
+
+    worksheet['!cols'] = [
+      { wch: 20 }, // Thời gian
+      { wch: 10 }, // Hệ thống
+      { wch: 18 }, // Loại chứng từ
+      { wch: 20 }, // Số chứng từ
+      { wch: 10 }, // Brand
+      { wch: 40 }, // Endpoint
+      { wch: 8 }, // Lần gọi
+      { wch: 10 }, // Kết quả
+      { wch: 10 }, // HTTP status
+      { wch: 12 }, // Thời gian xử lý
+      { wch: 50 }, // Lỗi
+      { wch: 60 }, // Request
+      { wch: 60 }, // Response
+    ];
+
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+  }
+
+  private buildQuery(
+    filters: IntegrationAuditFilters,
+  ): SelectQueryBuilder<IntegrationAuditLog> {
+    const query = this.auditLogRepository.createQueryBuilder('log');
+
+    if (filters.integration) {
+      query.andWhere('log.integration = :integration', {
+        integration: filters.integration.toUpperCase(),
+      });
+    }
+    if (filters.documentTypes && filters.documentTypes.length > 0) {
+      query.andWhere('log.documentType IN (:...documentTypes)', {
+        documentTypes: filters.documentTypes,
+      });
+    }
+    if (filters.docCode) {
+      query.andWhere('log.docCode ILIKE :docCode', {
+        docCode: `%${filters.docCode}%`,
+      });
+    }
+    if (filters.brand) {
+      query.andWhere('log.brand = :brand', { brand: filters.brand });
+    }
+    if (filters.outcomes && filters.outcomes.length > 0) {
+      query.andWhere('log.outcome IN (:...outcomes)', {
+        outcomes: filters.outcomes.map((outcome) => outcome.toUpperCase()),
+      });
+    }
+    if (filters.dateFrom) {
+      const start = new Date(filters.dateFrom);
+      start.setHours(0, 0, 0, 0);
+      query.andWhere('log.createdAt >= :dateFrom', { dateFrom: start });
+    }
+    if (filters.dateTo) {
+      const end = new Date(filters.dateTo);
+      end.setHours(23, 59, 59, 999);
+      query.andWhere('log.createdAt <= :dateTo', { dateTo: end });
+    }
+
+    return query.orderBy('log.createdAt', 'DESC');
+  }
+
+  private stringify(value: any): string | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+}
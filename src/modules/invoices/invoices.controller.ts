@@ -9,11 +9,14 @@ import {
 } from '@nestjs/common';
 import { InvoiceService } from './invoice.service';
 import { CreateInvoiceDto } from '../../dto/create-invoice.dto';
+import { Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
 
 @Controller('invoices')
 export class InvoicesController {
   constructor(private readonly invoiceService: InvoiceService) {}
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post()
   async create(@Body() createInvoiceDto: CreateInvoiceDto) {
     return this.invoiceService.createInvoice(createInvoiceDto);
@@ -29,6 +32,7 @@ export class InvoicesController {
     return this.invoiceService.getInvoice(id);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Put(':id')
   async update(
     @Param('id') id: string,
@@ -0,0 +1,39 @@
+import { Controller, Get, Query, Param } from '@nestjs/common';
+import { LazadaFeesService } from './lazada-fees.service';
+
+@Controller('lazada-fees')
+export class LazadaFeesController {
+  constructor(private readonly lazadaFeesService: LazadaFeesService) {}
+
+  /**
+   * GET /lazada-fees
+   * Get all Lazada fees with pagination and filters
+   */
+  @Get()
+  async findAll(
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Query('brand') brand?: string,
+    @Query('search') search?: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ) {
+    return this.lazadaFeesService.findAll({
+      page: page ? parseInt(page) : undefined,
+      limit: limit ? parseInt(limit) : undefined,
+      brand,
+      search,
+      startDate,
+      endDate,
+    });
+  }
+
+  /**
+   * GET /lazada-fees/:erpCode
+   * Get single Lazada fee by ERP code
+   */
+  @Get(':erpCode')
+  async findByErpCode(@Param('erpCode') erpCode: string) {
+    return this.lazadaFeesService.findByErpCode(erpCode);
+  }
+}
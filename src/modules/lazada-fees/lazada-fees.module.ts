@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { LazadaFeesService } from './lazada-fees.service';
+import { LazadaFeesController } from './lazada-fees.controller';
+import { LazadaFee } from '../../entities/lazada-fee.entity';
+import { PlatformFeeImportLazada } from '../../entities/platform-fee-import-lazada.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([LazadaFee, PlatformFeeImportLazada])],
+  controllers: [LazadaFeesController],
+  providers: [LazadaFeesService],
+  exports: [LazadaFeesService],
+})
+export class LazadaFeesModule {}
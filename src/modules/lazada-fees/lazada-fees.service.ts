@@ -0,0 +1,111 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { LazadaFee } from '../../entities/lazada-fee.entity';
+import { PlatformFeeImportLazada } from '../../entities/platform-fee-import-lazada.entity';
+
+@Injectable()
+export class LazadaFeesService {
+  private readonly logger = new Logger(LazadaFeesService.name);
+
+  constructor(
+    @InjectRepository(LazadaFee)
+    private lazadaFeeRepository: Repository<LazadaFee>,
+    @InjectRepository(PlatformFeeImportLazada)
+    private lazadaImportRepository: Repository<PlatformFeeImportLazada>,
+  ) {}
+
+  /**
+   * Get all Lazada fees with pagination and filters
+   */
+  async findAll(params: {
+    page?: number;
+    limit?: number;
+    brand?: string;
+    search?: string;
+    startDate?: string;
+    endDate?: string;
+  }) {
+    const page = params.page || 1;
+    const limit = params.limit || 10;
+    const skip = (page - 1) * limit;
+
+    const queryBuilder = this.lazadaFeeRepository.createQueryBuilder('fee');
+
+    // Brand filter
+    if (params.brand) {
+      queryBuilder.andWhere('fee.brand = :brand', { brand: params.brand });
+    }
+
+    // Search filter
+    if (params.search) {
+      queryBuilder.andWhere(
+        '(fee.erpOrderCode ILIKE :search OR fee.orderSn ILIKE :search)',
+        { search: `%${params.search}%` },
+      );
+    }
+
+    // Date range filter
+    if (params.startDate && params.endDate) {
+      queryBuilder.andWhere(
+        'fee.orderCreatedAt BETWEEN :startDate AND :endDate',
+        {
+          startDate: params.startDate,
+          endDate: params.endDate,
+        },
+      );
+    }
+
+    const [data, total] = await queryBuilder
+      .orderBy('fee.orderCreatedAt', 'DESC')
+      .skip(skip)
+      .take(limit)
+      .getManyAndCount();
+
+    // Merge với dữ liệu import (file quyết toán Lazada, mỗi dòng là 1 khoản phí)
+    const orderSns = data.map((f) => f.orderSn).filter(Boolean);
+    const importFees =
+      orderSns.length > 0
+        ? await this.lazadaImportRepository.find({
+            where: { maSan: In(orderSns) },
+          })
+        : [];
+
+    const formattedData = data.map((fee) => ({
+      ...fee,
+      commissionFee: Number(fee.commissionFee),
+      paymentFee: Number(fee.paymentFee),
+      shippingFee: Number(fee.shippingFee),
+      affiliateFee: Number(fee.affiliateFee),
+      otherFee: Number(fee.otherFee),
+      totalFee: Number(fee.totalFee),
+      importedFees: importFees
+        .filter((imp) => imp.maSan === fee.orderSn)
+        .map((imp) => ({
+          tenPhiDoanhThu: imp.tenPhiDoanhThu,
+          maPhiNhanDienHachToan: imp.maPhiNhanDienHachToan,
+          soTienPhi: Number(imp.soTienPhi || 0),
+          ngayDoiSoat: imp.ngayDoiSoat,
+        })),
+    }));
+
+    return {
+      data: formattedData,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get single Lazada fee by ERP code
+   */
+  async findByErpCode(erpCode: string) {
+    return this.lazadaFeeRepository.findOne({
+      where: { erpOrderCode: erpCode },
+    });
+  }
+}
@@ -1,46 +1,41 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { Cron } from '@nestjs/schedule';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { MultiDbService } from './multi-db.service';
 
 @Injectable()
 export class MultiDbSyncService {
   private readonly logger = new Logger(MultiDbSyncService.name);
+  private running = false;
 
   constructor(private readonly multiDbService: MultiDbService) {}
 
   /**
-   * Sync order fees every day at 1 AM
+   * Sync phí đơn hàng tăng dần theo watermark mỗi 5 phút
    */
-  @Cron('0 1 * * *', {
+  @Cron(CronExpression.EVERY_5_MINUTES, {
     name: 'sync-order-fees',
     timeZone: 'Asia/Ho_Chi_Minh',
   })
   async handleOrderFeeSync() {
-    try {
-      // Calculate Date T-1 (Yesterday)
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-
-      const startAt = new Date(yesterday);
-      startAt.setHours(0, 0, 0, 0);
-
-      const endAt = new Date(yesterday);
-      endAt.setHours(23, 59, 59, 999);
-
-      // Convert to ISO string for DB query
-      const startAtStr = startAt.toISOString();
-      const endAtStr = endAt.toISOString();
+    if (this.running) {
+      this.logger.warn('Order fee sync is still running, skipping this tick');
+      return;
+    }
 
-      const result = await this.multiDbService.syncAllOrderFees(
-        startAtStr,
-        endAtStr,
-      );
+    this.running = true;
+    try {
+      const results = await this.multiDbService.syncOrderFeesIncremental();
+      const synced = results.reduce((sum, r) => sum + (r.synced || 0), 0);
+      const failed = results.reduce((sum, r) => sum + (r.failed || 0), 0);
 
       this.logger.log(
-        `Order fee sync completed (T-1): ${result.synced} records synced, ${result.failed} failed`,
+        `Order fee sync completed (watermark): ${synced} records synced, ${failed} failed`,
       );
+      return results;
     } catch (error) {
       this.logger.error('Order fee sync failed', error);
+    } finally {
+      this.running = false;
     }
   }
 
@@ -1,6 +1,8 @@
 import { Body, Controller, Get, Param, Post, Query } from '@nestjs/common';
 import { MultiDbService } from './multi-db.service';
 import { MultiDbSyncService } from './multi-db-sync.service';
+import { Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
 
 @Controller('multi-db')
 export class MultiDbController {
@@ -36,6 +38,7 @@ export class MultiDbController {
    * POST /multi-db/sync-order-fees
    * Manually trigger order fee sync (for testing)
    */
+  @Roles(ROLES.SYNC_OPERATOR)
   @Get('sync-order-fees')
   async syncOrderFees() {
     return this.multiDbSyncService.triggerManualSync();
@@ -46,6 +49,7 @@ export class MultiDbController {
    * Manually sync a specific order (for testing)
    * Query: ?brand=menard or ?brand=yaman (optional)
    */
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('sync-order-fees/:erpCode')
   async syncOrderFeeByCode(
     @Param('erpCode') erpCode: string,
@@ -54,6 +58,7 @@ export class MultiDbController {
     return this.multiDbService.syncOrderFeeByCode(erpCode, brand);
   }
 
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('range-sync-order-fees')
   async rangeSyncOrderFees(
     @Body() dateRange: { startAt: string; endAt: string },
@@ -63,4 +68,26 @@ export class MultiDbController {
       dateRange.endAt,
     );
   }
+
+  /**
+   * GET /multi-db/sync-watermarks
+   * Watermark sync phí đơn hàng của từng brand
+   */
+  @Get('sync-watermarks')
+  async getSyncWatermarks() {
+    return this.multiDbService.getSyncWatermarks();
+  }
+
+  /**
+   * POST /multi-db/sync-watermarks/:brand/rewind
+   * Lùi watermark về thời điểm `from` để các lần chạy sau sync lại từ đó
+   */
+  @Roles(ROLES.SYNC_OPERATOR)
+  @Post('sync-watermarks/:brand/rewind')
+  async rewindSyncWatermark(
+    @Param('brand') brand: string,
+    @Body() body: { from: string },
+  ) {
+    return this.multiDbService.rewindSyncWatermark(brand, body?.from);
+  }
 }
@@ -8,11 +8,21 @@ import { OrderFee } from '../../entities/order-fee.entity';
 import { PlatformFee } from '../../entities/platform-fee.entity';
 import { ShopeeFee } from '../../entities/shopee-fee.entity';
 import { TikTokFee } from '../../entities/tiktok-fee.entity';
+import { LazadaFee } from '../../entities/lazada-fee.entity';
+import { OrderFeeSyncWatermark } from '../../entities/order-fee-sync-watermark.entity';
+import { BrandsModule } from '../brands/brands.module';
 
 @Module({
   imports: [
     // Primary database entities
-    TypeOrmModule.forFeature([OrderFee, PlatformFee, ShopeeFee, TikTokFee]),
+    TypeOrmModule.forFeature([
+      OrderFee,
+      PlatformFee,
+      ShopeeFee,
+      TikTokFee,
+      LazadaFee,
+      OrderFeeSyncWatermark,
+    ]),
 
     // Secondary database entities
     TypeOrmModule.forFeature([], 'secondary'),
@@ -20,6 +30,7 @@ import { TikTokFee } from '../../entities/tiktok-fee.entity';
 
     // Schedule module for cronjobs
     ScheduleModule.forRoot(),
+    BrandsModule,
   ],
   controllers: [MultiDbController],
   providers: [MultiDbService, MultiDbSyncService],
@@ -1,10 +1,48 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
 import { DataSource, Repository } from 'typeorm';
 import { OrderFee } from '../../entities/order-fee.entity';
 import { PlatformFee } from '../../entities/platform-fee.entity';
 import { ShopeeFee } from '../../entities/shopee-fee.entity';
 import { TikTokFee } from '../../entities/tiktok-fee.entity';
+import { LazadaFee, LazadaFeeLine } from '../../entities/lazada-fee.entity';
+import { OrderFeeSyncWatermark } from '../../entities/order-fee-sync-watermark.entity';
+import { BrandRegistryService } from '../brands/brand-registry.service';
+import { BRAND_SYNC_JOBS } from '../brands/constants/brand.constants';
+import * as _ from 'lodash';
+
+export const SYNC_WATERMARK_STATUS = {
+  IDLE: 'IDLE',
+  RUNNING: 'RUNNING',
+  SUCCESS: 'SUCCESS',
+  FAILED: 'FAILED',
+} as const;
+
+const LOG_BATCH_SIZE = 100;
+// Số log ERP tối đa mỗi brand trong 1 lần chạy tăng dần, phần còn lại để lần sau
+const WATERMARK_RUN_LIMIT = 2000;
+// Chỉ sync log cũ hơn N phút để dữ liệu phí/chi tiết đơn kịp về DB brand
+const WATERMARK_SETTLE_MINUTES = 60;
+// Lần chạy RUNNING quá thời gian này coi như đã chết, cho phép chạy lại
+const WATERMARK_LOCK_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Phân loại khoản phí Lazada theo tên phí (không phân biệt hoa thường)
+ * Khớp theo thứ tự: "Affiliate Commission" phải vào affiliateFee trước khi xét "commission"
+ * Khoản không khớp từ khoá nào cộng vào otherFee
+ */
+const LAZADA_FEE_FIELDS: Array<{ field: keyof LazadaFee; keywords: string[] }> =
+  [
+    { field: 'affiliateFee', keywords: ['affiliate'] },
+    { field: 'commissionFee', keywords: ['commission'] },
+    { field: 'paymentFee', keywords: ['payment fee'] },
+    { field: 'shippingFee', keywords: ['shipping'] },
+  ];
 
 /**
  * Multi-Database Service
@@ -32,6 +70,12 @@ export class MultiDbService {
     @InjectRepository(TikTokFee)
     private tiktokFeeRepository: Repository<TikTokFee>,
 
+    @InjectRepository(LazadaFee)
+    private lazadaFeeRepository: Repository<LazadaFee>,
+
+    @InjectRepository(OrderFeeSyncWatermark)
+    private watermarkRepository: Repository<OrderFeeSyncWatermark>,
+
     // Secondary Database (103.145.79.165)
     @InjectDataSource('secondary')
     private secondaryDataSource: DataSource,
@@ -39,6 +83,8 @@ export class MultiDbService {
     // Third Database (103.145.79.37)
     @InjectDataSource('third')
     private thirdDataSource: DataSource,
+
+    private brandRegistryService: BrandRegistryService,
   ) {}
 
   /**
@@ -106,33 +152,20 @@ export class MultiDbService {
 
   /**
    * Brand Configuration
-   * Maps brand names to their specific table structures
+   * Bảng Pancake của từng brand lấy từ registry brand (brands.pancake)
    */
-  private readonly brands = [
-    {
-      name: 'menard',
-      tableLogs: '"menard_erp_order_logs"',
-      tableDetail: 'public.menard_ecommer_detail_order',
-      tableFee: 'public.menard_ecommer_detail_order_fee',
-      tableOrders: 'public.menard_orders', // [NEW] Table to check Source
-      detailIdColumn: 'menard_ecommer_detail_order_id',
-    },
-    {
-      name: 'yaman',
-      tableLogs: '"erp_order_logs"',
-      tableDetail: 'public.yaman_ecommer_detail_order',
-      tableFee: 'public.yaman_ecommer_detail_order_fee',
-      tableOrders: '"yaman_orders"',
-      detailIdColumn: 'yaman_ecommer_detail_order_id',
-    },
-  ];
+  private getBrandConfigs() {
+    return this.brandRegistryService.getPancakeConfigs(
+      BRAND_SYNC_JOBS.ORDER_FEES,
+    );
+  }
 
   /**
    * Get order fees for a specific ERP code
    * Tries to find order in all configured brands
    */
   async getOrderFees(erpCode: string) {
-    for (const brand of this.brands) {
+    for (const brand of await this.getBrandConfigs()) {
       const results = await this.getOrderFeesByBrandConfig(erpCode, brand);
       if (results.length > 0) {
         return results;
@@ -193,7 +226,7 @@ export class MultiDbService {
 
   /**
    * Sync all order fees from external databases to primary database
-   * This method is called by cronjob at 1 AM daily
+   * Đọc lại toàn bộ log trong khoảng (hoặc cả bảng nếu không truyền), cron dùng syncOrderFeesIncremental
    */
   async syncAllOrderFees(startAt?: string, endAt?: string) {
     this.logger.log(
@@ -205,7 +238,7 @@ export class MultiDbService {
     let totalRecords = 0;
 
     try {
-      for (const brand of this.brands) {
+      for (const brand of await this.getBrandConfigs()) {
         this.logger.log(`Syncing brand: ${brand.name.toUpperCase()}...`);
         const result = await this.syncBrandOrders(brand, startAt, endAt);
         totalSynced += result.synced;
@@ -250,250 +283,501 @@ export class MultiDbService {
       );
 
       // Process in batches to avoid memory issues
-      const batchSize = 100;
+      const batchSize = LOG_BATCH_SIZE;
       for (let i = 0; i < erpLogs.length; i += batchSize) {
         const batch = erpLogs.slice(i, i + batchSize);
 
         try {
-          // Identify TikTok vs Shopee Logic
+          synced += await this.syncLogBatch(brandConfig, batch);
+        } catch (error) {
+          this.logger.error(
+            `Failed to sync batch for brand ${brandConfig.name}`,
+            error,
+          );
+          failed += batch.length;
+        }
+
+        this.logger.log(
+          `Processed batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(erpLogs.length / batchSize)} for ${brandConfig.name}`,
+        );
+      }
+
+      return { synced, failed, total: erpLogs.length };
+    } catch (error) {
+      this.logger.error(`Sync failed for brand ${brandConfig.name}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sync tăng dần cho tất cả brand: mỗi brand đọc tiếp log ERP từ watermark
+   * Dùng cho cron chạy vài phút một lần
+   */
+  async syncOrderFeesIncremental() {
+    const results: any[] = [];
+    for (const brand of await this.getBrandConfigs()) {
+      results.push(await this.syncBrandIncremental(brand));
+    }
+    return results;
+  }
+
+  /**
+   * Danh sách watermark của các brand đang cấu hình
+   */
+  async getSyncWatermarks() {
+    const watermarks: OrderFeeSyncWatermark[] = [];
+    for (const brand of await this.getBrandConfigs()) {
+      watermarks.push(await this.getOrCreateWatermark(brand.name));
+    }
+    return watermarks;
+  }
+
+  /**
+   * Lùi watermark của 1 brand về thời điểm `from` để sync lại từ đó (upsert nên chạy lại an toàn)
+   */
+  async rewindSyncWatermark(brandName: string, from: string) {
+    const brandConfig = await this.findBrandConfig(brandName);
+    const fromDate = new Date(from);
+    if (!from || isNaN(fromDate.getTime())) {
+      throw new BadRequestException(`Thời điểm không hợp lệ: ${from}`);
+    }
+
+    const watermark = await this.getOrCreateWatermark(brandConfig.name);
+    if (this.isRunning(watermark)) {
+      throw new BadRequestException(
+        `Brand ${brandConfig.name} đang sync, vui lòng thử lại sau`,
+      );
+    }
+
+    watermark.lastCreatedAt = fromDate;
+    watermark.lastErpOrderCode = null;
+    const saved = await this.watermarkRepository.save(watermark);
+    this.logger.log(
+      `[Watermark] ${brandConfig.name} rewound to ${fromDate.toISOString()}`,
+    );
+    return saved;
+  }
+
+  private async syncBrandIncremental(brandConfig: any) {
+    const watermark = await this.getOrCreateWatermark(brandConfig.name);
+    if (!(await this.claimWatermark(watermark.id))) {
+      this.logger.warn(
+        `[Watermark] ${brandConfig.name} đang có lần sync khác chạy, bỏ qua`,
+      );
+      return { brand: brandConfig.name, skipped: true };
+    }
+
+    let cursor = {
+      createdAt: watermark.lastCreatedAt,
+      erpOrderCode: watermark.lastErpOrderCode,
+    };
+    let total = 0;
+    let synced = 0;
+    let failed = 0;
+    let error: string | null = null;
+
+    try {
+      const logs = await this.readLogsAfterWatermark(brandConfig, cursor);
+      total = logs.length;
+
+      for (const batch of _.chunk(logs, LOG_BATCH_SIZE)) {
+        try {
+          synced += await this.syncLogBatch(brandConfig, batch);
+        } catch (err: any) {
+          // Không đẩy watermark qua lô lỗi, lần sau đọc lại từ lô này
+          failed += batch.length;
+          error = err?.message || String(err);
+          this.logger.error(
+            `[Watermark] Failed to sync batch for brand ${brandConfig.name}`,
+            err,
+          );
+          break;
+        }
+
+        const last = batch[batch.length - 1];
+        cursor = { createdAt: last.createdAt, erpOrderCode: last.erpOrderCode };
+        await this.watermarkRepository.update(watermark.id, {
+          lastCreatedAt: cursor.createdAt,
+          lastErpOrderCode: cursor.erpOrderCode,
+        });
+      }
+    } catch (err: any) {
+      error = err?.message || String(err);
+      this.logger.error(
+        `[Watermark] Sync failed for brand ${brandConfig.name}`,
+        err,
+      );
+    }
+
+    await this.watermarkRepository.update(watermark.id, {
+      lastRunStatus: error
+        ? SYNC_WATERMARK_STATUS.FAILED
+        : SYNC_WATERMARK_STATUS.SUCCESS,
+      lastRunFinishedAt: new Date(),
+      lastRunTotal: total,
+      lastRunSynced: synced,
+      lastRunFailed: failed,
+      lastError: error,
+      totalSynced: () => `"totalSynced" + ${synced}`,
+    });
+
+    this.logger.log(
+      `[Watermark] ${brandConfig.name}: ${total} logs, ${synced} synced, ${failed} failed`,
+    );
+
+    return {
+      brand: brandConfig.name,
+      total,
+      synced,
+      failed,
+      error,
+      lastCreatedAt: cursor.createdAt,
+      hasMore: !error && total >= WATERMARK_RUN_LIMIT,
+    };
+  }
+
+  /**
+   * Đọc log ERP sau watermark theo thứ tự (createdAt, erpOrderCode)
+   * So sánh createdAt theo mili giây vì Date của JS không giữ micro giây
+   */
+  private async readLogsAfterWatermark(
+    brandConfig: any,
+    cursor: { createdAt: Date | null; erpOrderCode: string | null },
+  ): Promise<
+    Array<{ erpOrderCode: string; pancakeOrderId: string; createdAt: Date }>
+  > {
+    const createdAt = `date_trunc('milliseconds', "createdAt")`;
+    const settledBefore = new Date(
+      Date.now() - WATERMARK_SETTLE_MINUTES * 60 * 1000,
+    );
+    const params: any[] = [settledBefore, WATERMARK_RUN_LIMIT];
+    let where = `"createdAt" <= $1`;
+
+    if (cursor.createdAt && cursor.erpOrderCode) {
+      where += ` AND "createdAt" >= $3 AND (${createdAt}, "erpOrderCode") > ($3, $4)`;
+      params.push(cursor.createdAt, cursor.erpOrderCode);
+    } else if (cursor.createdAt) {
+      where += ` AND "createdAt" >= $3`;
+      params.push(cursor.createdAt);
+    }
+
+    return this.secondaryDataSource.query(
+      `
+      SELECT "erpOrderCode", "pancakeOrderId", "createdAt"
+      FROM ${brandConfig.tableLogs}
+      WHERE ${where}
+      ORDER BY ${createdAt}, "erpOrderCode"
+      LIMIT $2
+      `,
+      params,
+    );
+  }
+
+  /**
+   * Watermark mới bắt đầu từ đầu ngày hôm qua (giống cửa sổ T-1 của job cũ)
+   */
+  private async getOrCreateWatermark(brand: string) {
+    const existing = await this.watermarkRepository.findOne({
+      where: { brand },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    const start = new Date();
+    start.setDate(start.getDate() - 1);
+    start.setHours(0, 0, 0, 0);
+    await this.watermarkRepository
+      .createQueryBuilder()
+      .insert()
+      .values({ brand, lastCreatedAt: start })
+      .orIgnore()
+      .execute();
+    return this.watermarkRepository.findOneOrFail({ where: { brand } });
+  }
+
+  /**
+   * Đánh dấu RUNNING nếu chưa có lần chạy khác (hoặc lần chạy trước đã quá hạn)
+   */
+  private async claimWatermark(id: string): Promise<boolean> {
+    const result = await this.watermarkRepository
+      .createQueryBuilder()
+      .update()
+      .set({
+        lastRunStatus: SYNC_WATERMARK_STATUS.RUNNING,
+        lastRunStartedAt: new Date(),
+        lastError: null,
+      })
+      .where('id = :id', { id })
+      .andWhere(
+        '("lastRunStatus" != :running OR "lastRunStartedAt" IS NULL OR "lastRunStartedAt" < :staleBefore)',
+        {
+          running: SYNC_WATERMARK_STATUS.RUNNING,
+          staleBefore: new Date(Date.now() - WATERMARK_LOCK_TIMEOUT_MS),
+        },
+      )
+      .execute();
+    return result.affected === 1;
+  }
+
+  private isRunning(watermark: OrderFeeSyncWatermark) {
+    return (
+      watermark.lastRunStatus === SYNC_WATERMARK_STATUS.RUNNING &&
+      !!watermark.lastRunStartedAt &&
+      Date.now() - new Date(watermark.lastRunStartedAt).getTime() <
+        WATERMARK_LOCK_TIMEOUT_MS
+    );
+  }
+
+  private async findBrandConfig(brandName: string) {
+    const brandConfigs = await this.getBrandConfigs();
+    const brandConfig = brandConfigs.find(
+      (b) => b.name.toLowerCase() === (brandName || '').toLowerCase(),
+    );
+    if (!brandConfig) {
+      throw new NotFoundException(`Brand ${brandName} not found`);
+    }
+    return brandConfig;
+  }
+
+  /**
+   * Sync 1 lô log ERP: phân loại TikTok / Lazada / Shopee rồi lưu phí
+   * Trả về số bản ghi đã sync, throw nếu lỗi cả lô
+   */
+  private async syncLogBatch(
+    brandConfig: any,
+    batch: Array<{ erpOrderCode: string; pancakeOrderId: string }>,
+  ): Promise<number> {
+    let synced = 0;
+
+    // Identify TikTok / Lazada / Shopee Logic
+    this.logger.log(
+      `Checking TikTok/Lazada source for ${batch.length} orders...`,
+    );
+    const tiktokIds = await this.checkTikTokSource(
+      brandConfig,
+      batch.map((l) => l.pancakeOrderId),
+    );
+    const lazadaIds = await this.checkLazadaSource(
+      brandConfig,
+      batch.map((l) => l.pancakeOrderId),
+    );
+    this.logger.log(
+      `Found ${tiktokIds.size} TikTok orders, ${lazadaIds.size} Lazada orders and ${batch.length - tiktokIds.size - lazadaIds.size} Shopee orders.`,
+    );
+
+    // Group by platform
+    const tiktokLogs = batch.filter((l) => tiktokIds.has(l.pancakeOrderId));
+    const lazadaLogs = batch.filter((l) => lazadaIds.has(l.pancakeOrderId));
+    const shopeeLogs = batch.filter(
+      (l) =>
+        !tiktokIds.has(l.pancakeOrderId) && !lazadaIds.has(l.pancakeOrderId),
+    );
+
+    // --- 1. Process TikTok Orders ---
+    if (tiktokLogs.length > 0) {
+      this.logger.log(
+        `Fetching TikTok details for ${tiktokLogs.length} orders...`,
+      );
+      const details = await this.getOrderDetails(
+        brandConfig,
+        tiktokLogs.map((l) => l.pancakeOrderId),
+      );
+      this.logger.log(`Found details for ${details.length} TikTok orders.`);
+
+      for (const log of tiktokLogs) {
+        const detail = details.find((d) => d.order_sn === log.pancakeOrderId);
+        if (detail && detail.order_data) {
+          // TikTok time is in seconds
+          const createTime =
+            detail.order_data.create_time || detail.order_data.createTime || 0;
+          const orderDate = createTime
+            ? new Date(createTime * 1000)
+            : new Date();
+
+          const tiktokFeeData = {
+            brand: brandConfig.name,
+            erpOrderCode: log.erpOrderCode,
+            orderSn: detail.order_sn,
+            orderStatus: detail.order_data?.order_status,
+            orderCreatedAt: orderDate,
+            syncedAt: new Date(),
+            // Detailed fields - TikTok API uses camelCase
+            tax: Number(detail.order_data?.payment?.tax || 0),
+            currency: detail.order_data?.payment?.currency || 'VND',
+            subTotal: Number(detail.order_data?.payment?.subTotal || 0),
+            shippingFee: Number(detail.order_data?.payment?.shippingFee || 0),
+            totalAmount: Number(detail.order_data?.payment?.totalAmount || 0),
+            sellerDiscount: Number(
+              detail.order_data?.payment?.sellerDiscount || 0,
+            ),
+            platformDiscount: Number(
+              detail.order_data?.payment?.platformDiscount || 0,
+            ),
+            originalTotalProductPrice: Number(
+              detail.order_data?.payment?.originalTotalProductPrice || 0,
+            ),
+            originalShippingFee: Number(
+              detail.order_data?.payment?.originalShippingFee || 0,
+            ),
+            shippingFeeSellerDiscount: Number(
+              detail.order_data?.payment?.shippingFeeSellerDiscount || 0,
+            ),
+            shippingFeeCofundedDiscount: Number(
+              detail.order_data?.payment?.shippingFeeCofundedDiscount || 0,
+            ),
+            shippingFeePlatformDiscount: Number(
+              detail.order_data?.payment?.shippingFeePlatformDiscount || 0,
+            ),
+            tiktokCommission: Number(
+              detail.order_data?.payment?.tiktokCommission || 0,
+            ),
+            transactionFee: Number(
+              detail.order_data?.payment?.transactionFee || 0,
+            ),
+            sfpServiceFee: Number(
+              detail.order_data?.payment?.sfpServiceFee || 0,
+            ),
+            affiliateCommission: Number(
+              detail.order_data?.payment?.affiliateCommission || 0,
+            ),
+          };
+
+          // 1. Save to OrderFee (Legacy)
+          await this.orderFeeRepository.upsert(
+            {
+              feeId: `${log.erpOrderCode}_TIKTOK`,
+              brand: brandConfig.name,
+              erpOrderCode: log.erpOrderCode,
+              platform: 'tiktok',
+              orderSn: detail.order_sn,
+              rawData: detail.order_data,
+              orderCreatedAt: orderDate,
+              syncedAt: new Date(),
+            },
+            ['feeId'],
+          );
+
+          // 2. Save to TikTokFee (New structured table)
+          try {
+            await this.tiktokFeeRepository.upsert(tiktokFeeData, [
+              'erpOrderCode',
+              'orderSn',
+            ]);
+          } catch (err) {
+            this.logger.error(
+              `Failed to upsert TikTokFee for ${log.erpOrderCode}: ${err.message}`,
+            );
+          }
+
+          synced++;
+        }
+      }
+    }
+
+    // --- 2. Process Lazada Orders ---
+    if (lazadaLogs.length > 0) {
+      this.logger.log(
+        `Fetching Lazada details for ${lazadaLogs.length} orders...`,
+      );
+      synced += await this.syncLazadaOrders(brandConfig, lazadaLogs);
+    }
+
+    // --- 3. Process Shopee Orders ---
+    if (shopeeLogs.length > 0) {
+      this.logger.log(`Processing ${shopeeLogs.length} Shopee orders...`);
+      for (const erpLog of shopeeLogs) {
+        try {
           this.logger.log(
-            `Checking TikTok source for ${batch.length} orders...`,
+            `Fetching Shopee fees for ERP code ${erpLog.erpOrderCode}...`,
           );
-          const tiktokIds = await this.checkTikTokSource(
+          const fees = await this.getOrderFeesByBrandConfig(
+            erpLog.erpOrderCode,
             brandConfig,
-            batch.map((l) => l.pancakeOrderId),
           );
           this.logger.log(
-            `Found ${tiktokIds.size} TikTok orders and ${batch.length - tiktokIds.size} Shopee orders.`,
+            `Found ${fees.length} Shopee fees for ERP code ${erpLog.erpOrderCode}.`,
           );
 
-          // Group by platform
-          const tiktokLogs = batch.filter((l) =>
-            tiktokIds.has(l.pancakeOrderId),
-          );
-          const shopeeLogs = batch.filter(
-            (l) => !tiktokIds.has(l.pancakeOrderId),
-          );
+          for (const fee of fees) {
+            const feeCreatedAt =
+              fee.rawData?.create_at || fee.rawData?.created_at || new Date();
 
-          // --- 1. Process TikTok Orders ---
-          if (tiktokLogs.length > 0) {
-            this.logger.log(
-              `Fetching TikTok details for ${tiktokLogs.length} orders...`,
-            );
-            const details = await this.getTikTokDetails(
-              brandConfig,
-              tiktokLogs.map((l) => l.pancakeOrderId),
-            );
-            this.logger.log(
-              `Found details for ${details.length} TikTok orders.`,
+            // 1. Save Raw Order Fee (Legacy)
+            await this.orderFeeRepository.upsert(
+              {
+                feeId: fee.rawData?.id,
+                brand: fee.brand,
+                erpOrderCode: fee.erpOrderCode,
+                platform: 'shopee',
+                orderSn: fee.rawData?.order_sn,
+                rawData: fee.rawData,
+                orderCreatedAt: feeCreatedAt,
+                syncedAt: new Date(),
+              },
+              ['feeId'],
             );
 
-            for (const log of tiktokLogs) {
-              const detail = details.find(
-                (d) => d.order_sn === log.pancakeOrderId,
-              );
-              if (detail && detail.order_data) {
-                // TikTok time is in seconds
-                const createTime =
-                  detail.order_data.create_time ||
-                  detail.order_data.createTime ||
-                  0;
-                const orderDate = createTime
-                  ? new Date(createTime * 1000)
-                  : new Date();
-
-                const tiktokFeeData = {
-                  brand: brandConfig.name,
-                  erpOrderCode: log.erpOrderCode,
-                  orderSn: detail.order_sn,
-                  orderStatus: detail.order_data?.order_status,
-                  orderCreatedAt: orderDate,
+            // 2. Save to ShopeeFee (New structured table)
+            const details = fee.rawData?.raw_data || {};
+            try {
+              await this.shopeeFeeRepository.upsert(
+                {
+                  brand: fee.brand,
+                  erpOrderCode: fee.erpOrderCode,
+                  orderSn: fee.rawData?.order_sn,
+                  platform: 'shopee',
+                  voucherShop: Number(details.voucher_from_seller || 0),
+                  commissionFee: Number(details.commission_fee || 0),
+                  serviceFee: Number(details.service_fee || 0),
+                  paymentFee: Number(details.credit_card_transaction_fee || 0),
+                  affiliateFee: Number(details.order_ams_commission_fee || 0),
+                  orderCreatedAt: feeCreatedAt,
                   syncedAt: new Date(),
-                  // Detailed fields - TikTok API uses camelCase
-                  tax: Number(detail.order_data?.payment?.tax || 0),
-                  currency: detail.order_data?.payment?.currency || 'VND',
-                  subTotal: Number(detail.order_data?.payment?.subTotal || 0),
-                  shippingFee: Number(
-                    detail.order_data?.payment?.shippingFee || 0,
-                  ),
-                  totalAmount: Number(
-                    detail.order_data?.payment?.totalAmount || 0,
-                  ),
-                  sellerDiscount: Number(
-                    detail.order_data?.payment?.sellerDiscount || 0,
-                  ),
-                  platformDiscount: Number(
-                    detail.order_data?.payment?.platformDiscount || 0,
-                  ),
-                  originalTotalProductPrice: Number(
-                    detail.order_data?.payment?.originalTotalProductPrice || 0,
-                  ),
-                  originalShippingFee: Number(
-                    detail.order_data?.payment?.originalShippingFee || 0,
-                  ),
-                  shippingFeeSellerDiscount: Number(
-                    detail.order_data?.payment?.shippingFeeSellerDiscount || 0,
-                  ),
-                  shippingFeeCofundedDiscount: Number(
-                    detail.order_data?.payment?.shippingFeeCofundedDiscount ||
-                      0,
-                  ),
-                  shippingFeePlatformDiscount: Number(
-                    detail.order_data?.payment?.shippingFeePlatformDiscount ||
-                      0,
-                  ),
-                };
-
-                // 1. Save to OrderFee (Legacy)
-                await this.orderFeeRepository.upsert(
-                  {
-                    feeId: `${log.erpOrderCode}_TIKTOK`,
-                    brand: brandConfig.name,
-                    erpOrderCode: log.erpOrderCode,
-                    platform: 'tiktok',
-                    orderSn: detail.order_sn,
-                    rawData: detail.order_data,
-                    orderCreatedAt: orderDate,
-                    syncedAt: new Date(),
-                  },
-                  ['feeId'],
-                );
-
-                // 2. Save to TikTokFee (New structured table)
-                try {
-                  await this.tiktokFeeRepository.upsert(tiktokFeeData, [
-                    'erpOrderCode',
-                    'orderSn',
-                  ]);
-                } catch (err) {
-                  this.logger.error(
-                    `Failed to upsert TikTokFee for ${log.erpOrderCode}: ${err.message}`,
-                  );
-                }
-
-                synced++;
-              }
+                },
+                ['erpOrderCode', 'orderSn'],
+              );
+            } catch (err) {
+              this.logger.error(
+                `Failed to upsert ShopeeFee for ${fee.erpOrderCode}: ${err.message}`,
+              );
             }
-          }
 
-          // --- 2. Process Shopee Orders ---
-          if (shopeeLogs.length > 0) {
-            this.logger.log(`Processing ${shopeeLogs.length} Shopee orders...`);
-            for (const erpLog of shopeeLogs) {
-              try {
-                this.logger.log(
-                  `Fetching Shopee fees for ERP code ${erpLog.erpOrderCode}...`,
-                );
-                const fees = await this.getOrderFeesByBrandConfig(
-                  erpLog.erpOrderCode,
-                  brandConfig,
-                );
-                this.logger.log(
-                  `Found ${fees.length} Shopee fees for ERP code ${erpLog.erpOrderCode}.`,
-                );
+            // 3. Calculate and Save Platform Fee (Keep existing logic if needed)
+            if (
+              fee.rawData?.fee_type === 'order_income' &&
+              fee.rawData?.raw_data
+            ) {
+              const raw = fee.rawData.raw_data;
+              const orderSellingPrice = Number(raw.order_selling_price || 0);
+              const voucherFromSeller = Number(raw.voucher_from_seller || 0);
+              const escrowAmount = Number(raw.escrow_amount || 0);
+              const platformFeeAmount =
+                orderSellingPrice - voucherFromSeller - escrowAmount;
 
-                for (const fee of fees) {
-                  const feeCreatedAt =
-                    fee.rawData?.create_at ||
-                    fee.rawData?.created_at ||
-                    new Date();
-
-                  // 1. Save Raw Order Fee (Legacy)
-                  await this.orderFeeRepository.upsert(
-                    {
-                      feeId: fee.rawData?.id,
-                      brand: fee.brand,
-                      erpOrderCode: fee.erpOrderCode,
-                      platform: 'shopee',
-                      orderSn: fee.rawData?.order_sn,
-                      rawData: fee.rawData,
-                      orderCreatedAt: feeCreatedAt,
-                      syncedAt: new Date(),
-                    },
-                    ['feeId'],
-                  );
-
-                  // 2. Save to ShopeeFee (New structured table)
-                  const details = fee.rawData?.raw_data || {};
-                  try {
-                    await this.shopeeFeeRepository.upsert(
-                      {
-                        brand: fee.brand,
-                        erpOrderCode: fee.erpOrderCode,
-                        orderSn: fee.rawData?.order_sn,
-                        platform: 'shopee',
-                        voucherShop: Number(details.voucher_from_seller || 0),
-                        commissionFee: Number(details.commission_fee || 0),
-                        serviceFee: Number(details.service_fee || 0),
-                        paymentFee: Number(
-                          details.credit_card_transaction_fee || 0,
-                        ),
-                        orderCreatedAt: feeCreatedAt,
-                        syncedAt: new Date(),
-                      },
-                      ['erpOrderCode', 'orderSn'],
-                    );
-                  } catch (err) {
-                    this.logger.error(
-                      `Failed to upsert ShopeeFee for ${fee.erpOrderCode}: ${err.message}`,
-                    );
-                  }
-
-                  // 3. Calculate and Save Platform Fee (Keep existing logic if needed)
-                  if (
-                    fee.rawData?.fee_type === 'order_income' &&
-                    fee.rawData?.raw_data
-                  ) {
-                    const raw = fee.rawData.raw_data;
-                    const orderSellingPrice = Number(
-                      raw.order_selling_price || 0,
-                    );
-                    const voucherFromSeller = Number(
-                      raw.voucher_from_seller || 0,
-                    );
-                    const escrowAmount = Number(raw.escrow_amount || 0);
-                    const platformFeeAmount =
-                      orderSellingPrice - voucherFromSeller - escrowAmount;
-
-                    await this.platformFeeRepository.upsert(
-                      {
-                        brand: fee.brand,
-                        erpOrderCode: fee.erpOrderCode,
-                        pancakeOrderId: fee.pancakeOrderId,
-                        amount: platformFeeAmount,
-                        formulaDescription: `(${orderSellingPrice} - ${voucherFromSeller}) - ${escrowAmount}`,
-                        orderFeeCreatedAt: feeCreatedAt,
-                        syncedAt: new Date(),
-                      },
-                      ['erpOrderCode', 'pancakeOrderId'],
-                    );
-                  }
-
-                  synced++;
-                }
-              } catch (e) {
-                // Ignore individual errors
-              }
+              await this.platformFeeRepository.upsert(
+                {
+                  brand: fee.brand,
+                  erpOrderCode: fee.erpOrderCode,
+                  pancakeOrderId: fee.pancakeOrderId,
+                  amount: platformFeeAmount,
+                  formulaDescription: `(${orderSellingPrice} - ${voucherFromSeller}) - ${escrowAmount}`,
+                  orderFeeCreatedAt: feeCreatedAt,
+                  syncedAt: new Date(),
+                },
+                ['erpOrderCode', 'pancakeOrderId'],
+              );
             }
+
+            synced++;
           }
-        } catch (error) {
-          this.logger.error(
-            `Failed to sync batch for brand ${brandConfig.name}`,
-            error,
-          );
-          failed += batch.length;
+        } catch (e) {
+          // Ignore individual errors
         }
-
-        this.logger.log(
-          `Processed batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(erpLogs.length / batchSize)} for ${brandConfig.name}`,
-        );
       }
-
-      return { synced, failed, total: erpLogs.length };
-    } catch (error) {
-      this.logger.error(`Sync failed for brand ${brandConfig.name}`, error);
-      throw error;
     }
+
+    return synced;
   }
 
   /**
@@ -502,30 +786,48 @@ export class MultiDbService {
   private async checkTikTokSource(
     brandConfig: any,
     pancakeOrderIds: string[],
+  ): Promise<Set<string>> {
+    return this.checkOrderSource(brandConfig, pancakeOrderIds, 'Tiktok');
+  }
+
+  /**
+   * Helper: Check if orders are Lazada source
+   */
+  private async checkLazadaSource(
+    brandConfig: any,
+    pancakeOrderIds: string[],
+  ): Promise<Set<string>> {
+    return this.checkOrderSource(brandConfig, pancakeOrderIds, 'Lazada');
+  }
+
+  private async checkOrderSource(
+    brandConfig: any,
+    pancakeOrderIds: string[],
+    sourceName: string,
   ): Promise<Set<string>> {
     if (!brandConfig.tableOrders) return new Set();
 
     try {
-      const tiktokOrders = await this.secondaryDataSource.query(
+      const orders = await this.secondaryDataSource.query(
         `
         SELECT "pancakeOrderId"
         FROM ${brandConfig.tableOrders}
         WHERE "pancakeOrderId" = ANY($1)
-        AND "orderSourceName" = 'Tiktok'
+        AND "orderSourceName" = $2
         `,
-        [pancakeOrderIds],
+        [pancakeOrderIds, sourceName],
       );
-      return new Set(tiktokOrders.map((o) => o.pancakeOrderId));
+      return new Set(orders.map((o) => o.pancakeOrderId));
     } catch (error) {
       this.logger.error(
-        `Failed to check TikTok source for ${brandConfig.name}`,
+        `Failed to check ${sourceName} source for ${brandConfig.name}`,
         error,
       );
       return new Set();
     }
   }
 
-  private async getTikTokDetails(brandConfig: any, pancakeOrderIds: string[]) {
+  private async getOrderDetails(brandConfig: any, pancakeOrderIds: string[]) {
     if (!pancakeOrderIds.length) return [];
 
     try {
@@ -540,7 +842,147 @@ export class MultiDbService {
       return details;
     } catch (error) {
       this.logger.error(
-        `Failed to get TikTok details for ${brandConfig.name}`,
+        `Failed to get order details for ${brandConfig.name}`,
+        error,
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Lazada: lấy chi tiết đơn + các dòng phí (finance transaction) rồi lưu order_fee và lazada_fee
+   * Trả về số đơn đã sync
+   */
+  private async syncLazadaOrders(
+    brandConfig: any,
+    logs: Array<{ erpOrderCode: string; pancakeOrderId: string }>,
+  ): Promise<number> {
+    const pancakeOrderIds = logs.map((l) => l.pancakeOrderId);
+    const details = await this.getOrderDetails(brandConfig, pancakeOrderIds);
+    const feeRows = await this.getLazadaFeeRows(brandConfig, pancakeOrderIds);
+    this.logger.log(
+      `Found details for ${details.length} Lazada orders, ${feeRows.length} fee rows.`,
+    );
+
+    let synced = 0;
+    for (const log of logs) {
+      const detail = details.find((d) => d.order_sn === log.pancakeOrderId);
+      const fees = feeRows.filter((f) => f.order_sn === log.pancakeOrderId);
+      if (!detail && fees.length === 0) {
+        continue;
+      }
+
+      const orderData = detail?.order_data || {};
+      const createdAt = orderData.created_at || orderData.createdAt;
+      const parsedDate = createdAt ? new Date(createdAt) : null;
+      const orderDate =
+        parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate : new Date();
+      const { feeLines, ...summary } = this.buildLazadaFeeData(fees);
+      const rawData: any = {
+        order_data: orderData,
+        fees: fees.map((f) => f.raw_data ?? f),
+        summary,
+      };
+
+      try {
+        // 1. Save to OrderFee (Legacy)
+        await this.orderFeeRepository.upsert(
+          {
+            feeId: `${log.erpOrderCode}_LAZADA`,
+            brand: brandConfig.name,
+            erpOrderCode: log.erpOrderCode,
+            platform: 'lazada',
+            orderSn: log.pancakeOrderId,
+            rawData,
+            orderCreatedAt: orderDate,
+            syncedAt: new Date(),
+          },
+          ['feeId'],
+        );
+
+        // 2. Save to LazadaFee (structured table)
+        await this.lazadaFeeRepository.upsert(
+          {
+            brand: brandConfig.name,
+            erpOrderCode: log.erpOrderCode,
+            orderSn: log.pancakeOrderId,
+            platform: 'lazada',
+            orderStatus:
+              orderData.statuses?.[0] || orderData.status || undefined,
+            currency: orderData.currency || 'VND',
+            ...summary,
+            feeLines,
+            orderCreatedAt: orderDate,
+            syncedAt: new Date(),
+          },
+          ['erpOrderCode', 'orderSn'],
+        );
+        synced++;
+      } catch (err) {
+        this.logger.error(
+          `Failed to upsert LazadaFee for ${log.erpOrderCode}: ${err.message}`,
+        );
+      }
+    }
+    return synced;
+  }
+
+  /**
+   * Gom các dòng phí Lazada vào cột tổng hợp
+   * Lazada trả phí dạng số âm (trừ vào doanh thu), lưu dương giống shopee_fee; dòng dương (doanh thu, hoàn phí) bỏ qua
+   */
+  private buildLazadaFeeData(feeRows: any[]) {
+    const totals = {
+      commissionFee: 0,
+      paymentFee: 0,
+      shippingFee: 0,
+      affiliateFee: 0,
+      otherFee: 0,
+    };
+    const feeLines: LazadaFeeLine[] = [];
+
+    for (const row of feeRows) {
+      const raw = row.raw_data || {};
+      const feeName = String(
+        raw.fee_name || raw.transaction_type || row.fee_type || '',
+      ).trim();
+      const amount = Number(raw.amount ?? row.amount ?? 0);
+      if (!feeName || !(amount < 0)) {
+        continue;
+      }
+
+      const lower = feeName.toLowerCase();
+      const field = (LAZADA_FEE_FIELDS.find((item) =>
+        item.keywords.some((keyword) => lower.includes(keyword)),
+      )?.field || 'otherFee') as keyof typeof totals;
+      totals[field] += Math.abs(amount);
+      feeLines.push({ feeName, amount: Math.abs(amount), field });
+    }
+
+    return {
+      ...totals,
+      totalFee: Object.values(totals).reduce((sum, value) => sum + value, 0),
+      feeLines,
+    };
+  }
+
+  private async getLazadaFeeRows(brandConfig: any, pancakeOrderIds: string[]) {
+    if (!pancakeOrderIds.length) return [];
+
+    try {
+      return await this.thirdDataSource.query(
+        `
+        SELECT o."order_sn", f.*
+        FROM ${brandConfig.tableDetail} o
+        JOIN ${brandConfig.tableFee} f
+          ON f.${brandConfig.detailIdColumn} = o.id
+        WHERE o."order_sn" = ANY($1)
+        `,
+        [pancakeOrderIds],
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to get Lazada fees for ${brandConfig.name}`,
         error,
       );
       return [];
@@ -553,9 +995,10 @@ export class MultiDbService {
   async syncOrderFeeByCode(erpCode: string, brandName?: string) {
     try {
       let fees: any[] = [];
+      const brandConfigs = await this.getBrandConfigs();
 
       if (brandName) {
-        const brandConfig = this.brands.find(
+        const brandConfig = brandConfigs.find(
           (b) => b.name.toLowerCase() === brandName.toLowerCase(),
         );
         if (!brandConfig) {
@@ -570,9 +1013,10 @@ export class MultiDbService {
         return { success: false, message: 'No fees found for this order' };
       }
 
+      const syncedLazadaOrders = new Set<string>();
       for (const fee of fees) {
         // Find brand config for this fee
-        const brandConfig = this.brands.find(
+        const brandConfig = brandConfigs.find(
           (b) => b.name.toLowerCase() === fee.brand.toLowerCase(),
         );
 
@@ -580,10 +1024,24 @@ export class MultiDbService {
           const tiktokIds = await this.checkTikTokSource(brandConfig, [
             fee.pancakeOrderId,
           ]);
-
-          if (tiktokIds.has(fee.pancakeOrderId)) {
+          const lazadaIds = tiktokIds.has(fee.pancakeOrderId)
+            ? new Set<string>()
+            : await this.checkLazadaSource(brandConfig, [fee.pancakeOrderId]);
+
+          if (lazadaIds.has(fee.pancakeOrderId)) {
+            // --- Lazada Order Manual Sync (1 lần / đơn, các dòng phí được gom chung) ---
+            if (!syncedLazadaOrders.has(fee.pancakeOrderId)) {
+              syncedLazadaOrders.add(fee.pancakeOrderId);
+              await this.syncLazadaOrders(brandConfig, [
+                {
+                  erpOrderCode: fee.erpOrderCode,
+                  pancakeOrderId: fee.pancakeOrderId,
+                },
+              ]);
+            }
+          } else if (tiktokIds.has(fee.pancakeOrderId)) {
             // --- TikTok Order Manual Sync ---
-            const details = await this.getTikTokDetails(brandConfig, [
+            const details = await this.getOrderDetails(brandConfig, [
               fee.pancakeOrderId,
             ]);
             const detail = details.find(
@@ -637,6 +1095,18 @@ export class MultiDbService {
                 shippingFeePlatformDiscount: Number(
                   detail.order_data?.payment?.shippingFeePlatformDiscount || 0,
                 ),
+                tiktokCommission: Number(
+                  detail.order_data?.payment?.tiktokCommission || 0,
+                ),
+                transactionFee: Number(
+                  detail.order_data?.payment?.transactionFee || 0,
+                ),
+                sfpServiceFee: Number(
+                  detail.order_data?.payment?.sfpServiceFee || 0,
+                ),
+                affiliateCommission: Number(
+                  detail.order_data?.payment?.affiliateCommission || 0,
+                ),
               };
 
               // 1. Save to OrderFee (Legacy)
@@ -698,6 +1168,7 @@ export class MultiDbService {
                   commissionFee: Number(details.commission_fee || 0),
                   serviceFee: Number(details.service_fee || 0),
                   paymentFee: Number(details.credit_card_transaction_fee || 0),
+                  affiliateFee: Number(details.order_ams_commission_fee || 0),
                   orderCreatedAt: feeCreatedAt,
                   syncedAt: new Date(),
                 },
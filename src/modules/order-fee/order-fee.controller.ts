@@ -113,6 +113,19 @@ export class OrderFeeController {
         };
       }
 
+      if (item.platform === 'lazada') {
+        const summary = raw.summary || {};
+        return {
+          ...result,
+          orderCode: item.orderSn,
+          orderCreatedAt: item.orderCreatedAt,
+          voucherShop: 0,
+          commissionFee: summary.commissionFee || 0,
+          serviceFee: summary.otherFee || 0,
+          paymentFee: summary.paymentFee || 0,
+        };
+      }
+
       // Shopee (Default)
       return {
         ...result,
@@ -183,4 +196,28 @@ export class OrderFeeController {
       },
     };
   }
+
+  /**
+   * GET /order-fees/lazada
+   */
+  @Get('lazada')
+  async findLazadaFees(
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 10,
+    @Query('brand') brand?: string,
+    @Query('search') search?: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ) {
+    const result = await this.orderFeeService.findLazadaFees(page, limit, brand, search, startDate, endDate);
+    return {
+      data: result.data,
+      meta: {
+        total: result.total,
+        page: result.page,
+        limit: result.limit,
+        totalPages: result.totalPages,
+      },
+    };
+  }
 }
@@ -3,6 +3,7 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { OrderFee } from '../../entities/order-fee.entity';
 import { ShopeeFee } from '../../entities/shopee-fee.entity';
 import { TikTokFee } from '../../entities/tiktok-fee.entity';
+import { LazadaFee } from '../../entities/lazada-fee.entity';
 import { OrderFeeController } from './order-fee.controller';
 import { OrderFeeService } from './order-fee.service';
 
@@ -11,7 +12,7 @@ import { PlatformFeeImportTiktok } from '../../entities/platform-fee-import-tikt
 import { Sale } from '../../entities/sale.entity';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([OrderFee, ShopeeFee, TikTokFee, PlatformFeeImportShopee, PlatformFeeImportTiktok, Sale])],
+  imports: [TypeOrmModule.forFeature([OrderFee, ShopeeFee, TikTokFee, LazadaFee, PlatformFeeImportShopee, PlatformFeeImportTiktok, Sale])],
   controllers: [OrderFeeController],
   providers: [OrderFeeService],
   exports: [OrderFeeService],
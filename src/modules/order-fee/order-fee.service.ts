@@ -4,6 +4,7 @@ import { Repository, Between, ILike, In } from 'typeorm';
 import { OrderFee } from '../../entities/order-fee.entity';
 import { ShopeeFee } from '../../entities/shopee-fee.entity';
 import { TikTokFee } from '../../entities/tiktok-fee.entity';
+import { LazadaFee } from '../../entities/lazada-fee.entity';
 import { PlatformFeeImportShopee } from '../../entities/platform-fee-import-shopee.entity';
 import { PlatformFeeImportTiktok } from '../../entities/platform-fee-import-tiktok.entity';
 import { Sale } from '../../entities/sale.entity';
@@ -20,6 +21,9 @@ export class OrderFeeService {
     @InjectRepository(TikTokFee)
     private tiktokFeeRepository: Repository<TikTokFee>,
 
+    @InjectRepository(LazadaFee)
+    private lazadaFeeRepository: Repository<LazadaFee>,
+
     @InjectRepository(PlatformFeeImportShopee)
     private platformFeeImportShopeeRepo: Repository<PlatformFeeImportShopee>,
 
@@ -202,4 +206,78 @@ export class OrderFeeService {
       totalPages: Math.ceil(total / limit),
     };
   }
+
+  async findLazadaFees(
+    page: number = 1,
+    limit: number = 10,
+    brand?: string,
+    search?: string,
+    startDate?: string,
+    endDate?: string,
+  ) {
+    const skip = (page - 1) * limit;
+    const baseWhere: any = {};
+
+    if (brand) baseWhere.brand = brand;
+
+    if (startDate && endDate) {
+      const start = new Date(startDate);
+      start.setHours(0, 0, 0, 0);
+      const end = new Date(endDate);
+      end.setHours(23, 59, 59, 999);
+      baseWhere.orderCreatedAt = Between(start, end);
+    }
+
+    let where: any = baseWhere;
+    if (search) {
+      where = [
+        { ...baseWhere, erpOrderCode: ILike(`%${search}%`) },
+        { ...baseWhere, orderSn: ILike(`%${search}%`) },
+      ];
+    }
+
+    const [data, total] = await this.lazadaFeeRepository.findAndCount({
+      where,
+      skip,
+      take: limit,
+      order: { orderCreatedAt: 'DESC' },
+    });
+
+    // Invoice Date from Sales (giống Shopee)
+    const erpOrderCodes = data.map((i) => i.erpOrderCode).filter(Boolean);
+    const salesMap = new Map<string, Date>();
+    if (erpOrderCodes.length > 0) {
+      const sales = await this.saleRepository
+        .createQueryBuilder('sales')
+        .select(['sales.docCode', 'sales.docDate'])
+        .where('sales.docCode IN (:...code)', { code: erpOrderCodes })
+        .distinctOn(['sales.docCode'])
+        .getMany();
+
+      sales.forEach((s) => {
+        if (s.docCode && s.docDate) {
+          salesMap.set(s.docCode, s.docDate);
+        }
+      });
+    }
+
+    const finalData = data.map((fee) => ({
+      ...fee,
+      commissionFee: Number(fee.commissionFee),
+      paymentFee: Number(fee.paymentFee),
+      shippingFee: Number(fee.shippingFee),
+      affiliateFee: Number(fee.affiliateFee),
+      otherFee: Number(fee.otherFee),
+      totalFee: Number(fee.totalFee),
+      invoiceDate: salesMap.get(fee.erpOrderCode) || null,
+    }));
+
+    return {
+      data: finalData,
+      total,
+      page: Number(page),
+      limit: Number(limit),
+      totalPages: Math.ceil(total / limit),
+    };
+  }
 }
@@ -0,0 +1,58 @@
+/**
+ * Luồng xử lý tạo hóa đơn theo loại đơn
+ */
+export const ORDER_TYPE_FLOWS = {
+  NORMAL: 'normal', // salesOrder + salesInvoice
+  SPECIAL: 'special', // Đổi điểm, Tặng sinh nhật, Đầu tư, Đổi vỏ...
+  TACH_THE: 'tach-the',
+  SERVICE: 'service',
+  RETURN: 'return',
+} as const;
+
+export type OrderTypeFlow =
+  (typeof ORDER_TYPE_FLOWS)[keyof typeof ORDER_TYPE_FLOWS];
+
+export const ALL_ORDER_TYPE_FLOWS = Object.values(ORDER_TYPE_FLOWS);
+
+/**
+ * Danh sách mặc định, chỉ dùng để khởi tạo bảng order_types khi còn trống
+ */
+export const DEFAULT_ORDER_TYPES: Array<{
+  code: string;
+  aliases?: string[];
+  flowHandler: OrderTypeFlow;
+  sortOrder: number;
+}> = [
+  { code: '03. Đổi điểm', flowHandler: 'special', sortOrder: 10 },
+  { code: '04. Đổi DV', flowHandler: 'normal', sortOrder: 20 },
+  { code: '05. Tặng sinh nhật', flowHandler: 'special', sortOrder: 30 },
+  { code: '06. Đầu tư', flowHandler: 'special', sortOrder: 40 },
+  { code: '08. Tách thẻ', flowHandler: 'tach-the', sortOrder: 50 },
+  { code: 'Đổi vỏ', flowHandler: 'special', sortOrder: 60 },
+  { code: '02. Làm dịch vụ', flowHandler: 'service', sortOrder: 70 },
+  { code: '01. Thường', flowHandler: 'normal', sortOrder: 100 },
+  { code: '07. Bán tài khoản', flowHandler: 'normal', sortOrder: 100 },
+  {
+    code: '09. Sàn TMDT',
+    aliases: ['9. Sàn TMDT'],
+    flowHandler: 'normal',
+    sortOrder: 100,
+  },
+  { code: 'TT phí keep', flowHandler: 'normal', sortOrder: 100 },
+  { code: 'Xuất hàng KM cho đại lý', flowHandler: 'normal', sortOrder: 100 },
+  { code: 'Đổi thẻ KEEP->Thẻ DV', flowHandler: 'normal', sortOrder: 100 },
+];
+
+/**
+ * Chuẩn hóa tên loại đơn để so khớp:
+ * "02.  Làm dịch vụ", "02.Làm dịch vụ", "02. làm dịch vụ" -> "02.làm dịch vụ"
+ */
+export function normalizeOrderTypeKey(
+  value: string | null | undefined,
+): string {
+  return String(value || '')
+    .trim()
+    .replace(/\s+/g, ' ')
+    .replace(/^(\d+\.)\s*/, '$1')
+    .toLowerCase();
+}
@@ -0,0 +1,39 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { ALL_ORDER_TYPE_FLOWS } from '../constants/order-type.constants';
+import type { OrderTypeFlow } from '../constants/order-type.constants';
+
+export class CreateOrderTypeDto {
+  @IsString()
+  code: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  aliases?: string[];
+
+  @IsIn(ALL_ORDER_TYPE_FLOWS)
+  flowHandler: OrderTypeFlow;
+
+  @IsBoolean()
+  @IsOptional()
+  invoiceAllowed?: boolean;
+
+  @IsInt()
+  @IsOptional()
+  sortOrder?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+
+  @IsString()
+  @IsOptional()
+  note?: string;
+}
@@ -0,0 +1,218 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { OrderType } from '../../entities/order-type.entity';
+import {
+  DEFAULT_ORDER_TYPES,
+  OrderTypeFlow,
+  normalizeOrderTypeKey,
+} from './constants/order-type.constants';
+import { CreateOrderTypeDto } from './dto/create-order-type.dto';
+import { UpdateOrderTypeDto } from './dto/update-order-type.dto';
+import { TtlCache } from '../../utils/ttl-cache.utils';
+
+/**
+ * Registry loại đơn hàng (bảng order_types)
+ * Xác định luồng xử lý và quyền tạo hóa đơn theo ordertypeName của Zappy
+ */
+@Injectable()
+export class OrderTypeRegistryService implements OnModuleInit {
+  private readonly logger = new Logger(OrderTypeRegistryService.name);
+  private readonly cache = new TtlCache<OrderType[]>(() =>
+    this.orderTypeRepository.find({
+      where: { isActive: true },
+      order: { sortOrder: 'ASC', code: 'ASC' },
+    }),
+  );
+
+  constructor(
+    @InjectRepository(OrderType)
+    private orderTypeRepository: Repository<OrderType>,
+  ) {}
+
+  async onModuleInit() {
+    const count = await this.orderTypeRepository.count();
+    if (count > 0) {
+      return;
+    }
+
+    await this.orderTypeRepository.save(
+      DEFAULT_ORDER_TYPES.map((item) =>
+        this.orderTypeRepository.create({
+          ...item,
+          aliases: item.aliases || [],
+        }),
+      ),
+    );
+    this.logger.log(
+      `Đã khởi tạo ${DEFAULT_ORDER_TYPES.length} loại đơn hàng mặc định`,
+    );
+  }
+
+  /**
+   * Tìm loại đơn khớp với ordertypeName
+   * Ưu tiên khớp chính xác (bỏ qua khoảng trắng, hoa thường), sau đó tới tên chứa code/alias theo sortOrder
+   */
+  async resolve(
+    ordertypeName: string | null | undefined,
+  ): Promise<OrderType | null> {
+    const key = normalizeOrderTypeKey(ordertypeName);
+    if (!key) {
+      return null;
+    }
+
+    const definitions = await this.getActiveDefinitions();
+    const names = (definition: OrderType) =>
+      [definition.code, ...(definition.aliases || [])].map(
+        normalizeOrderTypeKey,
+      );
+
+    return (
+      definitions.find((definition) => names(definition).includes(key)) ||
+      definitions.find((definition) =>
+        names(definition).some((name) => name && key.includes(name)),
+      ) ||
+      null
+    );
+  }
+
+  /**
+   * ordertypeName có thuộc luồng xử lý flow không (vd. tách thẻ)
+   */
+  async isFlow(
+    ordertypeName: string | null | undefined,
+    flow: OrderTypeFlow,
+  ): Promise<boolean> {
+    const definition = await this.resolve(ordertypeName);
+    return definition?.flowHandler === flow;
+  }
+
+  /**
+   * Lọc các dòng sale có loại đơn (ordertypeName, fallback ordertype) thuộc luồng flow
+   */
+  async filterSalesByFlow<T extends Record<string, any>>(
+    sales: T[],
+    flow: OrderTypeFlow,
+  ): Promise<T[]> {
+    const matches = await Promise.all(
+      sales.map((sale) =>
+        this.isFlow(sale.ordertypeName || sale.ordertype, flow),
+      ),
+    );
+    return sales.filter((_sale, index) => matches[index]);
+  }
+
+  async hasSaleInFlow(
+    sales: Record<string, any>[],
+    flow: OrderTypeFlow,
+  ): Promise<boolean> {
+    return (await this.filterSalesByFlow(sales, flow)).length > 0;
+  }
+
+  /**
+   * Danh sách tên loại đơn được phép tạo hóa đơn (dùng cho message lỗi)
+   */
+  async getInvoiceAllowedCodes(): Promise<string[]> {
+    const definitions = await this.getActiveDefinitions();
+    return definitions
+      .filter((definition) => definition.invoiceAllowed)
+      .map((definition) => definition.code);
+  }
+
+  async findAll() {
+    return this.orderTypeRepository.find({
+      order: { sortOrder: 'ASC', code: 'ASC' },
+    });
+  }
+
+  async findOne(id: string) {
+    const orderType = await this.orderTypeRepository.findOne({
+      where: { id },
+    });
+    if (!orderType) {
+      throw new NotFoundException(`Order type ${id} not found`);
+    }
+    return orderType;
+  }
+
+  async create(createDto: CreateOrderTypeDto) {
+    await this.ensureCodeAvailable(createDto.code);
+    const saved = await this.orderTypeRepository.save(
+      this.orderTypeRepository.create({
+        ...createDto,
+        code: createDto.code.trim(),
+        aliases: this.cleanAliases(createDto.aliases),
+      }),
+    );
+    this.invalidateCache();
+    return saved;
+  }
+
+  async update(id: string, updateDto: UpdateOrderTypeDto) {
+    const orderType = await this.findOne(id);
+    if (updateDto.code !== undefined) {
+      await this.ensureCodeAvailable(updateDto.code, id);
+    }
+
+    Object.assign(orderType, {
+      ...updateDto,
+      ...(updateDto.code !== undefined && { code: updateDto.code.trim() }),
+      ...(updateDto.aliases !== undefined && {
+        aliases: this.cleanAliases(updateDto.aliases),
+      }),
+    });
+    const saved = await this.orderTypeRepository.save(orderType);
+    this.invalidateCache();
+    return saved;
+  }
+
+  async remove(id: string) {
+    const orderType = await this.findOne(id);
+    await this.orderTypeRepository.remove(orderType);
+    this.invalidateCache();
+    return { success: true, message: `Đã xoá loại đơn ${orderType.code}` };
+  }
+
+  private getActiveDefinitions(): Promise<OrderType[]> {
+    return this.cache.get();
+  }
+
+  private invalidateCache() {
+    this.cache.invalidate();
+  }
+
+  /**
+   * Code / alias không được trùng (sau chuẩn hóa khoảng trắng) với loại đơn khác
+   */
+  private async ensureCodeAvailable(code: string, excludeId?: string) {
+    const key = normalizeOrderTypeKey(code);
+    if (!key) {
+      throw new BadRequestException('code không được để trống');
+    }
+    const existing = await this.orderTypeRepository.find();
+    const conflict = existing.find(
+      (item) =>
+        item.id !== excludeId &&
+        [item.code, ...(item.aliases || [])]
+          .map(normalizeOrderTypeKey)
+          .includes(key),
+    );
+    if (conflict) {
+      throw new BadRequestException(
+        `Loại đơn "${code}" đã tồn tại (${conflict.code})`,
+      );
+    }
+  }
+
+  private cleanAliases(aliases?: string[]): string[] {
+    return [
+      ...new Set((aliases || []).map((alias) => alias.trim()).filter(Boolean)),
+    ];
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+} from '@nestjs/common';
+import { OrderTypeRegistryService } from './order-type-registry.service';
+import { CreateOrderTypeDto } from './dto/create-order-type.dto';
+import { UpdateOrderTypeDto } from './dto/update-order-type.dto';
+import { Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
+
+@Controller('order-types')
+export class OrderTypesController {
+  constructor(
+    private readonly orderTypeRegistryService: OrderTypeRegistryService,
+  ) {}
+
+  @Get()
+  async findAll() {
+    return this.orderTypeRegistryService.findAll();
+  }
+
+  /**
+   * GET /order-types/resolve?name=...
+   * Kiểm tra một ordertypeName sẽ khớp loại đơn nào
+   */
+  @Get('resolve')
+  async resolve(@Query('name') name: string) {
+    return {
+      name,
+      orderType: await this.orderTypeRegistryService.resolve(name),
+    };
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.orderTypeRegistryService.findOne(id);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Post()
+  async create(@Body() createDto: CreateOrderTypeDto) {
+    return this.orderTypeRegistryService.create(createDto);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Patch(':id')
+  async update(@Param('id') id: string, @Body() updateDto: UpdateOrderTypeDto) {
+    return this.orderTypeRegistryService.update(id, updateDto);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Delete(':id')
+  async remove(@Param('id') id: string) {
+    return this.orderTypeRegistryService.remove(id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OrderType } from '../../entities/order-type.entity';
+import { OrderTypesController } from './order-types.controller';
+import { OrderTypeRegistryService } from './order-type-registry.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([OrderType])],
+  controllers: [OrderTypesController],
+  providers: [OrderTypeRegistryService],
+  exports: [OrderTypeRegistryService],
+})
+export class OrderTypesModule {}
@@ -0,0 +1,62 @@
+export const PAYMENT_PARTNER_MATCH_FIELDS = {
+  PARTNER_CODE: 'partner_code', // Mã đối tác của phương thức thanh toán (PaymentMethod.maDoiTac)
+  FOP_SYSCODE: 'fop_syscode', // Mã hình thức thanh toán trên cashio
+} as const;
+
+export type PaymentPartnerMatchField =
+  (typeof PAYMENT_PARTNER_MATCH_FIELDS)[keyof typeof PAYMENT_PARTNER_MATCH_FIELDS];
+
+export const ALL_PAYMENT_PARTNER_MATCH_FIELDS = Object.values(
+  PAYMENT_PARTNER_MATCH_FIELDS,
+);
+
+export const PAYMENT_PARTNER_MATCH_TYPES = {
+  EXACT: 'EXACT',
+  PREFIX: 'PREFIX',
+  CONTAINS: 'CONTAINS',
+  REGEX: 'REGEX',
+} as const;
+
+export type PaymentPartnerMatchType =
+  (typeof PAYMENT_PARTNER_MATCH_TYPES)[keyof typeof PAYMENT_PARTNER_MATCH_TYPES];
+
+export const ALL_PAYMENT_PARTNER_MATCH_TYPES = Object.values(
+  PAYMENT_PARTNER_MATCH_TYPES,
+);
+
+export interface PaymentPartnerDefinition {
+  name: string;
+  matchField: PaymentPartnerMatchField;
+  matchType: PaymentPartnerMatchType;
+  pattern: string;
+  supplierCode: string;
+  sortOrder: number;
+}
+
+/**
+ * Danh sách mặc định, dùng để khởi tạo bảng payment_partners khi còn trống
+ */
+export const DEFAULT_PAYMENT_PARTNERS: PaymentPartnerDefinition[] = [
+  {
+    name: 'VNPAY',
+    matchField: PAYMENT_PARTNER_MATCH_FIELDS.PARTNER_CODE,
+    matchType: PAYMENT_PARTNER_MATCH_TYPES.EXACT,
+    pattern: 'VNPAY',
+    supplierCode: 'NCC0618',
+    sortOrder: 10,
+  },
+  {
+    name: 'PAYOO',
+    matchField: PAYMENT_PARTNER_MATCH_FIELDS.PARTNER_CODE,
+    matchType: PAYMENT_PARTNER_MATCH_TYPES.EXACT,
+    pattern: 'PAYOO',
+    supplierCode: 'NCC0559',
+    sortOrder: 20,
+  },
+];
+
+export function normalizePaymentPartnerKey(
+  value: string | null | undefined,
+): string {
+  return (value || '').trim().toUpperCase();
+}
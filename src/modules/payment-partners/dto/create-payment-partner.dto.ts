@@ -0,0 +1,58 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import {
+  ALL_PAYMENT_PARTNER_MATCH_FIELDS,
+  ALL_PAYMENT_PARTNER_MATCH_TYPES,
+} from '../constants/payment-partner.constants';
+import type {
+  PaymentPartnerMatchField,
+  PaymentPartnerMatchType,
+} from '../constants/payment-partner.constants';
+
+export class CreatePaymentPartnerDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsIn(ALL_PAYMENT_PARTNER_MATCH_FIELDS)
+  @IsOptional()
+  matchField?: PaymentPartnerMatchField;
+
+  @IsIn(ALL_PAYMENT_PARTNER_MATCH_TYPES)
+  @IsOptional()
+  matchType?: PaymentPartnerMatchType;
+
+  @IsString()
+  @IsNotEmpty()
+  pattern: string;
+
+  @IsString()
+  @IsNotEmpty()
+  supplierCode: string;
+
+  @IsString()
+  @IsOptional()
+  brand?: string | null;
+
+  @IsString()
+  @IsOptional()
+  maDvcs?: string | null;
+
+  @IsInt()
+  @IsOptional()
+  sortOrder?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+
+  @IsString()
+  @IsOptional()
+  note?: string | null;
+}
@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreatePaymentPartnerDto } from './create-payment-partner.dto';
+
+export class UpdatePaymentPartnerDto extends PartialType(
+  CreatePaymentPartnerDto,
+) {}
@@ -0,0 +1,426 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as XLSX from 'xlsx';
+import { PaymentPartner } from '../../entities/payment-partner.entity';
+import {
+  ALL_PAYMENT_PARTNER_MATCH_FIELDS,
+  ALL_PAYMENT_PARTNER_MATCH_TYPES,
+  DEFAULT_PAYMENT_PARTNERS,
+  PAYMENT_PARTNER_MATCH_FIELDS,
+  PAYMENT_PARTNER_MATCH_TYPES,
+  normalizePaymentPartnerKey,
+} from './constants/payment-partner.constants';
+import { CreatePaymentPartnerDto } from './dto/create-payment-partner.dto';
+import { UpdatePaymentPartnerDto } from './dto/update-payment-partner.dto';
+import { TtlCache } from '../../utils/ttl-cache.utils';
+
+// Khi cùng mức cụ thể và cùng sortOrder: khớp chính xác thắng khớp theo mẫu
+const MATCH_TYPE_RANK: Record<string, number> = {
+  [PAYMENT_PARTNER_MATCH_TYPES.EXACT]: 0,
+  [PAYMENT_PARTNER_MATCH_TYPES.PREFIX]: 1,
+  [PAYMENT_PARTNER_MATCH_TYPES.CONTAINS]: 2,
+  [PAYMENT_PARTNER_MATCH_TYPES.REGEX]: 3,
+};
+
+interface PaymentPartnerRuleInput {
+  name: string;
+  pattern: string;
+  supplierCode: string;
+  matchField?: string;
+  matchType?: string;
+  brand?: string | null;
+  maDvcs?: string | null;
+}
+
+export interface PaymentPartnerResolveInput {
+  partnerCode?: string | null;
+  fopSyscode?: string | null;
+  brand?: string | null;
+  maDvcs?: string | null;
+}
+
+/**
+ * Registry đối tác thanh toán (bảng payment_partners)
+ * Xác định mã NCC (ma_kh2) gửi sang Fast khi tạo phiếu thu/chi từ cashio
+ */
+@Injectable()
+export class PaymentPartnerRegistryService implements OnModuleInit {
+  private readonly logger = new Logger(PaymentPartnerRegistryService.name);
+  private readonly cache = new TtlCache<PaymentPartner[]>(() =>
+    this.paymentPartnerRepository.find({
+      where: { isActive: true },
+      order: { sortOrder: 'ASC', name: 'ASC' },
+    }),
+  );
+
+  constructor(
+    @InjectRepository(PaymentPartner)
+    private paymentPartnerRepository: Repository<PaymentPartner>,
+  ) {}
+
+  async onModuleInit() {
+    const count = await this.paymentPartnerRepository.count();
+    if (count > 0) {
+      return;
+    }
+
+    await this.paymentPartnerRepository.save(
+      DEFAULT_PAYMENT_PARTNERS.map((item) =>
+        this.paymentPartnerRepository.create(item),
+      ),
+    );
+    this.logger.log(
+      `Đã khởi tạo ${DEFAULT_PAYMENT_PARTNERS.length} đối tác thanh toán mặc định`,
+    );
+  }
+
+  /**
+   * Tìm dòng cấu hình khớp với mã đối tác / fop_syscode
+   * Ưu tiên dòng riêng theo brand + ma_dvcs, rồi ma_dvcs, rồi brand, cuối cùng là dòng dùng chung;
+   * cùng mức thì theo sortOrder, rồi EXACT > PREFIX > CONTAINS > REGEX
+   */
+  async resolve(
+    input: PaymentPartnerResolveInput,
+  ): Promise<PaymentPartner | null> {
+    const values: Record<string, string> = {
+      [PAYMENT_PARTNER_MATCH_FIELDS.PARTNER_CODE]: normalizePaymentPartnerKey(
+        input.partnerCode,
+      ),
+      [PAYMENT_PARTNER_MATCH_FIELDS.FOP_SYSCODE]: normalizePaymentPartnerKey(
+        input.fopSyscode,
+      ),
+    };
+    const brand = normalizePaymentPartnerKey(input.brand);
+    const maDvcs = normalizePaymentPartnerKey(input.maDvcs);
+
+    const definitions = await this.getActiveDefinitions();
+    const candidates = definitions.filter((definition) => {
+      if (
+        definition.brand &&
+        normalizePaymentPartnerKey(definition.brand) !== brand
+      ) {
+        return false;
+      }
+      if (
+        definition.maDvcs &&
+        normalizePaymentPartnerKey(definition.maDvcs) !== maDvcs
+      ) {
+        return false;
+      }
+      return this.matches(definition, values[definition.matchField]);
+    });
+
+    const specificity = (definition: PaymentPartner) =>
+      (definition.maDvcs ? 2 : 0) + (definition.brand ? 1 : 0);
+
+    candidates.sort(
+      (a, b) =>
+        specificity(b) - specificity(a) ||
+        a.sortOrder - b.sortOrder ||
+        (MATCH_TYPE_RANK[a.matchType] ?? 99) -
+          (MATCH_TYPE_RANK[b.matchType] ?? 99),
+    );
+    return candidates[0] || null;
+  }
+
+  /**
+   * Mã NCC cho paymentMethod; không có cấu hình khớp thì giữ nguyên mã đối tác (hành vi cũ)
+   */
+  async resolveSupplierCode(
+    input: PaymentPartnerResolveInput,
+  ): Promise<string | null> {
+    const partner = await this.resolve(input);
+    if (partner) {
+      return partner.supplierCode;
+    }
+    return input.partnerCode?.trim() || null;
+  }
+
+  async findAll() {
+    return this.paymentPartnerRepository.find({
+      order: { sortOrder: 'ASC', name: 'ASC' },
+    });
+  }
+
+  async findOne(id: string) {
+    const partner = await this.paymentPartnerRepository.findOne({
+      where: { id },
+    });
+    if (!partner) {
+      throw new NotFoundException(`Payment partner ${id} not found`);
+    }
+    return partner;
+  }
+
+  async create(createDto: CreatePaymentPartnerDto) {
+    const data = this.cleanInput(createDto);
+    this.validatePattern(data.matchType, data.pattern);
+    await this.ensureRuleAvailable(data);
+    const saved = await this.paymentPartnerRepository.save(
+      this.paymentPartnerRepository.create(data),
+    );
+    this.invalidateCache();
+    return saved;
+  }
+
+  async update(id: string, updateDto: UpdatePaymentPartnerDto) {
+    const partner = await this.findOne(id);
+    Object.assign(partner, this.cleanInput({ ...partner, ...updateDto }));
+    this.validatePattern(partner.matchType, partner.pattern);
+    await this.ensureRuleAvailable(partner, id);
+    const saved = await this.paymentPartnerRepository.save(partner);
+    this.invalidateCache();
+    return saved;
+  }
+
+  async remove(id: string) {
+    const partner = await this.findOne(id);
+    await this.paymentPartnerRepository.remove(partner);
+    this.invalidateCache();
+    return {
+      success: true,
+      message: `Đã xoá đối tác thanh toán ${partner.name}`,
+    };
+  }
+
+  /**
+   * Import cấu hình từ file Excel/CSV
+   * Dòng trùng (trường khớp, mẫu, brand, ma_dvcs) với dòng đã có sẽ được cập nhật
+   */
+  async importFromExcel(file: Express.Multer.File): Promise<{
+    total: number;
+    success: number;
+    failed: number;
+    errors: Array<{ row: number; error: string }>;
+  }> {
+    const workbook = XLSX.read(file.buffer, { type: 'buffer' });
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    const data = XLSX.utils.sheet_to_json<Record<string, any>>(worksheet, {
+      raw: true,
+      defval: null,
+    });
+
+    const normalizeHeader = (header: string): string =>
+      String(header).trim().toLowerCase().replace(/\s+/g, ' ');
+
+    const fieldMappingVariants: Record<string, string[]> = {
+      name: ['tên', 'ten', 'tên đối tác', 'ten doi tac', 'name'],
+      matchField: ['trường khớp', 'truong khop', 'match field', 'matchfield'],
+      matchType: ['kiểu khớp', 'kieu khop', 'match type', 'matchtype'],
+      pattern: ['mẫu', 'mau', 'mã đối tác', 'ma doi tac', 'pattern'],
+      supplierCode: [
+        'mã ncc',
+        'ma ncc',
+        'mã nhà cung cấp',
+        'ma nha cung cap',
+        'supplier code',
+        'suppliercode',
+      ],
+      brand: ['brand', 'nhãn hàng', 'nhan hang'],
+      maDvcs: ['mã đvcs', 'ma dvcs', 'ma_dvcs', 'madvcs'],
+      sortOrder: ['thứ tự', 'thu tu', 'sort order', 'sortorder'],
+      isActive: ['hoạt động', 'hoat dong', 'active', 'isactive'],
+      note: ['ghi chú', 'ghi chu', 'note'],
+    };
+    const normalizedMapping: Record<string, string> = {};
+    Object.entries(fieldMappingVariants).forEach(([fieldName, variants]) => {
+      variants.forEach((variant) => {
+        normalizedMapping[normalizeHeader(variant)] = fieldName;
+      });
+    });
+
+    const errors: Array<{ row: number; error: string }> = [];
+    let success = 0;
+    let total = 0;
+
+    for (let index = 0; index < data.length; index++) {
+      const rowNumber = index + 2; // +1 cho header, +1 vì Excel bắt đầu từ 1
+      const row: Record<string, any> = {};
+      Object.entries(data[index]).forEach(([header, value]) => {
+        const fieldName = normalizedMapping[normalizeHeader(header)];
+        if (fieldName && value !== null && String(value).trim() !== '') {
+          row[fieldName] = typeof value === 'string' ? value.trim() : value;
+        }
+      });
+      if (Object.keys(row).length === 0) {
+        continue;
+      }
+      total++;
+
+      try {
+        if (!row.name || !row.pattern || !row.supplierCode) {
+          throw new Error('Thiếu tên, mẫu hoặc mã NCC');
+        }
+        const dto: CreatePaymentPartnerDto = {
+          name: String(row.name),
+          pattern: String(row.pattern),
+          supplierCode: String(row.supplierCode),
+          matchField: this.parseOption(
+            row.matchField,
+            ALL_PAYMENT_PARTNER_MATCH_FIELDS,
+            'trường khớp',
+          ),
+          matchType: this.parseOption(
+            row.matchType,
+            ALL_PAYMENT_PARTNER_MATCH_TYPES,
+            'kiểu khớp',
+          ),
+          brand: row.brand !== undefined ? String(row.brand) : null,
+          maDvcs: row.maDvcs !== undefined ? String(row.maDvcs) : null,
+          ...(row.sortOrder !== undefined && {
+            sortOrder: Number(row.sortOrder),
+          }),
+          ...(row.isActive !== undefined && {
+            isActive: !['0', 'false', 'không', 'khong', 'n', 'no'].includes(
+              String(row.isActive).trim().toLowerCase(),
+            ),
+          }),
+          ...(row.note !== undefined && { note: String(row.note) }),
+        };
+        if (dto.sortOrder !== undefined && !Number.isInteger(dto.sortOrder)) {
+          throw new Error(`Thứ tự không hợp lệ: ${row.sortOrder}`);
+        }
+
+        const cleaned = this.cleanInput(dto);
+        const existing = await this.findSameRule(cleaned);
+        if (existing) {
+          await this.update(existing.id, dto);
+        } else {
+          await this.create(dto);
+        }
+        success++;
+      } catch (error: any) {
+        errors.push({ row: rowNumber, error: error.message });
+      }
+    }
+
+    this.invalidateCache();
+    return { total, success, failed: total - success, errors };
+  }
+
+  private matches(definition: PaymentPartner, value: string): boolean {
+    if (!value) {
+      return false;
+    }
+    const pattern = normalizePaymentPartnerKey(definition.pattern);
+    switch (definition.matchType) {
+      case PAYMENT_PARTNER_MATCH_TYPES.EXACT:
+        return value === pattern;
+      case PAYMENT_PARTNER_MATCH_TYPES.PREFIX:
+        return value.startsWith(pattern);
+      case PAYMENT_PARTNER_MATCH_TYPES.CONTAINS:
+        return value.includes(pattern);
+      case PAYMENT_PARTNER_MATCH_TYPES.REGEX:
+        try {
+          return new RegExp(definition.pattern, 'i').test(value);
+        } catch {
+          this.logger.warn(
+            `Regex không hợp lệ cho đối tác ${definition.name}: ${definition.pattern}`,
+          );
+          return false;
+        }
+      default:
+        return false;
+    }
+  }
+
+  private getActiveDefinitions(): Promise<PaymentPartner[]> {
+    return this.cache.get();
+  }
+
+  private invalidateCache() {
+    this.cache.invalidate();
+  }
+
+  private cleanInput<T extends PaymentPartnerRuleInput>(input: T) {
+    return {
+      ...input,
+      name: input.name?.trim(),
+      pattern: input.pattern?.trim(),
+      supplierCode: input.supplierCode?.trim(),
+      matchField: input.matchField || PAYMENT_PARTNER_MATCH_FIELDS.PARTNER_CODE,
+      matchType: input.matchType || PAYMENT_PARTNER_MATCH_TYPES.EXACT,
+      brand: input.brand?.trim().toLowerCase() || null,
+      maDvcs: input.maDvcs?.trim().toUpperCase() || null,
+    };
+  }
+
+  private validatePattern(matchType: string, pattern: string) {
+    if (!pattern) {
+      throw new BadRequestException('pattern không được để trống');
+    }
+    if (matchType !== PAYMENT_PARTNER_MATCH_TYPES.REGEX) {
+      return;
+    }
+    try {
+      new RegExp(pattern, 'i');
+    } catch {
+      throw new BadRequestException(`Regex không hợp lệ: ${pattern}`);
+    }
+  }
+
+  private async findSameRule(rule: {
+    matchField: string;
+    pattern: string;
+    brand: string | null;
+    maDvcs: string | null;
+  }): Promise<PaymentPartner | null> {
+    const existing = await this.paymentPartnerRepository.find({
+      where: { matchField: rule.matchField },
+    });
+    return (
+      existing.find(
+        (item) =>
+          normalizePaymentPartnerKey(item.pattern) ===
+            normalizePaymentPartnerKey(rule.pattern) &&
+          (item.brand || null) === rule.brand &&
+          (item.maDvcs || null) === rule.maDvcs,
+      ) || null
+    );
+  }
+
+  /**
+   * Không cho hai dòng cùng trường khớp, mẫu, brand và ma_dvcs
+   */
+  private async ensureRuleAvailable(
+    rule: {
+      matchField: string;
+      pattern: string;
+      brand: string | null;
+      maDvcs: string | null;
+    },
+    excludeId?: string,
+  ) {
+    const conflict = await this.findSameRule(rule);
+    if (conflict && conflict.id !== excludeId) {
+      throw new BadRequestException(
+        `Đối tác "${rule.pattern}" đã được cấu hình (${conflict.name})`,
+      );
+    }
+  }
+
+  private parseOption<T extends string>(
+    value: any,
+    options: readonly T[],
+    label: string,
+  ): T | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    const key = String(value).trim();
+    const option = options.find(
+      (item) => item.toLowerCase() === key.toLowerCase(),
+    );
+    if (!option) {
+      throw new Error(`${label} không hợp lệ: ${key}`);
+    }
+    return option;
+  }
+}
@@ -0,0 +1,115 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { PaymentPartnerRegistryService } from './payment-partner-registry.service';
+import { CreatePaymentPartnerDto } from './dto/create-payment-partner.dto';
+import { UpdatePaymentPartnerDto } from './dto/update-payment-partner.dto';
+import { Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
+
+@Controller('payment-partners')
+export class PaymentPartnersController {
+  constructor(
+    private readonly paymentPartnerRegistryService: PaymentPartnerRegistryService,
+  ) {}
+
+  @Get()
+  async findAll() {
+    return this.paymentPartnerRegistryService.findAll();
+  }
+
+  /**
+   * GET /payment-partners/resolve?partnerCode=...&fopSyscode=...&brand=...&maDvcs=...
+   * Kiểm tra mã NCC sẽ được gửi sang Fast cho một phương thức thanh toán
+   */
+  @Get('resolve')
+  async resolve(
+    @Query('partnerCode') partnerCode?: string,
+    @Query('fopSyscode') fopSyscode?: string,
+    @Query('brand') brand?: string,
+    @Query('maDvcs') maDvcs?: string,
+  ) {
+    const input = { partnerCode, fopSyscode, brand, maDvcs };
+    const partner = await this.paymentPartnerRegistryService.resolve(input);
+    return {
+      ...input,
+      partner,
+      supplierCode:
+        await this.paymentPartnerRegistryService.resolveSupplierCode(input),
+    };
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.paymentPartnerRegistryService.findOne(id);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Post()
+  async create(@Body() createDto: CreatePaymentPartnerDto) {
+    return this.paymentPartnerRegistryService.create(createDto);
+  }
+
+  /**
+   * POST /payment-partners/import
+   * Cột: Tên, Trường khớp, Kiểu khớp, Mẫu, Mã NCC, Brand, Mã ĐVCS, Thứ tự, Hoạt động, Ghi chú
+   */
+  @Roles(ROLES.ADMIN)
+  @Post('import')
+  @UseInterceptors(FileInterceptor('file'))
+  async importExcel(@UploadedFile() file: Express.Multer.File) {
+    if (!file) {
+      throw new BadRequestException('File không được tìm thấy');
+    }
+
+    const allowedMimes = [
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-excel',
+      'text/csv',
+    ];
+    if (!allowedMimes.includes(file.mimetype)) {
+      throw new BadRequestException(
+        'File không hợp lệ. Vui lòng upload file Excel (.xlsx, .xls) hoặc CSV',
+      );
+    }
+
+    try {
+      const result =
+        await this.paymentPartnerRegistryService.importFromExcel(file);
+      return {
+        message: `Import thành công ${result.success}/${result.total} bản ghi`,
+        ...result,
+      };
+    } catch (error: any) {
+      throw new BadRequestException(
+        error.message || 'Lỗi khi import file Excel',
+      );
+    }
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Patch(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdatePaymentPartnerDto,
+  ) {
+    return this.paymentPartnerRegistryService.update(id, updateDto);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Delete(':id')
+  async remove(@Param('id') id: string) {
+    return this.paymentPartnerRegistryService.remove(id);
+  }
+}
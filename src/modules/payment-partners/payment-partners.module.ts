@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PaymentPartner } from '../../entities/payment-partner.entity';
+import { PaymentPartnersController } from './payment-partners.controller';
+import { PaymentPartnerRegistryService } from './payment-partner-registry.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([PaymentPartner])],
+  controllers: [PaymentPartnersController],
+  providers: [PaymentPartnerRegistryService],
+  exports: [PaymentPartnerRegistryService],
+})
+export class PaymentPartnersModule {}
@@ -1,6 +1,17 @@
-import { Controller, Get, Query, Post, Body, Param, Res } from '@nestjs/common';
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Query,
+  Post,
+  Body,
+  Param,
+  Res,
+} from '@nestjs/common';
 import express from 'express';
 import { PaymentService } from './payment.service';
+import { Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
 
 @Controller('payments')
 export class PaymentController {
@@ -21,6 +32,7 @@ export class PaymentController {
     });
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('audit/:id/retry')
   async retryPaymentSync(@Param('id') id: string) {
     return this.paymentService.retryPaymentSync(id);
@@ -35,6 +47,7 @@ export class PaymentController {
     @Query('dateTo') dateTo?: string,
     @Query('brand') brand?: string,
     @Query('fopSyscode') fopSyscode?: string,
+    @Query('postingStatus') postingStatus?: string,
   ) {
     return this.paymentService.findAll({
       page: page ? parseInt(page) : 1,
@@ -44,6 +57,7 @@ export class PaymentController {
       dateTo,
       brand,
       fopSyscode,
+      postingStatus,
     });
   }
 
@@ -54,6 +68,7 @@ export class PaymentController {
     @Query('dateTo') dateTo?: string,
     @Query('brand') brand?: string,
     @Query('fopSyscode') fopSyscode?: string,
+    @Query('postingStatus') postingStatus?: string,
     @Res() res?: express.Response,
   ) {
     const buffer = await this.paymentService.exportPaymentsToExcel({
@@ -62,6 +77,7 @@ export class PaymentController {
       dateTo,
       brand,
       fopSyscode,
+      postingStatus,
     });
 
     const fileName = `PaymentDocuments_${new Date().toISOString().split('T')[0]}.xlsx`;
@@ -80,11 +96,27 @@ export class PaymentController {
     return buffer;
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('fast')
   async fastPaymentLog(@Body() body: any) {
     return this.paymentService.processFastPayment(body);
   }
 
+  /**
+   * POST /payments/fast/daily { date: 'YYYY-MM-DD' }
+   * Gửi lại hình thức thanh toán của 1 ngày, chỉ xử lý các dòng cashio chưa POSTED
+   */
+  @Roles(ROLES.ACCOUNTANT)
+  @Post('fast/daily')
+  async postDailyPayments(@Body('date') date?: string) {
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new BadRequestException(
+        'date không hợp lệ (format: YYYY-MM-DD, ví dụ: 2025-11-01)',
+      );
+    }
+    return this.paymentService.autoLogPaymentData(date);
+  }
+
   @Get('statistics')
   async getStatistics(
     @Query('dateFrom') dateFrom?: string,
@@ -4,24 +4,22 @@ import { HttpModule } from '@nestjs/axios';
 import { DailyCashio } from '../../entities/daily-cashio.entity';
 import { Sale } from '../../entities/sale.entity';
 import { PaymentMethod } from '../../entities/payment-method.entity';
-import { PaymentSyncLog } from '../../entities/payment-sync-log.entity';
 import { PaymentController } from './payment.controller';
 import { PaymentService } from './payment.service';
 import { LoyaltyService } from '../../services/loyalty.service';
 import { CategoriesModule } from '../categories/categories.module';
 import { SalesModule } from '../sales/sales.module';
+import { IntegrationAuditModule } from '../integration-audit/integration-audit.module';
+import { PaymentPartnersModule } from '../payment-partners/payment-partners.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([
-      DailyCashio,
-      Sale,
-      PaymentMethod,
-      PaymentSyncLog,
-    ]),
+    TypeOrmModule.forFeature([DailyCashio, Sale, PaymentMethod]),
     HttpModule,
     CategoriesModule,
     forwardRef(() => SalesModule),
+    IntegrationAuditModule,
+    PaymentPartnersModule,
   ],
   controllers: [PaymentController],
   providers: [PaymentService, LoyaltyService],
@@ -1,14 +1,23 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { DailyCashio } from '../../entities/daily-cashio.entity';
+import { In, LessThan, Repository } from 'typeorm';
+import {
+  DAILY_CASHIO_POSTING_STATUS,
+  DailyCashio,
+} from '../../entities/daily-cashio.entity';
 import { Sale } from '../../entities/sale.entity';
-import { PaymentSyncLog } from '../../entities/payment-sync-log.entity';
 import { LoyaltyService } from 'src/services/loyalty.service';
 import { CategoriesService } from '../categories/categories.service';
-import { getSupplierCode } from '../../utils/payment-supplier.util';
 import { FastApiInvoiceFlowService } from 'src/services/fast-api-invoice-flow.service';
 import * as XLSX from 'xlsx';
+import { PaymentPartnerRegistryService } from '../payment-partners/payment-partner-registry.service';
+import { mapCompanyToBrand } from '../../utils/sales.utils';
+import { FastDocumentSubmissionService } from '../../services/fast-document-submission.service';
+import { FAST_SUBMISSION_IN_FLIGHT_TIMEOUT_MS } from '../../utils/fast-idempotency.utils';
+import {
+  INTEGRATION_AUDIT_OUTCOMES,
+  IntegrationAuditService,
+} from '../integration-audit/integration-audit.service';
 
 export interface PaymentData {
   // From daily_cashio (ds)
@@ -22,7 +31,8 @@ export interface PaymentData {
   refno: string; // Mã tham chiếu
   bank_code: string; // Ngân hàng
   period_code: string; // Kỳ hạn
-  ma_doi_tac_payment?: string; // Mã đối tác từ PaymentMethod
+  ma_doi_tac?: string; // Mã đối tác gốc từ PaymentMethod
+  ma_doi_tac_payment?: string; // Mã NCC trên Fast (theo cấu hình payment_partners)
   company?: string; // Nhãn hàng/Company
 
   // From sales (s)
@@ -33,8 +43,36 @@ export interface PaymentData {
   ma_dvcs_sale: string; // Mã ĐVCS từ sale branch
   maCa: string; // Mã ca
   partnerCode: string; // Mã đối tác
+
+  // Trạng thái gửi Fast (daily_cashio)
+  cashio_id: string;
+  posting_status: string;
+  posting_reason: string | null;
+  fast_reference: string | null;
+  posted_at: Date | null;
+}
+
+export interface CashioPostingResult {
+  cashioId?: string;
+  soCode: string;
+  fopSyscode: string;
+  status: string;
+  reason?: string | null;
+}
+
+interface CashioExclusion {
+  row: any;
+  status: string;
+  reason: string;
 }
 
+// Dòng cashio chưa gửi Fast thành công: được xử lý lại khi chạy lại ngày
+const UNPOSTED_CASHIO_STATUSES = [
+  DAILY_CASHIO_POSTING_STATUS.PENDING,
+  DAILY_CASHIO_POSTING_STATUS.FAILED,
+  DAILY_CASHIO_POSTING_STATUS.SKIPPED,
+];
+
 @Injectable()
 export class PaymentService {
   private readonly logger = new Logger(PaymentService.name);
@@ -45,8 +83,9 @@ export class PaymentService {
     private loyaltyService: LoyaltyService,
     private categoryService: CategoriesService,
     private fastApiInvoiceFlowService: FastApiInvoiceFlowService,
-    @InjectRepository(PaymentSyncLog)
-    private paymentSyncLogRepository: Repository<PaymentSyncLog>,
+    private integrationAuditService: IntegrationAuditService,
+    private paymentPartnerRegistryService: PaymentPartnerRegistryService,
+    private fastDocumentSubmissionService: FastDocumentSubmissionService,
   ) {}
 
   async findAll(options: {
@@ -57,6 +96,7 @@ export class PaymentService {
     dateTo?: string;
     brand?: string;
     fopSyscode?: string;
+    postingStatus?: string;
   }) {
     const {
       page = 1,
@@ -66,6 +106,7 @@ export class PaymentService {
       dateTo,
       brand,
       fopSyscode,
+      postingStatus,
     } = options;
 
     // Get valid payment method codes regarding 'Giấy báo có'
@@ -119,6 +160,10 @@ export class PaymentService {
       });
     }
 
+    if (postingStatus) {
+      query.andWhere('ds.posting_status = :postingStatus', { postingStatus });
+    }
+
     query.offset((page - 1) * limit).limit(limit);
 
     const results = await query.getRawMany();
@@ -157,6 +202,11 @@ export class PaymentService {
         fopSyscode: `%${fopSyscode}%`,
       });
     }
+    if (postingStatus) {
+      countQuery.andWhere('ds.posting_status = :postingStatus', {
+        postingStatus,
+      });
+    }
 
     const totalResult = await countQuery
       .select('COUNT(DISTINCT ds.id)', 'count')
@@ -178,8 +228,10 @@ export class PaymentService {
     dateTo?: string;
     brand?: string;
     fopSyscode?: string;
+    postingStatus?: string;
   }): Promise<Buffer> {
-    const { search, dateFrom, dateTo, brand, fopSyscode } = options;
+    const { search, dateFrom, dateTo, brand, fopSyscode, postingStatus } =
+      options;
 
     // Get valid payment method codes regarding 'Giấy báo có'
     const validCodes =
@@ -226,6 +278,9 @@ export class PaymentService {
         fopSyscode: `%${fopSyscode}%`,
       });
     }
+    if (postingStatus) {
+      query.andWhere('ds.posting_status = :postingStatus', { postingStatus });
+    }
 
     const results = await query.getRawMany();
     const enrichedResults = await this.enrichPaymentResults(results, false);
@@ -255,6 +310,9 @@ export class PaymentService {
       'Mã tham chiếu': item.refno,
       'Ngân hàng': item.bank_code,
       'Kỳ hạn': item.period_code,
+      'Trạng thái gửi Fast': item.posting_status,
+      'Lý do': item.posting_reason,
+      'Số phiếu Fast': item.fast_reference,
     }));
 
     const worksheet = XLSX.utils.json_to_sheet(data);
@@ -349,36 +407,164 @@ export class PaymentService {
     }));
   }
 
-  async getDailyPaymentDetails(date: string): Promise<PaymentData[]> {
+  /**
+   * Các dòng cashio trong ngày chưa gửi Fast thành công (PENDING / FAILED / SKIPPED, POSTING bị treo)
+   * Dòng bị loại khi validate (không phải Giấy báo có, thiếu cấu hình) được đưa vào excluded kèm lý do
+   */
+  async getDailyPaymentDetails(
+    date: string,
+    excluded?: CashioExclusion[],
+  ): Promise<PaymentData[]> {
     const query = this.createBasePaymentQuery();
     query.andWhere(
       "ds.docdate >= :date AND ds.docdate < (:date::date + interval '1 day')",
       { date },
     );
+    query.andWhere(
+      '(ds.posting_status IN (:...unpostedStatuses) OR (ds.posting_status = :postingStatus AND ds.posting_started_at < :staleBefore))',
+      {
+        unpostedStatuses: UNPOSTED_CASHIO_STATUSES,
+        postingStatus: DAILY_CASHIO_POSTING_STATUS.POSTING,
+        staleBefore: new Date(
+          Date.now() - FAST_SUBMISSION_IN_FLIGHT_TIMEOUT_MS,
+        ),
+      },
+    );
 
     const results = await query.getRawMany();
-    return this.enrichPaymentResults(results, true, true);
+    return this.enrichPaymentResults(results, true, true, excluded);
   }
 
-  async autoLogPaymentData() {
-    this.logger.log('Starting daily payment method sync...');
+  /**
+   * Gửi hình thức thanh toán của 1 ngày (mặc định hôm qua) sang Fast
+   * Chạy lại cùng ngày chỉ xử lý các dòng chưa POSTED
+   */
+  async autoLogPaymentData(date?: string) {
     const yesterday = new Date();
     yesterday.setDate(yesterday.getDate() - 1);
-    const dateStr = yesterday.toISOString().split('T')[0];
+    const dateStr = date || yesterday.toISOString().split('T')[0];
+    this.logger.log(`Starting daily payment method sync for ${dateStr}...`);
 
     try {
-      // Use getDailyPaymentDetails to get detailed records for the day
-      const paymentMethods = await this.getDailyPaymentDetails(dateStr);
-      if (paymentMethods.length > 0) {
-        await this.processFastPayment(paymentMethods);
-      } else {
-        this.logger.log(`No payment data found for ${dateStr}`);
+      const excluded: CashioExclusion[] = [];
+      const paymentMethods = await this.getDailyPaymentDetails(
+        dateStr,
+        excluded,
+      );
+      await Promise.all(
+        excluded.map(({ row, status, reason }) =>
+          this.dailyCashioRepository.update(
+            {
+              id: row.cashio_id,
+              posting_status: In(UNPOSTED_CASHIO_STATUSES),
+            },
+            { posting_status: status, posting_reason: reason },
+          ),
+        ),
+      );
+
+      if (paymentMethods.length === 0 && excluded.length === 0) {
+        this.logger.log(`No unposted payment data found for ${dateStr}`);
       }
+      const summary = await this.processFastPayment(paymentMethods);
+      const excludedFailed = excluded.filter(
+        (item) => item.status === DAILY_CASHIO_POSTING_STATUS.FAILED,
+      ).length;
+      return {
+        date: dateStr,
+        ...summary,
+        total: summary.total + excluded.length,
+        failed: summary.failed + excludedFailed,
+        skipped: summary.skipped + excluded.length - excludedFailed,
+      };
     } catch (error) {
       this.logger.error(`Daily payment method sync failed: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Gửi 1 dòng cashio sang Fast và ghi trạng thái lên daily_cashio
+   * Dòng đã POSTED / đang POSTING bỏ qua; lỗi ghi FAILED rồi ném lại cho nơi gọi
+   */
+  async postCashioPayment(item: PaymentData): Promise<CashioPostingResult> {
+    const result: CashioPostingResult = {
+      cashioId: item.cashio_id,
+      soCode: item.so_code,
+      fopSyscode: item.fop_syscode,
+      status: DAILY_CASHIO_POSTING_STATUS.POSTED,
+    };
+    // Dữ liệu gửi tay (POST /payments/fast) không gắn với dòng cashio nào
+    if (!item.cashio_id) {
+      await this.fastApiInvoiceFlowService.processCashioPayment(item);
+      return result;
+    }
+
+    const skipReason = this.getPostingSkipReason(item);
+    if (skipReason) {
+      await this.dailyCashioRepository.update(
+        {
+          id: item.cashio_id,
+          posting_status: In(UNPOSTED_CASHIO_STATUSES),
+        },
+        {
+          posting_status: DAILY_CASHIO_POSTING_STATUS.SKIPPED,
+          posting_reason: skipReason,
+        },
+      );
+      return {
+        ...result,
+        status: DAILY_CASHIO_POSTING_STATUS.SKIPPED,
+        reason: skipReason,
+      };
+    }
+
+    if (!(await this.claimCashio(item.cashio_id))) {
+      const current = await this.dailyCashioRepository.findOne({
+        where: { id: item.cashio_id },
+        select: ['id', 'posting_status'],
+      });
+      return {
+        ...result,
+        status: DAILY_CASHIO_POSTING_STATUS.SKIPPED,
+        reason:
+          current?.posting_status === DAILY_CASHIO_POSTING_STATUS.POSTED
+            ? 'Đã gửi Fast trước đó'
+            : 'Đang được gửi Fast bởi tiến trình khác',
+      };
+    }
+
+    try {
+      await this.fastApiInvoiceFlowService.processCashioPayment(item);
+      const idempotencyKey = await this.fastDocumentSubmissionService
+        .getLatestKey(item.so_code, ['paymentMethod'])
+        .catch(() => null);
+      await this.dailyCashioRepository.update(item.cashio_id, {
+        posting_status: DAILY_CASHIO_POSTING_STATUS.POSTED,
+        posting_reason: null,
+        fast_reference: item.refno || item.so_code,
+        fast_idempotency_key: idempotencyKey || undefined,
+        posted_at: new Date(),
+      });
+      return result;
+    } catch (error: any) {
+      await this.dailyCashioRepository
+        .update(item.cashio_id, {
+          posting_status: DAILY_CASHIO_POSTING_STATUS.FAILED,
+          posting_reason: error?.message || String(error),
+        })
+        .catch((saveError) =>
+          this.logger.error(
+            `Failed to save cashio posting status: ${saveError}`,
+          ),
+        );
+      throw error;
     }
   }
 
+  /**
+   * Audit gửi hình thức thanh toán (paymentMethod), đọc từ integration_audit_logs
+   */
   async getAuditLogs(options: {
     page?: number;
     limit?: number;
@@ -386,34 +572,49 @@ export class PaymentService {
     status?: string;
   }) {
     const { page = 1, limit = 20, docCode, status } = options;
-    const query = this.paymentSyncLogRepository.createQueryBuilder('log');
-
-    if (docCode) {
-      query.andWhere('log.docCode LIKE :docCode', { docCode: `%${docCode}%` });
-    }
-    if (status) {
-      query.andWhere('log.status = :status', { status });
-    }
-
-    query.orderBy('log.createdAt', 'DESC');
-    query.skip((page - 1) * limit).take(limit);
-
-    const [items, total] = await query.getManyAndCount();
+    // Dạng cũ chỉ có SUCCESS / ERROR: ERROR gồm cả REJECTED
+    const outcomes =
+      status === 'SUCCESS'
+        ? [INTEGRATION_AUDIT_OUTCOMES.SUCCESS]
+        : status === 'ERROR'
+          ? [
+              INTEGRATION_AUDIT_OUTCOMES.REJECTED,
+              INTEGRATION_AUDIT_OUTCOMES.ERROR,
+            ]
+          : undefined;
+
+    const { data, meta } = await this.integrationAuditService.findLogs({
+      documentTypes: ['paymentMethod'],
+      docCode,
+      outcomes,
+      page,
+      limit,
+    });
 
     return {
-      items,
-      total,
+      items: data.map((log) => ({
+        id: log.id,
+        docCode: log.docCode,
+        requestPayload: log.requestPayload,
+        responsePayload: log.responsePayload,
+        status:
+          log.outcome === INTEGRATION_AUDIT_OUTCOMES.SUCCESS
+            ? 'SUCCESS'
+            : 'ERROR',
+        errorMessage: log.errorMessage,
+        retryCount: log.attempt - 1,
+        durationMs: log.durationMs,
+        createdAt: log.createdAt,
+      })),
+      total: meta.total,
       page,
       limit,
-      totalPages: Math.ceil(total / limit),
+      totalPages: meta.totalPages,
     };
   }
 
   async retryPaymentSync(id: string) {
-    const log = await this.paymentSyncLogRepository.findOne({ where: { id } });
-    if (!log) {
-      throw new Error('Audit log not found');
-    }
+    const log = await this.integrationAuditService.findLog(id);
 
     if (!log.requestPayload) {
       throw new Error('No payload to retry');
@@ -421,41 +622,105 @@ export class PaymentService {
 
     const payload = JSON.parse(log.requestPayload);
 
-    // Update retry count
-    log.retryCount += 1;
-    await this.paymentSyncLogRepository.save(log);
-
-    // Resubmit (this will create a NEW log entry via submitPaymentPayload)
+    // Resubmit (lần gọi mới được ghi thành dòng audit mới)
     return this.fastApiInvoiceFlowService.submitPaymentPayload(payload);
   }
 
   async processFastPayment(data: any[]) {
+    const summary = {
+      total: 0,
+      posted: 0,
+      failed: 0,
+      skipped: 0,
+      results: [] as CashioPostingResult[],
+    };
     if (!Array.isArray(data)) {
       this.logger.warn('processFastPayment received invalid data (not array)');
-      return;
+      return summary;
     }
 
     this.logger.log(`Processing ${data.length} payment method records...`);
 
     for (const item of data) {
+      summary.total++;
       try {
-        await this.fastApiInvoiceFlowService.processCashioPayment(item);
-      } catch (error) {
+        const result = await this.postCashioPayment(item);
+        summary.results.push(result);
+        if (result.status === DAILY_CASHIO_POSTING_STATUS.POSTED) {
+          summary.posted++;
+        } else {
+          summary.skipped++;
+        }
+      } catch (error: any) {
         this.logger.error(
           `Failed to sync payment method ${item.paymentMethod || item.fop_syscode}: ${error}`,
         );
+        summary.failed++;
+        summary.results.push({
+          cashioId: item.cashio_id,
+          soCode: item.so_code,
+          fopSyscode: item.fop_syscode,
+          status: DAILY_CASHIO_POSTING_STATUS.FAILED,
+          reason: error?.message || String(error),
+        });
         // Continue with next item
       }
     }
-    this.logger.log('Finished processing payment methods.');
+    this.logger.log(
+      `Finished processing payment methods: ${summary.posted} posted, ${summary.failed} failed, ${summary.skipped} skipped.`,
+    );
+    return summary;
   }
 
   // Helper Methods
 
+  /**
+   * Điều kiện giống processCashioPayment: không gửi khi thiếu fop_syscode hoặc là dòng chi tiền
+   */
+  private getPostingSkipReason(item: PaymentData): string | null {
+    if (!item.fop_syscode) {
+      return 'Thiếu mã hình thức thanh toán (fop_syscode)';
+    }
+    if (Number(item.total_out || 0) > 0) {
+      return 'Dòng chi tiền (total_out > 0), không gửi hình thức thanh toán';
+    }
+    return null;
+  }
+
+  /**
+   * Giữ dòng cashio ở trạng thái POSTING trước khi gọi Fast
+   * POSTING quá thời gian gửi tối đa coi như tiến trình trước đã chết, cho phép giữ lại
+   */
+  private async claimCashio(cashioId: string): Promise<boolean> {
+    const changes = {
+      posting_status: DAILY_CASHIO_POSTING_STATUS.POSTING,
+      posting_started_at: new Date(),
+      posting_attempts: () => 'posting_attempts + 1',
+    };
+    let claim = await this.dailyCashioRepository.update(
+      { id: cashioId, posting_status: In(UNPOSTED_CASHIO_STATUSES) },
+      changes,
+    );
+    if (!claim.affected) {
+      claim = await this.dailyCashioRepository.update(
+        {
+          id: cashioId,
+          posting_status: DAILY_CASHIO_POSTING_STATUS.POSTING,
+          posting_started_at: LessThan(
+            new Date(Date.now() - FAST_SUBMISSION_IN_FLIGHT_TIMEOUT_MS),
+          ),
+        },
+        changes,
+      );
+    }
+    return !!claim.affected;
+  }
+
   private createBasePaymentQuery() {
     return this.dailyCashioRepository
       .createQueryBuilder('ds')
       .select([
+        'ds.id as cashio_id',
         'ds.fop_syscode as fop_syscode',
         'ds.docdate as docdate',
         'ds.total_in as total_in',
@@ -466,6 +731,10 @@ export class PaymentService {
         'ds.refno as refno',
         'ds.bank_code as bank_code',
         'ds.period_code as period_code',
+        'ds.posting_status as posting_status',
+        'ds.posting_reason as posting_reason',
+        'ds.fast_reference as fast_reference',
+        'ds.posted_at as posted_at',
         'MAX(s.docDate) as "docDate"', // Only from Sale
         'SUM(s.linetotal - COALESCE(s.disc_amt, 0)) as revenue', // [FIX] Calculate revenue as linetotal - disc_amt
         'COALESCE(MAX(s.branchCode), ds.branch_code) as "branchCode"', // Fallback to cashio branch
@@ -486,6 +755,10 @@ export class PaymentService {
       .addGroupBy('ds.refno')
       .addGroupBy('ds.bank_code')
       .addGroupBy('ds.period_code')
+      .addGroupBy('ds.posting_status')
+      .addGroupBy('ds.posting_reason')
+      .addGroupBy('ds.fast_reference')
+      .addGroupBy('ds.posted_at')
       .where('ds.fop_syscode != :voucherCode', { voucherCode: 'VOUCHER' })
       .orderBy('ds.docdate', 'DESC');
   }
@@ -494,6 +767,7 @@ export class PaymentService {
     results: any[],
     includeCash: boolean = false, // Kept for backward compat, though unused.
     throwOnError: boolean = false, // [NEW] Strict validation mode
+    excluded?: CashioExclusion[], // Strict mode: gom dòng bị loại kèm lý do thay vì throw
   ): Promise<PaymentData[]> {
     if (!results || results.length === 0) {
       return [];
@@ -573,9 +847,16 @@ export class PaymentService {
         // Check validation
         if (!paymentMethod) {
           if (throwOnError) {
-            throw new BadRequestException(
-              `Cấu hình phương thức thanh toán không tồn tại: ${row.fop_syscode} (Đơn vị: ${dvcs})`,
-            );
+            const message = `Cấu hình phương thức thanh toán không tồn tại: ${row.fop_syscode} (Đơn vị: ${dvcs})`;
+            if (excluded) {
+              excluded.push({
+                row,
+                status: DAILY_CASHIO_POSTING_STATUS.FAILED,
+                reason: message,
+              });
+              return false;
+            }
+            throw new BadRequestException(message);
           }
           // If not strict, just keep it (will likely display missing fields)
           return true;
@@ -585,6 +866,11 @@ export class PaymentService {
         if (paymentMethod.documentType !== 'Giấy báo có') {
           // If strict (Sync mode), SKIP non-GBC items
           if (throwOnError) {
+            excluded?.push({
+              row,
+              status: DAILY_CASHIO_POSTING_STATUS.SKIPPED,
+              reason: `Phương thức thanh toán ${row.fop_syscode} không phải Giấy báo có`,
+            });
             return false;
           }
         }
@@ -593,24 +879,36 @@ export class PaymentService {
       },
     );
 
-    return filtered.map(({ row, saleDept, dvcs, paymentMethod }) => {
-      // Rule: cắt từ dưới lên đén / thì dừng (e.g. VIETCOMBANK/6 -> 6)
-      const periodCode = row.period_code
-        ? row.period_code.split('/').pop()
-        : null;
-
-      // If CASH, use ma_dvcs_sale for ma_dvcs_cashio
-      const maDvcsCashio =
-        row.fop_syscode === 'CASH' ? dvcs : paymentMethod?.bankUnit || null;
-
-      return {
-        ...row,
-        period_code: periodCode,
-        ma_dvcs_cashio: maDvcsCashio,
-        ma_dvcs_sale: dvcs,
-        company: saleDept?.company || null,
-        ma_doi_tac_payment: getSupplierCode(paymentMethod?.maDoiTac) || null,
-      };
-    });
+    return Promise.all(
+      filtered.map(async ({ row, saleDept, dvcs, paymentMethod }) => {
+        // Rule: cắt từ dưới lên đén / thì dừng (e.g. VIETCOMBANK/6 -> 6)
+        const periodCode = row.period_code
+          ? row.period_code.split('/').pop()
+          : null;
+
+        // If CASH, use ma_dvcs_sale for ma_dvcs_cashio
+        const maDvcsCashio =
+          row.fop_syscode === 'CASH' ? dvcs : paymentMethod?.bankUnit || null;
+
+        const company = saleDept?.company || null;
+        const maDoiTac = paymentMethod?.maDoiTac || null;
+
+        return {
+          ...row,
+          period_code: periodCode,
+          ma_dvcs_cashio: maDvcsCashio,
+          ma_dvcs_sale: dvcs,
+          company,
+          ma_doi_tac: maDoiTac,
+          ma_doi_tac_payment:
+            await this.paymentPartnerRegistryService.resolveSupplierCode({
+              partnerCode: maDoiTac,
+              fopSyscode: row.fop_syscode,
+              brand: mapCompanyToBrand(company),
+              maDvcs: maDvcsCashio,
+            }),
+        };
+      }),
+    );
   }
 }
@@ -0,0 +1,213 @@
+import type { PlatformFeeImportColumn } from '../../../entities/platform-fee-import-profile.entity';
+
+export const PLATFORMS = ['shopee', 'tiktok', 'lazada'] as const;
+
+export const DATE_FORMATS = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'];
+
+export const DECIMAL_SEPARATORS = ['.', ','];
+
+// 5 cột MKT bổ sung cùng tên header, gán lần lượt theo thứ tự trong file
+const MKT_COLUMNS: PlatformFeeImportColumn[] = [1, 2, 3, 4, 5].map((i) => ({
+  field: `cotChoBsMkt${i}`,
+  headers: ['Cột chờ bs nếu MKT đăng ký thêm'],
+  type: 'text',
+}));
+
+const COMMON_HEAD_COLUMNS: PlatformFeeImportColumn[] = [
+  { field: 'maNoiBoSp', headers: ['Mã nội bộ sp'], type: 'text' },
+  { field: 'ngayDoiSoat', headers: ['Ngày đối soát'], type: 'date' },
+];
+
+const COMMON_ORDER_COLUMNS: PlatformFeeImportColumn[] = [
+  { field: 'maDonHangHoan', headers: ['Mã đơn hàng hoàn'], type: 'text' },
+  {
+    field: 'shopPhatHanhTrenSan',
+    headers: ['Shop phát hành trên sàn'],
+    type: 'text',
+  },
+  {
+    field: 'giaTriGiamGiaCtkm',
+    headers: ['Giá trị giảm giá theo CTKM của mình ban hành'],
+    type: 'decimal',
+  },
+  {
+    field: 'doanhThuDonHang',
+    headers: ['Doanh thu đơn hàng'],
+    type: 'decimal',
+  },
+];
+
+const AFFILIATE_COLUMN: PlatformFeeImportColumn = {
+  field: 'maCacBenTiepThiLienKet',
+  headers: ['Mã các bên tiếp thị liên kết'],
+  type: 'text',
+};
+
+const BO_PHAN_COLUMN: PlatformFeeImportColumn = {
+  field: 'boPhan',
+  headers: ['Bộ phận'],
+  type: 'text',
+};
+
+/**
+ * Profile mặc định, tương đương mapping cố định trước đây
+ * Chỉ dùng để khởi tạo bảng platform_fee_import_profiles khi còn trống
+ */
+export const DEFAULT_IMPORT_PROFILES: Array<{
+  platform: string;
+  name: string;
+  columns: PlatformFeeImportColumn[];
+}> = [
+  {
+    platform: 'shopee',
+    name: 'Shopee - mẫu chuẩn',
+    columns: [
+      {
+        field: 'maSan',
+        headers: ['Mã shopee'],
+        type: 'text',
+        required: true,
+      },
+      ...COMMON_HEAD_COLUMNS,
+      ...COMMON_ORDER_COLUMNS,
+      {
+        field: 'phiCoDinh605MaPhi164020',
+        headers: ['Phí cố định 6.05% Mã phí 164020'],
+        type: 'decimal',
+      },
+      {
+        field: 'phiDichVu6MaPhi164020',
+        headers: ['Phí Dịch Vụ 6% Mã phí 164020'],
+        type: 'decimal',
+      },
+      {
+        field: 'phiThanhToan5MaPhi164020',
+        headers: ['Phí thanh toán 5% Mã phí 164020'],
+        type: 'decimal',
+      },
+      {
+        field: 'phiHoaHongTiepThiLienKet21150050',
+        headers: ['Phí hoa hồng Tiếp thị liên kết 21% 150050'],
+        type: 'decimal',
+      },
+      {
+        field: 'chiPhiDichVuShippingFeeSaver164010',
+        headers: ['Chi phí dịch vụ Shipping Fee Saver 164010'],
+        type: 'decimal',
+      },
+      {
+        field: 'phiPiShipDoMktDangKy164010',
+        headers: [
+          'Phí Pi Ship ( Do MKT đăng ký) 164010',
+          'Phí Pi Ship Do MKT đăng ký 164010',
+        ],
+        type: 'decimal',
+      },
+      AFFILIATE_COLUMN,
+      {
+        field: 'sanTmdt',
+        headers: ['Sàn TMĐT SHOPEE', 'Sàn TMĐT'],
+        type: 'text',
+      },
+      ...MKT_COLUMNS,
+      BO_PHAN_COLUMN,
+    ],
+  },
+  {
+    platform: 'tiktok',
+    name: 'TikTok - mẫu chuẩn',
+    columns: [
+      {
+        field: 'maSan',
+        headers: ['Mã Tiktok'],
+        type: 'text',
+        required: true,
+      },
+      ...COMMON_HEAD_COLUMNS,
+      ...COMMON_ORDER_COLUMNS,
+      {
+        field: 'phiGiaoDichTyLe5164020',
+        headers: ['Phí giao dịch Tỷ lệ 5% 164020'],
+        type: 'decimal',
+      },
+      {
+        field: 'phiHoaHongTraChoTiktok454164020',
+        headers: ['Phí hoa hồng trả cho Tiktok 4.54% 164020'],
+        type: 'decimal',
+      },
+      {
+        field: 'phiHoaHongTiepThiLienKet150050',
+        headers: ['Phí hoa hồng Tiếp thị liên kết 150050'],
+        type: 'decimal',
+      },
+      {
+        field: 'phiDichVuSfp6164020',
+        headers: ['Phí dịch vụ SFP 6% 164020'],
+        type: 'decimal',
+      },
+      AFFILIATE_COLUMN,
+      {
+        field: 'sanTmdt',
+        headers: ['Sàn TMĐT TIKTOK', 'Sàn TMĐT'],
+        type: 'text',
+      },
+      ...MKT_COLUMNS,
+      BO_PHAN_COLUMN,
+    ],
+  },
+  {
+    platform: 'lazada',
+    name: 'Lazada - mẫu chuẩn',
+    columns: [
+      {
+        field: 'maSan',
+        headers: ['Mã Lazada'],
+        type: 'text',
+        required: true,
+      },
+      ...COMMON_HEAD_COLUMNS,
+      {
+        field: 'tenPhiDoanhThu',
+        headers: ['Tên phí/ doanh thu đơn hàng'],
+        type: 'text',
+      },
+      {
+        field: 'quangCaoTiepThiLienKet',
+        headers: ['Quảng cáo tiếp thị liên kết'],
+        type: 'text',
+      },
+      { field: 'maDonHangHoan', headers: ['Mã đơn hàng hoàn'], type: 'text' },
+      {
+        field: 'maPhiNhanDienHachToan',
+        headers: ['MÃ PHÍ ĐỂ NHẬN DIỆN HẠCH TOÁN'],
+        type: 'text',
+      },
+      {
+        field: 'soTienPhi',
+        headers: ['Số tiền phí', 'Số tiền', 'Số tiền phí đã đối soát'],
+        type: 'decimal',
+      },
+      {
+        field: 'sanTmdt',
+        headers: ['Sàn TMĐT LAZADA', 'Sàn TMĐT'],
+        type: 'text',
+      },
+      { field: 'ghiChu', headers: ['GHI CHÚ'], type: 'text' },
+      BO_PHAN_COLUMN,
+    ],
+  },
+];
+
+/**
+ * Chuẩn hóa header để so khớp: bỏ dấu, chữ thường, gộp khoảng trắng
+ */
+export function normalizeImportHeader(header: string | null | undefined) {
+  return String(header || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ');
+}
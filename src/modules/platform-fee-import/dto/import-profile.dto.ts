@@ -0,0 +1,67 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import {
+  DATE_FORMATS,
+  DECIMAL_SEPARATORS,
+  PLATFORMS,
+} from '../constants/platform-fee-import.constants';
+
+export class ImportProfileColumnDto {
+  @IsString()
+  field: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  headers: string[];
+
+  @IsIn(['text', 'decimal', 'date'])
+  type: 'text' | 'decimal' | 'date';
+
+  @IsBoolean()
+  @IsOptional()
+  required?: boolean;
+}
+
+export class CreateImportProfileDto {
+  @IsIn(PLATFORMS)
+  platform: string;
+
+  @IsString()
+  name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ImportProfileColumnDto)
+  columns: ImportProfileColumnDto[];
+
+  @IsIn(DATE_FORMATS)
+  @IsOptional()
+  dateFormat?: string;
+
+  @IsIn(DECIMAL_SEPARATORS)
+  @IsOptional()
+  decimalSeparator?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isDefault?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
+
+export class UpdateImportProfileDto extends PartialType(
+  CreateImportProfileDto,
+) {}
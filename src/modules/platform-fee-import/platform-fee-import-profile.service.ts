@@ -0,0 +1,287 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import {
+  PlatformFeeImportColumn,
+  PlatformFeeImportProfile,
+} from '../../entities/platform-fee-import-profile.entity';
+import { PlatformFeeImportShopee } from '../../entities/platform-fee-import-shopee.entity';
+import { PlatformFeeImportTiktok } from '../../entities/platform-fee-import-tiktok.entity';
+import { PlatformFeeImportLazada } from '../../entities/platform-fee-import-lazada.entity';
+import {
+  DEFAULT_IMPORT_PROFILES,
+  normalizeImportHeader,
+} from './constants/platform-fee-import.constants';
+import {
+  CreateImportProfileDto,
+  UpdateImportProfileDto,
+} from './dto/import-profile.dto';
+
+// Các trường metadata, không map từ file
+const NON_IMPORT_FIELDS = [
+  'id',
+  'importBatchId',
+  'rowNumber',
+  'isSynced',
+  'syncedAt',
+  'createdAt',
+  'updatedAt',
+];
+
+/**
+ * Kết quả so khớp header của file với một profile
+ */
+export interface ImportProfileMatch {
+  profileId: string;
+  profileName: string;
+  columnMap: Map<string, string>; // field -> header gốc trong file
+  mappedColumns: Array<{ field: string; header: string }>;
+  missingRequired: Array<{ field: string; headers: string[] }>;
+  missingOptional: Array<{ field: string; headers: string[] }>;
+  unmappedHeaders: string[];
+}
+
+/**
+ * Quản lý profile mapping cột cho file phí sàn và tự nhận diện profile phù hợp với file upload
+ */
+@Injectable()
+export class PlatformFeeImportProfileService implements OnModuleInit {
+  private readonly logger = new Logger(PlatformFeeImportProfileService.name);
+
+  constructor(
+    @InjectRepository(PlatformFeeImportProfile)
+    private readonly profileRepo: Repository<PlatformFeeImportProfile>,
+
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async onModuleInit() {
+    const count = await this.profileRepo.count();
+    if (count > 0) {
+      return;
+    }
+
+    await this.profileRepo.save(
+      DEFAULT_IMPORT_PROFILES.map((profile) =>
+        this.profileRepo.create({ ...profile, isDefault: true }),
+      ),
+    );
+    this.logger.log(
+      `Đã khởi tạo ${DEFAULT_IMPORT_PROFILES.length} profile import phí sàn mặc định`,
+    );
+  }
+
+  async findAll(platform?: string) {
+    return this.profileRepo.find({
+      where: platform ? { platform } : {},
+      order: { platform: 'ASC', isDefault: 'DESC', name: 'ASC' },
+    });
+  }
+
+  async findOne(id: string) {
+    const profile = await this.profileRepo.findOne({ where: { id } });
+    if (!profile) {
+      throw new NotFoundException(`Import profile ${id} not found`);
+    }
+    return profile;
+  }
+
+  async create(createDto: CreateImportProfileDto) {
+    this.validateColumns(createDto.platform, createDto.columns);
+    const saved = await this.profileRepo.save(
+      this.profileRepo.create(createDto),
+    );
+    if (saved.isDefault) {
+      await this.unsetOtherDefaults(saved);
+    }
+    return saved;
+  }
+
+  async update(id: string, updateDto: UpdateImportProfileDto) {
+    const profile = await this.findOne(id);
+    Object.assign(profile, updateDto);
+    this.validateColumns(profile.platform, profile.columns);
+    const saved = await this.profileRepo.save(profile);
+    if (saved.isDefault) {
+      await this.unsetOtherDefaults(saved);
+    }
+    return saved;
+  }
+
+  async remove(id: string) {
+    const profile = await this.findOne(id);
+    await this.profileRepo.remove(profile);
+    return { success: true, message: `Đã xoá profile ${profile.name}` };
+  }
+
+  /**
+   * Profile dùng cho file mẫu: profile mặc định đang active của platform
+   */
+  async getDefaultProfile(platform: string) {
+    const profiles = await this.profileRepo.find({
+      where: { platform, active: true },
+      order: { isDefault: 'DESC', createdAt: 'ASC' },
+    });
+    if (profiles.length === 0) {
+      throw new BadRequestException(
+        `Chưa có profile import nào đang hoạt động cho ${platform}`,
+      );
+    }
+    return profiles[0];
+  }
+
+  /**
+   * Chọn profile khớp nhất với header của file
+   * Ưu tiên profile đủ cột bắt buộc, sau đó tới profile map được nhiều cột nhất
+   */
+  async detect(
+    platform: string,
+    headers: string[],
+    profileId?: string,
+  ): Promise<{
+    profile: PlatformFeeImportProfile;
+    match: ImportProfileMatch;
+    candidates: Array<{
+      profileId: string;
+      profileName: string;
+      mapped: number;
+      missingRequired: number;
+    }>;
+  }> {
+    const profiles = profileId
+      ? [await this.findOne(profileId)]
+      : await this.profileRepo.find({ where: { platform, active: true } });
+
+    if (profiles.length === 0) {
+      throw new BadRequestException(
+        `Chưa có profile import nào đang hoạt động cho ${platform}`,
+      );
+    }
+    if (profiles.some((profile) => profile.platform !== platform)) {
+      throw new BadRequestException(
+        `Profile ${profileId} không thuộc platform ${platform}`,
+      );
+    }
+
+    const ranked = profiles
+      .map((profile) => ({ profile, match: this.match(profile, headers) }))
+      .sort(
+        (a, b) =>
+          a.match.missingRequired.length - b.match.missingRequired.length ||
+          b.match.mappedColumns.length - a.match.mappedColumns.length ||
+          Number(b.profile.isDefault) - Number(a.profile.isDefault),
+      );
+
+    return {
+      ...ranked[0],
+      candidates: ranked.map(({ match }) => ({
+        profileId: match.profileId,
+        profileName: match.profileName,
+        mapped: match.mappedColumns.length,
+        missingRequired: match.missingRequired.length,
+      })),
+    };
+  }
+
+  /**
+   * So khớp header file với các cột của profile
+   * Lượt 1 khớp chính xác (bỏ dấu, hoa thường), lượt 2 khớp theo chứa chuỗi; mỗi cột file chỉ dùng 1 lần
+   */
+  match(
+    profile: PlatformFeeImportProfile,
+    headers: string[],
+  ): ImportProfileMatch {
+    const normalized = headers.map(normalizeImportHeader);
+    const used = new Set<number>();
+    const assigned = new Map<string, number>();
+
+    const assign = (matches: (header: string, synonym: string) => boolean) => {
+      for (const column of profile.columns) {
+        if (assigned.has(column.field)) continue;
+        for (const synonym of column.headers.map(normalizeImportHeader)) {
+          const index = normalized.findIndex(
+            (header, i) => !used.has(i) && !!header && matches(header, synonym),
+          );
+          if (index !== -1) {
+            used.add(index);
+            assigned.set(column.field, index);
+            break;
+          }
+        }
+      }
+    };
+    assign((header, synonym) => header === synonym);
+    assign(
+      (header, synonym) => header.includes(synonym) || synonym.includes(header),
+    );
+
+    const columnMap = new Map<string, string>();
+    for (const [field, index] of assigned) {
+      columnMap.set(field, headers[index]);
+    }
+    const missing = profile.columns.filter(
+      (column) => !assigned.has(column.field),
+    );
+
+    return {
+      profileId: profile.id,
+      profileName: profile.name,
+      columnMap,
+      mappedColumns: [...columnMap].map(([field, header]) => ({
+        field,
+        header,
+      })),
+      missingRequired: missing
+        .filter((column) => column.required)
+        .map(({ field, headers }) => ({ field, headers })),
+      missingOptional: missing
+        .filter((column) => !column.required)
+        .map(({ field, headers }) => ({ field, headers })),
+      unmappedHeaders: headers.filter((header, i) => !used.has(i)),
+    };
+  }
+
+  private validateColumns(
+    platform: string,
+    columns: PlatformFeeImportColumn[] = [],
+  ) {
+    const target =
+      platform === 'shopee'
+        ? PlatformFeeImportShopee
+        : platform === 'tiktok'
+          ? PlatformFeeImportTiktok
+          : PlatformFeeImportLazada;
+    const fields = this.dataSource
+      .getMetadata(target)
+      .columns.map((column) => column.propertyName)
+      .filter((field) => !NON_IMPORT_FIELDS.includes(field));
+
+    const invalid = columns
+      .map((column) => column.field)
+      .filter((field) => !fields.includes(field));
+    if (invalid.length > 0) {
+      throw new BadRequestException(
+        `Trường không hợp lệ cho ${platform}: ${invalid.join(', ')}`,
+      );
+    }
+  }
+
+  private async unsetOtherDefaults(profile: PlatformFeeImportProfile) {
+    await this.profileRepo
+      .createQueryBuilder()
+      .update()
+      .set({ isDefault: false })
+      .where('platform = :platform AND id != :id', {
+        platform: profile.platform,
+        id: profile.id,
+      })
+      .execute();
+  }
+}
@@ -16,18 +16,30 @@ import { FileInterceptor } from '@nestjs/platform-express';
 import type { Response } from 'express';
 import { PlatformFeeImportService } from './platform-fee-import.service';
 import { ImportPlatformFeeDto } from './dto/import-platform-fee.dto';
+import { PlatformFeeImportProfileService } from './platform-fee-import-profile.service';
+import {
+  CreateImportProfileDto,
+  UpdateImportProfileDto,
+} from './dto/import-profile.dto';
+import { CurrentUser, Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
+import type { AuthUser } from '../auth/constants/auth.constants';
 
 @Controller('platform-fee-import')
 export class PlatformFeeImportController {
   constructor(
     private readonly platformFeeImportService: PlatformFeeImportService,
+    private readonly importProfileService: PlatformFeeImportProfileService,
   ) { }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('import')
   @UseInterceptors(FileInterceptor('file'))
   async importExcel(
     @UploadedFile() file: Express.Multer.File,
-    @Body() body: { platform: 'shopee' | 'tiktok' | 'lazada' },
+    @Body()
+    body: { platform: 'shopee' | 'tiktok' | 'lazada'; profileId?: string },
+    @CurrentUser() user?: AuthUser,
   ) {
     if (!file) {
       throw new BadRequestException('File không được tìm thấy');
@@ -57,12 +69,14 @@ export class PlatformFeeImportController {
     }
 
     try {
-      const result = await this.platformFeeImportService.importFromExcel(
+      const result = await this.platformFeeImportService.stageImportFromExcel(
         file,
         body.platform,
+        user?.username,
+        body.profileId,
       );
       return {
-        message: `Import thành công ${result.success}/${result.total} bản ghi`,
+        message: `Đã đọc ${result.total} dòng (${result.valid} hợp lệ, ${result.invalid} lỗi). Kiểm tra và commit batch ${result.batchId} để ghi dữ liệu`,
         ...result,
       };
     } catch (error: any) {
@@ -72,6 +86,125 @@ export class PlatformFeeImportController {
     }
   }
 
+  /**
+   * Nhận diện profile mapping cột cho file trước khi import
+   */
+  @Roles(ROLES.ACCOUNTANT)
+  @Post('detect-profile')
+  @UseInterceptors(FileInterceptor('file'))
+  async detectProfile(
+    @UploadedFile() file: Express.Multer.File,
+    @Body()
+    body: { platform: 'shopee' | 'tiktok' | 'lazada'; profileId?: string },
+  ) {
+    if (!file) {
+      throw new BadRequestException('File không được tìm thấy');
+    }
+    if (!['shopee', 'tiktok', 'lazada'].includes(body.platform)) {
+      throw new BadRequestException(
+        'Platform không hợp lệ. Phải là shopee, tiktok hoặc lazada',
+      );
+    }
+    return this.platformFeeImportService.detectProfile(
+      file,
+      body.platform,
+      body.profileId,
+    );
+  }
+
+  // Import profile endpoints
+  @Get('profiles')
+  async findProfiles(@Query('platform') platform?: string) {
+    return this.importProfileService.findAll(platform);
+  }
+
+  @Get('profiles/:id')
+  async findProfile(@Param('id') id: string) {
+    return this.importProfileService.findOne(id);
+  }
+
+  @Roles(ROLES.ACCOUNTANT)
+  @Post('profiles')
+  async createProfile(@Body() createDto: CreateImportProfileDto) {
+    return this.importProfileService.create(createDto);
+  }
+
+  @Roles(ROLES.ACCOUNTANT)
+  @Put('profiles/:id')
+  async updateProfile(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateImportProfileDto,
+  ) {
+    return this.importProfileService.update(id, updateDto);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Delete('profiles/:id')
+  async deleteProfile(@Param('id') id: string) {
+    return this.importProfileService.remove(id);
+  }
+
+  @Get('batches')
+  async findBatches(
+    @Query('platform') platform?: string,
+    @Query('status') status?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.platformFeeImportService.findBatches({
+      platform,
+      status,
+      page: page ? parseInt(page) : undefined,
+      limit: limit ? parseInt(limit) : undefined,
+    });
+  }
+
+  @Get('batches/:batchId')
+  async findBatch(
+    @Param('batchId') batchId: string,
+    @Query('onlyInvalid') onlyInvalid?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.platformFeeImportService.findBatch(batchId, {
+      onlyInvalid: onlyInvalid === 'true',
+      page: page ? parseInt(page) : undefined,
+      limit: limit ? parseInt(limit) : undefined,
+    });
+  }
+
+  @Get('batches/:batchId/unknown-orders')
+  async downloadUnknownOrders(
+    @Param('batchId') batchId: string,
+    @Res() res: Response,
+  ) {
+    const buffer =
+      await this.platformFeeImportService.exportUnknownOrders(batchId);
+
+    res.setHeader(
+      'Content-Type',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="Ma_don_khong_ton_tai_${batchId}.xlsx"`,
+    );
+    res.setHeader('Content-Length', buffer.length);
+    res.send(buffer);
+  }
+
+  @Roles(ROLES.ACCOUNTANT)
+  @Post('batches/:batchId/commit')
+  async commitBatch(@Param('batchId') batchId: string) {
+    return this.platformFeeImportService.commitBatch(batchId);
+  }
+
+  @Roles(ROLES.ACCOUNTANT)
+  @Post('batches/:batchId/discard')
+  async discardBatch(@Param('batchId') batchId: string) {
+    return this.platformFeeImportService.discardBatch(batchId);
+  }
+
   @Get()
   async findAll(
     @Query('platform') platform?: string,
@@ -155,16 +288,19 @@ export class PlatformFeeImportController {
     });
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('fee-map')
   async createFeeMap(@Body() body: any) {
     return this.platformFeeImportService.createFeeMap(body);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Put('fee-map/:id')
   async updateFeeMap(@Param('id') id: string, @Body() body: any) {
     return this.platformFeeImportService.updateFeeMap(id, body);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Put('fee/:platform/:id')
   async update(
     @Param('platform') platform: string,
@@ -179,6 +315,7 @@ export class PlatformFeeImportController {
     return this.platformFeeImportService.update(platform, id, body);
   }
 
+  @Roles(ROLES.ADMIN)
   @Delete('fee/:platform/:id')
   async deleteFee(
     @Param('platform') platform: string,
@@ -190,6 +327,7 @@ export class PlatformFeeImportController {
     return this.platformFeeImportService.deleteFee(platform, id);
   }
 
+  @Roles(ROLES.ADMIN)
   @Delete('fee/:platform/batch/:batchId')
   async deleteFeesByBatch(
     @Param('platform') platform: string,
@@ -201,6 +339,7 @@ export class PlatformFeeImportController {
     return this.platformFeeImportService.deleteFeesByBatch(platform, batchId);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('fee/:platform/:id/mark-synced')
   async markAsSynced(
     @Param('platform') platform: string,
@@ -212,6 +351,7 @@ export class PlatformFeeImportController {
     return this.platformFeeImportService.markAsSynced(platform, id);
   }
 
+  @Roles(ROLES.ADMIN)
   @Delete('fee-map/:id')
   async deleteFeeMap(@Param('id') id: string) {
     return this.platformFeeImportService.deleteFeeMap(id);
@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { PlatformFeeImportService } from './platform-fee-import.service';
+import { PlatformFeeImportProfileService } from './platform-fee-import-profile.service';
 import { PlatformFeeImportController } from './platform-fee-import.controller';
 import { PlatformFeeImportShopee } from '../../entities/platform-fee-import-shopee.entity';
 import { PlatformFeeImportTiktok } from '../../entities/platform-fee-import-tiktok.entity';
@@ -8,6 +9,9 @@ import { PlatformFeeImportLazada } from '../../entities/platform-fee-import-laza
 import { PlatformFeeMap } from '../../entities/platform-fee-map.entity';
 import { ShopeeFee } from '../../entities/shopee-fee.entity';
 import { TikTokFee } from '../../entities/tiktok-fee.entity';
+import { PlatformFeeImportBatch } from '../../entities/platform-fee-import-batch.entity';
+import { PlatformFeeImportStagingRow } from '../../entities/platform-fee-import-staging-row.entity';
+import { PlatformFeeImportProfile } from '../../entities/platform-fee-import-profile.entity';
 
 @Module({
   imports: [
@@ -18,10 +22,13 @@ import { TikTokFee } from '../../entities/tiktok-fee.entity';
       PlatformFeeMap,
       ShopeeFee,
       TikTokFee,
+      PlatformFeeImportBatch,
+      PlatformFeeImportStagingRow,
+      PlatformFeeImportProfile,
     ]),
   ],
   controllers: [PlatformFeeImportController],
-  providers: [PlatformFeeImportService],
+  providers: [PlatformFeeImportService, PlatformFeeImportProfileService],
   exports: [PlatformFeeImportService],
 })
 export class PlatformFeeImportModule { }
@@ -1,6 +1,11 @@
-import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository, InjectDataSource } from '@nestjs/typeorm';
-import { DataSource, Repository } from 'typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
 import * as XLSX from 'xlsx';
 import { PlatformFeeImportShopee } from '../../entities/platform-fee-import-shopee.entity';
 import { PlatformFeeImportTiktok } from '../../entities/platform-fee-import-tiktok.entity';
@@ -8,10 +13,36 @@ import { PlatformFeeImportLazada } from '../../entities/platform-fee-import-laza
 import { PlatformFeeMap } from '../../entities/platform-fee-map.entity';
 import { ShopeeFee } from '../../entities/shopee-fee.entity';
 import { TikTokFee } from '../../entities/tiktok-fee.entity';
+import { PlatformFeeImportBatch } from '../../entities/platform-fee-import-batch.entity';
+import { PlatformFeeImportStagingRow } from '../../entities/platform-fee-import-staging-row.entity';
+import { PlatformFeeImportProfile } from '../../entities/platform-fee-import-profile.entity';
+import { PlatformFeeImportProfileService } from './platform-fee-import-profile.service';
 import { In } from 'typeorm';
+import * as _ from 'lodash';
 // Using crypto for UUID generation (built-in Node.js)
+import { randomUUID } from 'crypto';
 
 type Platform = 'shopee' | 'tiktok' | 'lazada';
+
+// Số mã đơn / dòng mỗi lần query hoặc insert
+const IMPORT_CHUNK_SIZE = 1000;
+
+// Các trường metadata, không dùng khi so trùng dòng
+const IMPORT_METADATA_FIELDS = [
+  'id',
+  'importBatchId',
+  'rowNumber',
+  'isSynced',
+  'syncedAt',
+  'createdAt',
+  'updatedAt',
+];
+
+export const IMPORT_BATCH_STATUS = {
+  PENDING: 'PENDING', // Đã parse, chờ review
+  COMMITTED: 'COMMITTED', // Đã ghi vào bảng phí sàn
+  DISCARDED: 'DISCARDED', // Đã huỷ
+} as const;
 type PlatformFeeEntity =
   | PlatformFeeImportShopee
   | PlatformFeeImportTiktok
@@ -40,113 +71,200 @@ export class PlatformFeeImportService {
     @InjectRepository(TikTokFee)
     private readonly tiktokFeeRepo: Repository<TikTokFee>,
 
+    @InjectRepository(PlatformFeeImportBatch)
+    private readonly batchRepo: Repository<PlatformFeeImportBatch>,
+
+    @InjectRepository(PlatformFeeImportStagingRow)
+    private readonly stagingRowRepo: Repository<PlatformFeeImportStagingRow>,
+
     @InjectDataSource()
     private readonly dataSource: DataSource,
+
+    private readonly importProfileService: PlatformFeeImportProfileService,
   ) { }
 
-  async importFromExcel(
+  /**
+   * Nhận diện profile mapping cột cho file, báo cột thiếu / cột không map được (chưa import)
+   */
+  async detectProfile(
     file: Express.Multer.File,
     platform: Platform,
+    profileId?: string,
+  ) {
+    const data = this.readSheet(file);
+    const { profile, match, candidates } =
+      await this.importProfileService.detect(
+        platform,
+        Object.keys(data[0]),
+        profileId,
+      );
+
+    return {
+      profileId: profile.id,
+      profileName: profile.name,
+      canImport: match.missingRequired.length === 0,
+      mappedColumns: match.mappedColumns,
+      missingRequired: match.missingRequired,
+      missingOptional: match.missingOptional,
+      unmappedHeaders: match.unmappedHeaders,
+      candidates,
+    };
+  }
+
+  /**
+   * Bước 1: parse + validate file, lưu vào bảng staging dưới dạng batch PENDING
+   * Chưa ghi vào bảng phí sàn cho tới khi commit
+   */
+  async stageImportFromExcel(
+    file: Express.Multer.File,
+    platform: Platform,
+    createdBy?: string,
+    profileId?: string,
   ): Promise<{
+    batchId: string;
+    status: string;
+    profileId: string;
+    profileName: string;
+    unmappedHeaders: string[];
+    missingColumns: string[];
     total: number;
-    success: number;
-    failed: number;
+    valid: number;
+    invalid: number;
+    unknownOrders: { count: number; sample: string[] };
     errors: Array<{ row: number; error: string }>;
   }> {
     try {
-      const workbook = XLSX.read(file.buffer, {
-        type: 'buffer',
-        cellDates: false,
-        cellNF: false,
-        cellText: false,
-      });
-
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      const data = XLSX.utils.sheet_to_json(worksheet, {
-        raw: true,
-        defval: null,
-      }) as Record<string, any>[];
+      const data = this.readSheet(file);
 
-      if (data.length === 0) {
-        throw new BadRequestException('File Excel không có dữ liệu');
+      // Nhận diện profile theo header; thiếu cột bắt buộc thì không import
+      const { profile, match } = await this.importProfileService.detect(
+        platform,
+        Object.keys(data[0]),
+        profileId,
+      );
+      if (match.missingRequired.length > 0) {
+        throw new BadRequestException(
+          `File thiếu cột bắt buộc theo profile "${profile.name}": ${match.missingRequired
+            .map((column) => column.headers[0])
+            .join(', ')}`,
+        );
       }
 
-      const importBatchId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+      const batchId = randomUUID();
       const errors: Array<{ row: number; error: string }> = [];
-      let success = 0;
-      let failed = 0;
-
-      // Normalize header
-      const normalizeHeader = (header: string): string => {
-        return String(header || '')
-          .trim()
-          .toLowerCase()
-          .replace(/\s+/g, ' ');
-      };
-
-      // Get headers from first row
-      const firstRow = data[0];
-      const headers = Object.keys(firstRow).map(normalizeHeader);
+      const lazadaFeeMaps =
+        platform === 'lazada' ? await this.loadLazadaFeeMaps() : null;
 
-      const repo = this.getRepositoryByPlatform(platform) as Repository<any>;
-
-      // Process each row
-      for (let i = 0; i < data.length; i++) {
-        const row = data[i];
+      // Bước 1: parse toàn bộ dòng (chưa truy vấn DB theo từng dòng)
+      const parsedRows = data.map((row, i) => {
         const rowNumber = i + 2; // +2 because Excel rows start at 1 and we skip header
+        const rowErrors: string[] = [];
+        let entity: PlatformFeeEntity | null = null;
+        let orderId: string | null = null;
 
         try {
-          const entity = this.mapRowToEntity(
+          entity = this.mapRowToEntity(
             row,
-            headers,
+            profile,
+            match.columnMap,
             platform,
-            importBatchId,
+            batchId,
             rowNumber,
           );
 
           // Apply fee mapping for Lazada rows (map tên phí text -> mã phí hạch toán)
-          if (platform === 'lazada') {
-            await this.applyLazadaFeeMapping(
+          if (lazadaFeeMaps) {
+            this.applyLazadaFeeMapping(
               entity as PlatformFeeImportLazada,
+              lazadaFeeMaps,
             );
           }
 
           // Determine order id from imported entity
           // NOTE: "cột mã đơn hàng" user refers to the main order code on each platform
           // (Mã Shopee/Tiktok/Lazada => maSan). "Mã đơn hàng hoàn" is refund/return code.
-          const orderId: string | null =
+          orderId =
             this.toText((entity as any).maSan) ||
             this.toText((entity as any).maDonHangHoan) ||
             null;
 
           if (!orderId) {
-            throw new Error('Không tìm thấy mã đơn hàng trong dòng dữ liệu');
+            rowErrors.push('Không tìm thấy mã đơn hàng trong dòng dữ liệu');
           }
+        } catch (error: any) {
+          rowErrors.push(error.message || 'Lỗi không xác định');
+          this.logger.error(`Error parsing row ${rowNumber}: ${error.message}`);
+        }
 
-          const exists = await this.checkPancakeOrderExists(orderId);
-          if (!exists) {
-            throw new Error(
-              `Mã đơn hàng "${orderId}" không tồn tại trong bảng platform_fee`,
-            );
-          }
+        rowErrors.forEach((error) => errors.push({ row: rowNumber, error }));
+        return { rowNumber, entity, orderId, rowErrors };
+      });
 
-          await repo.save(entity as any);
-          success++;
-        } catch (error: any) {
-          failed++;
-          errors.push({
-            row: rowNumber,
-            error: error.message || 'Lỗi không xác định',
-          });
-          this.logger.error(`Error importing row ${rowNumber}: ${error.message}`);
+      // Bước 2: kiểm tra mã đơn với bảng platform_fee theo lô
+      const existingOrderIds = await this.findExistingPancakeOrderIds(
+        parsedRows
+          .map((row) => row.orderId)
+          .filter((orderId): orderId is string => !!orderId),
+      );
+      const unknownOrderIds = new Set<string>();
+      for (const row of parsedRows) {
+        if (row.orderId && !existingOrderIds.has(row.orderId)) {
+          unknownOrderIds.add(row.orderId);
+          row.rowErrors.push(
+            `Mã đơn hàng "${row.orderId}" không tồn tại trong bảng platform_fee`,
+          );
         }
       }
 
+      const stagingRows = parsedRows.map((row) =>
+        this.stagingRowRepo.create({
+          batchId,
+          rowNumber: row.rowNumber,
+          orderId: row.orderId,
+          data: row.entity ? this.toStagingData(row.entity) : null,
+          errors: row.rowErrors,
+          isValid: row.rowErrors.length === 0,
+        }),
+      );
+      const validRows = stagingRows.filter((row) => row.isValid).length;
+
+      // Bước 3: lưu batch + staging trong 1 transaction, insert theo lô
+      const batch = this.batchRepo.create({
+        id: batchId,
+        platform,
+        fileName: file.originalname || null,
+        status: IMPORT_BATCH_STATUS.PENDING,
+        createdBy: createdBy || null,
+        profileId: profile.id,
+        totalRows: stagingRows.length,
+        validRows,
+        invalidRows: stagingRows.length - validRows,
+        unknownOrderIds: [...unknownOrderIds],
+      });
+      await this.dataSource.transaction(async (manager) => {
+        await manager.getRepository(PlatformFeeImportBatch).insert(batch);
+        for (const chunk of _.chunk(stagingRows, IMPORT_CHUNK_SIZE)) {
+          await manager.getRepository(PlatformFeeImportStagingRow).insert(chunk);
+        }
+      });
+
       return {
-        total: data.length,
-        success,
-        failed,
+        batchId: batch.id,
+        status: batch.status,
+        profileId: profile.id,
+        profileName: profile.name,
+        unmappedHeaders: match.unmappedHeaders,
+        missingColumns: match.missingOptional.map(
+          (column) => column.headers[0],
+        ),
+        total: batch.totalRows,
+        valid: batch.validRows,
+        invalid: batch.invalidRows,
+        // Mã đơn không tồn tại báo gộp, tải đầy đủ qua /batches/:batchId/unknown-orders
+        unknownOrders: {
+          count: unknownOrderIds.size,
+          sample: [...unknownOrderIds].slice(0, 50),
+        },
         errors,
       };
     } catch (error: any) {
@@ -157,6 +275,253 @@ export class PlatformFeeImportService {
     }
   }
 
+  /**
+   * Danh sách batch import (mới nhất trước)
+   */
+  async findBatches(params?: {
+    platform?: string;
+    status?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const page = params?.page || 1;
+    const limit = params?.limit || 20;
+
+    const qb = this.batchRepo.createQueryBuilder('batch');
+    if (params?.platform) {
+      qb.andWhere('batch.platform = :platform', { platform: params.platform });
+    }
+    if (params?.status) {
+      qb.andWhere('batch.status = :status', { status: params.status });
+    }
+    qb.orderBy('batch.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
+
+    const [batches, total] = await qb.getManyAndCount();
+    // Danh sách chỉ trả số lượng mã đơn không tồn tại, chi tiết tải qua /unknown-orders
+    const data = batches.map(({ unknownOrderIds, ...batch }) => ({
+      ...batch,
+      unknownOrderCount: unknownOrderIds?.length || 0,
+    }));
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Chi tiết batch kèm các dòng staging để review (có thể lọc chỉ dòng lỗi)
+   */
+  async findBatch(
+    batchId: string,
+    params?: { onlyInvalid?: boolean; page?: number; limit?: number },
+  ) {
+    const batch = await this.getBatch(batchId);
+    const page = params?.page || 1;
+    const limit = params?.limit || 50;
+
+    const [rows, total] = await this.stagingRowRepo.findAndCount({
+      where: {
+        batchId,
+        ...(params?.onlyInvalid && { isValid: false }),
+      },
+      order: { rowNumber: 'ASC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      batch,
+      rows: {
+        data: rows,
+        meta: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    };
+  }
+
+  /**
+   * Bước 2: ghi toàn bộ dòng hợp lệ của batch vào bảng phí sàn trong 1 transaction
+   * Dòng lỗi bị bỏ qua; lỗi giữa chừng thì không có dòng nào được ghi
+   * Chuyển trạng thái PENDING -> COMMITTED trước khi insert để 2 lần commit đồng thời không ghi trùng
+   */
+  async commitBatch(batchId: string) {
+    const batch = await this.getPendingBatch(batchId);
+    const rows = await this.stagingRowRepo.find({
+      where: { batchId, isValid: true },
+      order: { rowNumber: 'ASC' },
+    });
+
+    if (rows.length === 0) {
+      throw new BadRequestException(
+        `Batch ${batchId} không có dòng hợp lệ nào để commit`,
+      );
+    }
+
+    const target = this.getEntityClassByPlatform(batch.platform as Platform);
+    let committed = 0;
+    let duplicates = 0;
+    await this.dataSource.transaction(async (manager) => {
+      await this.claimPendingBatch(manager, batchId, {
+        status: IMPORT_BATCH_STATUS.COMMITTED,
+        committedAt: new Date(),
+      });
+      const repo = manager.getRepository(target);
+
+      // Bỏ qua dòng đã có sẵn trong bảng phí sàn (upload lại file đã import)
+      const existingKeys = await this.findExistingRowKeys(
+        repo,
+        rows.map((row) => row.orderId).filter((id): id is string => !!id),
+      );
+      const newRows = rows.filter((row) => {
+        const key = this.buildRowKey(row.data || {});
+        if (existingKeys.has(key)) {
+          duplicates++;
+          return false;
+        }
+        return true;
+      });
+
+      for (const chunk of _.chunk(newRows, IMPORT_CHUNK_SIZE)) {
+        await repo.insert(
+          chunk.map((row) =>
+            repo.create({
+              ...row.data,
+              importBatchId: batch.id,
+              rowNumber: row.rowNumber,
+            }),
+          ),
+        );
+      }
+      committed = newRows.length;
+
+      await manager
+        .getRepository(PlatformFeeImportBatch)
+        .update(batchId, { committedRows: committed });
+      await manager
+        .getRepository(PlatformFeeImportStagingRow)
+        .delete({ batchId });
+    });
+
+    return {
+      success: true,
+      batchId,
+      committed,
+      duplicates,
+      skipped: batch.invalidRows,
+    };
+  }
+
+  /**
+   * File Excel danh sách mã đơn không tồn tại trong bảng platform_fee của batch
+   */
+  async exportUnknownOrders(batchId: string): Promise<Buffer> {
+    const batch = await this.getBatch(batchId);
+    const worksheet = XLSX.utils.json_to_sheet(
+      (batch.unknownOrderIds || []).map((orderId) => ({
+        'Mã đơn hàng': orderId,
+        'Sàn TMĐT': batch.platform,
+      })),
+      { header: ['Mã đơn hàng', 'Sàn TMĐT'] },
+    );
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Mã đơn không tồn tại');
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+  }
+
+  /**
+   * Huỷ batch đang chờ: xoá dữ liệu staging, không ghi gì vào bảng phí sàn
+   */
+  async discardBatch(batchId: string) {
+    await this.getPendingBatch(batchId);
+
+    await this.dataSource.transaction(async (manager) => {
+      await this.claimPendingBatch(manager, batchId, {
+        status: IMPORT_BATCH_STATUS.DISCARDED,
+        discardedAt: new Date(),
+      });
+      await manager
+        .getRepository(PlatformFeeImportStagingRow)
+        .delete({ batchId });
+    });
+
+    return { success: true, batchId };
+  }
+
+  private async getBatch(batchId: string) {
+    const batch = await this.batchRepo.findOne({ where: { id: batchId } });
+    if (!batch) {
+      throw new NotFoundException(`Import batch ${batchId} not found`);
+    }
+    return batch;
+  }
+
+  private async getPendingBatch(batchId: string) {
+    const batch = await this.getBatch(batchId);
+    if (batch.status !== IMPORT_BATCH_STATUS.PENDING) {
+      throw new BadRequestException(
+        `Batch ${batchId} đang ở trạng thái ${batch.status}, chỉ xử lý được batch PENDING`,
+      );
+    }
+    return batch;
+  }
+
+  /**
+   * Chuyển batch khỏi PENDING bằng 1 câu UPDATE có điều kiện trạng thái
+   * Tiến trình đến sau chờ khoá dòng rồi không còn dòng PENDING nào để cập nhật
+   */
+  private async claimPendingBatch(
+    manager: EntityManager,
+    batchId: string,
+    changes: Partial<PlatformFeeImportBatch>,
+  ) {
+    const result = await manager
+      .getRepository(PlatformFeeImportBatch)
+      .update({ id: batchId, status: IMPORT_BATCH_STATUS.PENDING }, changes);
+    if (!result.affected) {
+      throw new BadRequestException(
+        `Batch ${batchId} đã được xử lý bởi yêu cầu khác, chỉ xử lý được batch PENDING`,
+      );
+    }
+  }
+
+  private getEntityClassByPlatform(platform: Platform) {
+    if (platform === 'shopee') return PlatformFeeImportShopee;
+    if (platform === 'tiktok') return PlatformFeeImportTiktok;
+    return PlatformFeeImportLazada;
+  }
+
+  private readSheet(file: Express.Multer.File): Record<string, any>[] {
+    const workbook = XLSX.read(file.buffer, {
+      type: 'buffer',
+      cellDates: false,
+      cellNF: false,
+      cellText: false,
+    });
+
+    const sheetName = workbook.SheetNames[0];
+    const worksheet = workbook.Sheets[sheetName];
+    const data = XLSX.utils.sheet_to_json(worksheet, {
+      raw: true,
+      defval: null,
+    });
+
+    if (data.length === 0) {
+      throw new BadRequestException('File Excel không có dữ liệu');
+    }
+    return data as Record<string, any>[];
+  }
+
   private getRepositoryByPlatform(platform: Platform) {
     if (platform === 'shopee') return this.shopeeRepo;
     if (platform === 'tiktok') return this.tiktokRepo;
@@ -170,12 +535,81 @@ export class PlatformFeeImportService {
     return trimmed.length ? trimmed : null;
   }
 
-  private async checkPancakeOrderExists(orderId: string): Promise<boolean> {
-    const rows = await this.dataSource.query(
-      'SELECT 1 FROM public.platform_fee WHERE pancake_order_id = $1 LIMIT 1',
-      [orderId],
+  /**
+   * Kiểm tra mã đơn với bảng platform_fee theo lô (1 query / IMPORT_CHUNK_SIZE mã)
+   */
+  private async findExistingPancakeOrderIds(
+    orderIds: string[],
+  ): Promise<Set<string>> {
+    const existing = new Set<string>();
+    for (const chunk of _.chunk(_.uniq(orderIds), IMPORT_CHUNK_SIZE)) {
+      const rows: Array<{ pancake_order_id: string }> =
+        await this.dataSource.query(
+          'SELECT DISTINCT pancake_order_id FROM public.platform_fee WHERE pancake_order_id = ANY($1)',
+          [chunk],
+        );
+      rows.forEach((row) => existing.add(row.pancake_order_id));
+    }
+    return existing;
+  }
+
+  /**
+   * Key của các dòng phí sàn đã có cho những mã đơn trong batch
+   */
+  private async findExistingRowKeys(
+    repo: Repository<any>,
+    orderIds: string[],
+  ): Promise<Set<string>> {
+    const keys = new Set<string>();
+    for (const chunk of _.chunk(_.uniq(orderIds), IMPORT_CHUNK_SIZE)) {
+      const rows = await repo.find({
+        where: [{ maSan: In(chunk) }, { maDonHangHoan: In(chunk) }],
+      });
+      rows.forEach((row) => keys.add(this.buildRowKey(row)));
+    }
+    return keys;
+  }
+
+  /**
+   * Key so sánh trùng: toàn bộ trường dữ liệu (bỏ metadata), chuẩn hóa số / ngày
+   */
+  private buildRowKey(row: Record<string, any>): string {
+    const values = Object.keys(row)
+      .filter((field) => !IMPORT_METADATA_FIELDS.includes(field))
+      .sort()
+      .map((field) => {
+        const value = row[field];
+        if (value === null || value === undefined || value === '') {
+          return [field, null];
+        }
+        if (value instanceof Date) {
+          return [field, this.formatDateOnly(value)];
+        }
+        if (typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value)) {
+          return [field, Number(value)];
+        }
+        if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+          return [field, value.slice(0, 10)];
+        }
+        return [field, value];
+      })
+      .filter(([, value]) => value !== null);
+    return JSON.stringify(values);
+  }
+
+  /**
+   * Dữ liệu lưu staging (jsonb): ngày đổi về YYYY-MM-DD để không lệch múi giờ khi commit
+   */
+  private toStagingData(entity: PlatformFeeEntity): Record<string, any> {
+    return _.mapValues({ ...entity }, (value) =>
+      value instanceof Date ? this.formatDateOnly(value) : value,
     );
-    return Array.isArray(rows) && rows.length > 0;
+  }
+
+  private formatDateOnly(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
   }
 
   private normalizeFeeName(name: string | null): string | null {
@@ -187,23 +621,29 @@ export class PlatformFeeImportService {
       .trim();
   }
 
-  private async applyLazadaFeeMapping(
+  /**
+   * Bảng mapping tên phí Lazada đang active, key = tên phí đã chuẩn hóa
+   */
+  private async loadLazadaFeeMaps(): Promise<Map<string, PlatformFeeMap>> {
+    const mappings = await this.feeMapRepo.find({
+      where: { platform: 'lazada', active: true },
+    });
+    return new Map(
+      mappings.map((mapping) => [mapping.normalizedFeeName, mapping]),
+    );
+  }
+
+  private applyLazadaFeeMapping(
     entity: PlatformFeeImportLazada,
-  ): Promise<void> {
+    feeMaps: Map<string, PlatformFeeMap>,
+  ): void {
     const rawName = entity.tenPhiDoanhThu;
     const normalized = this.normalizeFeeName(rawName);
     if (!normalized) {
       return;
     }
 
-    const mapping = await this.feeMapRepo.findOne({
-      where: {
-        platform: 'lazada',
-        normalizedFeeName: normalized,
-        active: true,
-      },
-    });
-
+    const mapping = feeMaps.get(normalized);
     if (mapping) {
       // Ghi đè/điền mã phí hạch toán theo bảng mapping
       entity.maPhiNhanDienHachToan = mapping.accountCode;
@@ -212,7 +652,8 @@ export class PlatformFeeImportService {
 
   private mapRowToEntity(
     row: Record<string, any>,
-    headers: string[],
+    profile: PlatformFeeImportProfile,
+    columnMap: Map<string, string>,
     platform: Platform,
     importBatchId: string,
     rowNumber: number,
@@ -227,272 +668,24 @@ export class PlatformFeeImportService {
     (entity as any).importBatchId = importBatchId;
     (entity as any).rowNumber = rowNumber;
 
-    // Helper to get value by header name (case-insensitive, flexible matching)
-    const getValue = (headerPatterns: string[]): any => {
-      for (const pattern of headerPatterns) {
-        const normalizedPattern = normalizeHeader(pattern);
-        const headerIndex = headers.findIndex((h) =>
-          h.includes(normalizedPattern) || normalizedPattern.includes(h),
-        );
-        if (headerIndex !== -1) {
-          const originalKey = Object.keys(row)[headerIndex];
-          return row[originalKey];
-        }
-      }
-      return null;
-    };
-
-    const normalizeHeader = (header: string): string => {
-      return String(header || '').trim().toLowerCase().replace(/\s+/g, ' ');
-    };
-
-    // Common fields
-    if (platform === 'shopee') {
-      const e = entity as PlatformFeeImportShopee;
-      e.maSan = this.toText(getValue(['mã shopee', 'ma shopee', 'mã shopee']));
-      e.maNoiBoSp = this.toText(getValue(['mã nội bộ sp', 'ma noi bo sp']));
-      e.ngayDoiSoat = this.parseDate(
-        getValue(['ngày đối soát', 'ngay doi soat']),
-      ) || null;
-      e.maDonHangHoan = this.toText(getValue([
-        'mã đơn hàng hoàn',
-        'ma don hang hoan',
-      ]));
-      e.shopPhatHanhTrenSan = this.toText(getValue([
-        'shop phát hành trên sàn',
-        'shop phat hanh tren san',
-      ]));
-      e.giaTriGiamGiaCtkm = this.parseDecimal(
-        getValue([
-          'giá trị giảm giá theo ctkm của mình ban hành',
-          'gia tri giam gia theo ctkm cua minh ban hanh',
-        ]),
-      ) || null;
-      e.doanhThuDonHang = this.parseDecimal(
-        getValue(['doanh thu đơn hàng', 'doanh thu don hang']),
-      ) || null;
-
-      // Shopee specific fees (6 fees) - Map by exact column names
-      e.phiCoDinh605MaPhi164020 = this.parseDecimal(
-        getValue([
-          'phí cố định 6.05% mã phí 164020',
-          'phi co dinh 6.05% ma phi 164020',
-          'phí cố định 6.05% mã phí 164020',
-        ]),
-      ) || null;
-      e.phiDichVu6MaPhi164020 = this.parseDecimal(
-        getValue([
-          'phí dịch vụ 6% mã phí 164020',
-          'phi dich vu 6% ma phi 164020',
-          'phí dịch vụ 6% mã phí 164020',
-        ]),
-      ) || null;
-      e.phiThanhToan5MaPhi164020 = this.parseDecimal(
-        getValue([
-          'phí thanh toán 5% mã phí 164020',
-          'phi thanh toan 5% ma phi 164020',
-          'phí thanh toán 5% mã phí 164020',
-        ]),
-      ) || null;
-      e.phiHoaHongTiepThiLienKet21150050 = this.parseDecimal(
-        getValue([
-          'phí hoa hồng tiếp thị liên kết 21% 150050',
-          'phi hoa hong tiep thi lien ket 21% 150050',
-          'phí hoa hồng tiếp thị liên kết 21% 150050',
-        ]),
-      ) || null;
-      e.chiPhiDichVuShippingFeeSaver164010 = this.parseDecimal(
-        getValue([
-          'chi phí dịch vụ shipping fee saver 164010',
-          'chi phi dich vu shipping fee saver 164010',
-          'chi phí dịch vụ shipping fee saver 164010',
-        ]),
-      ) || null;
-      e.phiPiShipDoMktDangKy164010 = this.parseDecimal(
-        getValue([
-          'phí pi ship ( do mkt đăng ký) 164010',
-          'phi pi ship ( do mkt dang ky) 164010',
-          'phí pi ship ( do mkt đăng ký) 164010',
-          'phí pi ship do mkt đăng ký 164010',
-        ]),
-      ) || null;
-
-      e.maCacBenTiepThiLienKet = this.toText(getValue([
-        'mã các bên tiếp thị liên kết',
-        'ma cac ben tiep thi lien ket',
-      ]));
-      e.sanTmdt = this.toText(getValue(['sàn tmđt', 'san tmdt', 'sàn tmđt shopee']));
-
-      // MKT columns
-      const rowKeysShopee = Object.keys(row);
-      const mktColumns = rowKeysShopee
-        .map((key) => ({
-          originalKey: key,
-          normalizedHeader: normalizeHeader(key),
-        }))
-        .filter(
-          (item) =>
-            item.normalizedHeader.includes(
-              'cột chờ bs nếu mkt đăng ký thêm',
-            ) ||
-            item.normalizedHeader.includes(
-              'cot cho bs neu mkt dang ky them',
-            ),
-        );
-
-      if (mktColumns.length > 0) {
-        e.cotChoBsMkt1 = String(row[mktColumns[0].originalKey] || '');
-      }
-      if (mktColumns.length > 1) {
-        e.cotChoBsMkt2 = String(row[mktColumns[1].originalKey] || '');
-      }
-      if (mktColumns.length > 2) {
-        e.cotChoBsMkt3 = String(row[mktColumns[2].originalKey] || '');
-      }
-      if (mktColumns.length > 3) {
-        e.cotChoBsMkt4 = String(row[mktColumns[3].originalKey] || '');
-      }
-      if (mktColumns.length > 4) {
-        e.cotChoBsMkt5 = String(row[mktColumns[4].originalKey] || '');
-      }
-
-      e.boPhan = this.toText(getValue(['bộ phận', 'bo phan']));
-    } else if (platform === 'tiktok') {
-      const e = entity as PlatformFeeImportTiktok;
-      e.maSan = this.toText(getValue(['mã tiktok', 'ma tiktok']));
-      e.maNoiBoSp = this.toText(getValue(['mã nội bộ sp', 'ma noi bo sp']));
-      e.ngayDoiSoat = this.parseDate(
-        getValue(['ngày đối soát', 'ngay doi soat']),
-      ) || null;
-      e.maDonHangHoan = this.toText(getValue([
-        'mã đơn hàng hoàn',
-        'ma don hang hoan',
-      ]));
-      e.shopPhatHanhTrenSan = this.toText(getValue([
-        'shop phát hành trên sàn',
-        'shop phat hanh tren san',
-      ]));
-      e.giaTriGiamGiaCtkm = this.parseDecimal(
-        getValue([
-          'giá trị giảm giá theo ctkm của mình ban hành',
-          'gia tri giam gia theo ctkm cua minh ban hanh',
-        ]),
-      ) || null;
-      e.doanhThuDonHang = this.parseDecimal(
-        getValue(['doanh thu đơn hàng', 'doanh thu don hang']),
-      ) || null;
-
-      // TikTok specific fees (4 fees) - Map by exact column names
-      e.phiGiaoDichTyLe5164020 = this.parseDecimal(
-        getValue([
-          'phí giao dịch tỷ lệ 5% 164020',
-          'phi giao dich ty le 5% 164020',
-          'phí giao dịch tỷ lệ 5% 164020',
-        ]),
-      ) || null;
-      e.phiHoaHongTraChoTiktok454164020 = this.parseDecimal(
-        getValue([
-          'phí hoa hồng trả cho tiktok 4.54% 164020',
-          'phi hoa hong tra cho tiktok 4.54% 164020',
-          'phí hoa hồng trả cho tiktok 4.54% 164020',
-        ]),
-      ) || null;
-      e.phiHoaHongTiepThiLienKet150050 = this.parseDecimal(
-        getValue([
-          'phí hoa hồng tiếp thị liên kết 150050',
-          'phi hoa hong tiep thi lien ket 150050',
-          'phí hoa hồng tiếp thị liên kết 150050',
-        ]),
-      ) || null;
-      e.phiDichVuSfp6164020 = this.parseDecimal(
-        getValue([
-          'phí dịch vụ sfp 6% 164020',
-          'phi dich vu sfp 6% 164020',
-          'phí dịch vụ sfp 6% 164020',
-        ]),
-      ) || null;
-
-      e.maCacBenTiepThiLienKet = this.toText(getValue([
-        'mã các bên tiếp thị liên kết',
-        'ma cac ben tiep thi lien ket',
-      ]));
-      e.sanTmdt = this.toText(getValue(['sàn tmđt', 'san tmdt', 'sàn tmđt tiktok']));
-
-      // MKT columns
-      const rowKeysTiktok = Object.keys(row);
-      const mktColumns = rowKeysTiktok
-        .map((key) => ({
-          originalKey: key,
-          normalizedHeader: normalizeHeader(key),
-        }))
-        .filter(
-          (item) =>
-            item.normalizedHeader.includes(
-              'cột chờ bs nếu mkt đăng ký thêm',
-            ) ||
-            item.normalizedHeader.includes(
-              'cot cho bs neu mkt dang ky them',
-            ),
-        );
-
-      if (mktColumns.length > 0) {
-        e.cotChoBsMkt1 = String(row[mktColumns[0].originalKey] || '');
-      }
-      if (mktColumns.length > 1) {
-        e.cotChoBsMkt2 = String(row[mktColumns[1].originalKey] || '');
-      }
-      if (mktColumns.length > 2) {
-        e.cotChoBsMkt3 = String(row[mktColumns[2].originalKey] || '');
-      }
-      if (mktColumns.length > 3) {
-        e.cotChoBsMkt4 = String(row[mktColumns[3].originalKey] || '');
-      }
-      if (mktColumns.length > 4) {
-        e.cotChoBsMkt5 = String(row[mktColumns[4].originalKey] || '');
-      }
-
-      e.boPhan = this.toText(getValue(['bộ phận', 'bo phan']));
-    } else if (platform === 'lazada') {
-      const e = entity as PlatformFeeImportLazada;
-      e.maSan = this.toText(getValue(['mã lazada', 'ma lazada']));
-      e.maNoiBoSp = this.toText(getValue(['mã nội bộ sp', 'ma noi bo sp']));
-      e.ngayDoiSoat = this.parseDate(
-        getValue(['ngày đối soát', 'ngay doi soat']),
-      ) || null;
-      e.tenPhiDoanhThu = this.toText(getValue([
-        'tên phí/ doanh thu đơn hàng',
-        'ten phi/ doanh thu don hang',
-      ]));
-      e.quangCaoTiepThiLienKet = this.toText(getValue([
-        'quảng cáo tiếp thị liên kết',
-        'quang cao tiep thi lien ket',
-      ]));
-      e.maDonHangHoan = this.toText(getValue([
-        'mã đơn hàng hoàn',
-        'ma don hang hoan',
-      ]));
-      e.maPhiNhanDienHachToan = this.toText(getValue([
-        'mã phí để nhận diện hạch toán',
-        'ma phi de nhan dien hach toan',
-        'mã phí để nhận diện hạch toán',
-      ]));
-      e.soTienPhi = this.parseDecimal(getValue([
-        'số tiền phí',
-        'so tien phi',
-        'số tiền',
-        'so tien',
-        'số tiền phí đã đối soát',
-        'so tien phi da doi soat',
-      ])) || null;
-      e.sanTmdt = this.toText(getValue(['sàn tmđt', 'san tmdt', 'sàn tmđt lazada']));
-      e.ghiChu = this.toText(getValue(['ghi chú', 'ghi chu']));
-      e.boPhan = this.toText(getValue(['bộ phận', 'bo phan']));
+    // Map theo cột của profile (columnMap: field -> header gốc trong file)
+    for (const column of profile.columns) {
+      const header = columnMap.get(column.field);
+      if (!header) continue;
+
+      const value = row[header];
+      (entity as any)[column.field] =
+        column.type === 'decimal'
+          ? this.parseDecimal(value, profile.decimalSeparator)
+          : column.type === 'date'
+            ? this.parseDate(value, profile.dateFormat)
+            : this.toText(value);
     }
 
     return entity;
   }
 
-  private parseDate(value: any): Date | null {
+  private parseDate(value: any, dateFormat: string = 'YYYY-MM-DD'): Date | null {
     if (!value) return null;
     if (value instanceof Date) return value;
     if (typeof value === 'number') {
@@ -501,17 +694,33 @@ export class PlatformFeeImportService {
       return new Date(excelEpoch.getTime() + value * 86400000);
     }
     if (typeof value === 'string') {
+      // Ngày dạng DD/MM/YYYY hoặc MM/DD/YYYY theo profile
+      const match = value
+        .trim()
+        .match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+      if (match && dateFormat !== 'YYYY-MM-DD') {
+        const [first, second, year] = match.slice(1).map(Number);
+        const [day, month] =
+          dateFormat === 'MM/DD/YYYY' ? [second, first] : [first, second];
+        const date = new Date(year, month - 1, day);
+        return isNaN(date.getTime()) ? null : date;
+      }
       const date = new Date(value);
       return isNaN(date.getTime()) ? null : date;
     }
     return null;
   }
 
-  private parseDecimal(value: any): number | null {
+  private parseDecimal(value: any, decimalSeparator: string = '.'): number | null {
     if (value === null || value === undefined || value === '') return null;
     if (typeof value === 'number') return value;
     if (typeof value === 'string') {
-      const cleaned = value.replace(/[^\d.-]/g, '');
+      // Dấu thập phân ',' (1.234,5): bỏ dấu '.' phân cách hàng nghìn rồi đổi ',' -> '.'
+      const normalized =
+        decimalSeparator === ','
+          ? value.replace(/\./g, '').replace(/,/g, '.')
+          : value;
+      const cleaned = normalized.replace(/[^\d.-]/g, '');
       const parsed = parseFloat(cleaned);
       return isNaN(parsed) ? null : parsed;
     }
@@ -608,118 +817,26 @@ export class PlatformFeeImportService {
     platform: Platform,
   ): Promise<Buffer> {
     const workbook = XLSX.utils.book_new();
-    let headers: string[] = [];
-    let sampleData: any[] = [];
-
-    if (platform === 'shopee') {
-      headers = [
-        'Mã shopee',
-        'Mã nội bộ sp',
-        'Ngày đối soát',
-        'Mã đơn hàng hoàn',
-        'Shop phát hành trên sàn',
-        'Giá trị giảm giá theo CTKM của mình ban hành',
-        'Doanh thu đơn hàng',
-        'Phí cố định 6.05% Mã phí 164020',
-        'Phí Dịch Vụ 6% Mã phí 164020',
-        'Phí thanh toán 5% Mã phí 164020',
-        'Phí hoa hồng Tiếp thị liên kết 21% 150050',
-        'Chi phí dịch vụ Shipping Fee Saver 164010',
-        'Phí Pi Ship ( Do MKT đăng ký) 164010',
-        'Mã các bên tiếp thị liên kết',
-        'Sàn TMĐT SHOPEE',
-        'Cột chờ bs nếu MKT đăng ký thêm',
-        'Cột chờ bs nếu MKT đăng ký thêm',
-        'Cột chờ bs nếu MKT đăng ký thêm',
-        'Cột chờ bs nếu MKT đăng ký thêm',
-        'Cột chờ bs nếu MKT đăng ký thêm',
-        'Bộ phận',
-      ];
-      // Create sample data with all columns
-      const sampleRow: any = {};
-      headers.forEach((header) => {
-        if (header.includes('Cột chờ bs')) {
-          sampleRow[header] = '';
-        } else if (header.includes('Phí') || header.includes('Chi phí')) {
-          sampleRow[header] = 0;
-        } else if (header.includes('Giá trị') || header.includes('Doanh thu')) {
-          sampleRow[header] = 0;
-        } else if (header.includes('Ngày')) {
-          sampleRow[header] = '2024-01-01';
-        } else {
-          sampleRow[header] = 'Mẫu';
-        }
-      });
-      sampleData = [sampleRow];
-    } else if (platform === 'tiktok') {
-      headers = [
-        'Mã Tiktok',
-        'Mã nội bộ sp',
-        'Ngày đối soát',
-        'Mã đơn hàng hoàn',
-        'Shop phát hành trên sàn',
-        'Giá trị giảm giá theo CTKM của mình ban hành',
-        'Doanh thu đơn hàng',
-        'Phí giao dịch Tỷ lệ 5% 164020',
-        'Phí hoa hồng trả cho Tiktok 4.54% 164020',
-        'Phí hoa hồng Tiếp thị liên kết 150050',
-        'Phí dịch vụ SFP 6% 164020',
-        'Mã các bên tiếp thị liên kết',
-        'Sàn TMĐT TIKTOK',
-        'Cột chờ bs nếu MKT đăng ký thêm',
-        'Cột chờ bs nếu MKT đăng ký thêm',
-        'Cột chờ bs nếu MKT đăng ký thêm',
-        'Cột chờ bs nếu MKT đăng ký thêm',
-        'Cột chờ bs nếu MKT đăng ký thêm',
-        'Bộ phận',
-      ];
-      // Create sample data with all columns
-      const sampleRowTiktok: any = {};
-      headers.forEach((header) => {
-        if (header.includes('Cột chờ bs')) {
-          sampleRowTiktok[header] = '';
-        } else if (header.includes('Phí') || header.includes('Chi phí')) {
-          sampleRowTiktok[header] = 0;
-        } else if (header.includes('Giá trị') || header.includes('Doanh thu')) {
-          sampleRowTiktok[header] = 0;
-        } else if (header.includes('Ngày')) {
-          sampleRowTiktok[header] = '2024-01-01';
-        } else {
-          sampleRowTiktok[header] = 'Mẫu';
-        }
-      });
-      sampleData = [sampleRowTiktok];
-    } else if (platform === 'lazada') {
-      headers = [
-        'Mã Lazada',
-        'Mã nội bộ sp',
-        'Ngày đối soát',
-        'Tên phí/ doanh thu đơn hàng',
-        'Quảng cáo tiếp thị liên kết',
-        'Mã đơn hàng hoàn',
-        'MÃ PHÍ ĐỂ NHẬN DIỆN HẠCH TOÁN',
-        'Số tiền phí',
-        'Sàn TMĐT LAZADA',
-        'GHI CHÚ',
-        'Bộ phận',
-      ];
-      // Create sample data with all columns
-      const sampleRowLazada: any = {};
-      headers.forEach((header) => {
-        if (header.includes('Ngày')) {
-          sampleRowLazada[header] = '2024-01-01';
-        } else if (header.includes('Số tiền')) {
-          sampleRowLazada[header] = 0;
-        } else if (header.includes('Mã') || header.includes('Tên') || header.includes('Quảng') || header.includes('GHI') || header.includes('Bộ')) {
-          sampleRowLazada[header] = 'Mẫu';
-        } else {
-          sampleRowLazada[header] = '';
-        }
-      });
-      sampleData = [sampleRowLazada];
-    }
+    const profile =
+      await this.importProfileService.getDefaultProfile(platform);
+
+    // Header đầu tiên của mỗi cột trong profile mặc định
+    const headers = profile.columns.map((column) => column.headers[0]);
+    const sampleRow: any = {};
+    profile.columns.forEach((column) => {
+      const header = column.headers[0];
+      if (column.type === 'decimal') {
+        sampleRow[header] = 0;
+      } else if (column.type === 'date') {
+        sampleRow[header] = '2024-01-01';
+      } else if (column.field.startsWith('cotChoBsMkt')) {
+        sampleRow[header] = '';
+      } else {
+        sampleRow[header] = 'Mẫu';
+      }
+    });
 
-    const worksheet = XLSX.utils.json_to_sheet(sampleData, {
+    const worksheet = XLSX.utils.json_to_sheet([sampleRow], {
       header: headers,
     });
     XLSX.utils.book_append_sheet(workbook, worksheet, 'Mẫu');
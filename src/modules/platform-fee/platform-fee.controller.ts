@@ -11,11 +11,14 @@ import {
 import { PlatformFeeService } from './platform-fee.service';
 import { CreatePlatformFeeDto } from './dto/create-platform-fee.dto';
 import { UpdatePlatformFeeDto } from './dto/update-platform-fee.dto';
+import { Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
 
 @Controller('platform-fees')
 export class PlatformFeeController {
   constructor(private readonly platformFeeService: PlatformFeeService) {}
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post()
   create(@Body() createPlatformFeeDto: CreatePlatformFeeDto) {
     return this.platformFeeService.create(createPlatformFeeDto);
@@ -45,6 +48,7 @@ export class PlatformFeeController {
     return this.platformFeeService.findOne(id);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Patch(':id')
   update(
     @Param('id') id: string,
@@ -53,6 +57,7 @@ export class PlatformFeeController {
     return this.platformFeeService.update(id, updatePlatformFeeDto);
   }
 
+  @Roles(ROLES.ADMIN)
   @Delete(':id')
   remove(@Param('id') id: string) {
     return this.platformFeeService.remove(id);
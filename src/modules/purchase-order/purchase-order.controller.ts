@@ -1,10 +1,13 @@
 import { Controller, Get, Post, Query, Body, Param } from '@nestjs/common';
 import { PurchaseOrderService } from './purchase-order.service';
+import { Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
 
 @Controller('purchase-orders')
 export class PurchaseOrderController {
   constructor(private readonly purchaseOrderService: PurchaseOrderService) { }
 
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('sync')
   async syncPO(
     @Body() body: { startDate: string; endDate: string; brand?: string },
@@ -35,6 +38,7 @@ export class PurchaseOrderController {
     });
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post(':id/fast')
   async syncToFast(@Param('id') id: string) {
     return this.purchaseOrderService.syncToFast(id);
@@ -8,14 +8,20 @@ import { ZappyApiService } from '../../services/zappy-api.service';
 import { LoyaltyService } from '../../services/loyalty.service';
 import { FastApiClientService } from '../../services/fast-api-client.service';
 import { WarehouseProcessed } from '../../entities/warehouse-processed.entity';
+import { IntegrationAuditModule } from '../integration-audit/integration-audit.module';
+import { FastDocumentSubmission } from '../../entities/fast-document-submission.entity';
+import { FastDocumentReversal } from '../../entities/fast-document-reversal.entity';
+import { FastDocumentSubmissionService } from '../../services/fast-document-submission.service';
+import { BrandsModule } from '../brands/brands.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([PurchaseOrder, WarehouseProcessed]), HttpModule],
+  imports: [TypeOrmModule.forFeature([PurchaseOrder, WarehouseProcessed, FastDocumentSubmission, FastDocumentReversal]), HttpModule, IntegrationAuditModule, BrandsModule],
   providers: [
     PurchaseOrderService,
     ZappyApiService,
     LoyaltyService,
     FastApiClientService,
+    FastDocumentSubmissionService,
   ],
   controllers: [PurchaseOrderController],
   exports: [PurchaseOrderService],
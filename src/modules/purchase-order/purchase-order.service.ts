@@ -5,6 +5,8 @@ import { PurchaseOrder } from '../../entities/purchase-order.entity';
 import { ZappyApiService } from '../../services/zappy-api.service';
 import { LoyaltyService } from '../../services/loyalty.service';
 import { FastApiClientService } from '../../services/fast-api-client.service';
+import { BrandRegistryService } from '../brands/brand-registry.service';
+import { BRAND_SYNC_JOBS } from '../brands/constants/brand.constants';
 
 @Injectable()
 export class PurchaseOrderService {
@@ -16,6 +18,7 @@ export class PurchaseOrderService {
     private zappyService: ZappyApiService,
     private loyaltyService: LoyaltyService, // [NEW] Add LoyaltyService
     private fastApiClientService: FastApiClientService, // [NEW] Add FastApiClientService
+    private brandRegistryService: BrandRegistryService,
   ) { }
 
   /**
@@ -25,8 +28,10 @@ export class PurchaseOrderService {
    * @param brand Brand name (optional, default 'menard')
    */
   async syncPurchaseOrders(startDate: string, endDate: string, brand?: string) {
-    const brands =
-      brand && brand !== 'all' ? [brand] : ['menard', 'f3', 'labhair', 'yaman'];
+    const brands = await this.brandRegistryService.getBrandCodesForJob(
+      BRAND_SYNC_JOBS.PURCHASE_ORDER,
+      brand !== 'all' ? brand : undefined,
+    );
 
     this.logger.log(
       `Starting PO sync from ${startDate} to ${endDate} for brands: ${brands.join(', ')}`,
@@ -0,0 +1,39 @@
+/**
+ * Invoice Job Queue Constants
+ */
+
+/**
+ * Trạng thái job
+ */
+export const INVOICE_JOB_STATUS = {
+  PENDING: 'PENDING',
+  PROCESSING: 'PROCESSING',
+  SUCCESS: 'SUCCESS',
+  FAILED: 'FAILED',
+  CANCELLED: 'CANCELLED',
+} as const;
+
+/**
+ * Loại batch
+ */
+export const INVOICE_JOB_BATCH_TYPES = {
+  DATE_RANGE: 'DATE_RANGE',
+  RETRY_FAILED: 'RETRY_FAILED',
+  MANUAL: 'MANUAL',
+} as const;
+
+/**
+ * Redis key của hàng đợi (chứa id của job đang chờ)
+ */
+export const INVOICE_JOB_QUEUE_KEY = 'invoice-jobs:pending';
+
+/**
+ * Job ở trạng thái PROCESSING lâu hơn thời gian này được coi là bị treo
+ * (worker chết giữa chừng) và được đưa lại vào hàng đợi
+ */
+export const INVOICE_JOB_STALE_AFTER_MS = 15 * 60 * 1000;
+
+export type InvoiceJobStatus =
+  (typeof INVOICE_JOB_STATUS)[keyof typeof INVOICE_JOB_STATUS];
+export type InvoiceJobBatchType =
+  (typeof INVOICE_JOB_BATCH_TYPES)[keyof typeof INVOICE_JOB_BATCH_TYPES];
@@ -0,0 +1,46 @@
+import { ORDER_TYPE_FLOWS } from '../../order-types/constants/order-type.constants';
+import type { InvoiceRoutingConditions } from '../../../entities/invoice-routing-rule.entity';
+
+/**
+ * Luồng xử lý mà rule định tuyến có thể chọn
+ */
+export const INVOICE_ROUTING_FLOWS = {
+  ...ORDER_TYPE_FLOWS,
+  CANCELLED_ORDER: 'cancelled-order', // Đơn hủy _X: salesOrder action 0 -> action 1
+  BY_ORDER_TYPE: 'order-type', // Theo flowHandler của loại đơn (bảng order_types)
+} as const;
+
+export type InvoiceRoutingFlow =
+  (typeof INVOICE_ROUTING_FLOWS)[keyof typeof INVOICE_ROUTING_FLOWS];
+
+export const ALL_INVOICE_ROUTING_FLOWS = Object.values(INVOICE_ROUTING_FLOWS);
+
+/**
+ * Rule mặc định, tương đương luồng if-else trước đây
+ * Chỉ dùng để khởi tạo bảng invoice_routing_rules khi còn trống
+ */
+export const DEFAULT_INVOICE_ROUTING_RULES: Array<{
+  name: string;
+  priority: number;
+  conditions: InvoiceRoutingConditions;
+  flow: InvoiceRoutingFlow;
+}> = [
+  {
+    name: 'Đơn hủy (_X)',
+    priority: 10,
+    conditions: { docCodeSuffixes: ['_X'] },
+    flow: 'cancelled-order',
+  },
+  {
+    name: 'Trả hàng (SALE_RETURN)',
+    priority: 20,
+    conditions: { docSourceTypes: ['SALE_RETURN'] },
+    flow: 'return',
+  },
+  {
+    name: 'Theo loại đơn',
+    priority: 1000,
+    conditions: {},
+    flow: 'order-type',
+  },
+];
@@ -1,25 +1,9 @@
 /**
  * Sales Invoice Constants
- * Centralized constants for order types, document source types, product types, etc.
+ * Centralized constants for document source types, product types, etc.
+ * Loại đơn hàng cấu hình trong bảng order_types (OrderTypeRegistryService)
  */
 
-/**
- * Order Types (Loại đơn hàng)
- */
-export const ORDER_TYPES = {
-  NORMAL: '01.Thường',
-  NORMAL_WITH_SPACE: '01. Thường', // Alternative with space
-  SERVICE: '02. làm dịch vụ',
-  SERVICE_NO_SPACE: '02.làm dịch vụ', // Alternative without space
-  LOYALTY_EXCHANGE: '03. Đổi điểm',
-  NORMAL_EXCHANGE: '04. Đổi DV',
-  BIRTHDAY_GIFT: '05. Tặng sinh nhật',
-  INVESTMENT: '06. Đầu tư',
-  ACCOUNT_SALE: '07. Bán tài khoản',
-  CARD_SEPARATION: '08. Tách thẻ',
-  BOTTLE_EXCHANGE: 'Đổi vỏ',
-} as const;
-
 /**
  * Document Source Types
  */
@@ -56,46 +40,9 @@ export const ACTION = {
   CANCEL_UPDATE: 1,
 } as const;
 
-/**
- * Helper function: Normalize order type name for comparison
- */
-export function normalizeOrderType(
-  orderTypeName: string | null | undefined,
-): string {
-  if (!orderTypeName) return '';
-  return String(orderTypeName).trim().toLowerCase();
-}
-
-/**
- * Helper function: Check if order is a service order
- */
-export function isServiceOrder(
-  orderTypeName: string | null | undefined,
-): boolean {
-  const normalized = normalizeOrderType(orderTypeName);
-  return (
-    normalized === ORDER_TYPES.SERVICE.toLowerCase() ||
-    normalized === ORDER_TYPES.SERVICE_NO_SPACE.toLowerCase()
-  );
-}
-
-/**
- * Helper function: Check if order is a normal order
- */
-export function isNormalOrder(
-  orderTypeName: string | null | undefined,
-): boolean {
-  const normalized = normalizeOrderType(orderTypeName);
-  return (
-    normalized === ORDER_TYPES.NORMAL.toLowerCase() ||
-    normalized === ORDER_TYPES.NORMAL_WITH_SPACE.toLowerCase()
-  );
-}
-
 /**
  * Type exports for better type safety
  */
-export type OrderType = (typeof ORDER_TYPES)[keyof typeof ORDER_TYPES];
 export type DocSourceType =
   (typeof DOC_SOURCE_TYPES)[keyof typeof DOC_SOURCE_TYPES];
 export type ProductType = (typeof PRODUCT_TYPES)[keyof typeof PRODUCT_TYPES];
@@ -0,0 +1,139 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  BadRequestException,
+} from '@nestjs/common';
+import { InvoiceJobQueueService } from '../jobs/invoice-job-queue.service';
+import { Roles } from '../../auth/decorators/auth.decorators';
+import { ROLES } from '../../auth/constants/auth.constants';
+
+@Controller('invoice-jobs')
+export class InvoiceJobsController {
+  constructor(
+    private readonly invoiceJobQueueService: InvoiceJobQueueService,
+  ) {}
+
+  /**
+   * POST /invoice-jobs
+   * Đưa danh sách docCode vào hàng đợi tạo hóa đơn
+   */
+  @Roles(ROLES.ACCOUNTANT)
+  @Post()
+  async enqueueDocCodes(
+    @Body('docCodes') docCodes: string[],
+    @Body('forceRetry') forceRetry?: boolean,
+  ) {
+    if (!Array.isArray(docCodes) || docCodes.length === 0) {
+      throw new BadRequestException('Danh sách đơn hàng không hợp lệ');
+    }
+    return this.invoiceJobQueueService.enqueueDocCodes(
+      docCodes,
+      forceRetry || false,
+    );
+  }
+
+  /**
+   * POST /invoice-jobs/date-range
+   * Đưa toàn bộ đơn hàng trong khoảng ngày vào hàng đợi
+   */
+  @Roles(ROLES.ACCOUNTANT)
+  @Post('date-range')
+  async enqueueDateRange(
+    @Body('startDate') startDate: string,
+    @Body('endDate') endDate: string,
+  ) {
+    if (!startDate || !endDate) {
+      throw new BadRequestException(
+        'startDate và endDate là bắt buộc (format: DDMMMYYYY, ví dụ: 01OCT2025)',
+      );
+    }
+    return this.invoiceJobQueueService.enqueueDateRange(startDate, endDate);
+  }
+
+  /**
+   * POST /invoice-jobs/retry-failed
+   * Đưa toàn bộ hóa đơn lỗi vào hàng đợi (forceRetry)
+   */
+  @Roles(ROLES.ACCOUNTANT)
+  @Post('retry-failed')
+  async enqueueFailedInvoices() {
+    return this.invoiceJobQueueService.enqueueFailedInvoices();
+  }
+
+  /**
+   * GET /invoice-jobs/batches
+   * Danh sách batch kèm tiến độ
+   */
+  @Get('batches')
+  async findBatches(
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.invoiceJobQueueService.findBatches({
+      page: page ? parseInt(page) : undefined,
+      limit: limit ? parseInt(limit) : undefined,
+    });
+  }
+
+  /**
+   * GET /invoice-jobs/batches/:batchId
+   * Tiến độ của một batch
+   */
+  @Get('batches/:batchId')
+  async getBatch(@Param('batchId') batchId: string) {
+    return this.invoiceJobQueueService.getBatch(batchId);
+  }
+
+  /**
+   * POST /invoice-jobs/batches/:batchId/retry
+   * Chạy lại các job lỗi của batch
+   */
+  @Roles(ROLES.ACCOUNTANT)
+  @Post('batches/:batchId/retry')
+  async retryBatch(@Param('batchId') batchId: string) {
+    return this.invoiceJobQueueService.retryBatch(batchId);
+  }
+
+  /**
+   * POST /invoice-jobs/batches/:batchId/cancel
+   * Hủy các job còn chờ của batch
+   */
+  @Roles(ROLES.ACCOUNTANT)
+  @Post('batches/:batchId/cancel')
+  async cancelBatch(@Param('batchId') batchId: string) {
+    return this.invoiceJobQueueService.cancelBatch(batchId);
+  }
+
+  /**
+   * GET /invoice-jobs
+   * Danh sách job với filter theo batch, trạng thái, docCode
+   */
+  @Get()
+  async findJobs(
+    @Query('batchId') batchId?: string,
+    @Query('status') status?: string,
+    @Query('docCode') docCode?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.invoiceJobQueueService.findJobs({
+      batchId,
+      status,
+      docCode,
+      page: page ? parseInt(page) : undefined,
+      limit: limit ? parseInt(limit) : undefined,
+    });
+  }
+
+  /**
+   * GET /invoice-jobs/:id
+   */
+  @Get(':id')
+  async findJob(@Param('id') id: string) {
+    return this.invoiceJobQueueService.findJob(id);
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+} from '@nestjs/common';
+import { InvoiceRoutingService } from '../routing/invoice-routing.service';
+import { SalesInvoiceService } from '../invoice/sales-invoice.service';
+import {
+  CreateInvoiceRoutingRuleDto,
+  UpdateInvoiceRoutingRuleDto,
+} from '../dto/invoice-routing-rule.dto';
+import { Roles } from '../../auth/decorators/auth.decorators';
+import { ROLES } from '../../auth/constants/auth.constants';
+
+@Controller('invoice-routing')
+export class InvoiceRoutingController {
+  constructor(
+    private readonly invoiceRoutingService: InvoiceRoutingService,
+    private readonly salesInvoiceService: SalesInvoiceService,
+  ) {}
+
+  @Get('rules')
+  async findRules() {
+    return this.invoiceRoutingService.findAll();
+  }
+
+  @Get('rules/:id')
+  async findRule(@Param('id') id: string) {
+    return this.invoiceRoutingService.findOne(id);
+  }
+
+  @Roles(ROLES.ACCOUNTANT)
+  @Post('rules')
+  async createRule(@Body() createDto: CreateInvoiceRoutingRuleDto) {
+    return this.invoiceRoutingService.create(createDto);
+  }
+
+  @Roles(ROLES.ACCOUNTANT)
+  @Patch('rules/:id')
+  async updateRule(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateInvoiceRoutingRuleDto,
+  ) {
+    return this.invoiceRoutingService.update(id, updateDto);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Delete('rules/:id')
+  async removeRule(@Param('id') id: string) {
+    return this.invoiceRoutingService.remove(id);
+  }
+
+  /**
+   * GET /invoice-routing/explain/:docCode
+   * Giải thích rule nào khớp và đơn hàng sẽ đi vào luồng nào (không gọi Fast)
+   */
+  @Get('explain/:docCode')
+  async explain(@Param('docCode') docCode: string) {
+    const orderData = await this.salesInvoiceService.findByOrderCode(docCode);
+    return this.invoiceRoutingService.explain(docCode, orderData);
+  }
+}
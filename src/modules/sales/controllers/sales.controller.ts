@@ -14,11 +14,17 @@ import type { CreateStockTransferDto } from '../../../dto/create-stock-transfer.
 import type { Response } from 'express';
 import { mapToOrderResponse } from '../mappers/sale-response.mapper';
 import { SalesListResponseDto } from '../dto/sale-response.dto';
-import * as SalesUtils from '../../../utils/sales.utils';
+import { OrderTypeRegistryService } from '../../order-types/order-type-registry.service';
+import { ORDER_TYPE_FLOWS } from '../../order-types/constants/order-type.constants';
+import { Roles } from '../../auth/decorators/auth.decorators';
+import { ROLES } from '../../auth/constants/auth.constants';
 
 @Controller('sales')
 export class SalesController {
-  constructor(private readonly salesService: SalesService) {}
+  constructor(
+    private readonly salesService: SalesService,
+    private readonly orderTypeRegistryService: OrderTypeRegistryService,
+  ) {}
 
   /**
    * V2 Endpoint - Optimized Response (60-70% smaller)
@@ -221,7 +227,10 @@ export class SalesController {
         if (order.sales && order.sales.length > 0) {
           for (const sale of order.sales) {
             const ordertypeName = sale.ordertypeName || sale.ordertype || '';
-            const isTachThe = SalesUtils.isTachTheOrder(ordertypeName);
+            const isTachThe = await this.orderTypeRegistryService.isFlow(
+              ordertypeName,
+              ORDER_TYPE_FLOWS.TACH_THE,
+            );
 
             const partnerCode =
               isTachThe && sale.issuePartnerCode
@@ -361,11 +370,13 @@ export class SalesController {
     return this.salesService.findByOrderCode(docCode);
   }
 
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('mark-processed-from-invoices')
   async markProcessedOrdersFromInvoices() {
     return this.salesService.markProcessedOrdersFromInvoices();
   }
 
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('sync-from-zappy')
   async syncFromZappy(
     @Body('date') date: string,
@@ -379,6 +390,7 @@ export class SalesController {
     return this.salesService.syncFromZappy(date, brand);
   }
 
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('sync-sales-by-date-range')
   async syncSalesByDateRange(
     @Body('startDate') startDate: string,
@@ -392,6 +404,15 @@ export class SalesController {
     return this.salesService.syncSalesByDateRange(startDate, endDate);
   }
 
+  /**
+   * Dry-run: payload sẽ gửi sang Fast cho đơn hàng, không gọi Fast
+   */
+  @Get('order/:docCode/preview-invoice')
+  async previewInvoice(@Param('docCode') docCode: string) {
+    return this.salesService.previewInvoice(docCode);
+  }
+
+  @Roles(ROLES.ACCOUNTANT)
   @Post('order/:docCode/create-invoice-fast')
   async createInvoiceViaFastApi(
     @Param('docCode') docCode: string,
@@ -410,6 +431,7 @@ export class SalesController {
     return result;
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('orders/create-invoice-fast')
   async createMultipleInvoicesViaFastApi(@Body('docCodes') docCodes: string[]) {
     if (!Array.isArray(docCodes) || docCodes.length === 0) {
@@ -451,11 +473,19 @@ export class SalesController {
     };
   }
 
+  /**
+   * Đưa hóa đơn lỗi vào hàng đợi, theo dõi tiến độ qua /invoice-jobs/batches/:batchId
+   */
+  @Roles(ROLES.ACCOUNTANT)
   @Post('invoice/retry-failed')
   async retryFailedInvoices() {
     return this.salesService.retryFailedInvoices();
   }
 
+  /**
+   * Đưa đơn hàng trong khoảng ngày vào hàng đợi, theo dõi tiến độ qua /invoice-jobs/batches/:batchId
+   */
+  @Roles(ROLES.ACCOUNTANT)
   @Post('invoice/batch-process')
   async batchProcessInvoices(
     @Body('startDate') startDate: string,
@@ -469,6 +499,7 @@ export class SalesController {
     return this.salesService.processInvoicesByDateRange(startDate, endDate);
   }
 
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('stock-transfer')
   async createStockTransfer(@Body() createDto: CreateStockTransferDto) {
     if (
@@ -481,16 +512,19 @@ export class SalesController {
     return this.salesService.createStockTransfer(createDto);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('sync-error-orders')
   async syncErrorOrders() {
     return this.salesService.syncErrorOrders();
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('sync-error-order/:docCode')
   async syncErrorOrderByDocCode(@Param('docCode') docCode: string) {
     return this.salesService.syncErrorOrderByDocCode(docCode);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('error-order/:id')
   async updateErrorOrder(
     @Param('id') id: string,
@@ -499,6 +533,7 @@ export class SalesController {
     return this.salesService.updateErrorOrder(id, body);
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('stock-transfer/:id/warehouse')
   async processWarehouseFromStockTransfer(@Param('id') id: string) {
     try {
@@ -519,6 +554,7 @@ export class SalesController {
     }
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('stock-transfer/doc-code/:docCode/warehouse-retry')
   async retryWarehouseFromStockTransferByDocCode(
     @Param('docCode') docCode: string,
@@ -565,6 +601,7 @@ export class SalesController {
     });
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('stock-transfer/warehouse-retry-failed-by-date-range')
   async retryWarehouseFailedByDateRange(
     @Body('dateFrom') dateFrom: string,
@@ -591,6 +628,7 @@ export class SalesController {
     }
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Post('stock-transfer/warehouse-sync-by-date-range')
   async processWarehouseByDateRange(
     @Body('dateFrom') dateFrom: string,
@@ -618,6 +656,7 @@ export class SalesController {
     }
   }
 
+  @Roles(ROLES.ADMIN)
   @Post('stock-transfer/warehouse-delete-by-date-range')
   async deleteWarehouseByDateRange(
     @Body('dateFrom') dateFrom: string,
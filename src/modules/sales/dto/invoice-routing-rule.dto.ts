@@ -0,0 +1,74 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { ALL_INVOICE_ROUTING_FLOWS } from '../constants/invoice-routing.constants';
+import type { InvoiceRoutingFlow } from '../constants/invoice-routing.constants';
+
+export class InvoiceRoutingConditionsDto {
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  docSourceTypes?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  docCodeSuffixes?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  ordertypeNames?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  brands?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  branchCodes?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  productTypes?: string[];
+}
+
+export class CreateInvoiceRoutingRuleDto {
+  @IsString()
+  name: string;
+
+  @IsInt()
+  @IsOptional()
+  priority?: number;
+
+  @ValidateNested()
+  @Type(() => InvoiceRoutingConditionsDto)
+  @IsOptional()
+  conditions?: InvoiceRoutingConditionsDto;
+
+  @IsIn(ALL_INVOICE_ROUTING_FLOWS)
+  flow: InvoiceRoutingFlow;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+
+  @IsString()
+  @IsOptional()
+  note?: string;
+}
+
+export class UpdateInvoiceRoutingRuleDto extends PartialType(
+  CreateInvoiceRoutingRuleDto,
+) {}
@@ -8,14 +8,11 @@ import { SpecialOrderHandlerService } from './special-order-handler.service';
 import { NormalOrderHandlerService } from './normal-order-handler.service';
 import { SaleReturnHandlerService } from './sale-return-handler.service';
 import { SalesQueryService } from '../services/sales-query.service';
-import * as SalesUtils from '../../../utils/sales.utils';
+import { InvoiceRoutingService } from '../routing/invoice-routing.service';
+import { INVOICE_ROUTING_FLOWS } from '../constants/invoice-routing.constants';
+import { IntegrationAuditService } from '../../integration-audit/integration-audit.service';
 import * as StockTransferUtils from '../../../utils/stock-transfer.utils';
-import {
-  DOC_SOURCE_TYPES,
-  ORDER_TYPES,
-  STATUS,
-  isServiceOrder,
-} from '../constants/sales-invoice.constants';
+import { STATUS } from '../constants/sales-invoice.constants';
 
 @Injectable()
 export class InvoiceFlowOrchestratorService {
@@ -30,18 +27,29 @@ export class InvoiceFlowOrchestratorService {
     private normalOrderHandlerService: NormalOrderHandlerService,
     private saleReturnHandlerService: SaleReturnHandlerService,
     private salesQueryService: SalesQueryService,
+    private integrationAuditService: IntegrationAuditService,
+    private invoiceRoutingService: InvoiceRoutingService,
   ) {}
 
   /**
    * Main orchestrator method - điều phối flow tạo hóa đơn
-   */
-  /**
-   * Main orchestrator method - điều phối flow tạo hóa đơn
+   * Các lệnh gọi Fast bên trong được gắn brand của đơn trong integration audit
    */
   async orchestrateInvoiceCreation(
     docCode: string,
     orderData: any,
     forceRetry: boolean = false,
+  ): Promise<any> {
+    return this.integrationAuditService.runWithContext(
+      { brand: orderData?.brand || orderData?.sales?.[0]?.brand || null },
+      () => this.runInvoiceCreation(docCode, orderData, forceRetry),
+    );
+  }
+
+  private async runInvoiceCreation(
+    docCode: string,
+    orderData: any,
+    forceRetry: boolean,
   ): Promise<any> {
     const maDvcs = orderData.branchCode || '';
     try {
@@ -52,78 +60,34 @@ export class InvoiceFlowOrchestratorService {
       }
 
       // ============================================
-      // BƯỚC 1: Kiểm tra docSourceType trước (ưu tiên cao nhất)
+      // BƯỚC 1: Chọn luồng xử lý theo rule định tuyến (bảng invoice_routing_rules)
       // ============================================
-      const firstSale = orderData.sales?.[0];
-      const docSourceTypeRaw =
-        firstSale?.docSourceType ?? orderData.docSourceType ?? '';
-      const docSourceType = docSourceTypeRaw
-        ? String(docSourceTypeRaw).trim().toUpperCase()
-        : '';
-
-      // Xử lý SALE_RETURN
-      if (docSourceType === DOC_SOURCE_TYPES.SALE_RETURN) {
-        const validationResult =
-          this.invoiceValidationService.validateOrderForInvoice({
-            docCode,
-            sales: orderData.sales,
-          });
-        if (!validationResult.success) {
-          const errorMessage =
-            validationResult.message ||
-            `Đơn hàng ${docCode} không đủ điều kiện tạo hóa đơn`;
-          await this.recordFailure(
-            docCode,
-            orderData,
-            errorMessage,
-            maDvcs,
-            null,
-          );
-          return {
-            success: false,
-            message: errorMessage,
-            result: null,
-          };
-        }
+      const { rule, flow, orderType } = await this.invoiceRoutingService.route(
+        docCode,
+        orderData,
+      );
+      this.logger.log(
+        `[Orchestrator] ${docCode}: rule "${rule?.name || 'N/A'}" -> flow ${flow} (loại đơn: ${orderType.code})`,
+      );
 
-        const result = await this.saleReturnHandlerService.handleSaleReturnFlow(
+      // Đơn hủy (_X) và trả hàng tự xử lý validate / lưu kết quả
+      if (flow === INVOICE_ROUTING_FLOWS.CANCELLED_ORDER) {
+        return await this.saleReturnHandlerService.handleCancelledOrder(
           orderData,
           docCode,
         );
-
-        // Save to database
-        await this.salesQueryService.saveFastApiInvoice({
-          docCode,
-          maDvcs: result.maDvcs || maDvcs,
-          maKh: result.maKh || orderData.customer?.code || '',
-          tenKh: result.tenKh || orderData.customer?.name || '',
-          ngayCt: orderData.docDate ? new Date(orderData.docDate) : new Date(),
-          status: result.status,
-          guid: result.guid,
-          fastApiResponse:
-            typeof result?.fastApiResponse === 'object'
-              ? JSON.stringify(result.fastApiResponse)
-              : result?.fastApiResponse,
-          payload: result.payload ? JSON.stringify(result.payload) : undefined,
-          lastErrorMessage: result.message,
-        });
-
-        return {
-          success: result.status === STATUS.SUCCESS,
-          message: result.message,
-          result: result.result,
-        };
+      }
+      if (flow === INVOICE_ROUTING_FLOWS.RETURN) {
+        return await this.handleSaleReturn(docCode, orderData, maDvcs);
       }
 
       // ============================================
-      // BƯỚC 2: Xác định loại đơn hàng (Single Pass Loop)
+      // BƯỚC 2: Validate điều kiện tạo hóa đơn
       // ============================================
-      const orderType = this.determineOrderType(orderData.sales);
-
-      // Nếu là đơn thường (NORMAL), validate xem có đủ điều kiện không
-      if (orderType === ORDER_TYPES.NORMAL) {
+      // Đơn thường: validate tất cả sales đều thuộc loại được phép tạo hóa đơn
+      if (flow === INVOICE_ROUTING_FLOWS.NORMAL) {
         const validationResult =
-          this.invoiceValidationService.validateOrderForInvoice({
+          await this.invoiceValidationService.validateOrderForInvoice({
             docCode,
             sales: orderData.sales,
           });
@@ -140,79 +104,79 @@ export class InvoiceFlowOrchestratorService {
             result: null,
           };
         }
+      } else if (!orderType.invoiceAllowed) {
+        const errorMessage = `Loại đơn "${orderType.code}" không được phép tạo hóa đơn. Đơn hàng ${docCode}`;
+        await this.recordFailure(docCode, orderData, errorMessage, maDvcs);
+        return {
+          success: false,
+          message: errorMessage,
+          result: null,
+        };
       }
 
       // ============================================
-      // BƯỚC 3: Routing xử lý theo Order Type
+      // BƯỚC 3: Gọi handler của luồng
       // ============================================
+      switch (flow) {
+        case INVOICE_ROUTING_FLOWS.SERVICE:
+          return await this.executeWithPersistence(
+            docCode,
+            orderData,
+            maDvcs,
+            async () =>
+              await this.specialOrderHandlerService.executeServiceOrderFlow(
+                orderData,
+                docCode,
+              ),
+            true,
+          );
 
-      // Case 1: Service Order
-      if (orderType === ORDER_TYPES.SERVICE) {
-        return await this.executeWithPersistence(
-          docCode,
-          orderData,
-          maDvcs,
-          async () =>
-            await this.specialOrderHandlerService.executeServiceOrderFlow(
-              orderData,
-              docCode,
-            ),
-          true,
-        );
-      }
-
-      // Case 2: Normal Order & Normal Exchange
-      if (
-        orderType === ORDER_TYPES.NORMAL ||
-        orderType === ORDER_TYPES.NORMAL_EXCHANGE
-      ) {
-        return await this.executeWithPersistence(
-          docCode,
-          orderData,
-          maDvcs,
-          async () =>
-            await this.normalOrderHandlerService.handleNormalOrder(
-              orderData,
-              docCode,
-            ),
-          true,
-        );
-      }
-
-      // Case 3: Split Card (Tách thẻ)
-      if (orderType === ORDER_TYPES.CARD_SEPARATION) {
-        // Previously SPLIT_CARD
-        return await this.executeWithPersistence(
-          docCode,
-          orderData,
-          maDvcs,
-          async () =>
-            await this.specialOrderHandlerService.handleTachTheOrder(
-              orderData,
-              docCode,
-            ),
-          true,
-        );
-      }
+        case INVOICE_ROUTING_FLOWS.TACH_THE:
+          return await this.executeWithPersistence(
+            docCode,
+            orderData,
+            maDvcs,
+            async () =>
+              await this.specialOrderHandlerService.handleTachTheOrder(
+                orderData,
+                docCode,
+                orderType.code,
+              ),
+            true,
+          );
 
-      // Case 4: Standard Special Orders (Loyalty Exchange, Birthday, Investment, Bottle Exchange)
-      // These all share the same handler logic with different descriptions passed inside handleStandardSpecialOrder if needed,
-      // but strictly following previous logic: they call handleStandardSpecialOrder(orderData, docCode, orderType)
-      return await this.executeWithPersistence(
-        docCode,
-        orderData,
-        maDvcs,
-        async () =>
-          await this.specialOrderHandlerService.handleStandardSpecialOrder(
+        case INVOICE_ROUTING_FLOWS.SPECIAL:
+          // Đổi điểm, Tặng sinh nhật, Đầu tư, Đổi vỏ... dùng chung handler, code loại đơn làm mô tả
+          return await this.executeWithPersistence(
+            docCode,
             orderData,
+            maDvcs,
+            async () =>
+              await this.specialOrderHandlerService.handleStandardSpecialOrder(
+                orderData,
+                docCode,
+                orderType.code, // Pass the specific order type as description/type
+                undefined, // beforeAction
+                undefined, // afterEnrichmentAction
+                true, // [FIX] Force create Invoice for ALL Special Orders as requested
+              ),
+            true,
+          );
+
+        default:
+          // Normal Order & Normal Exchange
+          return await this.executeWithPersistence(
             docCode,
-            orderType, // Pass the specific order type as description/type
-            undefined, // beforeAction
-            undefined, // afterEnrichmentAction
-            true, // [FIX] Force create Invoice for ALL Special Orders as requested
-          ),
-        true,
-      );
+            orderData,
+            maDvcs,
+            async () =>
+              await this.normalOrderHandlerService.handleNormalOrder(
+                orderData,
+                docCode,
+              ),
+            true,
+          );
+      }
     } catch (error: any) {
       const errorMessage = `Lỗi hệ thống: ${error?.message || error}`;
       await this.recordFailure(docCode, orderData, errorMessage, maDvcs);
@@ -225,30 +189,57 @@ export class InvoiceFlowOrchestratorService {
   }
 
   /**
-   * Helper: Xác định loại đơn hàng dựa trên danh sách sales
-   * Ưu tiên thứ tự check các loại đặc biệt
+   * Helper: Xử lý đơn trả hàng (SALE_RETURN hoặc loại đơn có flowHandler = return)
    */
-  private determineOrderType(sales: any[]): string {
-    // Single pass loop could be optimization, but for readability here we use find
-    // Given the small number of items per order, multiple finds are negligible,
-    // but a manual single pass is "Senior" level optimization.
-
-    for (const s of sales) {
-      if (SalesUtils.isDoiDiemOrder(s.ordertypeName))
-        return ORDER_TYPES.LOYALTY_EXCHANGE;
-      if (SalesUtils.isDoiDvOrder(s.ordertypeName))
-        return ORDER_TYPES.NORMAL_EXCHANGE;
-      if (SalesUtils.isTangSinhNhatOrder(s.ordertypeName))
-        return ORDER_TYPES.BIRTHDAY_GIFT;
-      if (SalesUtils.isDauTuOrder(s.ordertypeName))
-        return ORDER_TYPES.INVESTMENT;
-      if (SalesUtils.isTachTheOrder(s.ordertypeName))
-        return ORDER_TYPES.CARD_SEPARATION;
-      if (SalesUtils.isDoiVoOrder(s.ordertypeName))
-        return ORDER_TYPES.BOTTLE_EXCHANGE;
-      if (isServiceOrder(s.ordertypeName)) return ORDER_TYPES.SERVICE;
+  private async handleSaleReturn(
+    docCode: string,
+    orderData: any,
+    maDvcs: string,
+  ): Promise<any> {
+    const validationResult =
+      await this.invoiceValidationService.validateOrderForInvoice({
+        docCode,
+        sales: orderData.sales,
+      });
+    if (!validationResult.success) {
+      const errorMessage =
+        validationResult.message ||
+        `Đơn hàng ${docCode} không đủ điều kiện tạo hóa đơn`;
+      await this.recordFailure(docCode, orderData, errorMessage, maDvcs, null);
+      return {
+        success: false,
+        message: errorMessage,
+        result: null,
+      };
     }
-    return ORDER_TYPES.NORMAL;
+
+    const result = await this.saleReturnHandlerService.handleSaleReturnFlow(
+      orderData,
+      docCode,
+    );
+
+    // Save to database
+    await this.salesQueryService.saveFastApiInvoice({
+      docCode,
+      maDvcs: result.maDvcs || maDvcs,
+      maKh: result.maKh || orderData.customer?.code || '',
+      tenKh: result.tenKh || orderData.customer?.name || '',
+      ngayCt: orderData.docDate ? new Date(orderData.docDate) : new Date(),
+      status: result.status,
+      guid: result.guid,
+      fastApiResponse:
+        typeof result?.fastApiResponse === 'object'
+          ? JSON.stringify(result.fastApiResponse)
+          : result?.fastApiResponse,
+      payload: result.payload ? JSON.stringify(result.payload) : undefined,
+      lastErrorMessage: result.message,
+    });
+
+    return {
+      success: result.status === STATUS.SUCCESS,
+      message: result.message,
+      result: result.result,
+    };
   }
 
   private async recordFailure(
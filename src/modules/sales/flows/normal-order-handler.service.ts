@@ -14,6 +14,8 @@ import * as ConvertUtils from '../../../utils/convert.utils';
 import * as StockTransferUtils from '../../../utils/stock-transfer.utils';
 import { STATUS } from '../constants/sales-invoice.constants';
 import axios from 'axios';
+import { OrderTypeRegistryService } from '../../order-types/order-type-registry.service';
+import { ORDER_TYPE_FLOWS } from '../../order-types/constants/order-type.constants';
 
 @Injectable()
 export class NormalOrderHandlerService {
@@ -29,6 +31,7 @@ export class NormalOrderHandlerService {
     private zappyApiService: ZappyApiService,
     @Inject(forwardRef(() => PaymentService))
     private paymentService: PaymentService,
+    private orderTypeRegistryService: OrderTypeRegistryService,
   ) {}
 
   /**
@@ -61,8 +64,9 @@ export class NormalOrderHandlerService {
     );
 
     // [FIX] N8n Integration for Card Data (Enrichment source of truth)
-    const isTachThe = orderData.sales?.some((s: any) =>
-      SalesUtils.isTachTheOrder(s.ordertypeName),
+    const isTachThe = await this.orderTypeRegistryService.hasSaleInFlow(
+      orderData.sales || [],
+      ORDER_TYPE_FLOWS.TACH_THE,
     );
 
     if (isTachThe) {
@@ -176,58 +180,8 @@ export class NormalOrderHandlerService {
     // ---------------------------------------------------------
     // STEP 3: CREATE SALES INVOICE (Split by Date)
     // ---------------------------------------------------------
-    // Group sales by transDate (formatted YYYY-MM-DD)
-    const salesByDate = new Map<string, any[]>();
-    const noStockTransferSales: any[] = [];
-
-    enrichedOrder.sales.forEach((sale: any) => {
-      // Check transDate from attached stockTransfer
-      let transDateStr = '';
-      const rawTransDate = sale.stockTransfer?.transDate || sale.transDate;
-      if (rawTransDate) {
-        // Handle both Date objects and strings
-        const d = new Date(rawTransDate);
-        if (!isNaN(d.getTime())) {
-          transDateStr = ConvertUtils.formatDateYYYYMMDD(d); // YYYYMMDD
-        }
-      }
-
-      this.logger.debug(
-        `[NormalOrder] Sale item ${sale.itemCode}: transDate=${rawTransDate} -> key=${transDateStr}`,
-      );
-
-      if (transDateStr) {
-        let group = salesByDate.get(transDateStr);
-        if (!group) {
-          group = [];
-          salesByDate.set(transDateStr, group);
-        }
-        group.push(sale);
-      } else {
-        noStockTransferSales.push(sale);
-      }
-    });
-
-    const sortedDates = Array.from(salesByDate.keys()).sort();
-
-    // Strategy for No-Stock-Transfer items:
-    // If no dates, use today/order date (single group).
-    // If dates exist, attach no-stock items to the FIRST group.
-    if (sortedDates.length === 0) {
-      const orderDateStr = orderData.docDate
-        ? ConvertUtils.formatDateYYYYMMDD(new Date(orderData.docDate))
-        : ConvertUtils.formatDateYYYYMMDD(new Date());
-      salesByDate.set(orderDateStr, enrichedOrder.sales);
-      sortedDates.push(orderDateStr);
-    } else {
-      if (noStockTransferSales.length > 0) {
-        const firstDate = sortedDates[0];
-        const group = salesByDate.get(firstDate);
-        if (group) {
-          group.push(...noStockTransferSales);
-        }
-      }
-    }
+    const salesByDate = this.groupSalesByTransDate(enrichedOrder, orderData);
+    const sortedDates = Array.from(salesByDate.keys());
 
     const siResults: any[] = [];
     const splitErrors: string[] = [];
@@ -267,20 +221,11 @@ export class NormalOrderHandlerService {
         continue;
       }
 
-      // Override Dates for Sales Invoice (Use Stock Transfer Date)
-      const year = dateKey.slice(0, 4);
-      const month = dateKey.slice(4, 6);
-      const day = dateKey.slice(6, 8);
-      const stockTransferDateISO = `${year}-${month}-${day}T00:00:00.000Z`;
-
-      const siPayload = {
-        ...invoiceData,
-        ngay_ct: stockTransferDateISO,
-        ngay_lct: stockTransferDateISO,
-        trans_date: stockTransferDateISO,
-        customer: partialOrderData.customer,
-        ten_kh: partialOrderData.customer?.name || invoiceData.ong_ba || '',
-      };
+      const siPayload = this.buildSplitInvoicePayload(
+        invoiceData,
+        dateKey,
+        partialOrderData.customer,
+      );
 
       // Save payload to log (accumulate if multiple)
       if (!payloadLog.salesInvoice) payloadLog.salesInvoice = [];
@@ -398,9 +343,7 @@ export class NormalOrderHandlerService {
               so_hd: mainDocCode, // Point to split invoice
               ma_tc: mainDocCode, // Point to split invoice
             };
-            await this.fastApiInvoiceFlowService.processCashioPayment(
-              modifiedPaymentData,
-            );
+            await this.paymentService.postCashioPayment(modifiedPaymentData);
           }
           this.logger.log(`[Cashio] Payment sync completed.`);
         }
@@ -507,4 +450,91 @@ export class NormalOrderHandlerService {
       payload: payloadLog,
     };
   }
+
+  /**
+   * Nhóm sales theo ngày xuất kho (transDate của stock transfer, YYYYMMDD) để tách Sales Invoice
+   * Dòng không có stock transfer gộp vào ngày đầu tiên; không có ngày nào thì dùng ngày đơn hàng
+   * @returns Map theo thứ tự ngày tăng dần
+   */
+  groupSalesByTransDate(
+    enrichedOrder: any,
+    orderData: any,
+  ): Map<string, any[]> {
+    // Group sales by transDate (formatted YYYY-MM-DD)
+    const salesByDate = new Map<string, any[]>();
+    const noStockTransferSales: any[] = [];
+
+    enrichedOrder.sales.forEach((sale: any) => {
+      // Check transDate from attached stockTransfer
+      let transDateStr = '';
+      const rawTransDate = sale.stockTransfer?.transDate || sale.transDate;
+      if (rawTransDate) {
+        // Handle both Date objects and strings
+        const d = new Date(rawTransDate);
+        if (!isNaN(d.getTime())) {
+          transDateStr = ConvertUtils.formatDateYYYYMMDD(d); // YYYYMMDD
+        }
+      }
+
+      this.logger.debug(
+        `[NormalOrder] Sale item ${sale.itemCode}: transDate=${rawTransDate} -> key=${transDateStr}`,
+      );
+
+      if (transDateStr) {
+        let group = salesByDate.get(transDateStr);
+        if (!group) {
+          group = [];
+          salesByDate.set(transDateStr, group);
+        }
+        group.push(sale);
+      } else {
+        noStockTransferSales.push(sale);
+      }
+    });
+
+    const sortedDates = Array.from(salesByDate.keys()).sort();
+
+    // Strategy for No-Stock-Transfer items:
+    // If no dates, use today/order date (single group).
+    // If dates exist, attach no-stock items to the FIRST group.
+    if (sortedDates.length === 0) {
+      const orderDateStr = orderData.docDate
+        ? ConvertUtils.formatDateYYYYMMDD(new Date(orderData.docDate))
+        : ConvertUtils.formatDateYYYYMMDD(new Date());
+      salesByDate.set(orderDateStr, enrichedOrder.sales);
+      sortedDates.push(orderDateStr);
+    } else {
+      if (noStockTransferSales.length > 0) {
+        const firstDate = sortedDates[0];
+        const group = salesByDate.get(firstDate);
+        if (group) {
+          group.push(...noStockTransferSales);
+        }
+      }
+    }
+
+    return new Map(
+      sortedDates.map((date) => [date, salesByDate.get(date) || []]),
+    );
+  }
+
+  /**
+   * Payload Sales Invoice cho một nhóm ngày: ngày chứng từ = ngày xuất kho
+   */
+  buildSplitInvoicePayload(invoiceData: any, dateKey: string, customer: any) {
+    // Override Dates for Sales Invoice (Use Stock Transfer Date)
+    const year = dateKey.slice(0, 4);
+    const month = dateKey.slice(4, 6);
+    const day = dateKey.slice(6, 8);
+    const stockTransferDateISO = `${year}-${month}-${day}T00:00:00.000Z`;
+
+    return {
+      ...invoiceData,
+      ngay_ct: stockTransferDateISO,
+      ngay_lct: stockTransferDateISO,
+      trans_date: stockTransferDateISO,
+      customer,
+      ten_kh: customer?.name || invoiceData.ong_ba || '',
+    };
+  }
 }
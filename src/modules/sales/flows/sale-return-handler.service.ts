@@ -231,6 +231,28 @@ export class SaleReturnHandlerService {
     };
   }
 
+  /**
+   * Xử lý đơn hủy (_X): tạo salesOrder action 0 (nếu chưa có) rồi action 1
+   */
+  async handleCancelledOrder(orderData: any, docCode: string): Promise<any> {
+    this.logger.log(
+      `[AutoFlow] Detected _X order ${docCode}. Executing Action 0 -> Action 1 sequence.`,
+    );
+
+    // Step 1: Action 0
+    try {
+      await this.handleSaleOrderWithUnderscoreX(orderData, docCode, 0);
+    } catch (e) {
+      this.logger.warn(
+        `[AutoFlow] Action 0 failed or already exists for ${docCode}: ${e.message}. Continuing to Action 1.`,
+      );
+      // Continue even if Action 0 fails (maybe it already exists)
+    }
+
+    // Step 2: Action 1 (The actual _X order processing)
+    return await this.handleSaleOrderWithUnderscoreX(orderData, docCode, 1);
+  }
+
   /**
    * Xử lý đơn hàng có đuôi _X (ví dụ: SO45.01574458_X)
    * Gọi API salesOrder với action: 1
@@ -276,32 +298,8 @@ export class SaleReturnHandlerService {
     const payloadLog: any = {};
 
     try {
-      const docCodeWithoutX = this.removeSuffixX(docCode);
-
-      let orderWithoutX;
-      try {
-        orderWithoutX =
-          await this.salesInvoiceService.findByOrderCode(docCodeWithoutX);
-      } catch (error: any) {
-        this.logger.warn(
-          `[SaleOrderWithX] Không tìm thấy đơn gốc ${docCodeWithoutX} (Error: ${error.message}). Thử lại với mã ${docCode}`,
-        );
-        orderWithoutX = await this.salesInvoiceService.findByOrderCode(docCode);
-      }
-
-      if (!orderWithoutX) {
-        throw new Error(
-          `Không tìm thấy đơn hàng gốc cho ${docCode} (đã thử ${docCodeWithoutX} và ${docCode})`,
-        );
-      }
-
-      // Explode sales by Stock Transfers
-      const [enrichedOrder] =
-        await this.salesQueryService.enrichOrdersWithCashio([orderWithoutX]);
-
-      // Đơn có đuôi _X → Gọi API salesOrder với action: 1
-      const invoiceData =
-        await this.salesPayloadService.buildFastApiInvoiceData(enrichedOrder);
+      const { invoiceData, soPayload } =
+        await this.buildSaleOrderWithUnderscoreXPayload(orderData, docCode);
 
       // [NEW] Update metadata from built invoiceData to ensure consistency with payload
       fastApiInvoice.maDvcs = invoiceData.ma_dvcs || fastApiInvoice.maDvcs;
@@ -312,18 +310,6 @@ export class SaleReturnHandlerService {
 
       // Gọi API salesOrder với action = 1 (không cần tạo/cập nhật customer)
       let result: any;
-      const data = {
-        ...invoiceData,
-        dien_giai: docCodeWithoutX,
-        so_ct: docCodeWithoutX,
-        ma_kho: orderData?.maKho || '',
-      };
-
-      const soPayload = {
-        ...data,
-        customer: orderData.customer,
-        ten_kh: orderData.customer?.name || invoiceData.ong_ba || '',
-      };
       payloadLog.salesOrder = soPayload;
 
       result = await this.fastApiInvoiceFlowService.createSalesOrder(
@@ -388,6 +374,7 @@ export class SaleReturnHandlerService {
       // Save payload log
       fastApiInvoice.payload = JSON.stringify(payloadLog);
       await this.fastApiInvoiceRepository.save(fastApiInvoice);
+      await this.salesQueryService.recordFastApiInvoiceAttempt(fastApiInvoice);
 
       return {
         success: responseStatus === 1,
@@ -473,6 +460,9 @@ export class SaleReturnHandlerService {
         }
 
         await this.fastApiInvoiceRepository.save(fastApiInvoice);
+        await this.salesQueryService.recordFastApiInvoiceAttempt(
+          fastApiInvoice,
+        );
       } catch (dbError) {
         this.logger.error(
           `Failed to update invoice status for ${docCode}`,
@@ -484,6 +474,56 @@ export class SaleReturnHandlerService {
     }
   }
 
+  /**
+   * Dựng payload salesOrder cho đơn _X từ đơn gốc (bỏ đuôi _X)
+   * Dùng chung cho tạo chứng từ và preview
+   */
+  async buildSaleOrderWithUnderscoreXPayload(
+    orderData: any,
+    docCode: string,
+  ): Promise<{ invoiceData: any; soPayload: any }> {
+    const docCodeWithoutX = this.removeSuffixX(docCode);
+
+    let orderWithoutX;
+    try {
+      orderWithoutX =
+        await this.salesInvoiceService.findByOrderCode(docCodeWithoutX);
+    } catch (error: any) {
+      this.logger.warn(
+        `[SaleOrderWithX] Không tìm thấy đơn gốc ${docCodeWithoutX} (Error: ${error.message}). Thử lại với mã ${docCode}`,
+      );
+      orderWithoutX = await this.salesInvoiceService.findByOrderCode(docCode);
+    }
+
+    if (!orderWithoutX) {
+      throw new Error(
+        `Không tìm thấy đơn hàng gốc cho ${docCode} (đã thử ${docCodeWithoutX} và ${docCode})`,
+      );
+    }
+
+    // Explode sales by Stock Transfers
+    const [enrichedOrder] =
+      await this.salesQueryService.enrichOrdersWithCashio([orderWithoutX]);
+
+    // Đơn có đuôi _X → Gọi API salesOrder với action: 1
+    const invoiceData =
+      await this.salesPayloadService.buildFastApiInvoiceData(enrichedOrder);
+
+    const data = {
+      ...invoiceData,
+      dien_giai: docCodeWithoutX,
+      so_ct: docCodeWithoutX,
+      ma_kho: orderData?.maKho || '',
+    };
+
+    const soPayload = {
+      ...data,
+      customer: orderData.customer,
+      ten_kh: orderData.customer?.name || invoiceData.ong_ba || '',
+    };
+    return { invoiceData, soPayload };
+  }
+
   /**
    * Helper: Remove suffix _X from docCode
    */
@@ -20,7 +20,6 @@ import {
   DOC_SOURCE_TYPES,
   PRODUCT_TYPES,
   STATUS,
-  ORDER_TYPES,
 } from '../constants/sales-invoice.constants';
 
 @Injectable()
@@ -199,13 +198,17 @@ export class SpecialOrderHandlerService {
   }
 
   /**
-   * Xử lý đơn Tách thẻ (08. Tách thẻ) - có thêm logic fetch card data
+   * Xử lý đơn luồng tách thẻ (order_types.flowHandler = tach-the) - có thêm logic fetch card data
    */
-  async handleTachTheOrder(orderData: any, docCode: string): Promise<any> {
+  async handleTachTheOrder(
+    orderData: any,
+    docCode: string,
+    description: string,
+  ): Promise<any> {
     return this.handleStandardSpecialOrder(
       orderData,
       docCode,
-      ORDER_TYPES.CARD_SEPARATION,
+      description,
       undefined, // No beforeAction
       async (enrichedOrder) => {
         // [FIX] Cập nhật thay thế `n8n get_card` webhook bằng `Zappy API getPartnerFromSvc`
@@ -414,9 +417,7 @@ export class SpecialOrderHandlerService {
             `[Cashio] Found ${paymentDataList.length} payment records for order ${docCode}. Processing...`,
           );
           for (const paymentData of paymentDataList) {
-            await this.fastApiInvoiceFlowService.processCashioPayment(
-              paymentData,
-            );
+            await this.paymentService.postCashioPayment(paymentData);
           }
           // Note: Since we are using the new sync flow, we don't return specific cashReceipt/creditAdvice results here
           // But we can Log success
@@ -0,0 +1,342 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import * as _ from 'lodash';
+import { StockTransfer } from '../../../entities/stock-transfer.entity';
+import { FastApiInvoiceFlowService } from '../../../services/fast-api-invoice-flow.service';
+import { FastApiPayloadHelper } from '../../../services/fast-api-payload.helper';
+import { CategoriesService } from '../../categories/categories.service';
+import { NormalOrderHandlerService } from '../flows/normal-order-handler.service';
+import { SaleReturnHandlerService } from '../flows/sale-return-handler.service';
+import { InvoiceRoutingService } from '../routing/invoice-routing.service';
+import { SalesQueryService } from '../services/sales-query.service';
+import { SalesInvoiceService } from './sales-invoice.service';
+import { SalesPayloadService } from './sales-payload.service';
+import { INVOICE_ROUTING_FLOWS } from '../constants/invoice-routing.constants';
+import {
+  DOC_SOURCE_TYPES,
+  PRODUCT_TYPES,
+} from '../constants/sales-invoice.constants';
+import * as StockTransferUtils from '../../../utils/stock-transfer.utils';
+
+export interface InvoicePreviewPayload {
+  endpoint: 'salesOrder' | 'salesInvoice' | 'salesReturn' | 'gxtInvoice';
+  label: string;
+  payload: any;
+}
+
+/**
+ * Dry-run tạo hóa đơn: chạy định tuyến + dựng payload như luồng thật nhưng KHÔNG gọi Fast,
+ * không tạo customer, không lưu fast_api_invoices
+ */
+@Injectable()
+export class InvoicePreviewService {
+  private readonly logger = new Logger(InvoicePreviewService.name);
+
+  constructor(
+    @InjectRepository(StockTransfer)
+    private stockTransferRepository: Repository<StockTransfer>,
+    private salesInvoiceService: SalesInvoiceService,
+    private salesPayloadService: SalesPayloadService,
+    private salesQueryService: SalesQueryService,
+    private normalOrderHandlerService: NormalOrderHandlerService,
+    private saleReturnHandlerService: SaleReturnHandlerService,
+    private invoiceRoutingService: InvoiceRoutingService,
+    private fastApiInvoiceFlowService: FastApiInvoiceFlowService,
+    private categoriesService: CategoriesService,
+  ) {}
+
+  async previewInvoice(docCode: string) {
+    const orderData = await this.salesInvoiceService.findByOrderCode(docCode);
+    if (!orderData || !orderData.sales || orderData.sales.length === 0) {
+      throw new NotFoundException(`Order ${docCode} not found or has no sales`);
+    }
+
+    const decision = await this.invoiceRoutingService.route(docCode, orderData);
+    const payloads: InvoicePreviewPayload[] = [];
+    const warnings: string[] = [];
+    const notes: string[] = [
+      'Chứng từ thanh toán (cashio / payment) không được preview',
+    ];
+
+    const stockTransfers = await this.findStockTransfers(docCode, orderData);
+
+    if (decision.flow === INVOICE_ROUTING_FLOWS.CANCELLED_ORDER) {
+      // Đơn hủy: salesOrder action 0 rồi action 1
+      const { soPayload } =
+        await this.saleReturnHandlerService.buildSaleOrderWithUnderscoreXPayload(
+          orderData,
+          docCode,
+        );
+      payloads.push(
+        this.salesOrder('Sales Order (action 0)', soPayload, 0),
+        this.salesOrder('Sales Order hủy (action 1)', soPayload, 1),
+      );
+    } else if (_.isEmpty(stockTransfers)) {
+      // Không có stock transfer: chỉ tạo Sales Order
+      const { soPayload } =
+        await this.saleReturnHandlerService.buildSaleOrderWithUnderscoreXPayload(
+          orderData,
+          docCode,
+        );
+      payloads.push(this.salesOrder('Sales Order', soPayload, 0));
+      notes.push('Đơn chưa có stock transfer: chỉ tạo Sales Order');
+    } else if (decision.flow === INVOICE_ROUTING_FLOWS.RETURN) {
+      const salesReturnData =
+        await this.salesPayloadService.buildSalesReturnData(
+          orderData,
+          stockTransfers.filter(
+            (stockTransfer) =>
+              stockTransfer.doctype === DOC_SOURCE_TYPES.SALE_RETURN,
+          ),
+        );
+      payloads.push({
+        endpoint: 'salesReturn',
+        label: 'Sales Return',
+        payload:
+          this.fastApiInvoiceFlowService.buildSalesReturnPayload(
+            salesReturnData,
+          ),
+      });
+    } else {
+      if (!decision.orderType.invoiceAllowed) {
+        warnings.push(
+          `Loại đơn "${decision.orderType.code}" không được phép tạo hóa đơn`,
+        );
+      }
+      const [enrichedOrder] =
+        await this.salesQueryService.enrichOrdersWithCashio([orderData]);
+      payloads.push(
+        ...(await this.buildFlowPayloads(
+          decision.flow,
+          enrichedOrder,
+          orderData,
+          docCode,
+          notes,
+        )),
+      );
+      warnings.push(...(await this.collectWarehouseWarnings(enrichedOrder)));
+    }
+
+    for (const item of payloads) {
+      warnings.push(...this.collectPayloadWarnings(item));
+    }
+
+    return {
+      docCode,
+      routing: decision,
+      payloads,
+      warnings: [...new Set(warnings)],
+      notes,
+    };
+  }
+
+  private async buildFlowPayloads(
+    flow: string,
+    enrichedOrder: any,
+    orderData: any,
+    docCode: string,
+    notes: string[],
+  ): Promise<InvoicePreviewPayload[]> {
+    const withCustomer = (data: any) => ({
+      ...data,
+      customer: orderData.customer,
+      ten_kh: orderData.customer?.name || data.ong_ba || '',
+    });
+
+    switch (flow) {
+      case INVOICE_ROUTING_FLOWS.SERVICE: {
+        const sales = enrichedOrder.sales || [];
+        const serviceLines = sales.filter(
+          (s: any) =>
+            s.productType?.toUpperCase()?.trim() === PRODUCT_TYPES.SERVICE,
+        );
+        if (serviceLines.length === 0) {
+          throw new NotFoundException(
+            `Service order ${docCode} has no service (S) lines`,
+          );
+        }
+        const serviceInvoiceData =
+          await this.salesPayloadService.buildFastApiInvoiceData({
+            ...enrichedOrder,
+            sales: serviceLines,
+          });
+        const result = [
+          this.salesOrder(
+            'Sales Order (dòng dịch vụ)',
+            withCustomer(serviceInvoiceData),
+            0,
+          ),
+          this.salesInvoice(
+            'Sales Invoice (dòng dịch vụ)',
+            withCustomer(serviceInvoiceData),
+          ),
+        ];
+
+        const exportLines = sales.filter(
+          (s: any) =>
+            s?.productType?.toUpperCase()?.trim() === PRODUCT_TYPES.ITEM_EXPORT,
+        );
+        if (exportLines.length > 0) {
+          const gxtData = await this.salesPayloadService.buildGxtInvoiceData(
+            enrichedOrder,
+            serviceLines,
+            exportLines,
+          );
+          result.push({
+            endpoint: 'gxtInvoice',
+            label: 'GXT Invoice',
+            payload: this.fastApiInvoiceFlowService.buildGxtInvoicePayload(
+              withCustomer(gxtData),
+            ),
+          });
+        }
+        return result;
+      }
+
+      case INVOICE_ROUTING_FLOWS.TACH_THE:
+      case INVOICE_ROUTING_FLOWS.SPECIAL: {
+        if (flow === INVOICE_ROUTING_FLOWS.TACH_THE) {
+          notes.push(
+            'Tách thẻ: chưa làm giàu đối tác phát hành từ Zappy (svc_serial) trong preview',
+          );
+        }
+        const invoiceData =
+          await this.salesPayloadService.buildFastApiInvoiceData(enrichedOrder);
+        return [
+          this.salesOrder('Sales Order', withCustomer(invoiceData), 0),
+          this.salesInvoice('Sales Invoice', withCustomer(invoiceData)),
+        ];
+      }
+
+      default: {
+        // Đơn thường: 1 Sales Order + Sales Invoice tách theo ngày xuất kho
+        const fullInvoiceData =
+          await this.salesPayloadService.buildFastApiInvoiceData(enrichedOrder);
+        const result = [
+          this.salesOrder('Sales Order', withCustomer(fullInvoiceData), 0),
+        ];
+
+        const salesByDate =
+          this.normalOrderHandlerService.groupSalesByTransDate(
+            enrichedOrder,
+            orderData,
+          );
+        for (const [dateKey, groupSales] of salesByDate) {
+          const invoiceData =
+            await this.salesPayloadService.buildFastApiInvoiceData({
+              ...enrichedOrder,
+              docCode,
+              sales: groupSales,
+            });
+          result.push(
+            this.salesInvoice(
+              `Sales Invoice (ngày ${dateKey})`,
+              this.normalOrderHandlerService.buildSplitInvoicePayload(
+                invoiceData,
+                dateKey,
+                enrichedOrder.customer,
+              ),
+            ),
+          );
+        }
+        return result;
+      }
+    }
+  }
+
+  private async findStockTransfers(docCode: string, orderData: any) {
+    const docCodesForStockTransfer =
+      StockTransferUtils.getDocCodesForStockTransfer([docCode]);
+    if (orderData.docSourceType === DOC_SOURCE_TYPES.SALE_RETURN) {
+      return this.stockTransferRepository.find({
+        where: { docCode: In(docCodesForStockTransfer) },
+      });
+    }
+    return this.stockTransferRepository.find({
+      where: { soCode: In(docCodesForStockTransfer) },
+    });
+  }
+
+  private salesOrder(
+    label: string,
+    data: any,
+    action: number,
+  ): InvoicePreviewPayload {
+    return {
+      endpoint: 'salesOrder',
+      label,
+      payload: this.fastApiInvoiceFlowService.buildSalesOrderPayload(
+        data,
+        action,
+      ),
+    };
+  }
+
+  private salesInvoice(label: string, data: any): InvoicePreviewPayload {
+    return {
+      endpoint: 'salesInvoice',
+      label,
+      payload: this.fastApiInvoiceFlowService.buildSalesInvoicePayload(data),
+    };
+  }
+
+  /**
+   * Cảnh báo trên payload cuối: thiếu mã vật tư, thiếu mã kho, giá bằng 0, thiếu trường bắt buộc
+   */
+  private collectPayloadWarnings(item: InvoicePreviewPayload): string[] {
+    const warnings: string[] = [];
+    const details: any[] = Array.isArray(item.payload?.detail)
+      ? item.payload.detail
+      : [];
+
+    details.forEach((line, index) => {
+      const prefix = `${item.label} - dòng ${index + 1}`;
+      if (!String(line.ma_vt ?? '').trim()) {
+        warnings.push(`${prefix}: thiếu mã vật tư (ma_vt)`);
+      }
+      if (!String(line.ma_kho ?? '').trim()) {
+        warnings.push(`${prefix} (${line.ma_vt || 'N/A'}): thiếu mã kho`);
+      }
+      const price = line.gia_ban ?? line.gia_nt2;
+      if (price !== undefined && Number(price) === 0) {
+        warnings.push(`${prefix} (${line.ma_vt || 'N/A'}): giá bán bằng 0`);
+      }
+    });
+
+    try {
+      if (item.endpoint === 'salesInvoice') {
+        FastApiPayloadHelper.validateSalesInvoice(item.payload);
+      } else if (item.endpoint === 'salesReturn') {
+        FastApiPayloadHelper.validateSalesReturn(item.payload);
+      }
+    } catch (error: any) {
+      warnings.push(`${item.label}: ${error?.message || error}`);
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Cảnh báo mã kho chưa có mapping sang mã kho mới
+   */
+  private async collectWarehouseWarnings(enrichedOrder: any) {
+    const codes = [
+      ...new Set<string>(
+        (enrichedOrder.sales || [])
+          .map((sale: any) => sale.stockTransfer?.stockCode || sale.maKho)
+          .filter((code: any) => !!code && String(code).trim() !== ''),
+      ),
+    ];
+
+    const warnings: string[] = [];
+    for (const code of codes) {
+      const mapped = await this.categoriesService.mapWarehouseCode(code);
+      if (!mapped) {
+        this.logger.debug(`[Preview] Mã kho ${code} chưa được mapping`);
+        warnings.push(`Mã kho ${code} chưa được mapping sang mã kho mới`);
+      }
+    }
+    return warnings;
+  }
+}
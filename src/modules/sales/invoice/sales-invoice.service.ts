@@ -15,6 +15,8 @@ import { SalesPayloadService } from './sales-payload.service';
 import * as SalesUtils from '../../../utils/sales.utils';
 import * as ConvertUtils from '../../../utils/convert.utils';
 import { SalesQueryService } from '../services/sales-query.service';
+import { InvoiceRoutingService } from '../routing/invoice-routing.service';
+import { INVOICE_ROUTING_FLOWS } from '../constants/invoice-routing.constants';
 
 @Injectable()
 export class SalesInvoiceService {
@@ -36,6 +38,7 @@ export class SalesInvoiceService {
     private saleReturnHandlerService: SaleReturnHandlerService,
     private fastApiInvoiceFlowService: FastApiInvoiceFlowService,
     private salesPayloadService: SalesPayloadService,
+    private invoiceRoutingService: InvoiceRoutingService,
   ) { }
 
   /**
@@ -90,34 +93,16 @@ export class SalesInvoiceService {
         );
       }
 
-      const hasX = /_X$/.test(docCode);
-
-      // [CRITICAL] Check _X FIRST before stock transfer check
+      // [CRITICAL] Check đơn hủy FIRST before stock transfer check (rule định tuyến, mặc định: đuôi _X)
       // Cancelled orders (_X) should ONLY create Sales Order (Action 0->1), NEVER Sales Invoice
-      if (hasX) {
-        this.logger.log(
-          `[AutoFlow] Detected _X order ${docCode}. Executing Action 0 -> Action 1 sequence.`,
-        );
-
-        // Step 1: Action 0
-        try {
-          await this.saleReturnHandlerService.handleSaleOrderWithUnderscoreX(
-            orderData,
-            docCode,
-            0,
-          );
-        } catch (e) {
-          this.logger.warn(
-            `[AutoFlow] Action 0 failed or already exists for ${docCode}: ${e.message}. Continuing to Action 1.`,
-          );
-          // Continue even if Action 0 fails (maybe it already exists)
-        }
-
-        // Step 2: Action 1 (The actual _X order processing)
-        return await this.saleReturnHandlerService.handleSaleOrderWithUnderscoreX(
+      const { flow } = await this.invoiceRoutingService.route(
+        docCode,
+        orderData,
+      );
+      if (flow === INVOICE_ROUTING_FLOWS.CANCELLED_ORDER) {
+        return await this.saleReturnHandlerService.handleCancelledOrder(
           orderData,
           docCode,
-          1,
         );
       }
 
@@ -337,249 +322,4 @@ export class SalesInvoiceService {
     // TODO: Consider moving to SalesWarehouseService in future refactoring
     throw new Error('Not implemented - to be moved to SalesWarehouseService');
   }
-
-  /**
-   * Xử lý tạo hóa đơn cho danh sách đơn hàng trong khoảng thời gian (Phase 2)
-   */
-  async processInvoicesByDateRange(
-    startDate: string,
-    endDate: string,
-  ): Promise<{
-    success: boolean;
-    message: string;
-    totalProcessed: number;
-    successCount: number;
-    failedCount: number;
-    errors: string[];
-    details: Array<{
-      date: string;
-      processed: number;
-      success: number;
-      failed: number;
-    }>;
-  }> {
-    const parseDate = (dateStr: string): Date => {
-      const day = parseInt(dateStr.substring(0, 2));
-      const monthStr = dateStr.substring(2, 5).toUpperCase();
-      const year = parseInt(dateStr.substring(5, 9));
-      const monthMap: Record<string, number> = {
-        JAN: 0,
-        FEB: 1,
-        MAR: 2,
-        APR: 3,
-        MAY: 4,
-        JUN: 5,
-        JUL: 6,
-        AUG: 7,
-        SEP: 8,
-        OCT: 9,
-        NOV: 10,
-        DEC: 11,
-      };
-      return new Date(year, monthMap[monthStr] || 0, day);
-    };
-
-    const formatDate = (date: Date): string => {
-      const day = date.getDate().toString().padStart(2, '0');
-      const months = [
-        'JAN',
-        'FEB',
-        'MAR',
-        'APR',
-        'MAY',
-        'JUN',
-        'JUL',
-        'AUG',
-        'SEP',
-        'OCT',
-        'NOV',
-        'DEC',
-      ];
-      return `${day}${months[date.getMonth()]}${date.getFullYear()}`;
-    };
-
-    const start = parseDate(startDate);
-    const end = parseDate(endDate);
-    const errors: string[] = [];
-    const details: Array<{
-      date: string;
-      processed: number;
-      success: number;
-      failed: number;
-    }> = [];
-    let totalProcessed = 0;
-    let totalSuccess = 0;
-    let totalFailed = 0;
-
-    let currentDate = new Date(start);
-    while (currentDate <= end) {
-      const dateStr = formatDate(currentDate);
-      this.logger.log(`[Phase 2] Bắt đầu xử lý hóa đơn cho ngày ${dateStr}...`);
-
-      try {
-        const startOfDay = new Date(currentDate);
-        startOfDay.setHours(0, 0, 0, 0);
-        const endOfDay = new Date(currentDate);
-        endOfDay.setHours(23, 59, 59, 999);
-
-        const sales = await this.saleRepository
-          .createQueryBuilder('sale')
-          .select('DISTINCT sale.docCode', 'docCode')
-          .where('sale.docDate >= :startOfDay AND sale.docDate <= :endOfDay', {
-            startOfDay,
-            endOfDay,
-          })
-          .getRawMany();
-
-        const docCodes = sales.map((s) => s.docCode);
-        this.logger.log(
-          `[Phase 2] Tìm thấy ${docCodes.length} đơn hàng cho ngày ${dateStr}`,
-        );
-
-        let daySuccess = 0;
-        let dayFailed = 0;
-
-        // OPTIMIZED: Parallelize with Concurrency Limit
-        const CONCURRENCY_LIMIT = 5;
-        const chunks: string[][] = [];
-        for (let i = 0; i < docCodes.length; i += CONCURRENCY_LIMIT) {
-          chunks.push(docCodes.slice(i, i + CONCURRENCY_LIMIT));
-        }
-
-        for (const chunk of chunks) {
-          const chunkPromises = chunk.map(async (docCode) => {
-            try {
-              // Gọi hàm createInvoiceViaFastApi cho từng đơn (để handle cả logic _X)
-              // ForceRetry = false để skip các đơn đã thành công rồi
-              const result = await this.createInvoiceViaFastApi(docCode, false);
-              return { docCode, result, error: null };
-            } catch (err: any) {
-              return { docCode, result: null, error: err };
-            }
-          });
-
-          const chunkResults = await Promise.all(chunkPromises);
-
-          for (const res of chunkResults) {
-            totalProcessed++;
-            if (res.error) {
-              dayFailed++;
-              totalFailed++;
-              errors.push(`[${dateStr}] ${res.docCode}: ${res.error.message}`);
-            } else if (res.result) {
-              const result = res.result;
-              if (result.success || result.alreadyExists) {
-                daySuccess++;
-                totalSuccess++;
-              } else {
-                dayFailed++;
-                totalFailed++;
-                errors.push(`[${dateStr}] ${res.docCode}: ${result.message}`);
-              }
-            }
-          }
-        }
-
-        details.push({
-          date: dateStr,
-          processed: docCodes.length,
-          success: daySuccess,
-          failed: dayFailed,
-        });
-      } catch (error: any) {
-        const msg = `Lỗi khi xử lý ngày ${dateStr}: ${error.message}`;
-        this.logger.error(msg);
-        errors.push(msg);
-      }
-
-      currentDate.setDate(currentDate.getDate() + 1);
-    }
-
-    return {
-      success: totalFailed === 0,
-      message: `Hoàn tất xử lý hóa đơn từ ${startDate} đến ${endDate}. Tổng: ${totalProcessed}, Thành công: ${totalSuccess}, Lỗi: ${totalFailed}`,
-      totalProcessed,
-      successCount: totalSuccess,
-      failedCount: totalFailed,
-      errors,
-      details,
-    };
-  }
-  async retryFailedInvoices(): Promise<{
-    processed: number;
-    success: number;
-    failed: number;
-    results: any[];
-  }> {
-    this.logger.log('[Retry] Starting batch retry for failed invoices...');
-
-    // 1. Get all failed invoices
-    const failedInvoices = await this.fastApiInvoiceRepository.find({
-      where: { status: 0 },
-      select: ['docCode', 'status', 'id', 'updatedAt'], // Select basic fields
-      order: { updatedAt: 'DESC' }, // Process newest failures first
-    });
-
-    if (failedInvoices.length === 0) {
-      return { processed: 0, success: 0, failed: 0, results: [] };
-    }
-
-    this.logger.log(
-      `[Retry] Found ${failedInvoices.length} failed invoices. Processing...`,
-    );
-
-    const results: any[] = [];
-    let successCount = 0;
-    let failCount = 0;
-
-    // 2. Process each invoice
-    const BATCH_SIZE = 5; // Parallel concurrency
-    // Process in chunks to avoid overwhelming the system
-    for (let i = 0; i < failedInvoices.length; i += BATCH_SIZE) {
-      const chunk = failedInvoices.slice(i, i + BATCH_SIZE);
-      const chunkPromises = chunk.map(async (invoice) => {
-        try {
-          // Force retry = true
-          const result = await this.processSingleOrder(invoice.docCode, true);
-          return {
-            docCode: invoice.docCode,
-            success: result.success,
-            message: result.message,
-            error: result.success ? null : result.message || 'Unknown error',
-          };
-        } catch (error: any) {
-          return {
-            docCode: invoice.docCode,
-            success: false,
-            message: error?.message || 'Exception during retry',
-            error: error?.message,
-          };
-        }
-      });
-
-      const chunkResults = await Promise.all(chunkPromises);
-
-      chunkResults.forEach((r) => {
-        if (r.success) successCount++;
-        else failCount++;
-        results.push(r);
-      });
-
-      // Small delay between chunks
-      if (i + BATCH_SIZE < failedInvoices.length) {
-        await new Promise((resolve) => setTimeout(resolve, 500));
-      }
-    }
-
-    this.logger.log(
-      `[Retry] Completed. Success: ${successCount}, Failed: ${failCount}`,
-    );
-
-    return {
-      processed: failedInvoices.length,
-      success: successCount,
-      failed: failCount,
-      results,
-    };
-  }
 } // End Class
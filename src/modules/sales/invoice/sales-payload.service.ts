@@ -12,6 +12,8 @@ import * as _ from 'lodash';
 import * as SalesUtils from '../../../utils/sales.utils';
 import { InvoiceLogicUtils } from '../../../utils/invoice-logic.utils';
 import { DOC_SOURCE_TYPES } from '../constants/sales-invoice.constants';
+import { OrderTypeRegistryService } from '../../order-types/order-type-registry.service';
+import { ORDER_TYPE_FLOWS } from '../../order-types/constants/order-type.constants';
 
 @Injectable()
 export class SalesPayloadService {
@@ -28,6 +30,7 @@ export class SalesPayloadService {
     private n8nService: N8nService,
     private categoriesService: CategoriesService,
     private zappyApiService: ZappyApiService,
+    private orderTypeRegistryService: OrderTypeRegistryService,
   ) { }
 
   /**
@@ -949,8 +952,9 @@ export class SalesPayloadService {
     }
 
     const brand = orderData.sourceCompany || orderData.brand;
-    const tachTheSales = orderData.sales.filter((s: any) =>
-      SalesUtils.isTachTheOrder(s.ordertypeName || s.ordertype)
+    const tachTheSales = await this.orderTypeRegistryService.filterSalesByFlow(
+      orderData.sales,
+      ORDER_TYPE_FLOWS.TACH_THE,
     );
 
     if (tachTheSales.length === 0) return map;
@@ -0,0 +1,476 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, LessThan } from 'typeorm';
+import Redis from 'ioredis';
+import * as _ from 'lodash';
+import { Sale } from '../../../entities/sale.entity';
+import { FastApiInvoice } from '../../../entities/fast-api-invoice.entity';
+import { InvoiceJob } from '../../../entities/invoice-job.entity';
+import { InvoiceJobBatch } from '../../../entities/invoice-job-batch.entity';
+import { getRedisConfig } from '../../../config/redis.config';
+import { parseDDMMMYYYY } from '../../../utils/date-parser.util';
+import {
+  INVOICE_JOB_BATCH_TYPES,
+  INVOICE_JOB_QUEUE_KEY,
+  INVOICE_JOB_STALE_AFTER_MS,
+  INVOICE_JOB_STATUS,
+  InvoiceJobBatchType,
+} from '../constants/invoice-job.constants';
+
+const CHUNK_SIZE = 500;
+
+/**
+ * Hàng đợi job tạo hóa đơn.
+ * Trạng thái job lưu ở Postgres (invoice_jobs), Redis chỉ giữ danh sách id job đang chờ.
+ * Worker (InvoiceJobWorkerService) claim job bằng update có điều kiện nên một id
+ * bị push trùng vào Redis cũng chỉ được xử lý một lần.
+ */
+@Injectable()
+export class InvoiceJobQueueService implements OnModuleDestroy {
+  private readonly logger = new Logger(InvoiceJobQueueService.name);
+  private readonly redis: Redis;
+  private readonly maxAttempts: number;
+
+  constructor(
+    @InjectRepository(InvoiceJob)
+    private invoiceJobRepository: Repository<InvoiceJob>,
+    @InjectRepository(InvoiceJobBatch)
+    private invoiceJobBatchRepository: Repository<InvoiceJobBatch>,
+    @InjectRepository(Sale)
+    private saleRepository: Repository<Sale>,
+    @InjectRepository(FastApiInvoice)
+    private fastApiInvoiceRepository: Repository<FastApiInvoice>,
+    private configService: ConfigService,
+  ) {
+    this.redis = new Redis(getRedisConfig(this.configService));
+    this.redis.on('error', (error) =>
+      this.logger.error(`[Redis] ${error?.message || error}`),
+    );
+    this.maxAttempts = Number(
+      this.configService.get('INVOICE_JOB_MAX_ATTEMPTS', 3),
+    );
+  }
+
+  onModuleDestroy() {
+    this.redis.disconnect();
+  }
+
+  /**
+   * Tạo connection riêng cho worker (BRPOP block connection nên không dùng chung)
+   */
+  createWorkerConnection(): Redis {
+    const connection = new Redis({
+      ...getRedisConfig(this.configService),
+      maxRetriesPerRequest: null,
+    });
+    connection.on('error', (error) =>
+      this.logger.error(`[Redis Worker] ${error?.message || error}`),
+    );
+    return connection;
+  }
+
+  /**
+   * Đưa tất cả đơn hàng trong khoảng ngày vào hàng đợi (thay cho processInvoicesByDateRange)
+   * @param startDate - DDMMMYYYY (ví dụ: 01OCT2025)
+   * @param endDate - DDMMMYYYY (ví dụ: 31OCT2025)
+   */
+  async enqueueDateRange(startDate: string, endDate: string) {
+    const start = parseDDMMMYYYY(startDate);
+    const end = parseDDMMMYYYY(endDate);
+    end.setHours(23, 59, 59, 999);
+
+    const sales = await this.saleRepository
+      .createQueryBuilder('sale')
+      .select('DISTINCT sale.docCode', 'docCode')
+      .where('sale.docDate >= :start AND sale.docDate <= :end', {
+        start,
+        end,
+      })
+      .getRawMany();
+
+    const docCodes = sales.map((s) => s.docCode);
+    this.logger.log(
+      `[InvoiceJob] Tìm thấy ${docCodes.length} đơn hàng từ ${startDate} đến ${endDate}`,
+    );
+
+    // ForceRetry = false để skip các đơn đã thành công rồi
+    return this.createBatch(INVOICE_JOB_BATCH_TYPES.DATE_RANGE, docCodes, {
+      forceRetry: false,
+      startDate,
+      endDate,
+    });
+  }
+
+  /**
+   * Đưa tất cả hóa đơn lỗi (FastApiInvoice.status = 0) vào hàng đợi (thay cho retryFailedInvoices)
+   */
+  async enqueueFailedInvoices() {
+    const failedInvoices = await this.fastApiInvoiceRepository.find({
+      where: { status: 0 },
+      select: ['docCode', 'updatedAt'],
+      order: { updatedAt: 'DESC' }, // Process newest failures first
+    });
+
+    return this.createBatch(
+      INVOICE_JOB_BATCH_TYPES.RETRY_FAILED,
+      failedInvoices.map((invoice) => invoice.docCode),
+      { forceRetry: true },
+    );
+  }
+
+  /**
+   * Đưa danh sách docCode chỉ định vào hàng đợi
+   */
+  async enqueueDocCodes(docCodes: string[], forceRetry: boolean = false) {
+    return this.createBatch(INVOICE_JOB_BATCH_TYPES.MANUAL, docCodes, {
+      forceRetry,
+    });
+  }
+
+  private async createBatch(
+    type: InvoiceJobBatchType,
+    docCodes: string[],
+    options: { forceRetry: boolean; startDate?: string; endDate?: string },
+  ) {
+    const uniqueDocCodes = _.uniq(docCodes.filter((code) => !!code));
+
+    // Bỏ qua đơn đã có job đang chờ/đang chạy để không tạo hóa đơn trùng
+    const activeDocCodes = new Set<string>();
+    for (const chunk of _.chunk(uniqueDocCodes, CHUNK_SIZE)) {
+      const activeJobs = await this.invoiceJobRepository.find({
+        where: {
+          docCode: In(chunk),
+          status: In([
+            INVOICE_JOB_STATUS.PENDING,
+            INVOICE_JOB_STATUS.PROCESSING,
+          ]),
+        },
+        select: ['docCode'],
+      });
+      activeJobs.forEach((job) => activeDocCodes.add(job.docCode));
+    }
+    const docCodesToQueue = uniqueDocCodes.filter(
+      (code) => !activeDocCodes.has(code),
+    );
+
+    const batch = await this.invoiceJobBatchRepository.save(
+      this.invoiceJobBatchRepository.create({
+        type,
+        startDate: options.startDate,
+        endDate: options.endDate,
+        totalJobs: docCodesToQueue.length,
+        skippedCount: activeDocCodes.size,
+      }),
+    );
+
+    const jobs = await this.invoiceJobRepository.save(
+      docCodesToQueue.map((docCode) =>
+        this.invoiceJobRepository.create({
+          batchId: batch.id,
+          docCode,
+          forceRetry: options.forceRetry,
+          status: INVOICE_JOB_STATUS.PENDING,
+          maxAttempts: this.maxAttempts,
+        }),
+      ),
+      { chunk: CHUNK_SIZE },
+    );
+
+    await this.push(jobs.map((job) => job.id));
+
+    this.logger.log(
+      `[InvoiceJob] Batch ${batch.id} (${type}): ${jobs.length} job, bỏ qua ${activeDocCodes.size} đơn đang có job`,
+    );
+
+    return {
+      batchId: batch.id,
+      type,
+      totalJobs: jobs.length,
+      skippedCount: activeDocCodes.size,
+      message: `Đã đưa ${jobs.length} đơn hàng vào hàng đợi tạo hóa đơn`,
+    };
+  }
+
+  private async push(jobIds: string[]) {
+    for (const chunk of _.chunk(jobIds, CHUNK_SIZE)) {
+      await this.redis.lpush(INVOICE_JOB_QUEUE_KEY, ...chunk);
+    }
+  }
+
+  /**
+   * Worker nhận job: chỉ thành công nếu job còn PENDING
+   * @returns Job đã claim hoặc null nếu job đã được worker khác nhận / bị hủy
+   */
+  async claimJob(jobId: string): Promise<InvoiceJob | null> {
+    const claim = await this.invoiceJobRepository
+      .createQueryBuilder()
+      .update(InvoiceJob)
+      .set({
+        status: INVOICE_JOB_STATUS.PROCESSING,
+        attempts: () => 'attempts + 1',
+        startedAt: new Date(),
+      })
+      .where('id = :id AND status = :status', {
+        id: jobId,
+        status: INVOICE_JOB_STATUS.PENDING,
+      })
+      .execute();
+
+    if (!claim.affected) {
+      return null;
+    }
+    return this.invoiceJobRepository.findOne({ where: { id: jobId } });
+  }
+
+  /**
+   * Lưu kết quả flow tạo hóa đơn (kể cả khi Fast trả lỗi nghiệp vụ)
+   */
+  async completeJob(job: InvoiceJob, success: boolean, result: any) {
+    await this.invoiceJobRepository.update(job.id, {
+      status: success ? INVOICE_JOB_STATUS.SUCCESS : INVOICE_JOB_STATUS.FAILED,
+      result: result ? JSON.stringify(result) : null,
+      lastErrorMessage: success ? null : result?.message || null,
+      finishedAt: new Date(),
+    });
+  }
+
+  /**
+   * Lỗi hệ thống (exception): đưa lại vào hàng đợi nếu còn lượt, ngược lại đánh dấu FAILED
+   */
+  async failJob(job: InvoiceJob, errorMessage: string) {
+    if (job.attempts < job.maxAttempts) {
+      await this.invoiceJobRepository.update(job.id, {
+        status: INVOICE_JOB_STATUS.PENDING,
+        lastErrorMessage: errorMessage,
+      });
+      await this.push([job.id]);
+      return;
+    }
+
+    await this.invoiceJobRepository.update(job.id, {
+      status: INVOICE_JOB_STATUS.FAILED,
+      lastErrorMessage: errorMessage,
+      finishedAt: new Date(),
+    });
+  }
+
+  /**
+   * Push lại toàn bộ job PENDING (dùng khi worker khởi động, phòng trường hợp Redis bị mất dữ liệu)
+   */
+  async requeuePendingJobs(): Promise<number> {
+    const pendingJobs = await this.invoiceJobRepository.find({
+      where: { status: INVOICE_JOB_STATUS.PENDING },
+      select: ['id'],
+      order: { createdAt: 'ASC' },
+    });
+    await this.push(pendingJobs.map((job) => job.id));
+    return pendingJobs.length;
+  }
+
+  /**
+   * Đưa các job PROCESSING bị treo (worker chết giữa chừng) trở lại hàng đợi
+   */
+  async requeueStaleJobs(): Promise<number> {
+    const staleJobs = await this.invoiceJobRepository.find({
+      where: {
+        status: INVOICE_JOB_STATUS.PROCESSING,
+        startedAt: LessThan(new Date(Date.now() - INVOICE_JOB_STALE_AFTER_MS)),
+      },
+      select: ['id'],
+    });
+    if (staleJobs.length === 0) {
+      return 0;
+    }
+
+    const ids = staleJobs.map((job) => job.id);
+    await this.invoiceJobRepository.update(
+      { id: In(ids), status: INVOICE_JOB_STATUS.PROCESSING },
+      { status: INVOICE_JOB_STATUS.PENDING },
+    );
+    await this.push(ids);
+    return ids.length;
+  }
+
+  async findBatches(params: { page?: number; limit?: number }) {
+    const page = params.page || 1;
+    const limit = params.limit || 20;
+
+    const [batches, total] = await this.invoiceJobBatchRepository.findAndCount({
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    const data = await Promise.all(
+      batches.map(async (batch) => ({
+        ...batch,
+        progress: await this.getBatchProgress(batch.id),
+      })),
+    );
+
+    return {
+      data,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getBatch(batchId: string) {
+    const batch = await this.invoiceJobBatchRepository.findOne({
+      where: { id: batchId },
+    });
+    if (!batch) {
+      throw new NotFoundException(`Invoice job batch ${batchId} not found`);
+    }
+    return {
+      ...batch,
+      progress: await this.getBatchProgress(batch.id),
+    };
+  }
+
+  private async getBatchProgress(batchId: string) {
+    const rows = await this.invoiceJobRepository
+      .createQueryBuilder('job')
+      .select('job.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .where('job.batchId = :batchId', { batchId })
+      .groupBy('job.status')
+      .getRawMany();
+
+    const counts: Record<string, number> = {
+      [INVOICE_JOB_STATUS.PENDING]: 0,
+      [INVOICE_JOB_STATUS.PROCESSING]: 0,
+      [INVOICE_JOB_STATUS.SUCCESS]: 0,
+      [INVOICE_JOB_STATUS.FAILED]: 0,
+      [INVOICE_JOB_STATUS.CANCELLED]: 0,
+    };
+    rows.forEach((row) => {
+      counts[row.status] = Number(row.count);
+    });
+
+    const remaining =
+      counts[INVOICE_JOB_STATUS.PENDING] +
+      counts[INVOICE_JOB_STATUS.PROCESSING];
+
+    return {
+      ...counts,
+      remaining,
+      isFinished: remaining === 0,
+    };
+  }
+
+  async findJobs(params: {
+    batchId?: string;
+    status?: string;
+    docCode?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const page = params.page || 1;
+    const limit = params.limit || 50;
+
+    const queryBuilder = this.invoiceJobRepository.createQueryBuilder('job');
+
+    if (params.batchId) {
+      queryBuilder.andWhere('job.batchId = :batchId', {
+        batchId: params.batchId,
+      });
+    }
+    if (params.status) {
+      queryBuilder.andWhere('job.status = :status', {
+        status: params.status.toUpperCase(),
+      });
+    }
+    if (params.docCode) {
+      queryBuilder.andWhere('job.docCode ILIKE :docCode', {
+        docCode: `%${params.docCode}%`,
+      });
+    }
+
+    const [data, total] = await queryBuilder
+      .orderBy('job.updatedAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      data,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async findJob(id: string) {
+    const job = await this.invoiceJobRepository.findOne({ where: { id } });
+    if (!job) {
+      throw new NotFoundException(`Invoice job ${id} not found`);
+    }
+    return job;
+  }
+
+  /**
+   * Chạy lại các job FAILED của batch (reset số lần chạy)
+   */
+  async retryBatch(batchId: string) {
+    await this.getBatch(batchId);
+
+    const failedJobs = await this.invoiceJobRepository.find({
+      where: { batchId, status: INVOICE_JOB_STATUS.FAILED },
+      select: ['id'],
+    });
+    const ids = failedJobs.map((job) => job.id);
+
+    for (const chunk of _.chunk(ids, CHUNK_SIZE)) {
+      await this.invoiceJobRepository.update(
+        { id: In(chunk) },
+        {
+          status: INVOICE_JOB_STATUS.PENDING,
+          attempts: 0,
+          finishedAt: null,
+        },
+      );
+    }
+    await this.push(ids);
+
+    return {
+      batchId,
+      requeued: ids.length,
+      message: `Đã đưa lại ${ids.length} job lỗi vào hàng đợi`,
+    };
+  }
+
+  /**
+   * Hủy các job còn chờ của batch (job đang chạy vẫn chạy xong)
+   */
+  async cancelBatch(batchId: string) {
+    await this.getBatch(batchId);
+
+    const result = await this.invoiceJobRepository.update(
+      { batchId, status: INVOICE_JOB_STATUS.PENDING },
+      {
+        status: INVOICE_JOB_STATUS.CANCELLED,
+        finishedAt: new Date(),
+      },
+    );
+
+    return {
+      batchId,
+      cancelled: result.affected || 0,
+      message: `Đã hủy ${result.affected || 0} job đang chờ`,
+    };
+  }
+}
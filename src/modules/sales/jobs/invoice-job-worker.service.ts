@@ -0,0 +1,143 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import Redis from 'ioredis';
+import { SalesInvoiceService } from '../invoice/sales-invoice.service';
+import { InvoiceJobQueueService } from './invoice-job-queue.service';
+import { InvoiceJob } from '../../../entities/invoice-job.entity';
+import { INVOICE_JOB_QUEUE_KEY } from '../constants/invoice-job.constants';
+
+/**
+ * Worker xử lý job tạo hóa đơn, chạy nền độc lập với HTTP request.
+ * Tắt bằng INVOICE_JOB_WORKER_ENABLED=false (ví dụ khi chỉ muốn instance này nhận API),
+ * số worker song song cấu hình bằng INVOICE_JOB_CONCURRENCY.
+ */
+@Injectable()
+export class InvoiceJobWorkerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(InvoiceJobWorkerService.name);
+  private running = false;
+  private connections: Redis[] = [];
+  private loops: Promise<void>[] = [];
+
+  constructor(
+    private invoiceJobQueueService: InvoiceJobQueueService,
+    private salesInvoiceService: SalesInvoiceService,
+    private configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    if (
+      this.configService.get('INVOICE_JOB_WORKER_ENABLED', 'true') === 'false'
+    ) {
+      this.logger.log('[InvoiceJob] Worker disabled');
+      return;
+    }
+
+    const concurrency = Number(
+      this.configService.get('INVOICE_JOB_CONCURRENCY', 5),
+    );
+    this.running = true;
+
+    void this.invoiceJobQueueService
+      .requeuePendingJobs()
+      .then((count) => {
+        if (count > 0) {
+          this.logger.log(`[InvoiceJob] Đã đưa lại ${count} job PENDING`);
+        }
+      })
+      .catch((error) =>
+        this.logger.error(
+          `[InvoiceJob] Lỗi khi đưa lại job PENDING: ${error?.message || error}`,
+        ),
+      );
+
+    for (let i = 0; i < concurrency; i++) {
+      const connection = this.invoiceJobQueueService.createWorkerConnection();
+      this.connections.push(connection);
+      this.loops.push(this.runLoop(connection));
+    }
+    this.logger.log(`[InvoiceJob] Started ${concurrency} worker(s)`);
+  }
+
+  async onModuleDestroy() {
+    this.running = false;
+    this.connections.forEach((connection) => connection.disconnect());
+    await Promise.allSettled(this.loops);
+  }
+
+  /**
+   * Đưa job bị treo trở lại hàng đợi mỗi 5 phút
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES, {
+    name: 'requeue-stale-invoice-jobs',
+  })
+  async handleStaleJobs() {
+    if (!this.running) {
+      return;
+    }
+    try {
+      const count = await this.invoiceJobQueueService.requeueStaleJobs();
+      if (count > 0) {
+        this.logger.warn(`[InvoiceJob] Đã đưa lại ${count} job bị treo`);
+      }
+    } catch (error: any) {
+      this.logger.error(
+        `[InvoiceJob] Lỗi khi xử lý job bị treo: ${error?.message || error}`,
+      );
+    }
+  }
+
+  private async runLoop(connection: Redis) {
+    while (this.running) {
+      try {
+        const item = await connection.brpop(INVOICE_JOB_QUEUE_KEY, 5);
+        if (!item) {
+          continue;
+        }
+        await this.processJob(item[1]);
+      } catch (error: any) {
+        if (!this.running) {
+          break;
+        }
+        this.logger.error(
+          `[InvoiceJob] Worker error: ${error?.message || error}`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, 5000));
+      }
+    }
+  }
+
+  private async processJob(jobId: string) {
+    const job = await this.invoiceJobQueueService.claimJob(jobId);
+    if (!job) {
+      return;
+    }
+
+    try {
+      const result = await this.runInvoiceFlow(job);
+      const success = !!(result?.success || result?.alreadyExists);
+      await this.invoiceJobQueueService.completeJob(job, success, result);
+    } catch (error: any) {
+      this.logger.error(
+        `[InvoiceJob] ${job.docCode} (lần ${job.attempts}/${job.maxAttempts}): ${error?.message || error}`,
+      );
+      await this.invoiceJobQueueService.failJob(
+        job,
+        error?.message || String(error),
+      );
+    }
+  }
+
+  private async runInvoiceFlow(job: InvoiceJob): Promise<any> {
+    if (job.forceRetry) {
+      return this.salesInvoiceService.processSingleOrder(job.docCode, true);
+    }
+    // Gọi hàm createInvoiceViaFastApi cho từng đơn (để handle cả logic _X)
+    return this.salesInvoiceService.createInvoiceViaFastApi(job.docCode, false);
+  }
+}
@@ -0,0 +1,338 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  InvoiceRoutingConditions,
+  InvoiceRoutingRule,
+} from '../../../entities/invoice-routing-rule.entity';
+import { OrderTypeRegistryService } from '../../order-types/order-type-registry.service';
+import {
+  ORDER_TYPE_FLOWS,
+  normalizeOrderTypeKey,
+} from '../../order-types/constants/order-type.constants';
+import {
+  DEFAULT_INVOICE_ROUTING_RULES,
+  INVOICE_ROUTING_FLOWS,
+} from '../constants/invoice-routing.constants';
+import {
+  CreateInvoiceRoutingRuleDto,
+  UpdateInvoiceRoutingRuleDto,
+} from '../dto/invoice-routing-rule.dto';
+import * as SalesUtils from '../../../utils/sales.utils';
+import { TtlCache } from '../../../utils/ttl-cache.utils';
+
+/**
+ * Dữ liệu đơn hàng dùng để so khớp rule
+ */
+export interface InvoiceRoutingFacts {
+  docCode: string;
+  docSourceType: string;
+  ordertypeNames: string[];
+  brand: string;
+  branchCode: string;
+  productTypes: string[];
+}
+
+export interface InvoiceRoutingCheck {
+  condition: keyof InvoiceRoutingConditions;
+  expected: string[];
+  actual: string | string[];
+  passed: boolean;
+}
+
+export interface InvoiceRoutingDecision {
+  rule: Pick<InvoiceRoutingRule, 'id' | 'name' | 'priority' | 'flow'> | null;
+  flow: string; // Luồng thực tế (đã quy đổi order-type -> flowHandler)
+  orderType: { code: string; flowHandler: string; invoiceAllowed: boolean };
+}
+
+/**
+ * Định tuyến đơn hàng sang luồng tạo hóa đơn theo rule lưu trong bảng invoice_routing_rules
+ * Rule được xét theo priority tăng dần, rule đầu tiên khớp quyết định luồng
+ */
+@Injectable()
+export class InvoiceRoutingService implements OnModuleInit {
+  private readonly logger = new Logger(InvoiceRoutingService.name);
+  private readonly cache = new TtlCache<InvoiceRoutingRule[]>(() =>
+    this.ruleRepository.find({
+      where: { isActive: true },
+      order: { priority: 'ASC', createdAt: 'ASC' },
+    }),
+  );
+
+  constructor(
+    @InjectRepository(InvoiceRoutingRule)
+    private ruleRepository: Repository<InvoiceRoutingRule>,
+    private orderTypeRegistryService: OrderTypeRegistryService,
+  ) {}
+
+  async onModuleInit() {
+    const count = await this.ruleRepository.count();
+    if (count > 0) {
+      return;
+    }
+
+    await this.ruleRepository.save(
+      DEFAULT_INVOICE_ROUTING_RULES.map((rule) =>
+        this.ruleRepository.create(rule),
+      ),
+    );
+    this.logger.log(
+      `Đã khởi tạo ${DEFAULT_INVOICE_ROUTING_RULES.length} rule định tuyến mặc định`,
+    );
+  }
+
+  /**
+   * Chọn luồng xử lý cho đơn hàng
+   */
+  async route(
+    docCode: string,
+    orderData: any,
+  ): Promise<InvoiceRoutingDecision> {
+    const facts = this.buildFacts(docCode, orderData);
+    const rules = await this.getActiveRules();
+    const rule =
+      rules.find((item) =>
+        this.evaluate(item.conditions, facts).every((check) => check.passed),
+      ) || null;
+
+    return this.buildDecision(rule, orderData);
+  }
+
+  /**
+   * Giải thích vì sao đơn hàng đi vào luồng hiện tại: kết quả từng điều kiện của từng rule
+   */
+  async explain(docCode: string, orderData: any) {
+    const facts = this.buildFacts(docCode, orderData);
+    const rules = await this.getActiveRules();
+
+    let matchedRule: InvoiceRoutingRule | null = null;
+    const evaluations = rules.map((rule) => {
+      const checks = this.evaluate(rule.conditions, facts);
+      const matched = checks.every((check) => check.passed);
+      // Chỉ rule khớp đầu tiên được chọn, các rule sau chỉ mang tính tham khảo
+      const selected = matched && !matchedRule;
+      if (selected) {
+        matchedRule = rule;
+      }
+      return {
+        id: rule.id,
+        name: rule.name,
+        priority: rule.priority,
+        flow: rule.flow,
+        matched,
+        selected,
+        checks,
+      };
+    });
+
+    return {
+      docCode,
+      facts,
+      rules: evaluations,
+      decision: await this.buildDecision(matchedRule, orderData),
+    };
+  }
+
+  async findAll() {
+    return this.ruleRepository.find({
+      order: { priority: 'ASC', createdAt: 'ASC' },
+    });
+  }
+
+  async findOne(id: string) {
+    const rule = await this.ruleRepository.findOne({ where: { id } });
+    if (!rule) {
+      throw new NotFoundException(`Invoice routing rule ${id} not found`);
+    }
+    return rule;
+  }
+
+  async create(createDto: CreateInvoiceRoutingRuleDto) {
+    const saved = await this.ruleRepository.save(
+      this.ruleRepository.create({
+        ...createDto,
+        conditions: this.cleanConditions(createDto.conditions),
+      }),
+    );
+    this.invalidateCache();
+    return saved;
+  }
+
+  async update(id: string, updateDto: UpdateInvoiceRoutingRuleDto) {
+    const rule = await this.findOne(id);
+    Object.assign(rule, {
+      ...updateDto,
+      ...(updateDto.conditions !== undefined && {
+        conditions: this.cleanConditions(updateDto.conditions),
+      }),
+    });
+    const saved = await this.ruleRepository.save(rule);
+    this.invalidateCache();
+    return saved;
+  }
+
+  async remove(id: string) {
+    const rule = await this.findOne(id);
+    await this.ruleRepository.remove(rule);
+    this.invalidateCache();
+    return { success: true, message: `Đã xoá rule ${rule.name}` };
+  }
+
+  private buildFacts(docCode: string, orderData: any): InvoiceRoutingFacts {
+    const sales: any[] = orderData?.sales || [];
+    const firstSale = sales[0];
+    const unique = (values: any[]) => [
+      ...new Set(
+        values.map((value) => String(value || '').trim()).filter(Boolean),
+      ),
+    ];
+
+    return {
+      docCode,
+      docSourceType: String(
+        firstSale?.docSourceType ?? orderData?.docSourceType ?? '',
+      )
+        .trim()
+        .toUpperCase(),
+      ordertypeNames: unique(
+        sales.map((sale) => sale.ordertypeName || sale.ordertype),
+      ),
+      brand: SalesUtils.normalizeBrand(orderData?.brand || firstSale?.brand),
+      branchCode: String(orderData?.branchCode || firstSale?.branchCode || '')
+        .trim()
+        .toUpperCase(),
+      productTypes: unique(
+        sales.map((sale) => String(sale.productType || '').toUpperCase()),
+      ),
+    };
+  }
+
+  private evaluate(
+    conditions: InvoiceRoutingConditions,
+    facts: InvoiceRoutingFacts,
+  ): InvoiceRoutingCheck[] {
+    const checks: InvoiceRoutingCheck[] = [];
+    const check = (
+      condition: keyof InvoiceRoutingConditions,
+      actual: string | string[],
+      matches: (expected: string[]) => boolean,
+    ) => {
+      const expected = conditions?.[condition];
+      if (expected && expected.length > 0) {
+        checks.push({ condition, expected, actual, passed: matches(expected) });
+      }
+    };
+    const upper = (values: string[]) =>
+      values.map((value) => value.trim().toUpperCase());
+
+    check('docSourceTypes', facts.docSourceType, (expected) =>
+      upper(expected).includes(facts.docSourceType),
+    );
+    check('docCodeSuffixes', facts.docCode, (expected) =>
+      expected.some((suffix) => facts.docCode.endsWith(suffix.trim())),
+    );
+    check('ordertypeNames', facts.ordertypeNames, (expected) => {
+      const keys = facts.ordertypeNames.map(normalizeOrderTypeKey);
+      return expected
+        .map(normalizeOrderTypeKey)
+        .some((name) => keys.some((key) => key.includes(name)));
+    });
+    check('brands', facts.brand, (expected) =>
+      expected
+        .map((brand) => SalesUtils.normalizeBrand(brand.trim()))
+        .includes(facts.brand),
+    );
+    check('branchCodes', facts.branchCode, (expected) =>
+      upper(expected).includes(facts.branchCode),
+    );
+    check('productTypes', facts.productTypes, (expected) =>
+      upper(expected).some((type) => facts.productTypes.includes(type)),
+    );
+
+    return checks;
+  }
+
+  private async buildDecision(
+    rule: InvoiceRoutingRule | null,
+    orderData: any,
+  ): Promise<InvoiceRoutingDecision> {
+    const orderType = await this.determineOrderType(orderData?.sales || []);
+    // Không rule nào khớp: xử lý theo loại đơn
+    const ruleFlow = rule?.flow || INVOICE_ROUTING_FLOWS.BY_ORDER_TYPE;
+
+    return {
+      rule: rule
+        ? {
+            id: rule.id,
+            name: rule.name,
+            priority: rule.priority,
+            flow: rule.flow,
+          }
+        : null,
+      flow:
+        ruleFlow === INVOICE_ROUTING_FLOWS.BY_ORDER_TYPE
+          ? orderType.flowHandler
+          : ruleFlow,
+      orderType,
+    };
+  }
+
+  /**
+   * Xác định loại đơn hàng dựa trên danh sách sales
+   * Sale đầu tiên thuộc loại không phải đơn thường quyết định luồng xử lý,
+   * không khớp loại nào thì xử lý như đơn thường (code lấy theo loại đơn thường đầu tiên / tên loại đơn của sale)
+   */
+  private async determineOrderType(
+    sales: any[],
+  ): Promise<InvoiceRoutingDecision['orderType']> {
+    let normalCode: string | null = null;
+    for (const s of sales) {
+      const ordertypeName = s.ordertypeName || s.ordertype;
+      const definition =
+        await this.orderTypeRegistryService.resolve(ordertypeName);
+      if (!definition || definition.flowHandler === ORDER_TYPE_FLOWS.NORMAL) {
+        normalCode = normalCode || definition?.code || ordertypeName || null;
+        continue;
+      }
+      return {
+        code: definition.code,
+        flowHandler: definition.flowHandler,
+        invoiceAllowed: definition.invoiceAllowed,
+      };
+    }
+    return {
+      code: normalCode || ORDER_TYPE_FLOWS.NORMAL,
+      flowHandler: ORDER_TYPE_FLOWS.NORMAL,
+      invoiceAllowed: true,
+    };
+  }
+
+  private getActiveRules(): Promise<InvoiceRoutingRule[]> {
+    return this.cache.get();
+  }
+
+  private invalidateCache() {
+    this.cache.invalidate();
+  }
+
+  private cleanConditions(
+    conditions?: InvoiceRoutingConditions,
+  ): InvoiceRoutingConditions {
+    const cleaned: InvoiceRoutingConditions = {};
+    for (const [key, values] of Object.entries(conditions || {})) {
+      const list = (values || [])
+        .map((value: string) => value.trim())
+        .filter(Boolean);
+      if (list.length > 0) {
+        cleaned[key as keyof InvoiceRoutingConditions] = list;
+      }
+    }
+    return cleaned;
+  }
+}
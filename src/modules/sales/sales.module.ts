@@ -2,6 +2,8 @@ import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { HttpModule } from '@nestjs/axios';
 import { SalesController } from './controllers/sales.controller';
+import { InvoiceJobsController } from './controllers/invoice-jobs.controller';
+import { InvoiceRoutingController } from './controllers/invoice-routing.controller';
 import { SalesService } from './services/sales.service';
 import { SalesQueryService } from './services/sales-query.service';
 import { SalesFormattingService } from './services/sales-formatting.service';
@@ -26,6 +28,7 @@ import { N8nService } from '../../services/n8n.service';
 import { Invoice } from '../../entities/invoice.entity';
 import { InvoiceItem } from '../../entities/invoice-item.entity';
 import { FastApiInvoice } from '../../entities/fast-api-invoice.entity';
+import { FastApiInvoiceAttempt } from '../../entities/fast-api-invoice-attempt.entity';
 import { DailyCashio } from '../../entities/daily-cashio.entity';
 import { StockTransfer } from '../../entities/stock-transfer.entity';
 import { WarehouseProcessed } from '../../entities/warehouse-processed.entity';
@@ -33,10 +36,23 @@ import { OrderFee } from '../../entities/order-fee.entity';
 import { InvoicesModule } from '../invoices/invoices.module';
 import { CategoriesModule } from '../categories/categories.module';
 import { SyncModule } from '../sync/sync.module';
+import { IntegrationAuditModule } from '../integration-audit/integration-audit.module';
+import { OrderTypesModule } from '../order-types/order-types.module';
 import { PaymentModule } from '../payment/payment.module';
 import { VoucherIssueModule } from '../voucher-issue/voucher-issue.module';
-import { PaymentSyncLog } from '../../entities/payment-sync-log.entity';
 import { SalesSyncService } from './services/sales-sync.service';
+import { InvoiceJobQueueService } from './jobs/invoice-job-queue.service';
+import { InvoiceJobWorkerService } from './jobs/invoice-job-worker.service';
+import { InvoiceJob } from '../../entities/invoice-job.entity';
+import { InvoiceJobBatch } from '../../entities/invoice-job-batch.entity';
+import { FastDocumentSubmission } from '../../entities/fast-document-submission.entity';
+import { FastDocumentReversal } from '../../entities/fast-document-reversal.entity';
+import { FastDocumentSubmissionService } from '../../services/fast-document-submission.service';
+import { InvoiceRoutingRule } from '../../entities/invoice-routing-rule.entity';
+import { InvoiceRoutingService } from './routing/invoice-routing.service';
+import { InvoicePreviewService } from './invoice/invoice-preview.service';
+import { BrandsModule } from '../brands/brands.module';
+import { PaymentPartnersModule } from '../payment-partners/payment-partners.module';
 
 @Module({
   imports: [
@@ -47,11 +63,16 @@ import { SalesSyncService } from './services/sales-sync.service';
       Invoice,
       InvoiceItem,
       FastApiInvoice,
+      FastApiInvoiceAttempt,
       DailyCashio,
       StockTransfer,
       WarehouseProcessed,
       OrderFee,
-      PaymentSyncLog,
+      InvoiceJob,
+      InvoiceJobBatch,
+      FastDocumentSubmission,
+      FastDocumentReversal,
+      InvoiceRoutingRule,
     ]),
     HttpModule,
     forwardRef(() => InvoicesModule),
@@ -59,8 +80,16 @@ import { SalesSyncService } from './services/sales-sync.service';
     forwardRef(() => SyncModule),
     forwardRef(() => PaymentModule),
     VoucherIssueModule,
+    IntegrationAuditModule,
+    OrderTypesModule,
+    BrandsModule,
+    PaymentPartnersModule,
+  ],
+  controllers: [
+    SalesController,
+    InvoiceJobsController,
+    InvoiceRoutingController,
   ],
-  controllers: [SalesController],
   providers: [
     // Main service (orchestrator)
     SalesService,
@@ -77,9 +106,15 @@ import { SalesSyncService } from './services/sales-sync.service';
     NormalOrderHandlerService,
     SaleReturnHandlerService,
     InvoiceFlowOrchestratorService,
+    InvoiceRoutingService,
+    InvoicePreviewService,
+    // Invoice job queue
+    InvoiceJobQueueService,
+    InvoiceJobWorkerService,
     // Existing services
     ZappyApiService,
     FastApiClientService,
+    FastDocumentSubmissionService,
     FastApiInvoiceFlowService,
     LoyaltyService,
     InvoiceValidationService,
@@ -106,6 +141,8 @@ import { SalesSyncService } from './services/sales-sync.service';
     SaleReturnHandlerService,
     InvoiceFlowOrchestratorService,
     FastApiClientService,
+    FastDocumentSubmissionService,
+    InvoiceJobQueueService,
   ],
 })
 export class SalesModule { }
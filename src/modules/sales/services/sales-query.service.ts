@@ -18,7 +18,11 @@ import { Customer } from '../../../entities/customer.entity';
 import { DailyCashio } from '../../../entities/daily-cashio.entity';
 import { ZappyApiService } from '../../../services/zappy-api.service';
 import { FastApiInvoice } from '../../../entities/fast-api-invoice.entity';
+import { FastApiInvoiceAttempt } from '../../../entities/fast-api-invoice-attempt.entity';
 import { Invoice } from '../../../entities/invoice.entity';
+import { FastDocumentSubmissionService } from '../../../services/fast-document-submission.service';
+import { OrderTypeRegistryService } from '../../order-types/order-type-registry.service';
+import { ORDER_TYPE_FLOWS } from '../../order-types/constants/order-type.constants';
 
 /**
  * SalesQueryService
@@ -50,6 +54,10 @@ export class SalesQueryService {
     private fastApiInvoiceRepository: Repository<FastApiInvoice>,
     @InjectRepository(Invoice)
     private invoiceRepository: Repository<Invoice>,
+    private fastDocumentSubmissionService: FastDocumentSubmissionService,
+    @InjectRepository(FastApiInvoiceAttempt)
+    private fastApiInvoiceAttemptRepository: Repository<FastApiInvoiceAttempt>,
+    private orderTypeRegistryService: OrderTypeRegistryService,
   ) { }
 
   /**
@@ -164,16 +172,16 @@ export class SalesQueryService {
     // 5. Card Data (for Tach The orders) — via svc_serial instead of N8N
     const firstSale = sales[0];
     const brand = firstSale?.customer?.brand || platformBrand || 'menard';
-    const hasTachThe = sales.some((s) =>
-      SalesUtils.isTachTheOrder(s.ordertypeName),
+    const tachTheSaleRows = await this.orderTypeRegistryService.filterSalesByFlow(
+      sales,
+      ORDER_TYPE_FLOWS.TACH_THE,
     );
     let tachTheSvcPartnerMap = new Map<string, any>();
-    if (hasTachThe) {
+    if (tachTheSaleRows.length > 0) {
       const tachTheBrand = firstSale?.brand || brand;
       const svcSerials = [
         ...new Set(
-          sales
-            .filter((s) => SalesUtils.isTachTheOrder(s.ordertypeName))
+          tachTheSaleRows
             .map((s) => s.svc_serial || s.maThe)
             .filter((v): v is string => !!v && v.trim() !== ''),
         ),
@@ -753,6 +761,9 @@ export class SalesQueryService {
       let invoice = await this.fastApiInvoiceRepository.findOne({
         where: { docCode: data.docCode },
       });
+      // Idempotency key của chứng từ gửi Fast gần nhất cho đơn này
+      const idempotencyKey =
+        await this.fastDocumentSubmissionService.getLatestKey(data.docCode);
 
       if (invoice) {
         // Update existing
@@ -768,6 +779,7 @@ export class SalesQueryService {
         if (data.lastErrorMessage !== undefined)
           invoice.lastErrorMessage = data.lastErrorMessage;
         if (data.xemNhanh !== undefined) invoice.xemNhanh = data.xemNhanh; // [New]
+        if (idempotencyKey) invoice.idempotencyKey = idempotencyKey;
       } else {
         // Create new
         invoice = this.fastApiInvoiceRepository.create({
@@ -782,11 +794,14 @@ export class SalesQueryService {
           payload: data.payload,
           lastErrorMessage: data.lastErrorMessage,
           xemNhanh: data.xemNhanh, // [New]
+          ...(idempotencyKey && { idempotencyKey }),
         });
       }
 
       const saved = await this.fastApiInvoiceRepository.save(invoice);
-      return Array.isArray(saved) ? saved[0] : saved;
+      const result = Array.isArray(saved) ? saved[0] : saved;
+      await this.recordFastApiInvoiceAttempt(result);
+      return result;
     } catch (error: any) {
       this.logger.error(
         `Error saving FastApiInvoice for ${data.docCode}: ${error?.message || error}`,
@@ -795,6 +810,38 @@ export class SalesQueryService {
     }
   }
 
+  /**
+   * Lưu lại 1 lần tạo hóa đơn (snapshot payload + response) để so sánh giữa các lần
+   * Lỗi khi ghi lịch sử không làm hỏng luồng tạo hóa đơn
+   */
+  async recordFastApiInvoiceAttempt(invoice: FastApiInvoice): Promise<void> {
+    try {
+      const last = await this.fastApiInvoiceAttemptRepository.findOne({
+        where: { docCode: invoice.docCode },
+        order: { attemptNo: 'DESC' },
+      });
+
+      await this.fastApiInvoiceAttemptRepository.save(
+        this.fastApiInvoiceAttemptRepository.create({
+          docCode: invoice.docCode,
+          attemptNo: (last?.attemptNo || 0) + 1,
+          status: invoice.status,
+          maDvcs: invoice.maDvcs,
+          maKh: invoice.maKh,
+          guid: invoice.guid,
+          payload: invoice.payload,
+          fastApiResponse: invoice.fastApiResponse,
+          lastErrorMessage: invoice.lastErrorMessage,
+          idempotencyKey: invoice.idempotencyKey,
+        }),
+      );
+    } catch (error: any) {
+      this.logger.warn(
+        `Không lưu được lịch sử tạo hóa đơn cho ${invoice.docCode}: ${error?.message || error}`,
+      );
+    }
+  }
+
   /**
    * Update isProcessed status for sales
    */
@@ -1844,10 +1891,9 @@ export class SalesQueryService {
 
     // [FIX] Tach The enrichment via svc_serial → Zappy get_partner_from_svc
     // Applied AFTER explosion to ensure we overwrite any ST-derived data
-    const tachTheSales = enrichedOrders.flatMap((order) =>
-      (order.sales || []).filter((s: any) =>
-        SalesUtils.isTachTheOrder(s.ordertypeName),
-      ),
+    const tachTheSales = await this.orderTypeRegistryService.filterSalesByFlow(
+      enrichedOrders.flatMap((order) => order.sales || []),
+      ORDER_TYPE_FLOWS.TACH_THE,
     );
     const allSvcSerials = [
       ...new Set(
@@ -2260,7 +2306,7 @@ export class SalesQueryService {
     // Fetch Cards (Tach The) by Zappy API
     if (docCodes.length > 0) {
       try {
-        const tachTheSales = allSalesData.filter((s) => SalesUtils.isTachTheOrder(s.ordertypeName));
+        const tachTheSales = await this.orderTypeRegistryService.filterSalesByFlow(allSalesData, ORDER_TYPE_FLOWS.TACH_THE);
         if (tachTheSales.length > 0) {
           const brand = allSalesData[0]?.customer?.brand || allSalesData[0]?.brand || 'menard';
           await Promise.all(
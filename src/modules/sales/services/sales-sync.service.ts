@@ -8,8 +8,9 @@ import { ZappyApiService } from '../../../services/zappy-api.service';
 import { LoyaltyService } from '../../../services/loyalty.service';
 import * as SalesUtils from '../../../utils/sales.utils';
 
-import { SalesInvoiceService } from '../invoice/sales-invoice.service';
-import { forwardRef, Inject } from '@nestjs/common';
+import { InvoiceJobQueueService } from '../jobs/invoice-job-queue.service';
+import { BrandRegistryService } from '../../brands/brand-registry.service';
+import { BRAND_SYNC_JOBS } from '../../brands/constants/brand.constants';
 
 /**
  * SalesSyncService
@@ -27,8 +28,8 @@ export class SalesSyncService {
     private httpService: HttpService,
     private zappyApiService: ZappyApiService,
     private loyaltyService: LoyaltyService,
-    @Inject(forwardRef(() => SalesInvoiceService))
-    private salesInvoiceService: SalesInvoiceService,
+    private invoiceJobQueueService: InvoiceJobQueueService,
+    private brandRegistryService: BrandRegistryService,
   ) {}
 
   /**
@@ -316,7 +317,9 @@ export class SalesSyncService {
     }>;
     errors?: string[];
   }> {
-    const brands = ['f3', 'labhair', 'yaman', 'menard']; // 'chando' commented out per request
+    const brands = await this.brandRegistryService.getBrandCodesForJob(
+      BRAND_SYNC_JOBS.SALES_BY_DATE_RANGE,
+    );
     const allErrors: string[] = [];
     const brandResults: Array<{
       brand: string;
@@ -404,7 +407,7 @@ export class SalesSyncService {
             );
             // Skip individual auto-push to do it in batch later (or let it run if prefer day-by-day? Plan said batch)
             // Plan said: Call syncFromZappy with skipAutoPush: true.
-            // After loop, call salesInvoiceService.processInvoicesByDateRange once.
+            // After loop, enqueue invoice jobs for the whole range once.
             const result = await this.syncFromZappy(dateStr, brand, true);
 
             brandOrdersCount += result.ordersCount;
@@ -453,15 +456,14 @@ export class SalesSyncService {
           `[Auto-Push] Triggering batch auto-push for range ${startDate} - ${endDate}`,
         );
         try {
-          const pushResult =
-            await this.salesInvoiceService.processInvoicesByDateRange(
-              startDate,
-              endDate,
-            );
+          const pushResult = await this.invoiceJobQueueService.enqueueDateRange(
+            startDate,
+            endDate,
+          );
           this.logger.log(
-            `[Auto-Push] Batch Result: Success=${pushResult.successCount}, Failed=${pushResult.failedCount}`,
+            `[Auto-Push] Batch ${pushResult.batchId}: ${pushResult.totalJobs} job queued`,
           );
-          autoPushMessage = ` | Auto-Push: ${pushResult.successCount} thành công, ${pushResult.failedCount} thất bại`;
+          autoPushMessage = ` | Auto-Push: ${pushResult.totalJobs} đơn đã vào hàng đợi (batch ${pushResult.batchId})`;
         } catch (pushError: any) {
           this.logger.error(
             `[Auto-Push] Batch Failed: ${pushError?.message || pushError}`,
@@ -599,7 +601,7 @@ export class SalesSyncService {
           // Determine brand
           const department = departmentMap.get(order.branchCode);
           const brandFromDepartment = department?.company
-            ? this.mapCompanyToBrand(department.company)
+            ? SalesUtils.mapCompanyToBrand(department.company)
             : order.customer.brand || '';
 
           // Process Customer
@@ -648,16 +650,13 @@ export class SalesSyncService {
       if (errors.length === 0 && !skipAutoPush) {
         this.logger.log(`[Auto-Push] Triggering auto-push for date ${date}`);
         try {
-          const pushResult =
-            await this.salesInvoiceService.processInvoicesByDateRange(
-              date,
-              date,
-            );
+          const pushResult = await this.invoiceJobQueueService.enqueueDateRange(
+            date,
+            date,
+          );
           this.logger.log(
-            `[Auto-Push] Result for ${date}: Success=${pushResult.successCount}, Failed=${pushResult.failedCount}`,
+            `[Auto-Push] Batch ${pushResult.batchId} for ${date}: ${pushResult.totalJobs} job queued`,
           );
-          // Append push result to message
-          // message += ` | Auto-Push: Success=${pushResult.successCount}, Failed=${pushResult.failedCount}`;
         } catch (pushError: any) {
           this.logger.error(
             `[Auto-Push] Failed for ${date}: ${pushError?.message || pushError}`,
@@ -688,7 +687,11 @@ export class SalesSyncService {
     targetBrand?: string,
   ): Promise<Map<string, { company?: string }>> {
     const departmentMap = new Map<string, { company?: string }>();
-    if (!targetBrand || targetBrand !== 'chando') {
+    if (
+      await this.brandRegistryService.shouldResolveBrandFromDepartment(
+        targetBrand,
+      )
+    ) {
       // OPTIMIZED: Parallelize with concurrency limit
       const MAX_CONCURRENT = 5;
       const chunks: string[][] = [];
@@ -724,20 +727,6 @@ export class SalesSyncService {
     return departmentMap;
   }
 
-  private mapCompanyToBrand(company: string | null | undefined): string {
-    if (!company) return '';
-    const companyUpper = company.toUpperCase();
-    const brandMap: Record<string, string> = {
-      F3: 'f3',
-      FACIALBAR: 'f3',
-      MENARD: 'menard',
-      LABHAIR: 'labhair',
-      YAMAN: 'yaman',
-      CHANDO: 'chando',
-    };
-    return brandMap[companyUpper] || company.toLowerCase();
-  }
-
   private async processCustomer(
     order: any,
     brandFromDepartment: string,
@@ -10,7 +10,9 @@ import { StockTransfer } from '../../../entities/stock-transfer.entity';
 import { WarehouseProcessed } from '../../../entities/warehouse-processed.entity';
 import { FastApiInvoiceFlowService } from '../../../services/fast-api-invoice-flow.service';
 import { LoyaltyService } from '../../../services/loyalty.service';
+import { FastDocumentSubmissionService } from '../../../services/fast-document-submission.service';
 import * as SalesUtils from '../../../utils/sales.utils';
+import { IntegrationAuditService } from '../../integration-audit/integration-audit.service';
 
 /**
  * SalesWarehouseService
@@ -27,6 +29,8 @@ export class SalesWarehouseService {
     private warehouseProcessedRepository: Repository<WarehouseProcessed>,
     private fastApiInvoiceFlowService: FastApiInvoiceFlowService,
     private loyaltyService: LoyaltyService,
+    private fastDocumentSubmissionService: FastDocumentSubmissionService,
+    private integrationAuditService: IntegrationAuditService,
   ) { }
 
   /**
@@ -110,15 +114,22 @@ export class SalesWarehouseService {
         this.logger.log(
           `[Warehouse] docCode=${stockTransfer.docCode}: ĐVCS=${donViKho || 'N/A'} → dùng luồng điều chuyển kho`,
         );
-        result = await this.fastApiInvoiceFlowService.processWarehouseTransferFromStockTransfers(
-          stockTransferList,
+        result = await this.integrationAuditService.runWithContext(
+          { brand: stockTransfer.brand },
+          () =>
+            this.fastApiInvoiceFlowService.processWarehouseTransferFromStockTransfers(
+              stockTransferList,
+            ),
         );
         ioTypeForTracking = 'T';
       } else {
-        result =
-          await this.fastApiInvoiceFlowService.processWarehouseFromStockTransfer(
-            stockTransfer,
-          );
+        result = await this.integrationAuditService.runWithContext(
+          { brand: stockTransfer.brand },
+          () =>
+            this.fastApiInvoiceFlowService.processWarehouseFromStockTransfer(
+              stockTransfer,
+            ),
+        );
         ioTypeForTracking = stockTransfer.ioType;
       }
 
@@ -401,6 +412,7 @@ export class SalesWarehouseService {
       const existing = await this.warehouseProcessedRepository.findOne({
         where: { docCode },
       });
+      const idempotencyKey = await this.getWarehouseIdempotencyKey(docCode);
 
       if (existing) {
         if (isSuccess) {
@@ -416,6 +428,7 @@ export class SalesWarehouseService {
               fastApiResponse,
               doctype,
               transDate,
+              ...(idempotencyKey && { idempotencyKey }),
             },
           );
         } else {
@@ -428,6 +441,7 @@ export class SalesWarehouseService {
           existing.fastApiResponse = fastApiResponse;
           if (doctype) existing.doctype = doctype;
           if (transDate) existing.transDate = transDate;
+          if (idempotencyKey) existing.idempotencyKey = idempotencyKey;
           await this.warehouseProcessedRepository.save(existing);
         }
       } else {
@@ -442,6 +456,7 @@ export class SalesWarehouseService {
           doctype,
           transDate,
           ...(errorMessage && { errorMessage }),
+          ...(idempotencyKey && { idempotencyKey }),
         });
         await this.warehouseProcessedRepository.save(warehouseProcessed);
       }
@@ -452,6 +467,17 @@ export class SalesWarehouseService {
     }
   }
 
+  /**
+   * Idempotency key của lần gửi phiếu kho gần nhất (FastDocumentSubmission)
+   */
+  private getWarehouseIdempotencyKey(docCode: string): Promise<string | null> {
+    return this.fastDocumentSubmissionService.getLatestKey(docCode, [
+      'warehouseReceipt',
+      'warehouseRelease',
+      'warehouseTransfer',
+    ]);
+  }
+
   private async saveFailedWarehouseTracking(
     stockTransfer: StockTransfer,
     error: any,
@@ -472,6 +498,9 @@ export class SalesWarehouseService {
       const existing = await this.warehouseProcessedRepository.findOne({
         where: { docCode: stockTransfer.docCode },
       });
+      const idempotencyKey = await this.getWarehouseIdempotencyKey(
+        stockTransfer.docCode,
+      );
 
       if (existing) {
         existing.ioType = ioTypeForTracking;
@@ -484,6 +513,7 @@ export class SalesWarehouseService {
         if (stockTransfer.doctype) existing.doctype = stockTransfer.doctype;
         if (stockTransfer.transDate)
           existing.transDate = stockTransfer.transDate;
+        if (idempotencyKey) existing.idempotencyKey = idempotencyKey;
         await this.warehouseProcessedRepository.save(existing);
       } else {
         const warehouseProcessed = this.warehouseProcessedRepository.create({
@@ -495,6 +525,7 @@ export class SalesWarehouseService {
           doctype: stockTransfer.doctype,
           transDate: stockTransfer.transDate,
           ...(errorResult && { result: JSON.stringify(errorResult) }),
+          ...(idempotencyKey && { idempotencyKey }),
         });
         await this.warehouseProcessedRepository.save(warehouseProcessed);
       }
@@ -5,8 +5,10 @@ import { Sale } from '../../../entities/sale.entity';
 import { StockTransfer } from '../../../entities/stock-transfer.entity';
 import { SalesQueryService } from './sales-query.service';
 import { SalesInvoiceService } from '../invoice/sales-invoice.service';
+import { InvoicePreviewService } from '../invoice/invoice-preview.service';
 import { SalesWarehouseService } from './sales-warehouse.service';
 import { SalesSyncService } from './sales-sync.service';
+import { InvoiceJobQueueService } from '../jobs/invoice-job-queue.service';
 import { LoyaltyService } from 'src/services/loyalty.service';
 
 @Injectable()
@@ -19,7 +21,9 @@ export class SalesService {
     private salesSyncService: SalesSyncService,
     private salesInvoiceService: SalesInvoiceService,
     private salesWarehouseService: SalesWarehouseService,
+    private invoiceJobQueueService: InvoiceJobQueueService,
     private loyaltyService: LoyaltyService,
+    private invoicePreviewService: InvoicePreviewService,
   ) {}
 
   async findAllOrders(options: any) {
@@ -404,6 +408,10 @@ export class SalesService {
     return this.salesInvoiceService.markProcessedOrdersFromInvoices();
   }
 
+  async previewInvoice(docCode: string) {
+    return this.invoicePreviewService.previewInvoice(docCode);
+  }
+
   async createInvoiceViaFastApi(
     docCode: string,
     forceRetry: boolean = false,
@@ -424,15 +432,19 @@ export class SalesService {
     return this.salesInvoiceService.createStockTransfer(createDto);
   }
 
+  /**
+   * Đưa các đơn hàng trong khoảng thời gian vào hàng đợi tạo hóa đơn
+   * Theo dõi tiến độ qua GET /invoice-jobs/batches/:batchId
+   */
   async processInvoicesByDateRange(startDate: string, endDate: string) {
-    return this.salesInvoiceService.processInvoicesByDateRange(
-      startDate,
-      endDate,
-    );
+    return this.invoiceJobQueueService.enqueueDateRange(startDate, endDate);
   }
 
+  /**
+   * Đưa các hóa đơn lỗi vào hàng đợi để tạo lại
+   */
   async retryFailedInvoices() {
-    return this.salesInvoiceService.retryFailedInvoices();
+    return this.invoiceJobQueueService.enqueueFailedInvoices();
   }
 
   async countOrders(options: {
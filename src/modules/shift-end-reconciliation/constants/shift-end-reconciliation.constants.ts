@@ -0,0 +1,12 @@
+export const SHIFT_VARIANCE_STATUS = {
+  MATCHED: 'MATCHED',
+  VARIANCE: 'VARIANCE', // Lệch vượt ngưỡng giữa khai báo / cashio / bán hàng
+  MISSING_CASHIO: 'MISSING_CASHIO', // Ca có khai báo fop nhưng không có phiếu thu
+  MISSING_DECLARATION: 'MISSING_DECLARATION', // Có phiếu thu nhưng ca không khai báo fop
+} as const;
+
+export type ShiftVarianceStatus =
+  (typeof SHIFT_VARIANCE_STATUS)[keyof typeof SHIFT_VARIANCE_STATUS];
+
+// Ngưỡng lệch (VNĐ) giữa khai báo / phiếu thu / doanh thu của 1 fop trong ca, vượt ngưỡng mới là VARIANCE
+export const DEFAULT_SHIFT_VARIANCE_THRESHOLD = 1000;
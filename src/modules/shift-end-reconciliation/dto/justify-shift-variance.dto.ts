@@ -0,0 +1,23 @@
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+
+export class JustifyShiftVarianceDto {
+  @IsString()
+  @IsNotEmpty()
+  fopCode: string;
+
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+
+  // Ngưỡng dùng khi xét chênh lệch, mặc định như báo cáo
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  threshold?: number;
+}
@@ -0,0 +1,138 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  Res,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import {
+  ShiftEndReconciliationQuery,
+  ShiftEndReconciliationService,
+} from './shift-end-reconciliation.service';
+import { JustifyShiftVarianceDto } from './dto/justify-shift-variance.dto';
+import { CurrentUser, Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
+import type { AuthUser } from '../auth/constants/auth.constants';
+
+@Controller('shift-end-reconciliation')
+export class ShiftEndReconciliationController {
+  constructor(
+    private readonly shiftEndReconciliationService: ShiftEndReconciliationService,
+  ) {}
+
+  /**
+   * Chênh lệch nộp quỹ cuối ca theo ca / fop: khai báo vs phiếu thu vs doanh thu
+   * status: MATCHED | VARIANCE | MISSING_CASHIO | MISSING_DECLARATION
+   */
+  @Get()
+  async getReport(
+    @Query('dateFrom') dateFrom: string,
+    @Query('dateTo') dateTo: string,
+    @Query('brand') brand?: string,
+    @Query('branchCode') branchCode?: string,
+    @Query('threshold') threshold?: string,
+    @Query('status') status?: string,
+    @Query('onlyVariances') onlyVariances?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.shiftEndReconciliationService.getReport(
+      this.buildQuery(dateFrom, dateTo, brand, branchCode, threshold),
+      {
+        status,
+        onlyVariances: onlyVariances === 'true',
+        page: page ? parseInt(page, 10) : 1,
+        limit: limit ? parseInt(limit, 10) : 50,
+      },
+    );
+  }
+
+  @Get('export')
+  async exportReport(
+    @Res() res: Response,
+    @Query('dateFrom') dateFrom: string,
+    @Query('dateTo') dateTo: string,
+    @Query('brand') brand?: string,
+    @Query('branchCode') branchCode?: string,
+    @Query('threshold') threshold?: string,
+    @Query('status') status?: string,
+    @Query('onlyVariances') onlyVariances?: string,
+  ) {
+    const buffer = await this.shiftEndReconciliationService.exportReport(
+      this.buildQuery(dateFrom, dateTo, brand, branchCode, threshold),
+      { status, onlyVariances: onlyVariances === 'true' },
+    );
+
+    res.setHeader(
+      'Content-Type',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="Doi_soat_nop_quy_${dateFrom}_${dateTo}.xlsx"`,
+    );
+    res.setHeader('Content-Length', buffer.length);
+    res.send(buffer);
+  }
+
+  @Get(':shiftEndCashId')
+  async getShift(
+    @Param('shiftEndCashId') shiftEndCashId: string,
+    @Query('threshold') threshold?: string,
+  ) {
+    return this.shiftEndReconciliationService.getShift(
+      shiftEndCashId,
+      this.parseThreshold(threshold),
+    );
+  }
+
+  /**
+   * Giải trình chênh lệch của 1 hình thức thanh toán trong ca trước khi tạo phiếu chi sang Fast
+   */
+  @Roles(ROLES.ACCOUNTANT)
+  @Post(':shiftEndCashId/justifications')
+  async justify(
+    @Param('shiftEndCashId') shiftEndCashId: string,
+    @Body() body: JustifyShiftVarianceDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.shiftEndReconciliationService.justify(
+      shiftEndCashId,
+      body,
+      user,
+    );
+  }
+
+  private buildQuery(
+    dateFrom: string,
+    dateTo: string,
+    brand?: string,
+    branchCode?: string,
+    threshold?: string,
+  ): ShiftEndReconciliationQuery {
+    return {
+      dateFrom,
+      dateTo,
+      brand,
+      branchCode,
+      threshold: this.parseThreshold(threshold),
+    };
+  }
+
+  private parseThreshold(threshold?: string): number | undefined {
+    if (threshold === undefined || threshold === '') {
+      return undefined;
+    }
+    const value = Number(threshold);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new BadRequestException(
+        `Ngưỡng chênh lệch không hợp lệ: ${threshold}`,
+      );
+    }
+    return value;
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ShiftEndCash } from '../../entities/shift-end-cash.entity';
+import { DailyCashio } from '../../entities/daily-cashio.entity';
+import { Sale } from '../../entities/sale.entity';
+import { ShiftEndCashVarianceJustification } from '../../entities/shift-end-cash-variance-justification.entity';
+import { ShiftEndReconciliationController } from './shift-end-reconciliation.controller';
+import { ShiftEndReconciliationService } from './shift-end-reconciliation.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      ShiftEndCash,
+      DailyCashio,
+      Sale,
+      ShiftEndCashVarianceJustification,
+    ]),
+  ],
+  controllers: [ShiftEndReconciliationController],
+  providers: [ShiftEndReconciliationService],
+  exports: [ShiftEndReconciliationService],
+})
+export class ShiftEndReconciliationModule {}
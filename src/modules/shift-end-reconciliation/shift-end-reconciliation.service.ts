@@ -0,0 +1,558 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as _ from 'lodash';
+import * as XLSX from 'xlsx';
+import { ShiftEndCash } from '../../entities/shift-end-cash.entity';
+import { DailyCashio } from '../../entities/daily-cashio.entity';
+import { Sale } from '../../entities/sale.entity';
+import { ShiftEndCashVarianceJustification } from '../../entities/shift-end-cash-variance-justification.entity';
+import {
+  DEFAULT_SHIFT_VARIANCE_THRESHOLD,
+  SHIFT_VARIANCE_STATUS,
+} from './constants/shift-end-reconciliation.constants';
+import type { ShiftVarianceStatus } from './constants/shift-end-reconciliation.constants';
+import { JustifyShiftVarianceDto } from './dto/justify-shift-variance.dto';
+import type { AuthUser } from '../auth/constants/auth.constants';
+import {
+  LOOKUP_CHUNK_SIZE,
+  findByKeys,
+} from '../../utils/repository-lookup.utils';
+
+export interface ShiftEndReconciliationQuery {
+  dateFrom: string; // YYYY-MM-DD
+  dateTo: string; // YYYY-MM-DD
+  brand?: string;
+  branchCode?: string;
+  threshold?: number;
+}
+
+export interface ShiftVarianceLine {
+  fopCode: string;
+  fopName: string | null;
+  systemAmount: number; // system_amt khai báo cuối ca
+  declaredAmount: number; // actual_amt khai báo cuối ca
+  diffAmount: number; // diff_amount khai báo cuối ca
+  cashioAmount: number; // Tổng phiếu thu - chi của ca theo fop
+  salesAmount: number; // Doanh thu đơn trong ca, phân bổ theo tỷ lệ thanh toán
+  cashioCount: number;
+  declaredVariance: number; // actual_amt - cashio
+  systemVariance: number; // system_amt - cashio
+  salesVariance: number; // cashio - doanh thu
+  status: ShiftVarianceStatus;
+  justification: {
+    reason: string;
+    justifiedBy: string | null;
+    varianceAmount: number;
+    updatedAt: Date;
+  } | null;
+}
+
+export interface ShiftVarianceRow {
+  shiftEndCashId: string;
+  brand: string | null;
+  branchCode: string | null;
+  drawCode: string;
+  openat: Date | null;
+  closedat: Date | null;
+  tellerCode: string | null;
+  paymentSuccess: boolean | null;
+  status: ShiftVarianceStatus;
+  unjustifiedCount: number;
+  lines: ShiftVarianceLine[];
+}
+
+interface ShiftAmounts {
+  cashio: Record<string, { amount: number; count: number; name: string }>;
+  sales: Record<string, number>;
+}
+
+/**
+ * Đối soát nộp quỹ cuối ca: khai báo cuối ca (shift_end_cash_lines) vs phiếu thu (daily_cashio) vs doanh thu (sales)
+ * Ghép theo ca: daily_cashio.shift_code = shift_end_cash.draw_code; đơn bán ghép qua daily_cashio.so_code = sales.docCode
+ */
+@Injectable()
+export class ShiftEndReconciliationService {
+  private readonly logger = new Logger(ShiftEndReconciliationService.name);
+
+  constructor(
+    @InjectRepository(ShiftEndCash)
+    private shiftEndCashRepository: Repository<ShiftEndCash>,
+
+    @InjectRepository(DailyCashio)
+    private dailyCashioRepository: Repository<DailyCashio>,
+
+    @InjectRepository(Sale)
+    private saleRepository: Repository<Sale>,
+
+    @InjectRepository(ShiftEndCashVarianceJustification)
+    private justificationRepository: Repository<ShiftEndCashVarianceJustification>,
+  ) {}
+
+  /**
+   * Báo cáo chênh lệch theo ca có phân trang, kèm tổng hợp của cả kỳ
+   */
+  async getReport(
+    query: ShiftEndReconciliationQuery,
+    options: {
+      status?: string;
+      onlyVariances?: boolean;
+      page?: number;
+      limit?: number;
+    } = {},
+  ) {
+    const page = options.page || 1;
+    const limit = options.limit || 50;
+    const rows = await this.reconcile(query);
+    const filtered = this.filterRows(rows, options);
+
+    return {
+      summary: this.summarize(rows, query),
+      data: filtered.slice((page - 1) * limit, page * limit),
+      meta: {
+        total: filtered.length,
+        page,
+        limit,
+        totalPages: Math.ceil(filtered.length / limit),
+      },
+    };
+  }
+
+  /**
+   * Xuất Excel: sheet tổng hợp + sheet chi tiết (1 dòng / ca / fop)
+   */
+  async exportReport(
+    query: ShiftEndReconciliationQuery,
+    options: { status?: string; onlyVariances?: boolean } = {},
+  ): Promise<Buffer> {
+    const rows = await this.reconcile(query);
+    const summary = this.summarize(rows, query);
+    const filtered = this.filterRows(rows, options);
+
+    const detailRows = filtered.flatMap((row) =>
+      row.lines
+        .filter(
+          (line) =>
+            !options.onlyVariances ||
+            line.status !== SHIFT_VARIANCE_STATUS.MATCHED,
+        )
+        .map((line) => ({
+          Brand: row.brand || '',
+          'Chi nhánh': row.branchCode || '',
+          'Mã ca': row.drawCode,
+          'Mở ca': row.openat || '',
+          'Đóng ca': row.closedat || '',
+          'Thu ngân': row.tellerCode || '',
+          'Mã HTTT': line.fopCode,
+          'Tên HTTT': line.fopName || '',
+          'Hệ thống': line.systemAmount,
+          'Thực tế': line.declaredAmount,
+          'Chênh lệch khai báo': line.diffAmount,
+          'Phiếu thu': line.cashioAmount,
+          'Số phiếu thu': line.cashioCount,
+          'Doanh thu': line.salesAmount,
+          'Thực tế - Phiếu thu': line.declaredVariance,
+          'Hệ thống - Phiếu thu': line.systemVariance,
+          'Phiếu thu - Doanh thu': line.salesVariance,
+          'Trạng thái': line.status,
+          'Giải trình': line.justification?.reason || '',
+          'Người giải trình': line.justification?.justifiedBy || '',
+        })),
+    );
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet([
+        { 'Chỉ tiêu': 'Từ ngày', 'Giá trị': summary.dateFrom },
+        { 'Chỉ tiêu': 'Đến ngày', 'Giá trị': summary.dateTo },
+        { 'Chỉ tiêu': 'Brand', 'Giá trị': summary.brand || '' },
+        { 'Chỉ tiêu': 'Chi nhánh', 'Giá trị': summary.branchCode || '' },
+        { 'Chỉ tiêu': 'Ngưỡng chênh lệch', 'Giá trị': summary.threshold },
+        { 'Chỉ tiêu': 'Tổng số ca', 'Giá trị': summary.totalShifts },
+        ...Object.entries(summary.byStatus).map(([key, value]) => ({
+          'Chỉ tiêu': key,
+          'Giá trị': value,
+        })),
+        {
+          'Chỉ tiêu': 'Dòng chênh lệch chưa giải trình',
+          'Giá trị': summary.unjustifiedLines,
+        },
+        { 'Chỉ tiêu': 'Tổng thực tế', 'Giá trị': summary.declaredAmount },
+        { 'Chỉ tiêu': 'Tổng phiếu thu', 'Giá trị': summary.cashioAmount },
+        { 'Chỉ tiêu': 'Tổng doanh thu', 'Giá trị': summary.salesAmount },
+      ]),
+      'Tổng hợp',
+    );
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet(detailRows),
+      'Chi tiết',
+    );
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+  }
+
+  /**
+   * Đối soát 1 ca
+   */
+  async getShift(shiftEndCashId: string, threshold?: number) {
+    const shift = await this.shiftEndCashRepository.findOne({
+      where: { id: shiftEndCashId },
+      relations: ['lines'],
+    });
+    if (!shift) {
+      throw new NotFoundException(`ShiftEndCash ${shiftEndCashId} not found`);
+    }
+    const [row] = await this.buildRows(
+      [shift],
+      threshold ?? DEFAULT_SHIFT_VARIANCE_THRESHOLD,
+    );
+    return row;
+  }
+
+  /**
+   * Giải trình chênh lệch của 1 fop trong ca (ghi đè giải trình cũ nếu có)
+   */
+  async justify(
+    shiftEndCashId: string,
+    dto: JustifyShiftVarianceDto,
+    user?: AuthUser,
+  ) {
+    const row = await this.getShift(shiftEndCashId, dto.threshold);
+    const line = row.lines.find((item) => item.fopCode === dto.fopCode);
+    if (!line) {
+      throw new BadRequestException(
+        `Ca ${row.drawCode} không có hình thức thanh toán ${dto.fopCode}`,
+      );
+    }
+    if (line.status === SHIFT_VARIANCE_STATUS.MATCHED) {
+      throw new BadRequestException(
+        `Hình thức thanh toán ${dto.fopCode} của ca ${row.drawCode} không có chênh lệch cần giải trình`,
+      );
+    }
+
+    const existing = await this.justificationRepository.findOne({
+      where: { shiftEndCashId, fopCode: dto.fopCode },
+    });
+    const justification = existing || this.justificationRepository.create();
+    Object.assign(justification, {
+      shiftEndCashId,
+      fopCode: dto.fopCode,
+      varianceAmount: this.maxVariance(line),
+      reason: dto.reason,
+      justifiedBy: user?.username || null,
+    });
+    return this.justificationRepository.save(justification);
+  }
+
+  /**
+   * Dòng lệch (khác MATCHED) chưa giải trình theo ca (shift phải kèm lines), dùng để chặn tạo phiếu chi sang Fast.
+   * Cùng tiêu chí với unjustifiedCount của báo cáo
+   */
+  async findUnjustifiedLines(
+    shifts: ShiftEndCash[],
+    threshold: number = DEFAULT_SHIFT_VARIANCE_THRESHOLD,
+  ): Promise<Map<string, ShiftVarianceLine[]>> {
+    const rows = await this.buildRows(shifts, threshold);
+    return new Map(
+      rows.map((row) => [
+        row.shiftEndCashId,
+        row.lines.filter(
+          (line) =>
+            line.status !== SHIFT_VARIANCE_STATUS.MATCHED &&
+            !line.justification,
+        ),
+      ]),
+    );
+  }
+
+  async reconcile(
+    query: ShiftEndReconciliationQuery,
+  ): Promise<ShiftVarianceRow[]> {
+    if (!query.dateFrom || !query.dateTo) {
+      throw new BadRequestException(
+        'Thiếu khoảng thời gian đối soát (dateFrom, dateTo)',
+      );
+    }
+    const threshold = query.threshold ?? DEFAULT_SHIFT_VARIANCE_THRESHOLD;
+
+    // Ca thuộc kỳ theo giờ mở ca, ca chưa có giờ mở ca thì theo ngày chứng từ
+    const queryBuilder = this.shiftEndCashRepository
+      .createQueryBuilder('sec')
+      .leftJoinAndSelect('sec.lines', 'lines')
+      .where('COALESCE(sec.openat, sec.docdate) BETWEEN :start AND :end', {
+        start: new Date(`${query.dateFrom}T00:00:00`),
+        end: new Date(`${query.dateTo}T23:59:59.999`),
+      });
+    if (query.brand) {
+      queryBuilder.andWhere('sec.brand = :brand', { brand: query.brand });
+    }
+    if (query.branchCode) {
+      queryBuilder.andWhere('sec.branch_code = :branchCode', {
+        branchCode: query.branchCode,
+      });
+    }
+    const shifts = await queryBuilder.getMany();
+    const rows = await this.buildRows(shifts, threshold);
+
+    this.logger.log(
+      `[ShiftEndReconciliation] ${query.dateFrom} -> ${query.dateTo}: ${rows.length} ca`,
+    );
+
+    return _.sortBy(rows, [
+      (row) => (row.status === SHIFT_VARIANCE_STATUS.MATCHED ? 1 : 0),
+      (row) => row.branchCode || '',
+      (row) => row.drawCode,
+    ]);
+  }
+
+  private async buildRows(
+    shifts: ShiftEndCash[],
+    threshold: number,
+  ): Promise<ShiftVarianceRow[]> {
+    if (shifts.length === 0) {
+      return [];
+    }
+    const amounts = await this.loadShiftAmounts(shifts);
+    const justifications = await findByKeys<ShiftEndCashVarianceJustification>(
+      this.justificationRepository,
+      'shiftEndCashId',
+      shifts.map((shift) => shift.id),
+    );
+    const justificationMap = _.keyBy(
+      justifications,
+      (item) => `${item.shiftEndCashId}|${item.fopCode}`,
+    );
+
+    return shifts.map((shift) => {
+      const shiftAmounts = amounts.get(shift.id) || { cashio: {}, sales: {} };
+      const declaredLines = _.groupBy(
+        shift.lines || [],
+        (line) => line.fop_code || '',
+      );
+      const fopCodes = _.uniq([
+        ...Object.keys(declaredLines),
+        ...Object.keys(shiftAmounts.cashio),
+      ]).filter(Boolean);
+
+      const lines = fopCodes.map((fopCode) => {
+        const declared = declaredLines[fopCode] || [];
+        const cashio = shiftAmounts.cashio[fopCode];
+        const line = this.buildLine(
+          fopCode,
+          declared,
+          cashio,
+          shiftAmounts.sales[fopCode] || 0,
+          threshold,
+        );
+        const justification = justificationMap[`${shift.id}|${fopCode}`];
+        line.justification = justification
+          ? {
+              reason: justification.reason,
+              justifiedBy: justification.justifiedBy || null,
+              varianceAmount: Number(justification.varianceAmount) || 0,
+              updatedAt: justification.updatedAt,
+            }
+          : null;
+        return line;
+      });
+
+      const unmatched = lines.filter(
+        (line) => line.status !== SHIFT_VARIANCE_STATUS.MATCHED,
+      );
+      return {
+        shiftEndCashId: shift.id,
+        brand: shift.brand || null,
+        branchCode: shift.branch_code || null,
+        drawCode: shift.draw_code,
+        openat: shift.openat || null,
+        closedat: shift.closedat || null,
+        tellerCode: shift.teller_code || null,
+        paymentSuccess: shift.payment_success ?? null,
+        status:
+          unmatched.length === 0
+            ? SHIFT_VARIANCE_STATUS.MATCHED
+            : unmatched.some(
+                  (line) => line.status === SHIFT_VARIANCE_STATUS.VARIANCE,
+                )
+              ? SHIFT_VARIANCE_STATUS.VARIANCE
+              : unmatched[0].status,
+        unjustifiedCount: unmatched.filter((line) => !line.justification)
+          .length,
+        lines,
+      };
+    });
+  }
+
+  private buildLine(
+    fopCode: string,
+    declared: ShiftEndCash['lines'],
+    cashio: ShiftAmounts['cashio'][string] | undefined,
+    salesAmount: number,
+    threshold: number,
+  ): ShiftVarianceLine {
+    const systemAmount = _.round(
+      _.sumBy(declared, (line) => Number(line.system_amt) || 0),
+      2,
+    );
+    const declaredAmount = _.round(
+      _.sumBy(declared, (line) => Number(line.actual_amt) || 0),
+      2,
+    );
+    const cashioAmount = _.round(cashio?.amount || 0, 2);
+    const line: ShiftVarianceLine = {
+      fopCode,
+      fopName: declared[0]?.fop_name || cashio?.name || null,
+      systemAmount,
+      declaredAmount,
+      diffAmount: _.round(
+        _.sumBy(declared, (item) => Number(item.diff_amount) || 0),
+        2,
+      ),
+      cashioAmount,
+      salesAmount: _.round(salesAmount, 2),
+      cashioCount: cashio?.count || 0,
+      declaredVariance: _.round(declaredAmount - cashioAmount, 2),
+      systemVariance: _.round(systemAmount - cashioAmount, 2),
+      salesVariance: _.round(cashioAmount - salesAmount, 2),
+      status: SHIFT_VARIANCE_STATUS.MATCHED,
+      justification: null,
+    };
+
+    if (this.maxVariance(line) > threshold) {
+      line.status =
+        declared.length === 0
+          ? SHIFT_VARIANCE_STATUS.MISSING_DECLARATION
+          : !cashio
+            ? SHIFT_VARIANCE_STATUS.MISSING_CASHIO
+            : SHIFT_VARIANCE_STATUS.VARIANCE;
+    }
+    return line;
+  }
+
+  /**
+   * Tổng phiếu thu theo ca / fop và doanh thu đơn phân bổ theo fop
+   * Đơn thanh toán nhiều fop: doanh thu chia theo tỷ lệ số tiền từng fop trên phiếu thu của đơn
+   */
+  private async loadShiftAmounts(
+    shifts: ShiftEndCash[],
+  ): Promise<Map<string, ShiftAmounts>> {
+    const cashios = await findByKeys<DailyCashio>(
+      this.dailyCashioRepository,
+      'shift_code',
+      shifts.map((shift) => shift.draw_code).filter(Boolean),
+    );
+    const cashiosByShift = _.groupBy(cashios, 'shift_code');
+
+    const revenueRows: Array<{ docCode: string; revenue: string }> = [];
+    for (const chunk of _.chunk(
+      _.uniq(cashios.map((cashio) => cashio.so_code).filter(Boolean)),
+      LOOKUP_CHUNK_SIZE,
+    )) {
+      revenueRows.push(
+        ...(await this.saleRepository
+          .createQueryBuilder('sale')
+          .select('sale.docCode', 'docCode')
+          .addSelect('SUM(sale.revenue)', 'revenue')
+          .where('sale.docCode IN (:...docCodes)', { docCodes: chunk })
+          .groupBy('sale.docCode')
+          .getRawMany()),
+      );
+    }
+    const revenueByDocCode = new Map(
+      revenueRows.map((row) => [row.docCode, Number(row.revenue) || 0]),
+    );
+
+    const result = new Map<string, ShiftAmounts>();
+    for (const shift of shifts) {
+      // Trùng mã ca giữa các brand: chỉ lấy phiếu thu cùng brand (nếu có brand)
+      const shiftCashios = (cashiosByShift[shift.draw_code] || []).filter(
+        (cashio) =>
+          !shift.brand || !cashio.brand || cashio.brand === shift.brand,
+      );
+      const amountOf = (cashio: DailyCashio) =>
+        (Number(cashio.total_in) || 0) - (Number(cashio.total_out) || 0);
+
+      const cashio: ShiftAmounts['cashio'] = {};
+      for (const [fopCode, items] of Object.entries(
+        _.groupBy(shiftCashios, (item) => item.fop_syscode || ''),
+      )) {
+        if (!fopCode) continue;
+        cashio[fopCode] = {
+          amount: _.sumBy(items, amountOf),
+          count: items.length,
+          name: items[0].fop_description,
+        };
+      }
+
+      const sales: Record<string, number> = {};
+      for (const [soCode, items] of Object.entries(
+        _.groupBy(shiftCashios, 'so_code'),
+      )) {
+        const revenue = revenueByDocCode.get(soCode);
+        const orderTotal = _.sumBy(items, amountOf);
+        if (revenue === undefined || orderTotal === 0) continue;
+        for (const item of items) {
+          if (!item.fop_syscode) continue;
+          sales[item.fop_syscode] =
+            (sales[item.fop_syscode] || 0) +
+            (revenue * amountOf(item)) / orderTotal;
+        }
+      }
+
+      result.set(shift.id, { cashio, sales });
+    }
+    return result;
+  }
+
+  private maxVariance(line: ShiftVarianceLine): number {
+    return Math.max(
+      Math.abs(line.declaredVariance),
+      Math.abs(line.systemVariance),
+      Math.abs(line.salesVariance),
+    );
+  }
+
+  private filterRows(
+    rows: ShiftVarianceRow[],
+    options: { status?: string; onlyVariances?: boolean },
+  ) {
+    return rows.filter(
+      (row) =>
+        (!options.status || row.status === options.status) &&
+        (!options.onlyVariances ||
+          row.status !== SHIFT_VARIANCE_STATUS.MATCHED),
+    );
+  }
+
+  private summarize(
+    rows: ShiftVarianceRow[],
+    query: ShiftEndReconciliationQuery,
+  ) {
+    const allLines = rows.flatMap((row) => row.lines);
+
+    return {
+      dateFrom: query.dateFrom,
+      dateTo: query.dateTo,
+      brand: query.brand || null,
+      branchCode: query.branchCode || null,
+      threshold: query.threshold ?? DEFAULT_SHIFT_VARIANCE_THRESHOLD,
+      totalShifts: rows.length,
+      byStatus: Object.fromEntries(
+        Object.values(SHIFT_VARIANCE_STATUS).map((status) => [
+          status,
+          rows.filter((row) => row.status === status).length,
+        ]),
+      ) as Record<ShiftVarianceStatus, number>,
+      unjustifiedLines: _.sumBy(rows, 'unjustifiedCount'),
+      declaredAmount: _.round(_.sumBy(allLines, 'declaredAmount'), 2),
+      cashioAmount: _.round(_.sumBy(allLines, 'cashioAmount'), 2),
+      salesAmount: _.round(_.sumBy(allLines, 'salesAmount'), 2),
+    };
+  }
+}
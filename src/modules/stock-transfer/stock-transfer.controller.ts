@@ -9,6 +9,8 @@ import {
   ParseIntPipe,
 } from '@nestjs/common';
 import { StockTransferService } from './stock-transfer.service';
+import { Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
 
 @Controller('stock-transfers')
 export class StockTransferController {
@@ -31,6 +33,7 @@ export class StockTransferController {
     );
   }
 
+  @Roles(ROLES.ACCOUNTANT)
   @Put(':id')
   async updateMaterialCode(
     @Param('id') id: string,
@@ -0,0 +1,468 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, Repository } from 'typeorm';
+import * as _ from 'lodash';
+import {
+  SHIFT_END_CASH_POSTING_STATUS,
+  ShiftEndCash,
+} from '../../entities/shift-end-cash.entity';
+import { FastApiClientService } from '../../services/fast-api-client.service';
+import { FastDocumentSubmissionService } from '../../services/fast-document-submission.service';
+import { LoyaltyService } from '../../services/loyalty.service';
+import { parseDDMMMYYYY } from '../../utils/date-parser.util';
+import { formatZappyDate } from '../../utils/convert.utils';
+import { FAST_SUBMISSION_IN_FLIGHT_TIMEOUT_MS } from '../../utils/fast-idempotency.utils';
+import {
+  ShiftEndReconciliationService,
+  ShiftVarianceLine,
+} from '../shift-end-reconciliation/shift-end-reconciliation.service';
+
+// Người tạo phiếu chi khi chạy theo lịch
+const SCHEDULER_USER = 'system:scheduler';
+
+export interface ShiftEndCashPostingResult {
+  success: boolean;
+  skipped?: boolean;
+  blocked?: boolean; // Còn chênh lệch chưa giải trình
+  message: string;
+  data?: any;
+  error?: string;
+}
+
+export interface ShiftEndCashBulkPostingParams {
+  dateFrom: string; // DDMMMYYYY
+  dateTo: string; // DDMMMYYYY
+  brand?: string;
+  branchCode?: string;
+}
+
+/**
+ * Tạo phiếu chi tiền mặt (payment) sang Fast từ báo cáo nộp quỹ cuối ca
+ * Mỗi báo cáo chỉ được tạo phiếu chi 1 lần: giữ trạng thái POSTING trước khi gọi Fast, POSTED thì bỏ qua
+ * Ca còn dòng lệch chưa giải trình (VARIANCE, thiếu cashio, thiếu khai báo) thì không tạo phiếu chi
+ */
+@Injectable()
+export class ShiftEndCashPostingService implements OnModuleInit {
+  private readonly logger = new Logger(ShiftEndCashPostingService.name);
+  private running = false;
+
+  constructor(
+    @InjectRepository(ShiftEndCash)
+    private shiftEndCashRepository: Repository<ShiftEndCash>,
+    private fastApiClientService: FastApiClientService,
+    private fastDocumentSubmissionService: FastDocumentSubmissionService,
+    private loyaltyService: LoyaltyService,
+    private configService: ConfigService,
+    private shiftEndReconciliationService: ShiftEndReconciliationService,
+  ) {}
+
+  /**
+   * Báo cáo đã tạo phiếu chi thành công trước khi có posting_status: đánh dấu POSTED
+   */
+  async onModuleInit() {
+    const result = await this.shiftEndCashRepository.update(
+      {
+        payment_success: true,
+        posting_status: SHIFT_END_CASH_POSTING_STATUS.PENDING,
+      },
+      { posting_status: SHIFT_END_CASH_POSTING_STATUS.POSTED },
+    );
+    if (result.affected) {
+      this.logger.log(
+        `Đã đánh dấu POSTED cho ${result.affected} báo cáo nộp quỹ cuối ca đã tạo phiếu chi`,
+      );
+    }
+  }
+
+  /**
+   * Tạo phiếu chi cho 1 báo cáo nộp quỹ cuối ca
+   */
+  async post(
+    shiftEndCashId: string,
+    postedBy?: string,
+  ): Promise<ShiftEndCashPostingResult> {
+    const shiftEndCash = await this.shiftEndCashRepository.findOne({
+      where: { id: shiftEndCashId },
+      relations: ['lines'],
+    });
+    if (!shiftEndCash) {
+      throw new NotFoundException(`ShiftEndCash ${shiftEndCashId} not found`);
+    }
+    const departments = await this.loyaltyService.fetchLoyaltyDepartments(
+      [this.resolveBranchCode(shiftEndCash)].filter(Boolean),
+    );
+    const unjustified =
+      await this.shiftEndReconciliationService.findUnjustifiedLines([
+        shiftEndCash,
+      ]);
+    return this.postRecord(
+      shiftEndCash,
+      departments,
+      unjustified.get(shiftEndCash.id) || [],
+      postedBy,
+    );
+  }
+
+  /**
+   * Tạo phiếu chi hàng loạt theo khoảng ngày (openat / closedat) / chi nhánh / brand
+   * Bỏ qua báo cáo đã POSTED hoặc đang POSTING, gửi lại báo cáo FAILED, chặn ca còn chênh lệch chưa giải trình
+   */
+  async postBulk(params: ShiftEndCashBulkPostingParams, postedBy?: string) {
+    if (!params.dateFrom || !params.dateTo) {
+      throw new BadRequestException(
+        'Tham số dateFrom và dateTo là bắt buộc (format: DDMMMYYYY, ví dụ: 01NOV2025)',
+      );
+    }
+    const fromDate = parseDDMMMYYYY(params.dateFrom);
+    const toDate = parseDDMMMYYYY(params.dateTo, true);
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+      throw new BadRequestException(
+        `Khoảng ngày không hợp lệ: ${params.dateFrom} - ${params.dateTo}`,
+      );
+    }
+
+    const queryBuilder = this.shiftEndCashRepository
+      .createQueryBuilder('sec')
+      .leftJoinAndSelect('sec.lines', 'lines')
+      .where(
+        '(sec.openat BETWEEN :dateFrom AND :dateTo OR sec.closedat BETWEEN :dateFrom AND :dateTo)',
+        { dateFrom: fromDate, dateTo: toDate },
+      )
+      .orderBy('sec.openat', 'ASC')
+      .addOrderBy('sec.draw_code', 'ASC');
+    if (params.brand) {
+      queryBuilder.andWhere('sec.brand = :brand', { brand: params.brand });
+    }
+    if (params.branchCode) {
+      queryBuilder.andWhere('sec.branch_code = :branchCode', {
+        branchCode: params.branchCode,
+      });
+    }
+    const records = await queryBuilder.getMany();
+    const toPost = records.filter((record) => this.isPostable(record));
+
+    // Tra cứu department 1 lần cho cả lô thay vì từng báo cáo
+    const departments = await this.loyaltyService.fetchLoyaltyDepartments(
+      _.uniq(toPost.map((record) => this.resolveBranchCode(record))).filter(
+        Boolean,
+      ),
+    );
+    const unjustified =
+      await this.shiftEndReconciliationService.findUnjustifiedLines(toPost);
+
+    const results: Array<{
+      id: string;
+      drawCode: string;
+      success: boolean;
+      skipped?: boolean;
+      blocked?: boolean;
+      message: string;
+    }> = [];
+    for (const record of toPost) {
+      const result = await this.postRecord(
+        record,
+        departments,
+        unjustified.get(record.id) || [],
+        postedBy,
+      );
+      results.push({
+        id: record.id,
+        drawCode: record.draw_code,
+        success: result.success,
+        skipped: result.skipped,
+        blocked: result.blocked,
+        message: result.error || result.message,
+      });
+    }
+
+    const postedCount = results.filter((item) => item.success).length;
+    const failedCount = results.filter(
+      (item) => !item.success && !item.skipped,
+    ).length;
+    const blockedCount = results.filter((item) => item.blocked).length;
+    const skippedCount =
+      records.length - postedCount - failedCount - blockedCount;
+
+    this.logger.log(
+      `[ShiftEndCash Posting] ${params.dateFrom} -> ${params.dateTo}: ${postedCount} thành công, ${failedCount} thất bại, ${blockedCount} chờ giải trình, ${skippedCount} bỏ qua`,
+    );
+
+    return {
+      success: failedCount === 0,
+      message: `Đã tạo ${postedCount} phiếu chi, ${failedCount} thất bại, ${blockedCount} ca còn chênh lệch chưa giải trình, bỏ qua ${skippedCount} báo cáo đã tạo phiếu chi`,
+      totalRecords: records.length,
+      postedCount,
+      failedCount,
+      blockedCount,
+      skippedCount,
+      results,
+    };
+  }
+
+  /**
+   * Tự động tạo phiếu chi cho báo cáo chưa tạo trong N ngày gần nhất (tới hôm qua)
+   * Bật bằng SHIFT_END_CASH_AUTO_POST_ENABLED=true
+   */
+  @Cron('0 6 * * *', {
+    name: 'post-shift-end-cash',
+    timeZone: 'Asia/Ho_Chi_Minh',
+  })
+  async handleScheduledPosting() {
+    if (
+      this.configService.get('SHIFT_END_CASH_AUTO_POST_ENABLED', 'false') !==
+      'true'
+    ) {
+      return;
+    }
+    if (this.running) {
+      this.logger.warn(
+        'Shift end cash posting is still running, skipping this tick',
+      );
+      return;
+    }
+
+    this.running = true;
+    try {
+      const lookbackDays = Number(
+        this.configService.get('SHIFT_END_CASH_AUTO_POST_LOOKBACK_DAYS', 3),
+      );
+      const dateTo = new Date();
+      dateTo.setDate(dateTo.getDate() - 1);
+      const dateFrom = new Date(dateTo);
+      dateFrom.setDate(dateFrom.getDate() - Math.max(lookbackDays - 1, 0));
+
+      return await this.postBulk(
+        {
+          dateFrom: formatZappyDate(dateFrom),
+          dateTo: formatZappyDate(dateTo),
+        },
+        SCHEDULER_USER,
+      );
+    } catch (error: any) {
+      this.logger.error(
+        `[ShiftEndCash Posting] Lỗi khi tạo phiếu chi theo lịch: ${error?.message || error}`,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async postRecord(
+    shiftEndCash: ShiftEndCash,
+    departments: Map<string, any>,
+    unjustifiedLines: ShiftVarianceLine[],
+    postedBy?: string,
+  ): Promise<ShiftEndCashPostingResult> {
+    const id = shiftEndCash.id;
+    if (
+      unjustifiedLines.length > 0 &&
+      shiftEndCash.posting_status !== SHIFT_END_CASH_POSTING_STATUS.POSTED
+    ) {
+      const fopCodes = unjustifiedLines.map((line) => line.fopCode).join(', ');
+      return {
+        success: false,
+        skipped: true,
+        blocked: true,
+        message: `Ca ${shiftEndCash.draw_code} còn dòng lệch chưa giải trình (${fopCodes}), cần giải trình trước khi tạo phiếu chi`,
+      };
+    }
+    if (!(await this.claim(shiftEndCash))) {
+      return {
+        success: false,
+        skipped: true,
+        message:
+          shiftEndCash.posting_status === SHIFT_END_CASH_POSTING_STATUS.POSTED
+            ? `Báo cáo ${shiftEndCash.draw_code} đã tạo phiếu chi`
+            : `Báo cáo ${shiftEndCash.draw_code} đang được tạo phiếu chi bởi tiến trình khác`,
+      };
+    }
+
+    try {
+      const paymentPayload = this.buildPaymentPayload(
+        shiftEndCash,
+        departments.get(this.resolveBranchCode(shiftEndCash)),
+      );
+      const result =
+        await this.fastApiClientService.submitPayment(paymentPayload);
+      const { isSuccess, message } = this.parseResult(result);
+      const idempotencyKey = await this.fastDocumentSubmissionService
+        .getLatestKey(paymentPayload.so_ct, ['payment'])
+        .catch(() => null);
+
+      await this.shiftEndCashRepository.update(id, {
+        posting_status: isSuccess
+          ? SHIFT_END_CASH_POSTING_STATUS.POSTED
+          : SHIFT_END_CASH_POSTING_STATUS.FAILED,
+        fast_doc_code: paymentPayload.so_ct,
+        fast_idempotency_key: idempotencyKey || undefined,
+        posted_at: isSuccess ? new Date() : null,
+        posted_by: postedBy,
+        payment_success: isSuccess,
+        payment_message: message,
+        payment_date: new Date(),
+        payment_response: JSON.stringify(result),
+      });
+
+      if (!isSuccess) {
+        this.logger.error(
+          `[ShiftEndCash Payment] Payment API trả về lỗi cho ${shiftEndCash.draw_code}: ${message}`,
+        );
+        return {
+          success: false,
+          message: 'Lỗi khi tạo phiếu chi tiền mặt',
+          error: message,
+        };
+      }
+
+      this.logger.log(
+        `[ShiftEndCash Payment] Tạo payment thành công cho shift end cash ${id}`,
+      );
+      return { success: true, message, data: result };
+    } catch (error: any) {
+      const errorMessage = error?.message || String(error);
+      this.logger.error(
+        `[ShiftEndCash Payment] Lỗi khi tạo payment cho ${shiftEndCash.draw_code}: ${errorMessage}`,
+      );
+      await this.shiftEndCashRepository
+        .update(id, {
+          posting_status: SHIFT_END_CASH_POSTING_STATUS.FAILED,
+          payment_success: false,
+          payment_message: errorMessage,
+          payment_date: new Date(),
+        })
+        .catch((saveError) =>
+          this.logger.error(
+            `Failed to save payment error status: ${saveError}`,
+          ),
+        );
+      return {
+        success: false,
+        message: 'Lỗi khi tạo phiếu chi tiền mặt',
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Giữ báo cáo ở trạng thái POSTING trước khi gọi Fast
+   * POSTING quá thời gian gửi tối đa coi như tiến trình trước đã chết, cho phép giữ lại
+   */
+  private async claim(shiftEndCash: ShiftEndCash): Promise<boolean> {
+    const changes = {
+      posting_status: SHIFT_END_CASH_POSTING_STATUS.POSTING,
+      posting_started_at: new Date(),
+      posting_attempts: () => 'posting_attempts + 1',
+    };
+    let claim = await this.shiftEndCashRepository.update(
+      {
+        id: shiftEndCash.id,
+        posting_status: In([
+          SHIFT_END_CASH_POSTING_STATUS.PENDING,
+          SHIFT_END_CASH_POSTING_STATUS.FAILED,
+        ]),
+      },
+      changes,
+    );
+    if (!claim.affected) {
+      claim = await this.shiftEndCashRepository.update(
+        {
+          id: shiftEndCash.id,
+          posting_status: SHIFT_END_CASH_POSTING_STATUS.POSTING,
+          posting_started_at: LessThan(
+            new Date(Date.now() - FAST_SUBMISSION_IN_FLIGHT_TIMEOUT_MS),
+          ),
+        },
+        changes,
+      );
+    }
+    return !!claim.affected;
+  }
+
+  private isPostable(shiftEndCash: ShiftEndCash): boolean {
+    return (
+      shiftEndCash.posting_status === SHIFT_END_CASH_POSTING_STATUS.PENDING ||
+      shiftEndCash.posting_status === SHIFT_END_CASH_POSTING_STATUS.FAILED ||
+      (shiftEndCash.posting_status === SHIFT_END_CASH_POSTING_STATUS.POSTING &&
+        !!shiftEndCash.posting_started_at &&
+        Date.now() - new Date(shiftEndCash.posting_started_at).getTime() >=
+          FAST_SUBMISSION_IN_FLIGHT_TIMEOUT_MS)
+    );
+  }
+
+  // Ưu tiên dùng branch_code từ database, nếu không có thì extract từ draw_code
+  private resolveBranchCode(shiftEndCash: ShiftEndCash): string {
+    if (shiftEndCash.branch_code) {
+      return shiftEndCash.branch_code;
+    }
+    const drawCode = shiftEndCash.draw_code || '';
+    const branchCodeMatch = drawCode.match(/^([A-Z0-9]+)_/);
+    return branchCodeMatch ? branchCodeMatch[1] : drawCode;
+  }
+
+  private buildPaymentPayload(shiftEndCash: ShiftEndCash, department?: any) {
+    const branchCode = this.resolveBranchCode(shiftEndCash);
+    const maDvcs =
+      department?.ma_dvcs || department?.ma_dvcs_ht || branchCode || '';
+    const maBp = department?.ma_bp || branchCode || '';
+    if (!department) {
+      this.logger.warn(
+        `Không thể lấy department cho branchCode ${branchCode}, dùng giá trị mặc định`,
+      );
+    }
+
+    const docDate = shiftEndCash.docdate || shiftEndCash.gl_date || new Date();
+
+    // Tìm dòng tiền mặt (CASH) từ lines để lấy số tiền
+    const cashLine = shiftEndCash.lines?.find(
+      (line) =>
+        line.fop_code?.toUpperCase() === 'CASH' ||
+        line.fop_name?.toLowerCase().includes('tiền mặt'),
+    );
+
+    // Ưu tiên dùng actual_amt từ cashLine, nếu không có thì dùng system_amt, cuối cùng là total
+    const paymentAmount = cashLine
+      ? Number(cashLine.actual_amt || cashLine.system_amt || 0)
+      : Number(shiftEndCash.total || 0);
+
+    return {
+      action: 0,
+      ma_dvcs: maDvcs,
+      ma_kh: branchCode || '', // Mã khách hàng = branchCode (chi nội bộ cho chi nhánh)
+      loai_ct: '2', // 2 - Chi cho khách hàng
+      dept_id: maBp,
+      ngay_lct: new Date(docDate).toISOString(),
+      so_ct: shiftEndCash.draw_code || '', // Mã chứng từ = draw_code
+      httt: 'CASH', // Hình thức thanh toán = CASH
+      status: '0',
+      dien_giai:
+        shiftEndCash.description || `Chi tiền cho ${shiftEndCash.draw_code}`,
+      detail: [
+        {
+          tien: paymentAmount,
+          ma_bp: maBp,
+        },
+      ],
+    };
+  }
+
+  private parseResult(result: any): { isSuccess: boolean; message: string } {
+    const item = Array.isArray(result) ? result[0] : result;
+    if (item && typeof item === 'object' && item.status !== undefined) {
+      return item.status === 1
+        ? { isSuccess: true, message: 'Tạo phiếu chi tiền mặt thành công' }
+        : {
+            isSuccess: false,
+            message: item.message || 'Tạo payment thất bại',
+          };
+    }
+    return { isSuccess: false, message: 'Tạo payment thất bại' };
+  }
+}
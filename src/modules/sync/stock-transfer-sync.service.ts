@@ -8,6 +8,8 @@ import { WarehouseProcessed } from '../../entities/warehouse-processed.entity';
 import { ZappyApiService } from '../../services/zappy-api.service';
 import { LoyaltyService } from '../../services/loyalty.service';
 import { parseDDMMMYYYY } from '../../utils/date-parser.util';
+import { BrandRegistryService } from '../brands/brand-registry.service';
+import { BRAND_SYNC_JOBS } from '../brands/constants/brand.constants';
 
 @Injectable()
 export class StockTransferSyncService {
@@ -21,6 +23,7 @@ export class StockTransferSyncService {
     private httpService: HttpService,
     private zappyApiService: ZappyApiService,
     private loyaltyService: LoyaltyService,
+    private brandRegistryService: BrandRegistryService,
   ) { }
 
   /**
@@ -390,7 +393,10 @@ export class StockTransferSyncService {
         throw new Error('dateFrom phải nhỏ hơn hoặc bằng dateTo');
       }
 
-      const brands = brand ? [brand] : ['f3', 'labhair', 'yaman', 'menard'];
+      const brands = await this.brandRegistryService.getBrandCodesForJob(
+        BRAND_SYNC_JOBS.STOCK_TRANSFER,
+        brand,
+      );
       let totalRecordsCount = 0;
       let totalSavedCount = 0;
       let totalUpdatedCount = 0;
@@ -12,14 +12,22 @@ import {
 import { SyncService } from './sync.service';
 import { StockTransferSyncService } from './stock-transfer-sync.service';
 import type { Response } from 'express';
+import { CurrentUser, Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
+import type { AuthUser } from '../auth/constants/auth.constants';
+import { BrandRegistryService } from '../brands/brand-registry.service';
+import { ShiftEndCashPostingService } from './shift-end-cash-posting.service';
 
 @Controller('sync')
 export class SyncController {
   constructor(
     private readonly syncService: SyncService,
     private readonly stockTransferSyncService: StockTransferSyncService,
+    private readonly brandRegistryService: BrandRegistryService,
+    private readonly shiftEndCashPostingService: ShiftEndCashPostingService,
   ) {}
 
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('brand/:brandName')
   async syncBrand(
     @Param('brandName') brandName: string,
@@ -56,15 +64,13 @@ export class SyncController {
   }
 
   @Get('brands')
-  getAvailableBrands() {
+  async getAvailableBrands() {
+    const brands = await this.brandRegistryService.findAll();
     return {
-      brands: [
-        { name: 'chando', displayName: 'Chando' },
-        { name: 'f3', displayName: 'F3' },
-        { name: 'labhair', displayName: 'LabHair' },
-        { name: 'yaman', displayName: 'Yaman' },
-        { name: 'menard', displayName: 'Menard' },
-      ],
+      brands: brands.map((brand) => ({
+        name: brand.code,
+        displayName: brand.displayName,
+      })),
     };
   }
 
@@ -75,6 +81,7 @@ export class SyncController {
    * @param dateTo - Date format: DDMMMYYYY (ví dụ: 30NOV2025)
    * @param brand - Optional brand name. Nếu không có thì đồng bộ tất cả brands
    */
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('stock-transfer/range')
   async syncStockTransferRange(@Body() body: any) {
     const dateFrom = body?.dateFrom || body?.DateFrom;
@@ -122,6 +129,7 @@ export class SyncController {
   /**
    * Retry/Repair stock transfer materialCode by soCode
    */
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('stock-transfer/retry')
   async retryStockTransferMaterialCode(@Body('soCode') soCode: string) {
     if (!soCode) {
@@ -169,6 +177,7 @@ export class SyncController {
    * @param brandName - Brand name (f3, labhair, yaman, menard)
    * @param date - Date format: DDMMMYYYY (ví dụ: 01NOV2025)
    */
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('stock-transfer/:brandName')
   async syncStockTransfer(
     @Param('brandName') brandName: string,
@@ -215,6 +224,7 @@ export class SyncController {
    * @param endDate - Date format: DDMMMYYYY (ví dụ: 31OCT2025)
    * @param brand - Optional brand name. Nếu không có thì đồng bộ tất cả brands
    */
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('shift-end-cash/range')
   async syncShiftEndCashByDateRange(
     @Body('startDate') startDate: string,
@@ -260,6 +270,7 @@ export class SyncController {
    * @param date - Date format: DDMMMYYYY (ví dụ: 01NOV2025)
    * @param brand - Optional brand name. Nếu không có thì đồng bộ tất cả brands
    */
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('shift-end-cash')
   async syncShiftEndCash(
     @Body('date') date: string,
@@ -300,6 +311,7 @@ export class SyncController {
    * @param endDate - Date format: DDMMMYYYY (ví dụ: 31OCT2025)
    * @param brand - Optional brand name. Nếu không có thì đồng bộ tất cả brands
    */
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('repack-formula/range')
   async syncRepackFormulaByDateRange(
     @Body('startDate') startDate: string,
@@ -345,6 +357,7 @@ export class SyncController {
    * @param endDate - Date format: DDMMMYYYY (ví dụ: 31OCT2025)
    * @param brand - Optional brand name. Nếu không có thì đồng bộ tất cả brands
    */
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('promotion/range')
   async syncPromotionByDateRange(
     @Body('startDate') startDate: string,
@@ -527,6 +540,7 @@ export class SyncController {
     @Query('apiId') apiId?: string,
     @Query('onlyProcessed') onlyProcessed?: string,
     @Query('paymentSuccess') paymentSuccess?: string,
+    @Query('postingStatus') postingStatus?: string,
   ) {
     try {
       const result = await this.syncService.getShiftEndCash({
@@ -541,6 +555,7 @@ export class SyncController {
         onlyProcessed: onlyProcessed === 'true',
         paymentSuccess:
           paymentSuccess !== undefined ? paymentSuccess === 'true' : undefined,
+        postingStatus,
       });
       return result;
     } catch (error: any) {
@@ -555,13 +570,41 @@ export class SyncController {
     }
   }
 
+  /**
+   * Tạo phiếu chi tiền mặt hàng loạt theo khoảng ngày / chi nhánh / brand
+   * Bỏ qua báo cáo đã tạo phiếu chi (posting_status = POSTED)
+   * @param dateFrom - Date format: DDMMMYYYY (ví dụ: 01NOV2025)
+   * @param dateTo - Date format: DDMMMYYYY (ví dụ: 30NOV2025)
+   */
+  @Roles(ROLES.ACCOUNTANT)
+  @Post('shift-end-cash/create-payments')
+  async createPaymentsFromShiftEndCash(
+    @Body('dateFrom') dateFrom: string,
+    @Body('dateTo') dateTo: string,
+    @CurrentUser() user: AuthUser,
+    @Body('brand') brand?: string,
+    @Body('branchCode') branchCode?: string,
+  ) {
+    return this.shiftEndCashPostingService.postBulk(
+      { dateFrom, dateTo, brand, branchCode },
+      user?.username,
+    );
+  }
+
   /**
    * Tạo phiếu chi tiền mặt từ báo cáo nộp quỹ cuối ca (double-click)
    */
+  @Roles(ROLES.ACCOUNTANT)
   @Post('shift-end-cash/:id/create-payment')
-  async createPaymentFromShiftEndCash(@Param('id') id: string) {
+  async createPaymentFromShiftEndCash(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ) {
     try {
-      const result = await this.syncService.createPaymentFromShiftEndCash(id);
+      const result = await this.syncService.createPaymentFromShiftEndCash(
+        id,
+        user?.username,
+      );
       if (!result.success) {
         throw new HttpException(
           {
@@ -636,6 +679,7 @@ export class SyncController {
    * @param date - Date format: DDMMMYYYY (ví dụ: 02NOV2025)
    * @param brand - Optional brand name. Nếu không có thì đồng bộ tất cả brands
    */
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('cashio')
   async syncCashio(@Body('date') date: string, @Body('brand') brand?: string) {
     if (!date || (typeof date === 'string' && date.trim() === '')) {
@@ -673,6 +717,7 @@ export class SyncController {
    * @param endDate - Date format: DDMMMYYYY (ví dụ: 30NOV2025)
    * @param brand - Optional brand name. Nếu không có thì đồng bộ tất cả brands
    */
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('cashio/range')
   async syncCashioByDateRange(
     @Body('startDate') startDate: string,
@@ -790,6 +835,7 @@ export class SyncController {
     }
   }
 
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('wsale/range')
   async syncWsaleByDateRange(
     @Body('startDate') startDate: string,
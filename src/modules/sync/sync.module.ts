@@ -9,6 +9,7 @@ import { ZappyApiService } from '../../services/zappy-api.service';
 import { LoyaltyService } from '../../services/loyalty.service';
 import { FastApiClientService } from '../../services/fast-api-client.service';
 import { SalesModule } from '../sales/sales.module';
+import { IntegrationAuditModule } from '../integration-audit/integration-audit.module';
 import { Customer } from '../../entities/customer.entity';
 import { Sale } from '../../entities/sale.entity';
 import { DailyCashio } from '../../entities/daily-cashio.entity';
@@ -20,6 +21,12 @@ import { RepackFormula } from '../../entities/repack-formula.entity';
 import { RepackFormulaItem } from '../../entities/repack-formula-item.entity';
 import { Promotion } from '../../entities/promotion.entity';
 import { PromotionLine } from '../../entities/promotion-line.entity';
+import { FastDocumentSubmission } from '../../entities/fast-document-submission.entity';
+import { FastDocumentReversal } from '../../entities/fast-document-reversal.entity';
+import { FastDocumentSubmissionService } from '../../services/fast-document-submission.service';
+import { BrandsModule } from '../brands/brands.module';
+import { ShiftEndReconciliationModule } from '../shift-end-reconciliation/shift-end-reconciliation.module';
+import { ShiftEndCashPostingService } from './shift-end-cash-posting.service';
 
 @Module({
   imports: [
@@ -35,9 +42,14 @@ import { PromotionLine } from '../../entities/promotion-line.entity';
       RepackFormulaItem,
       Promotion,
       PromotionLine,
+      FastDocumentSubmission,
+      FastDocumentReversal,
     ]),
     HttpModule,
     forwardRef(() => SalesModule),
+    IntegrationAuditModule,
+    BrandsModule,
+    ShiftEndReconciliationModule,
   ],
   controllers: [SyncController],
   providers: [
@@ -47,8 +59,10 @@ import { PromotionLine } from '../../entities/promotion-line.entity';
     ZappyApiService,
     LoyaltyService,
     FastApiClientService,
+    FastDocumentSubmissionService,
+    ShiftEndCashPostingService,
   ],
-  exports: [SyncService, StockTransferSyncService],
+  exports: [SyncService, StockTransferSyncService, ShiftEndCashPostingService],
   // Import SalesModule để có thể inject FastApiInvoiceFlowService (đã export từ SalesModule)
 })
 export class SyncModule {}
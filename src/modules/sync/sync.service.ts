@@ -30,6 +30,13 @@ import { FastApiClientService } from '../../services/fast-api-client.service';
 import { Order } from 'src/types/order.types';
 import { formatZappyDate, parseZappyDate } from 'src/utils/convert.utils';
 import { parseDDMMMYYYY } from '../../utils/date-parser.util';
+import { mapCompanyToBrand } from '../../utils/sales.utils';
+import { BrandRegistryService } from '../brands/brand-registry.service';
+import {
+  ShiftEndCashPostingResult,
+  ShiftEndCashPostingService,
+} from './shift-end-cash-posting.service';
+import { BRAND_SYNC_JOBS } from '../brands/constants/brand.constants';
 
 @Injectable()
 export class SyncService {
@@ -80,6 +87,8 @@ export class SyncService {
     private fastApiInvoiceFlowService: FastApiInvoiceFlowService,
     private fastApiClientService: FastApiClientService,
     private salesSyncService: SalesSyncService,
+    private brandRegistryService: BrandRegistryService,
+    private shiftEndCashPostingService: ShiftEndCashPostingService,
   ) {}
 
   async syncBrand(
@@ -212,7 +221,9 @@ export class SyncService {
 
       // Fetch departments để lấy company và map sang brand
       const departmentMap = new Map<string, { company?: string }>();
-      if (!brand || brand !== 'chando') {
+      if (
+        await this.brandRegistryService.shouldResolveBrandFromDepartment(brand)
+      ) {
         for (const branchCode of branchCodes) {
           try {
             const response = await this.httpService.axiosRef.get(
@@ -230,23 +241,6 @@ export class SyncService {
           }
         }
       }
-      // Map company sang brand
-      const mapCompanyToBrand = (
-        company: string | null | undefined,
-      ): string => {
-        if (!company) return '';
-        const companyUpper = company.toUpperCase();
-        const brandMap: Record<string, string> = {
-          F3: 'f3',
-          FACIALBAR: 'f3',
-          MENARD: 'menard',
-          LABHAIR: 'labhair',
-          YAMAN: 'yaman',
-          CHANDO: 'chando',
-        };
-        return brandMap[companyUpper] || company.toLowerCase();
-      };
-
       // Xử lý từng order
       for (const order of orders) {
         try {
@@ -544,7 +538,10 @@ export class SyncService {
     newRecordIds?: string[]; // Danh sách ID các records mới được tạo
   }> {
     try {
-      const brands = brand ? [brand] : ['f3', 'labhair', 'yaman', 'menard'];
+      const brands = await this.brandRegistryService.getBrandCodesForJob(
+        BRAND_SYNC_JOBS.SHIFT_END_CASH,
+        brand,
+      );
       let totalRecordsCount = 0;
       let totalSavedCount = 0;
       let totalUpdatedCount = 0;
@@ -916,6 +913,7 @@ export class SyncService {
     apiId?: number;
     onlyProcessed?: boolean;
     paymentSuccess?: boolean;
+    postingStatus?: string;
   }): Promise<{
     success: boolean;
     data: any[];
@@ -978,6 +976,13 @@ export class SyncService {
         });
       }
 
+      // Filter by posting status (PENDING, POSTING, POSTED, FAILED)
+      if (params.postingStatus) {
+        queryBuilder.andWhere('sec.posting_status = :postingStatus', {
+          postingStatus: params.postingStatus,
+        });
+      }
+
       // Filter by dateFrom và dateTo - filter theo openat và closedat
       // Filter các record có openat hoặc closedat nằm trong khoảng dateFrom-dateTo
       if (params.dateFrom || params.dateTo) {
@@ -1132,182 +1137,11 @@ export class SyncService {
    * @param shiftEndCashId - ID của báo cáo nộp quỹ cuối ca
    * @returns Kết quả tạo payment
    */
-  async createPaymentFromShiftEndCash(shiftEndCashId: string): Promise<{
-    success: boolean;
-    message: string;
-    data?: any;
-    error?: string;
-  }> {
-    try {
-      // Lấy shift end cash record
-      const shiftEndCash = await this.shiftEndCashRepository.findOne({
-        where: { id: shiftEndCashId },
-        relations: ['lines'],
-      });
-
-      if (!shiftEndCash) {
-        throw new Error(
-          `Không tìm thấy báo cáo nộp quỹ cuối ca với ID: ${shiftEndCashId}`,
-        );
-      }
-
-      // Ưu tiên dùng branch_code từ database, nếu không có thì extract từ draw_code
-      let branchCode = shiftEndCash.branch_code;
-      if (!branchCode) {
-        const drawCode = shiftEndCash.draw_code || '';
-        const branchCodeMatch = drawCode.match(/^([A-Z0-9]+)_/);
-        branchCode = branchCodeMatch ? branchCodeMatch[1] : drawCode;
-      }
-
-      // Fetch department để lấy ma_dvcs và ma_bp
-      let maDvcs = '';
-      let maBp = '';
-      try {
-        const response = await this.httpService.axiosRef.get(
-          `https://loyaltyapi.vmt.vn/departments?page=1&limit=25&branchcode=${branchCode}`,
-          { headers: { accept: 'application/json' } },
-        );
-        const department = response?.data?.data?.items?.[0];
-        if (department) {
-          maDvcs = department.ma_dvcs || department.ma_dvcs_ht || branchCode;
-          maBp = department.ma_bp || branchCode;
-        } else {
-          maDvcs = branchCode;
-          maBp = branchCode;
-        }
-      } catch (error) {
-        this.logger.warn(
-          `Không thể lấy department cho branchCode ${branchCode}, dùng giá trị mặc định`,
-        );
-        maDvcs = branchCode;
-        maBp = branchCode;
-      }
-
-      // Build payment payload
-      const docDate =
-        shiftEndCash.docdate || shiftEndCash.gl_date || new Date();
-      const totalAmount = Number(shiftEndCash.total || 0);
-
-      // Format date to ISO string
-      const formatDateISO = (date: Date): string => {
-        if (!date) return new Date().toISOString();
-        if (typeof date === 'string') {
-          return new Date(date).toISOString();
-        }
-        return date.toISOString();
-      };
-
-      // Tìm dòng tiền mặt (CASH) từ lines để lấy số tiền
-      const cashLine = shiftEndCash.lines?.find(
-        (line: any) =>
-          line.fop_code?.toUpperCase() === 'CASH' ||
-          line.fop_name?.toLowerCase().includes('tiền mặt'),
-      );
-
-      // Ưu tiên dùng actual_amt từ cashLine, nếu không có thì dùng system_amt, cuối cùng là total
-      const paymentAmount = cashLine
-        ? Number(cashLine.actual_amt || cashLine.system_amt || 0)
-        : totalAmount;
-
-      const paymentPayload: any = {
-        action: 0,
-        ma_dvcs: maDvcs,
-        ma_kh: branchCode || '', // Mã khách hàng = branchCode (chi nội bộ cho chi nhánh)
-        loai_ct: '2', // 2 - Chi cho khách hàng
-        dept_id: maBp,
-        ngay_lct: formatDateISO(docDate),
-        so_ct: shiftEndCash.draw_code || '', // Mã chứng từ = draw_code
-        httt: 'CASH', // Hình thức thanh toán = CASH
-        status: '0',
-        dien_giai:
-          shiftEndCash.description || `Chi tiền cho ${shiftEndCash.draw_code}`,
-        detail: [
-          {
-            tien: paymentAmount,
-            ma_bp: maBp,
-          },
-        ],
-      };
-
-      // Gọi payment API
-      const result =
-        await this.fastApiClientService.submitPayment(paymentPayload);
-
-      // Validate response
-      let isSuccess = false;
-      let resultMessage = 'Tạo payment thất bại';
-
-      if (Array.isArray(result) && result.length > 0) {
-        const firstItem = result[0];
-        if (firstItem.status === 1) {
-          isSuccess = true;
-          resultMessage = 'Tạo phiếu chi tiền mặt thành công';
-        } else {
-          resultMessage = firstItem.message || 'Tạo payment thất bại';
-        }
-      } else if (
-        result &&
-        typeof result === 'object' &&
-        result.status !== undefined
-      ) {
-        if (result.status === 1) {
-          isSuccess = true;
-          resultMessage = 'Tạo phiếu chi tiền mặt thành công';
-        } else {
-          resultMessage = result.message || 'Tạo payment thất bại';
-        }
-      }
-
-      // Update shift end cash status
-      shiftEndCash.payment_success = isSuccess;
-      shiftEndCash.payment_message = resultMessage;
-      shiftEndCash.payment_date = new Date();
-      shiftEndCash.payment_response = JSON.stringify(result);
-      await this.shiftEndCashRepository.save(shiftEndCash);
-
-      if (!isSuccess) {
-        this.logger.error(
-          `[ShiftEndCash Payment] Payment API trả về lỗi: ${resultMessage}`,
-        );
-        throw new Error(resultMessage);
-      }
-
-      this.logger.log(
-        `[ShiftEndCash Payment] Tạo payment thành công cho shift end cash ${shiftEndCashId}`,
-      );
-
-      return {
-        success: true,
-        message: resultMessage,
-        data: result,
-      };
-    } catch (error: any) {
-      const errorMessage = error?.message || String(error);
-      this.logger.error(
-        `[ShiftEndCash Payment] Lỗi khi tạo payment: ${errorMessage}`,
-      );
-
-      // Update fail status if possible (and not already saved)
-      try {
-        const shiftEndCash = await this.shiftEndCashRepository.findOne({
-          where: { id: shiftEndCashId },
-        });
-        if (shiftEndCash) {
-          shiftEndCash.payment_success = false;
-          shiftEndCash.payment_message = errorMessage;
-          shiftEndCash.payment_date = new Date();
-          await this.shiftEndCashRepository.save(shiftEndCash);
-        }
-      } catch (saveError) {
-        this.logger.error(`Failed to save payment error status: ${saveError}`);
-      }
-
-      return {
-        success: false,
-        message: 'Lỗi khi tạo phiếu chi tiền mặt',
-        error: errorMessage,
-      };
-    }
+  async createPaymentFromShiftEndCash(
+    shiftEndCashId: string,
+    postedBy?: string,
+  ): Promise<ShiftEndCashPostingResult> {
+    return this.shiftEndCashPostingService.post(shiftEndCashId, postedBy);
   }
 
   /**
@@ -1388,7 +1222,10 @@ export class SyncService {
         throw new Error('Ngày bắt đầu phải nhỏ hơn hoặc bằng ngày kết thúc');
       }
 
-      const brands = brand ? [brand] : ['f3', 'labhair', 'yaman', 'menard'];
+      const brands = await this.brandRegistryService.getBrandCodesForJob(
+        BRAND_SYNC_JOBS.SHIFT_END_CASH,
+        brand,
+      );
       let totalRecordsCount = 0;
       let totalSavedCount = 0;
       let totalUpdatedCount = 0;
@@ -1500,7 +1337,10 @@ export class SyncService {
     errors?: string[];
   }> {
     try {
-      const brands = brand ? [brand] : ['f3', 'labhair', 'yaman', 'menard'];
+      const brands = await this.brandRegistryService.getBrandCodesForJob(
+        BRAND_SYNC_JOBS.REPACK_FORMULA,
+        brand,
+      );
       let totalRecordsCount = 0;
       let totalSavedCount = 0;
       let totalUpdatedCount = 0;
@@ -1807,7 +1647,10 @@ export class SyncService {
         throw new Error('Ngày bắt đầu phải nhỏ hơn hoặc bằng ngày kết thúc');
       }
 
-      const brands = brand ? [brand] : ['f3', 'labhair', 'yaman', 'menard'];
+      const brands = await this.brandRegistryService.getBrandCodesForJob(
+        BRAND_SYNC_JOBS.REPACK_FORMULA,
+        brand,
+      );
       let totalRecordsCount = 0;
       let totalSavedCount = 0;
       let totalUpdatedCount = 0;
@@ -2053,7 +1896,10 @@ export class SyncService {
     errors?: string[];
   }> {
     try {
-      const brands = brand ? [brand] : ['f3', 'labhair', 'yaman', 'menard'];
+      const brands = await this.brandRegistryService.getBrandCodesForJob(
+        BRAND_SYNC_JOBS.PROMOTION,
+        brand,
+      );
       let totalRecordsCount = 0;
       let totalSavedCount = 0;
       let totalUpdatedCount = 0;
@@ -2593,7 +2439,10 @@ export class SyncService {
     errors?: string[];
   }> {
     try {
-      const brands = brand ? [brand] : ['f3', 'labhair', 'yaman', 'menard'];
+      const brands = await this.brandRegistryService.getBrandCodesForJob(
+        BRAND_SYNC_JOBS.PROMOTION,
+        brand,
+      );
       let totalRecordsCount = 0;
       let totalSavedCount = 0;
       let totalUpdatedCount = 0;
@@ -3288,7 +3137,10 @@ export class SyncService {
         `[Cashio] Bắt đầu đồng bộ cashio cho ngày ${date}${brand ? ` cho brand ${brand}` : ' cho tất cả brands'}`,
       );
 
-      const brands = brand ? [brand] : ['f3', 'labhair', 'yaman', 'menard'];
+      const brands = await this.brandRegistryService.getBrandCodesForJob(
+        BRAND_SYNC_JOBS.CASHIO,
+        brand,
+      );
       let totalRecordsCount = 0;
       let totalSavedCount = 0;
       let totalSkippedCount = 0;
@@ -3473,7 +3325,10 @@ export class SyncService {
         `[Cashio Range] Sẽ đồng bộ ${datesToSync.length} ngày từ ${startDate} đến ${endDate}`,
       );
 
-      const brands = brand ? [brand] : ['f3', 'labhair', 'yaman', 'menard'];
+      const brands = await this.brandRegistryService.getBrandCodesForJob(
+        BRAND_SYNC_JOBS.CASHIO,
+        brand,
+      );
       let totalRecordsCount = 0;
       let totalSavedCount = 0;
       let totalSkippedCount = 0;
@@ -8,6 +8,8 @@ import {
   HttpStatus,
 } from '@nestjs/common';
 import { VoucherIssueService } from './voucher-issue.service';
+import { Roles } from '../auth/decorators/auth.decorators';
+import { ROLES } from '../auth/constants/auth.constants';
 
 @Controller('voucher-issue')
 export class VoucherIssueController {
@@ -19,6 +21,7 @@ export class VoucherIssueController {
    * @param endDate - Date format: DDMMMYYYY (ví dụ: 31OCT2025)
    * @param brand - Optional brand name. Nếu không có thì đồng bộ tất cả brands
    */
+  @Roles(ROLES.SYNC_OPERATOR)
   @Post('sync/range')
   async syncVoucherIssueByDateRange(
     @Body('startDate') startDate: string,
@@ -7,9 +7,10 @@ import { VoucherIssue } from '../../entities/voucher-issue.entity';
 import { ZappyApiService } from '../../services/zappy-api.service';
 import { LoyaltyService } from '../../services/loyalty.service';
 import { SyncModule } from '../sync/sync.module';
+import { BrandsModule } from '../brands/brands.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([VoucherIssue]), HttpModule],
+  imports: [TypeOrmModule.forFeature([VoucherIssue]), HttpModule, BrandsModule],
   controllers: [VoucherIssueController],
   providers: [VoucherIssueService, ZappyApiService, LoyaltyService],
   exports: [VoucherIssueService],
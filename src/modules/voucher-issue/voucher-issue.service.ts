@@ -4,6 +4,8 @@ import { Repository, In } from 'typeorm';
 import { VoucherIssue } from '../../entities/voucher-issue.entity';
 import { ZappyApiService } from '../../services/zappy-api.service';
 import { LoyaltyService } from '../../services/loyalty.service';
+import { BrandRegistryService } from '../brands/brand-registry.service';
+import { BRAND_SYNC_JOBS } from '../brands/constants/brand.constants';
 
 @Injectable()
 export class VoucherIssueService {
@@ -14,6 +16,7 @@ export class VoucherIssueService {
     private voucherIssueRepository: Repository<VoucherIssue>,
     private zappyApiService: ZappyApiService,
     private loyaltyService: LoyaltyService,
+    private brandRegistryService: BrandRegistryService,
   ) {}
 
   /**
@@ -90,7 +93,10 @@ export class VoucherIssueService {
     errors?: string[];
   }> {
     try {
-      const brands = brand ? [brand] : ['f3', 'labhair', 'yaman', 'menard'];
+      const brands = await this.brandRegistryService.getBrandCodesForJob(
+        BRAND_SYNC_JOBS.VOUCHER_ISSUE,
+        brand,
+      );
       let totalRecordsCount = 0;
       let totalSavedCount = 0;
       let totalUpdatedCount = 0;
@@ -373,7 +379,10 @@ export class VoucherIssueService {
     errors?: string[];
   }> {
     try {
-      const brands = brand ? [brand] : ['f3', 'labhair', 'yaman', 'menard'];
+      const brands = await this.brandRegistryService.getBrandCodesForJob(
+        BRAND_SYNC_JOBS.VOUCHER_ISSUE,
+        brand,
+      );
       let totalRecordsCount = 0;
       let totalSavedCount = 0;
       let totalUpdatedCount = 0;
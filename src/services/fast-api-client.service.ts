@@ -7,12 +7,34 @@ import {
   forwardRef,
 } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
 import { firstValueFrom } from 'rxjs';
 import { WarehouseProcessed } from '../entities/warehouse-processed.entity';
 import { Repository } from 'typeorm';
 import { InjectRepository } from '@nestjs/typeorm';
 
 import { LoyaltyService } from './loyalty.service';
+import { FastDocumentSubmissionService } from './fast-document-submission.service';
+import {
+  INTEGRATION_AUDIT_OUTCOMES,
+  IntegrationAuditService,
+} from '../modules/integration-audit/integration-audit.service';
+import {
+  FastApiRetryPolicy,
+  getFastApiRetryPolicy,
+} from '../config/fast-api-retry.config';
+import {
+  FAST_API_ERROR_KINDS,
+  classifyFastApiError,
+  computeBackoffDelay,
+  getFastApiMessage,
+  isAmbiguousFastApiError,
+  isFastApiBusinessRejection,
+} from '../utils/fast-api-retry.utils';
+import {
+  FAST_SUBMISSION_STATUS,
+  resolveFastDocCode,
+} from '../utils/fast-idempotency.utils';
 
 @Injectable()
 export class FastApiClientService implements OnModuleInit, OnModuleDestroy {
@@ -30,11 +52,14 @@ export class FastApiClientService implements OnModuleInit, OnModuleDestroy {
 
   constructor(
     private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
     @InjectRepository(WarehouseProcessed)
     private readonly warehouseProcessedRepository: Repository<WarehouseProcessed>,
     @Inject(forwardRef(() => LoyaltyService))
     private readonly loyaltyService: LoyaltyService,
-  ) { }
+    private readonly fastDocumentSubmissionService: FastDocumentSubmissionService,
+    private readonly integrationAuditService: IntegrationAuditService,
+  ) {}
 
   /**
    * Đăng nhập và lấy token
@@ -130,88 +155,210 @@ export class FastApiClientService implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Gọi API salesOrder (đơn hàng bán)
+   * Gọi POST tới Fast API theo retry policy của endpoint (config/fast-api-retry.config.ts)
+   * - Network / timeout / 5xx: backoff (exponential + jitter) rồi gọi lại
+   * - 401 (token hết hạn): đăng nhập lại rồi gọi lại ngay
+   * - 4xx khác: throw ngay
+   * - Fast trả status != 1 (từ chối nghiệp vụ): không gọi lại, trả response cho caller xử lý
+   * Với chứng từ (FAST_DOCUMENT_ENDPOINTS), mỗi lần gửi được ghi theo idempotency key:
+   * key đã gửi thành công thì trả response cũ, timeout sau khi gửi thì không tự gọi lại
+   * mà đánh dấu UNKNOWN chờ đối soát (fast-integration/submissions)
+   * Mỗi lần gọi HTTP được ghi vào integration_audit_logs
+   * @param endpoint - Tên endpoint Fast (salesInvoice, cashReceipt, ...)
+   * @param payload - Dữ liệu gửi lên
+   * @param label - Tên chứng từ dùng cho log
    */
-  async submitSalesOrder(orderData: any): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
+  private async post(
+    endpoint: string,
+    payload: any,
+    label: string,
+  ): Promise<any> {
+    const ledger = await this.fastDocumentSubmissionService.begin(
+      endpoint,
+      payload,
+    );
+    if (ledger && !ledger.submission) {
+      return ledger.replay;
+    }
+    const submission = ledger?.submission;
+    const docCode = resolveFastDocCode(payload);
 
-      // Gọi API salesOrder với token
-      const response = await firstValueFrom(
-        this.httpService.post(`${this.baseUrl}/salesOrder`, orderData, {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-      );
+    const policy = getFastApiRetryPolicy(this.configService, endpoint);
+    const url = `${this.baseUrl}/${endpoint}`;
+    let forceLogin = false;
+    let lastError: any = null;
 
-      this.logger.log('Sales order submitted successfully');
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(
-        `Error submitting sales order: ${error?.message || error}`,
-      );
-      if (error?.response) {
-        this.logger.error(`Response status: ${error.response.status}`);
-        this.logger.error(
-          `Response data: ${JSON.stringify(error.response.data)}`,
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+      const isLastAttempt = attempt === policy.maxAttempts;
+      let startedAt: number | null = null;
+      try {
+        const token = forceLogin ? await this.login() : await this.getToken();
+        forceLogin = false;
+        if (!token) {
+          // Không đăng nhập được thường do Fast đang không truy cập được
+          lastError = new Error('Không thể lấy token đăng nhập');
+          if (!isLastAttempt) {
+            await this.waitBeforeRetry(label, attempt, policy, lastError);
+          }
+          continue;
+        }
+
+        if (submission) {
+          await this.fastDocumentSubmissionService.recordAttempt(submission);
+        }
+        startedAt = Date.now();
+        const response = await firstValueFrom(
+          this.httpService.post(url, payload, {
+            headers: {
+              'Content-Type': 'application/json',
+              Authorization: `Bearer ${token}`,
+            },
+          }),
         );
-        // Log thêm thông tin chi tiết về request
-        if (error.config) {
-          this.logger.error(`Request URL: ${error.config.url}`);
-          this.logger.error(
-            `Request payload: ${JSON.stringify(error.config.data)}`,
+
+        const rejected = isFastApiBusinessRejection(response.data);
+        await this.integrationAuditService.record({
+          documentType: endpoint,
+          docCode,
+          endpoint: url,
+          request: payload,
+          response: response.data,
+          httpStatus: response.status,
+          durationMs: Date.now() - startedAt,
+          attempt,
+          outcome: rejected
+            ? INTEGRATION_AUDIT_OUTCOMES.REJECTED
+            : INTEGRATION_AUDIT_OUTCOMES.SUCCESS,
+          errorMessage: rejected ? getFastApiMessage(response.data) : null,
+          idempotencyKey: submission?.idempotencyKey ?? null,
+        });
+        if (rejected) {
+          this.logger.warn(
+            `${label} bị Fast từ chối (không retry): ${getFastApiMessage(response.data)}`,
           );
+        } else if (attempt > 1) {
+          this.logger.log(`${label} submitted successfully (lần ${attempt})`);
+        }
+        if (submission) {
+          await this.fastDocumentSubmissionService.complete(
+            submission,
+            rejected
+              ? FAST_SUBMISSION_STATUS.REJECTED
+              : FAST_SUBMISSION_STATUS.SUCCESS,
+            response.data,
+            rejected ? getFastApiMessage(response.data) : null,
+          );
+        }
+        return response.data;
+      } catch (error: any) {
+        lastError = error;
+        const kind = classifyFastApiError(error);
+        if (startedAt !== null) {
+          await this.integrationAuditService.record({
+            documentType: endpoint,
+            docCode,
+            endpoint: url,
+            request: payload,
+            response: error?.response?.data,
+            httpStatus: error?.response?.status ?? null,
+            durationMs: Date.now() - startedAt,
+            attempt,
+            outcome: INTEGRATION_AUDIT_OUTCOMES.ERROR,
+            errorMessage: error?.message || String(error),
+            idempotencyKey: submission?.idempotencyKey ?? null,
+          });
         }
-      }
 
-      // Nếu lỗi 401 (Unauthorized), refresh token và retry
-      if (error?.response?.status === 401) {
-        this.logger.log(
-          'Token expired, refreshing and retrying sales order...',
-        );
-        const newToken = await this.login();
-        if (newToken) {
-          try {
-            this.logger.debug(
-              `Retry sales order payload: ${JSON.stringify(orderData, null, 2)}`,
-            );
-            const retryResponse = await firstValueFrom(
-              this.httpService.post(`${this.baseUrl}/salesOrder`, orderData, {
-                headers: {
-                  'Content-Type': 'application/json',
-                  Authorization: `Bearer ${newToken}`,
-                },
-              }),
-            );
-            this.logger.log('Sales order submitted successfully (after retry)');
-            return retryResponse.data;
-          } catch (retryError: any) {
-            this.logger.error(
-              `Retry sales order API failed: ${retryError?.message || retryError}`,
-            );
-            if (retryError?.response) {
-              this.logger.error(
-                `Retry response status: ${retryError.response.status}`,
-              );
-              this.logger.error(
-                `Retry response data: ${JSON.stringify(retryError.response.data)}`,
-              );
-            }
-            throw retryError;
-          }
+        if (submission && isAmbiguousFastApiError(error)) {
+          // Fast có thể đã ghi nhận chứng từ: không gọi lại để tránh tạo trùng
+          this.logFailure(label, error);
+          await this.fastDocumentSubmissionService.complete(
+            submission,
+            FAST_SUBMISSION_STATUS.UNKNOWN,
+            null,
+            error?.message || String(error),
+          );
+          throw new Error(
+            `${label} ${submission.docCode}: không xác định được kết quả từ Fast (${error?.code}). Cần đối soát submission ${submission.id} trước khi gửi lại`,
+          );
+        }
+
+        if (kind === FAST_API_ERROR_KINDS.FATAL || isLastAttempt) {
+          break;
+        }
+
+        if (kind === FAST_API_ERROR_KINDS.TOKEN_EXPIRED) {
+          this.logger.log(
+            `Token expired, refreshing and retrying ${label} (lần ${attempt}/${policy.maxAttempts})...`,
+          );
+          forceLogin = true;
+          continue;
         }
+
+        await this.waitBeforeRetry(label, attempt, policy, error);
       }
+    }
+
+    this.logFailure(label, lastError);
+    if (submission) {
+      await this.fastDocumentSubmissionService.complete(
+        submission,
+        FAST_SUBMISSION_STATUS.FAILED,
+        lastError?.response?.data ?? null,
+        lastError?.message || String(lastError),
+      );
+    }
+    throw lastError;
+  }
+
+  private async waitBeforeRetry(
+    label: string,
+    attempt: number,
+    policy: FastApiRetryPolicy,
+    error: any,
+  ): Promise<void> {
+    const delay = computeBackoffDelay(
+      attempt,
+      policy.baseDelayMs,
+      policy.maxDelayMs,
+    );
+    this.logger.warn(
+      `${label} lỗi tạm thời (lần ${attempt}/${policy.maxAttempts}): ${error?.message || error}. Thử lại sau ${delay}ms`,
+    );
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
 
-      throw error;
+  private logFailure(label: string, error: any): void {
+    const errorData = error?.response?.data;
+    let message = error?.message || error;
+    // Log message lỗi của Fast thay vì toàn bộ payload
+    if (Array.isArray(errorData) && errorData.length > 0) {
+      message = errorData[0]?.message || message;
+    } else if (typeof errorData === 'object' && errorData?.message) {
+      message = errorData.message;
+    } else if (typeof errorData === 'string') {
+      message = errorData;
+    }
+
+    this.logger.error(`Error submitting ${label}: ${message}`);
+    if (error?.response) {
+      this.logger.error(`Response status: ${error.response.status}`);
+      this.logger.error(`Response data: ${JSON.stringify(errorData)}`);
+    }
+    if (error?.config) {
+      this.logger.error(`Request URL: ${error.config.url}`);
     }
   }
 
+  /**
+   * Gọi API salesOrder (đơn hàng bán)
+   */
+  async submitSalesOrder(orderData: any): Promise<any> {
+    const data = await this.post('salesOrder', orderData, 'sales order');
+    this.logger.log('Sales order submitted successfully');
+    return data;
+  }
+
   //* Call Promotion
   async callPromotion(promotionData: {
     ma_ctkm: string;
@@ -220,133 +367,22 @@ export class FastApiClientService implements OnModuleInit, OnModuleDestroy {
     tk_cpkm: string;
     tk_ck: string;
   }): Promise<any> {
-    try {
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      const result = Object.fromEntries(
-        Object.entries(promotionData).filter(
-          ([_, value]) => value !== undefined && value !== null,
-        ),
-      );
+    const result = Object.fromEntries(
+      Object.entries(promotionData).filter(
+        ([_, value]) => value !== undefined && value !== null,
+      ),
+    );
 
-      const response = await firstValueFrom(
-        this.httpService.post(`${this.baseUrl}/Promotions`, result, {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-      );
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(`Error calling promotion: ${error?.message || error}`);
-      throw error;
-    }
+    return this.post('Promotions', result, 'promotion');
   }
 
   /**
    * Gọi API salesInvoice
    */
   async submitSalesInvoice(invoiceData: any): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Gọi API salesInvoice với token
-      const response = await firstValueFrom(
-        this.httpService.post(`${this.baseUrl}/salesInvoice`, invoiceData, {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-      );
-
-      this.logger.log('Sales invoice submitted successfully');
-      return response.data;
-    } catch (error: any) {
-      // Log chi tiết error response (chỉ log message, không log toàn bộ payload)
-      if (error?.response?.data) {
-        const errorData = error.response.data;
-        if (Array.isArray(errorData) && errorData.length > 0) {
-          this.logger.error(
-            `Error submitting sales invoice: ${errorData[0]?.message || error.message || error}`,
-          );
-        } else if (typeof errorData === 'object' && errorData.message) {
-          this.logger.error(
-            `Error submitting sales invoice: ${errorData.message}`,
-          );
-        } else if (typeof errorData === 'string') {
-          this.logger.error(`Error submitting sales invoice: ${errorData}`);
-        } else {
-          this.logger.error(
-            `Error submitting sales invoice: ${error?.message || error}`,
-          );
-        }
-      } else {
-        this.logger.error(
-          `Error submitting sales invoice: ${error?.message || error}`,
-        );
-      }
-
-      // Nếu lỗi 401 (Unauthorized), refresh token và retry
-      if (error?.response?.status === 401) {
-        this.logger.log('Token expired, refreshing and retrying...');
-        const newToken = await this.login();
-        if (newToken) {
-          // Retry với token mới
-          try {
-            const retryResponse = await firstValueFrom(
-              this.httpService.post(
-                `${this.baseUrl}/salesInvoice`,
-                invoiceData,
-                {
-                  headers: {
-                    'Content-Type': 'application/json',
-                    Authorization: `Bearer ${newToken}`,
-                  },
-                },
-              ),
-            );
-            this.logger.log(
-              'Sales invoice submitted successfully (after retry)',
-            );
-            return retryResponse.data;
-          } catch (retryError: any) {
-            if (retryError?.response?.data) {
-              const errorData = retryError.response.data;
-              if (Array.isArray(errorData) && errorData.length > 0) {
-                this.logger.error(
-                  `Error submitting sales invoice (retry): ${errorData[0]?.message || retryError.message || retryError}`,
-                );
-              } else if (typeof errorData === 'object' && errorData.message) {
-                this.logger.error(
-                  `Error submitting sales invoice (retry): ${errorData.message}`,
-                );
-              } else {
-                this.logger.error(
-                  `Error submitting sales invoice (retry): ${retryError?.message || retryError}`,
-                );
-              }
-            } else {
-              this.logger.error(
-                `Error submitting sales invoice (retry): ${retryError?.message || retryError}`,
-              );
-            }
-            this.logger.error(`Retry failed: ${retryError}`);
-            throw retryError;
-          }
-        }
-      }
-
-      throw error;
-    }
+    const data = await this.post('salesInvoice', invoiceData, 'sales invoice');
+    this.logger.log('Sales invoice submitted successfully');
+    return data;
   }
 
   /**
@@ -363,85 +399,26 @@ export class FastApiClientService implements OnModuleInit, OnModuleDestroy {
     gioi_tinh?: string;
     tel?: string;
   }): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Chỉ gửi các field có giá trị
-      const payload: any = {
-        ma_kh: customerData.code,
-        ten_kh: customerData.name,
-        dia_chi: customerData.address,
-        ngay_sinh: customerData.birthDate,
-        so_cccd: customerData.cccd,
-        e_mail: customerData.email,
-        gioi_tinh: customerData.gioi_tinh,
-      };
-
-      // Gọi API Customer với token
-      const response = await firstValueFrom(
-        this.httpService.post(`${this.baseUrl}/Customer`, payload, {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-      );
-
-      this.logger.log(
-        `Customer ${customerData.code} created/updated successfully`,
-      );
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(
-        `Error creating/updating customer ${customerData.code}: ${error?.message || error}`,
-      );
-
-      // Nếu lỗi 401 (Unauthorized), refresh token và retry
-      if (error?.response?.status === 401) {
-        this.logger.log(
-          'Token expired, refreshing and retrying customer API...',
-        );
-        const newToken = await this.login();
-        if (newToken) {
-          try {
-            const payload: any = {
-              ma_kh: customerData.code,
-              ten_kh: customerData.name,
-            };
-            if (customerData.address) payload.dia_chi = customerData.address;
-            if (customerData.birthDate)
-              payload.ngay_sinh = customerData.birthDate;
-            if (customerData.cccd) payload.so_cccd = customerData.cccd;
-            if (customerData.email) payload.e_mail = customerData.email;
-            if (customerData.gioi_tinh)
-              payload.gioi_tinh = customerData.gioi_tinh;
-            if (customerData.tel) payload.dien_thoai = customerData.tel;
-
-            const retryResponse = await firstValueFrom(
-              this.httpService.post(`${this.baseUrl}/Customer`, payload, {
-                headers: {
-                  'Content-Type': 'application/json',
-                  Authorization: `Bearer ${newToken}`,
-                },
-              }),
-            );
-            this.logger.log(
-              `Customer ${customerData.code} created/updated successfully (after retry)`,
-            );
-            return retryResponse.data;
-          } catch (retryError) {
-            this.logger.error(`Retry customer API failed: ${retryError}`);
-            throw retryError;
-          }
-        }
-      }
-
-      throw error;
-    }
+    // Chỉ gửi các field có giá trị
+    const payload: any = {
+      ma_kh: customerData.code,
+      ten_kh: customerData.name,
+      dia_chi: customerData.address,
+      ngay_sinh: customerData.birthDate,
+      so_cccd: customerData.cccd,
+      e_mail: customerData.email,
+      gioi_tinh: customerData.gioi_tinh,
+    };
+
+    const data = await this.post(
+      'Customer',
+      payload,
+      `customer ${customerData.code}`,
+    );
+    this.logger.log(
+      `Customer ${customerData.code} created/updated successfully`,
+    );
+    return data;
   }
 
   /**
@@ -458,81 +435,22 @@ export class FastApiClientService implements OnModuleInit, OnModuleDestroy {
     nhieu_dvt?: number;
     loai_hh_dv?: string;
   }): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Chỉ gửi các field có giá trị
-      const payload: any = {
-        ma_vt: itemData.ma_vt,
-        ten_vt: itemData.ten_vt,
-      };
-
-      if (itemData.ten_vt2) payload.ten_vt2 = itemData.ten_vt2;
-      if (itemData.dvt) payload.dvt = itemData.dvt;
-      if (itemData.lo_yn !== undefined) payload.lo_yn = itemData.lo_yn;
-      if (itemData.nhieu_dvt !== undefined)
-        payload.nhieu_dvt = itemData.nhieu_dvt;
-      if (itemData.loai_hh_dv) payload.loai_hh_dv = itemData.loai_hh_dv;
-
-      // Gọi API Item với token
-      const response = await firstValueFrom(
-        this.httpService.post(`${this.baseUrl}/Item`, payload, {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-      );
-
-      this.logger.log(`Item ${itemData.ma_vt} created/updated successfully`);
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(
-        `Error creating/updating item ${itemData.ma_vt}: ${error?.message || error}`,
-      );
-
-      // Nếu lỗi 401 (Unauthorized), refresh token và retry
-      if (error?.response?.status === 401) {
-        this.logger.log('Token expired, refreshing and retrying item API...');
-        const newToken = await this.login();
-        if (newToken) {
-          try {
-            const payload: any = {
-              ma_vt: itemData.ma_vt,
-              ten_vt: itemData.ten_vt,
-            };
-            if (itemData.ten_vt2) payload.ten_vt2 = itemData.ten_vt2;
-            if (itemData.dvt) payload.dvt = itemData.dvt;
-            if (itemData.lo_yn !== undefined) payload.lo_yn = itemData.lo_yn;
-            if (itemData.nhieu_dvt !== undefined)
-              payload.nhieu_dvt = itemData.nhieu_dvt;
-            if (itemData.loai_hh_dv) payload.loai_hh_dv = itemData.loai_hh_dv;
-
-            const retryResponse = await firstValueFrom(
-              this.httpService.post(`${this.baseUrl}/Item`, payload, {
-                headers: {
-                  'Content-Type': 'application/json',
-                  Authorization: `Bearer ${newToken}`,
-                },
-              }),
-            );
-            this.logger.log(
-              `Item ${itemData.ma_vt} created/updated successfully (after retry)`,
-            );
-            return retryResponse.data;
-          } catch (retryError) {
-            this.logger.error(`Retry item API failed: ${retryError}`);
-            throw retryError;
-          }
-        }
-      }
-
-      throw error;
-    }
+    // Chỉ gửi các field có giá trị
+    const payload: any = {
+      ma_vt: itemData.ma_vt,
+      ten_vt: itemData.ten_vt,
+    };
+
+    if (itemData.ten_vt2) payload.ten_vt2 = itemData.ten_vt2;
+    if (itemData.dvt) payload.dvt = itemData.dvt;
+    if (itemData.lo_yn !== undefined) payload.lo_yn = itemData.lo_yn;
+    if (itemData.nhieu_dvt !== undefined)
+      payload.nhieu_dvt = itemData.nhieu_dvt;
+    if (itemData.loai_hh_dv) payload.loai_hh_dv = itemData.loai_hh_dv;
+
+    const data = await this.post('Item', payload, `item ${itemData.ma_vt}`);
+    this.logger.log(`Item ${itemData.ma_vt} created/updated successfully`);
+    return data;
   }
 
   /**
@@ -554,118 +472,42 @@ export class FastApiClientService implements OnModuleInit, OnModuleDestroy {
     active?: string;
     action?: string;
   }): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Format dates to ISO string
-      const formatDate = (
-        date: string | Date | undefined,
-      ): string | undefined => {
-        if (!date) return undefined;
-        const d = typeof date === 'string' ? new Date(date) : date;
-        if (isNaN(d.getTime())) return undefined;
-        return d.toISOString();
-      };
-
-      // Chỉ gửi các field có giá trị
-      const payload: any = {
-        ma_vt: lotData.ma_vt,
-        ma_lo: lotData.ma_lo,
-        ten_lo: lotData.ten_lo,
-        action: lotData.action || '0',
-      };
-
-      if (lotData.ngay_nhap) payload.ngay_nhap = formatDate(lotData.ngay_nhap);
-      if (lotData.ten_lo2) payload.ten_lo2 = lotData.ten_lo2;
-      if (lotData.ngay_sx) payload.ngay_sx = formatDate(lotData.ngay_sx);
-      if (lotData.ngay_hhsd) payload.ngay_hhsd = formatDate(lotData.ngay_hhsd);
-      if (lotData.ngay_hhbh) payload.ngay_hhbh = formatDate(lotData.ngay_hhbh);
-      if (lotData.ghi_chu) payload.ghi_chu = lotData.ghi_chu;
-      if (lotData.ma_phu) payload.ma_phu = lotData.ma_phu;
-      if (lotData.active !== undefined) payload.active = lotData.active;
-
-      // Gọi API Lot với token
-      const response = await firstValueFrom(
-        this.httpService.post(`${this.baseUrl}/Lot`, payload, {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-      );
-
-      this.logger.log(
-        `Lot ${lotData.ma_lo} for item ${lotData.ma_vt} created/updated successfully`,
-      );
-      // this.logger.log(`==================Lot API Response: ${JSON.stringify(response.data)}`);
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(
-        `Error creating/updating lot ${lotData.ma_lo} for item ${lotData.ma_vt}: ${error?.message || error}`,
-      );
-
-      // Nếu lỗi 401 (Unauthorized), refresh token và retry
-      if (error?.response?.status === 401) {
-        this.logger.log('Token expired, refreshing and retrying lot API...');
-        const newToken = await this.login();
-        if (newToken) {
-          try {
-            const formatDate = (
-              date: string | Date | undefined,
-            ): string | undefined => {
-              if (!date) return undefined;
-              const d = typeof date === 'string' ? new Date(date) : date;
-              if (isNaN(d.getTime())) return undefined;
-              return d.toISOString();
-            };
-
-            const payload: any = {
-              ma_vt: lotData.ma_vt,
-              ma_lo: lotData.ma_lo,
-              ten_lo: lotData.ten_lo,
-              action: lotData.action || '0',
-            };
-
-            if (lotData.ngay_nhap)
-              payload.ngay_nhap = formatDate(lotData.ngay_nhap);
-            if (lotData.ten_lo2) payload.ten_lo2 = lotData.ten_lo2;
-            if (lotData.ngay_sx) payload.ngay_sx = formatDate(lotData.ngay_sx);
-            if (lotData.ngay_hhsd)
-              payload.ngay_hhsd = formatDate(lotData.ngay_hhsd);
-            if (lotData.ngay_hhbh)
-              payload.ngay_hhbh = formatDate(lotData.ngay_hhbh);
-            if (lotData.ghi_chu) payload.ghi_chu = lotData.ghi_chu;
-            if (lotData.ma_phu) payload.ma_phu = lotData.ma_phu;
-            if (lotData.active !== undefined) payload.active = lotData.active;
-
-            const retryResponse = await firstValueFrom(
-              this.httpService.post(`${this.baseUrl}/Lot`, payload, {
-                headers: {
-                  'Content-Type': 'application/json',
-                  Authorization: `Bearer ${newToken}`,
-                },
-              }),
-            );
-            this.logger.log(
-              `Lot ${lotData.ma_lo} for item ${lotData.ma_vt} created/updated successfully (after retry)`,
-            );
-            this.logger.log(
-              `Lot API Response (after retry): ${JSON.stringify(retryResponse.data)}`,
-            );
-            return retryResponse.data;
-          } catch (retryError) {
-            this.logger.error(`Retry lot API failed: ${retryError}`);
-            throw retryError;
-          }
-        }
-      }
-
-      throw error;
-    }
+    // Format dates to ISO string
+    const formatDate = (
+      date: string | Date | undefined,
+    ): string | undefined => {
+      if (!date) return undefined;
+      const d = typeof date === 'string' ? new Date(date) : date;
+      if (isNaN(d.getTime())) return undefined;
+      return d.toISOString();
+    };
+
+    // Chỉ gửi các field có giá trị
+    const payload: any = {
+      ma_vt: lotData.ma_vt,
+      ma_lo: lotData.ma_lo,
+      ten_lo: lotData.ten_lo,
+      action: lotData.action || '0',
+    };
+
+    if (lotData.ngay_nhap) payload.ngay_nhap = formatDate(lotData.ngay_nhap);
+    if (lotData.ten_lo2) payload.ten_lo2 = lotData.ten_lo2;
+    if (lotData.ngay_sx) payload.ngay_sx = formatDate(lotData.ngay_sx);
+    if (lotData.ngay_hhsd) payload.ngay_hhsd = formatDate(lotData.ngay_hhsd);
+    if (lotData.ngay_hhbh) payload.ngay_hhbh = formatDate(lotData.ngay_hhbh);
+    if (lotData.ghi_chu) payload.ghi_chu = lotData.ghi_chu;
+    if (lotData.ma_phu) payload.ma_phu = lotData.ma_phu;
+    if (lotData.active !== undefined) payload.active = lotData.active;
+
+    const data = await this.post(
+      'Lot',
+      payload,
+      `lot ${lotData.ma_lo} for item ${lotData.ma_vt}`,
+    );
+    this.logger.log(
+      `Lot ${lotData.ma_lo} for item ${lotData.ma_vt} created/updated successfully`,
+    );
+    return data;
   }
 
   /**
@@ -679,77 +521,24 @@ export class FastApiClientService implements OnModuleInit, OnModuleDestroy {
     ten_kho: string;
     ma_bp?: string;
   }): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Chỉ gửi các field có giá trị
-      const payload: any = {
-        ma_dvcs: siteData.ma_dvcs,
-        ma_kho: siteData.ma_kho,
-        ten_kho: siteData.ten_kho,
-      };
-
-      if (siteData.ma_bp) payload.ma_bp = siteData.ma_bp;
-
-      // Gọi API Site với token
-      const response = await firstValueFrom(
-        this.httpService.post(`${this.baseUrl}/Site`, payload, {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-      );
-
-      this.logger.log(
-        `Site ${siteData.ma_kho} for ma_dvcs ${siteData.ma_dvcs} created/updated successfully`,
-      );
-      // this.logger.log(`==================Site API Response: ${JSON.stringify(response.data)}`);
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(
-        `Error creating/updating site ${siteData.ma_kho} for ma_dvcs ${siteData.ma_dvcs}: ${error?.message || error}`,
-      );
-
-      // Nếu lỗi 401 (Unauthorized), refresh token và retry
-      if (error?.response?.status === 401) {
-        this.logger.log('Token expired, refreshing and retrying site API...');
-        const newToken = await this.login();
-        if (newToken) {
-          try {
-            const payload: any = {
-              ma_dvcs: siteData.ma_dvcs,
-              ma_kho: siteData.ma_kho,
-              ten_kho: siteData.ten_kho,
-            };
-            if (siteData.ma_bp) payload.ma_bp = siteData.ma_bp;
-
-            const retryResponse = await firstValueFrom(
-              this.httpService.post(`${this.baseUrl}/Site`, payload, {
-                headers: {
-                  'Content-Type': 'application/json',
-                  Authorization: `Bearer ${newToken}`,
-                },
-              }),
-            );
-            this.logger.log(
-              `Site ${siteData.ma_kho} for ma_dvcs ${siteData.ma_dvcs} created/updated successfully (after retry)`,
-            );
-            // this.logger.log(`==================Site API Response (after retry): ${JSON.stringify(retryResponse.data)}`);
-            return retryResponse.data;
-          } catch (retryError) {
-            this.logger.error(`Retry site API failed: ${retryError}`);
-            throw retryError;
-          }
-        }
-      }
-
-      throw error;
-    }
+    // Chỉ gửi các field có giá trị
+    const payload: any = {
+      ma_dvcs: siteData.ma_dvcs,
+      ma_kho: siteData.ma_kho,
+      ten_kho: siteData.ten_kho,
+    };
+
+    if (siteData.ma_bp) payload.ma_bp = siteData.ma_bp;
+
+    const data = await this.post(
+      'Site',
+      payload,
+      `site ${siteData.ma_kho} for ma_dvcs ${siteData.ma_dvcs}`,
+    );
+    this.logger.log(
+      `Site ${siteData.ma_kho} for ma_dvcs ${siteData.ma_dvcs} created/updated successfully`,
+    );
+    return data;
   }
 
   /**
@@ -771,82 +560,11 @@ export class FastApiClientService implements OnModuleInit, OnModuleDestroy {
    * Gọi API stockTransfer (phiếu xuất/nhập kho)
    */
   async submitStockTransfer(stockTransferData: any): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Log payload gửi lên API (đã tắt để giảm log)
-      // this.logger.log('==================Stock Transfer API Request Payload:');
-      // this.logger.log(JSON.stringify(stockTransferData, null, 2));
-      // this.logger.log('==================End of Stock Transfer API Request Payload');
-
-      // Gọi API warehouseRelease với token
-      const endpoint = `${this.baseUrl}/warehouseRelease`;
-      this.logger.log(`Calling FastAPI endpoint: ${endpoint}`);
-
-      const response = await firstValueFrom(
-        this.httpService.post(endpoint, stockTransferData, {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-      );
-
-      return response.data;
-    } catch (error: any) {
-      // Log chi tiết lỗi
-      this.logger.error(
-        `Error submitting stock transfer: ${error?.message || error}`,
-      );
-      if (error?.response) {
-        this.logger.error(`Response status: ${error.response.status}`);
-        this.logger.error(
-          `Response data: ${JSON.stringify(error.response.data)}`,
-        );
-        this.logger.error(
-          `Response headers: ${JSON.stringify(error.response.headers)}`,
-        );
-      }
-      if (error?.config) {
-        this.logger.error(`Request URL: ${error.config.url}`);
-        this.logger.error(`Request method: ${error.config.method}`);
-      }
-
-      // Nếu lỗi 401 (Unauthorized), refresh token và retry
-      if (error?.response?.status === 401) {
-        this.logger.log('Token expired, refreshing and retrying...');
-        const newToken = await this.login();
-        if (newToken) {
-          // Retry với token mới
-          try {
-            const endpoint = `${this.baseUrl}/warehouseRelease`;
-            const retryResponse = await firstValueFrom(
-              this.httpService.post(endpoint, stockTransferData, {
-                headers: {
-                  'Content-Type': 'application/json',
-                  Authorization: `Bearer ${newToken}`,
-                },
-              }),
-            );
-            this.logger.log(
-              'Stock transfer submitted successfully after token refresh',
-            );
-            return retryResponse.data;
-          } catch (retryError: any) {
-            this.logger.error(
-              `Error submitting stock transfer after retry: ${retryError?.message || retryError}`,
-            );
-            throw retryError;
-          }
-        }
-      }
-
-      throw error;
-    }
+    // Gọi API warehouseRelease với token
+    this.logger.log(
+      `Calling FastAPI endpoint: ${this.baseUrl}/warehouseRelease`,
+    );
+    return this.post('warehouseRelease', stockTransferData, 'stock transfer');
   }
 
   /**
@@ -854,39 +572,13 @@ export class FastApiClientService implements OnModuleInit, OnModuleDestroy {
    * @param cashReceiptData - Dữ liệu phiếu thu tiền mặt
    */
   async submitCashReceipt(cashReceiptData: any): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Gọi API cashReceipt với token
-      const response = await firstValueFrom(
-        this.httpService.post(`${this.baseUrl}/cashReceipt`, cashReceiptData, {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-      );
-
-      this.logger.log('Cash receipt submitted successfully');
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(
-        `Error submitting cash receipt: ${error?.message || error}`,
-      );
-      if (error?.response) {
-        this.logger.error(
-          `Cash receipt error response status: ${error.response.status}`,
-        );
-        this.logger.error(
-          `Cash receipt error response data: ${JSON.stringify(error.response.data)}`,
-        );
-      }
-      throw error;
-    }
+    const data = await this.post(
+      'cashReceipt',
+      cashReceiptData,
+      'cash receipt',
+    );
+    this.logger.log('Cash receipt submitted successfully');
+    return data;
   }
 
   /**
@@ -894,43 +586,13 @@ export class FastApiClientService implements OnModuleInit, OnModuleDestroy {
    * @param creditAdviceData - Dữ liệu giấy báo có
    */
   async submitCreditAdvice(creditAdviceData: any): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Gọi API creditAdvice với token
-      const response = await firstValueFrom(
-        this.httpService.post(
-          `${this.baseUrl}/creditAdvice`,
-          creditAdviceData,
-          {
-            headers: {
-              'Content-Type': 'application/json',
-              Authorization: `Bearer ${token}`,
-            },
-          },
-        ),
-      );
-
-      this.logger.log('Credit advice submitted successfully');
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(
-        `Error submitting credit advice: ${error?.message || error}`,
-      );
-      if (error?.response) {
-        this.logger.error(
-          `Credit advice error response status: ${error.response.status}`,
-        );
-        this.logger.error(
-          `Credit advice error response data: ${JSON.stringify(error.response.data)}`,
-        );
-      }
-      throw error;
-    }
+    const data = await this.post(
+      'creditAdvice',
+      creditAdviceData,
+      'credit advice',
+    );
+    this.logger.log('Credit advice submitted successfully');
+    return data;
   }
 
   /**
@@ -938,37 +600,9 @@ export class FastApiClientService implements OnModuleInit, OnModuleDestroy {
    * @param paymentData - Dữ liệu phiếu chi tiền mặt
    */
   async submitPayment(paymentData: any): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Gọi API payment với token
-      const response = await firstValueFrom(
-        this.httpService.post(`${this.baseUrl}/payment`, paymentData, {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-      );
-
-      this.logger.log('Payment submitted successfully');
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(`Error submitting payment: ${error?.message || error}`);
-      if (error?.response) {
-        this.logger.error(
-          `Payment error response status: ${error.response.status}`,
-        );
-        this.logger.error(
-          `Payment error response data: ${JSON.stringify(error.response.data)}`,
-        );
-      }
-      throw error;
-    }
+    const data = await this.post('payment', paymentData, 'payment');
+    this.logger.log('Payment submitted successfully');
+    return data;
   }
 
   /**
@@ -976,39 +610,13 @@ export class FastApiClientService implements OnModuleInit, OnModuleDestroy {
    * @param debitAdviceData - Dữ liệu giấy báo nợ
    */
   async submitDebitAdvice(debitAdviceData: any): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Gọi API debitAdvice với token
-      const response = await firstValueFrom(
-        this.httpService.post(`${this.baseUrl}/debitAdvice`, debitAdviceData, {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-      );
-
-      this.logger.log('Debit advice submitted successfully');
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(
-        `Error submitting debit advice: ${error?.message || error}`,
-      );
-      if (error?.response) {
-        this.logger.error(
-          `Debit advice error response status: ${error.response.status}`,
-        );
-        this.logger.error(
-          `Debit advice error response data: ${JSON.stringify(error.response.data)}`,
-        );
-      }
-      throw error;
-    }
+    const data = await this.post(
+      'debitAdvice',
+      debitAdviceData,
+      'debit advice',
+    );
+    this.logger.log('Debit advice submitted successfully');
+    return data;
   }
 
   /**
@@ -1016,43 +624,13 @@ export class FastApiClientService implements OnModuleInit, OnModuleDestroy {
    * @param warehouseReceiptData - Dữ liệu phiếu nhập kho
    */
   async submitWarehouseReceipt(warehouseReceiptData: any): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Gọi API warehouseReceipt với token
-      const response = await firstValueFrom(
-        this.httpService.post(
-          `${this.baseUrl}/warehouseReceipt`,
-          warehouseReceiptData,
-          {
-            headers: {
-              'Content-Type': 'application/json',
-              Authorization: `Bearer ${token}`,
-            },
-          },
-        ),
-      );
-
-      this.logger.log('Warehouse receipt submitted successfully');
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(
-        `Error submitting warehouse receipt: ${error?.message || error}`,
-      );
-      if (error?.response) {
-        this.logger.error(
-          `Warehouse receipt error response status: ${error.response.status}`,
-        );
-        this.logger.error(
-          `Warehouse receipt error response data: ${JSON.stringify(error.response.data)}`,
-        );
-      }
-      throw error;
-    }
+    const data = await this.post(
+      'warehouseReceipt',
+      warehouseReceiptData,
+      'warehouse receipt',
+    );
+    this.logger.log('Warehouse receipt submitted successfully');
+    return data;
   }
 
   /**
@@ -1060,43 +638,13 @@ export class FastApiClientService implements OnModuleInit, OnModuleDestroy {
    * @param warehouseReleaseData - Dữ liệu phiếu xuất kho
    */
   async submitWarehouseRelease(warehouseReleaseData: any): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Gọi API warehouseRelease với token
-      const response = await firstValueFrom(
-        this.httpService.post(
-          `${this.baseUrl}/warehouseRelease`,
-          warehouseReleaseData,
-          {
-            headers: {
-              'Content-Type': 'application/json',
-              Authorization: `Bearer ${token}`,
-            },
-          },
-        ),
-      );
-
-      this.logger.log('Warehouse release submitted successfully');
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(
-        `Error submitting warehouse release: ${error?.message || error}`,
-      );
-      if (error?.response) {
-        this.logger.error(
-          `Warehouse release error response status: ${error.response.status}`,
-        );
-        this.logger.error(
-          `Warehouse release error response data: ${JSON.stringify(error.response.data)}`,
-        );
-      }
-      throw error;
-    }
+    const data = await this.post(
+      'warehouseRelease',
+      warehouseReleaseData,
+      'warehouse release',
+    );
+    this.logger.log('Warehouse release submitted successfully');
+    return data;
   }
 
   /**
@@ -1104,263 +652,50 @@ export class FastApiClientService implements OnModuleInit, OnModuleDestroy {
    * @param warehouseTransferData - Dữ liệu phiếu điều chuyển kho
    */
   async submitWarehouseTransfer(warehouseTransferData: any): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Gọi API warehouseTransfer với token
-      const response = await firstValueFrom(
-        this.httpService.post(
-          `${this.baseUrl}/warehouseTransfer`,
-          warehouseTransferData,
-          {
-            headers: {
-              'Content-Type': 'application/json',
-              Authorization: `Bearer ${token}`,
-            },
-          },
-        ),
-      );
-
-      this.logger.log('Warehouse transfer submitted successfully');
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(
-        `Error submitting warehouse transfer: ${error?.message || error}`,
-      );
-      if (error?.response) {
-        this.logger.error(
-          `Warehouse transfer error response status: ${error.response.status}`,
-        );
-        this.logger.error(
-          `Warehouse transfer error response data: ${JSON.stringify(error.response.data)}`,
-        );
-      }
-      throw error;
-    }
+    const data = await this.post(
+      'warehouseTransfer',
+      warehouseTransferData,
+      'warehouse transfer',
+    );
+    this.logger.log('Warehouse transfer submitted successfully');
+    return data;
   }
 
   /**
-   * Gọi API gxtInvoice (Phiếu tạo gộp – xuất tách)
-   * @param gxtInvoiceData - Dữ liệu phiếu tạo gộp/xuất tách
+   * Gọi API salesReturn (Hàng bán trả lại)
+   * @param salesReturnData - Dữ liệu hàng bán trả lại
    */
   async submitSalesReturn(salesReturnData: any): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Gọi API salesReturn với token
-      const response = await firstValueFrom(
-        this.httpService.post(`${this.baseUrl}/salesReturn`, salesReturnData, {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-      );
-
-      this.logger.log('Sales return submitted successfully');
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(
-        `Error submitting sales return: ${error?.message || error}`,
-      );
-
-      // Log chi tiết error response để debug
-      if (error?.response) {
-        this.logger.error(
-          `Sales return error response status: ${error.response.status}`,
-        );
-        this.logger.error(
-          `Sales return error response data: ${JSON.stringify(error.response.data)}`,
-        );
-      }
-      if (error?.config) {
-        this.logger.error(`Sales return request URL: ${error.config.url}`);
-        this.logger.error(
-          `Sales return request payload: ${JSON.stringify(error.config.data)}`,
-        );
-      }
-
-      // Nếu lỗi 401 (Unauthorized), refresh token và retry
-      if (error?.response?.status === 401) {
-        this.logger.log('Token expired, refreshing and retrying...');
-        const newToken = await this.login();
-        if (newToken) {
-          // Retry với token mới
-          try {
-            const retryResponse = await firstValueFrom(
-              this.httpService.post(
-                `${this.baseUrl}/salesReturn`,
-                salesReturnData,
-                {
-                  headers: {
-                    'Content-Type': 'application/json',
-                    Authorization: `Bearer ${newToken}`,
-                  },
-                },
-              ),
-            );
-            this.logger.log(
-              'Sales return submitted successfully after token refresh',
-            );
-            return retryResponse.data;
-          } catch (retryError: any) {
-            this.logger.error(
-              `Error submitting sales return after retry: ${retryError?.message || retryError}`,
-            );
-            throw retryError;
-          }
-        }
-      }
-
-      throw error;
-    }
+    const data = await this.post(
+      'salesReturn',
+      salesReturnData,
+      'sales return',
+    );
+    this.logger.log('Sales return submitted successfully');
+    return data;
   }
 
+  /**
+   * Gọi API gxtInvoice (Phiếu tạo gộp – xuất tách)
+   * @param gxtInvoiceData - Dữ liệu phiếu tạo gộp/xuất tách
+   */
   async submitGxtInvoice(gxtInvoiceData: any): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Gọi API gxtInvoice với token
-      const response = await firstValueFrom(
-        this.httpService.post(`${this.baseUrl}/gxtInvoice`, gxtInvoiceData, {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-      );
-
-      this.logger.log('GxtInvoice submitted successfully');
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(
-        `Error submitting gxtInvoice: ${error?.message || error}`,
-      );
-      if (error?.response) {
-        this.logger.error(`Response status: ${error.response.status}`);
-        this.logger.error(
-          `Response data: ${JSON.stringify(error.response.data)}`,
-        );
-      }
-
-      // Nếu lỗi 401 (Unauthorized), refresh token và retry
-      if (error?.response?.status === 401) {
-        this.logger.log('Token expired, refreshing and retrying gxtInvoice...');
-        const newToken = await this.login();
-        if (newToken) {
-          try {
-            const retryResponse = await firstValueFrom(
-              this.httpService.post(
-                `${this.baseUrl}/gxtInvoice`,
-                gxtInvoiceData,
-                {
-                  headers: {
-                    'Content-Type': 'application/json',
-                    Authorization: `Bearer ${newToken}`,
-                  },
-                },
-              ),
-            );
-            this.logger.log('GxtInvoice submitted successfully (after retry)');
-            return retryResponse.data;
-          } catch (retryError: any) {
-            this.logger.error(
-              `Retry gxtInvoice API failed: ${retryError?.message || retryError}`,
-            );
-            throw retryError;
-          }
-        }
-      }
-
-      throw error;
-    }
+    const data = await this.post('gxtInvoice', gxtInvoiceData, 'gxtInvoice');
+    this.logger.log('GxtInvoice submitted successfully');
+    return data;
   }
 
   /**
    * Gọi API Hình thức thanh toán
    */
   async submitPaymentMethod(paymentMethodData: any): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Gọi API paymentMethod với token
-      const response = await firstValueFrom(
-        this.httpService.post(
-          `${this.baseUrl}/paymentMethod`,
-          paymentMethodData,
-          {
-            headers: {
-              'Content-Type': 'application/json',
-              Authorization: `Bearer ${token}`,
-            },
-          },
-        ),
-      );
-
-      this.logger.log('Payment method submitted successfully');
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(
-        `Error submitting payment method: ${error?.message || error}`,
-      );
-      if (error?.response) {
-        this.logger.error(`Response status: ${error.response.status}`);
-        this.logger.error(
-          `Response data: ${JSON.stringify(error.response.data)}`,
-        );
-      }
-
-      // Nếu lỗi 401 (Unauthorized), refresh token và retry
-      if (error?.response?.status === 401) {
-        this.logger.log(
-          'Token expired, refreshing and retrying payment method...',
-        );
-        const newToken = await this.login();
-        if (newToken) {
-          try {
-            const retryResponse = await firstValueFrom(
-              this.httpService.post(
-                `${this.baseUrl}/paymentMethod`,
-                paymentMethodData,
-                {
-                  headers: {
-                    'Content-Type': 'application/json',
-                    Authorization: `Bearer ${newToken}`,
-                  },
-                },
-              ),
-            );
-            this.logger.log(
-              'Payment method submitted successfully (after retry)',
-            );
-            return retryResponse.data;
-          } catch (retryError: any) {
-            this.logger.error(
-              `Retry payment method API failed: ${retryError?.message || retryError}`,
-            );
-            throw retryError;
-          }
-        }
-      }
-
-      throw error;
-    }
+    const data = await this.post(
+      'paymentMethod',
+      paymentMethodData,
+      'payment method',
+    );
+    this.logger.log('Payment method submitted successfully');
+    return data;
   }
 
   /**
@@ -1375,160 +710,57 @@ export class FastApiClientService implements OnModuleInit, OnModuleDestroy {
     active?: string;
     action?: string;
   }): Promise<any> {
+    // Chỉ gửi các field có giá trị
+    const payload: any = {
+      ma_vt: serialData.ma_vt,
+      ma_serial: serialData.ma_serial,
+      ten_serial: serialData.ten_serial,
+      action: serialData.action || '0',
+    };
+
+    if (serialData.ghi_chu) payload.ghi_chu = serialData.ghi_chu;
+    if (serialData.active !== undefined) payload.active = serialData.active;
+
+    const data = await this.post(
+      'Serial',
+      payload,
+      `serial ${serialData.ma_serial} for item ${serialData.ma_vt}`,
+    );
+
+    this.logger.log(
+      `Serial ${serialData.ma_serial} for item ${serialData.ma_vt} created/updated successfully in Fast API`,
+    );
+
+    // [NEW] Sync sang Loyalty API
     try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Chỉ gửi các field có giá trị
-      const payload: any = {
+      await this.loyaltyService.createSerial({
         ma_vt: serialData.ma_vt,
         ma_serial: serialData.ma_serial,
         ten_serial: serialData.ten_serial,
-        action: serialData.action || '0',
-      };
-
-      if (serialData.ghi_chu) payload.ghi_chu = serialData.ghi_chu;
-      if (serialData.active !== undefined) payload.active = serialData.active;
-
-      // Gọi API Serial với token
-      const response = await firstValueFrom(
-        this.httpService.post(`${this.baseUrl}/Serial`, payload, {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-      );
-
+        ghi_chu: serialData.ghi_chu || '',
+      });
       this.logger.log(
-        `Serial ${serialData.ma_serial} for item ${serialData.ma_vt} created/updated successfully in Fast API`,
+        `Serial ${serialData.ma_serial} synced to Loyalty API successfully`,
       );
-
-      // [NEW] Sync sang Loyalty API
-      try {
-        await this.loyaltyService.createSerial({
-          ma_vt: serialData.ma_vt,
-          ma_serial: serialData.ma_serial,
-          ten_serial: serialData.ten_serial,
-          ghi_chu: serialData.ghi_chu || '',
-        });
-        this.logger.log(
-          `Serial ${serialData.ma_serial} synced to Loyalty API successfully`,
-        );
-      } catch (loyaltyError: any) {
-        this.logger.warn(
-          `Failed to sync serial to Loyalty API: ${loyaltyError?.message || loyaltyError}`,
-        );
-        // Không block flow chính nếu loyalty sync fail
-      }
-
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(
-        `Error creating/updating serial ${serialData.ma_serial} for item ${serialData.ma_vt}: ${error?.message || error}`,
+    } catch (loyaltyError: any) {
+      this.logger.warn(
+        `Failed to sync serial to Loyalty API: ${loyaltyError?.message || loyaltyError}`,
       );
-
-      // Nếu lỗi 401 (Unauthorized), refresh token và retry
-      if (error?.response?.status === 401) {
-        this.logger.log('Token expired, refreshing and retrying serial API...');
-        const newToken = await this.login();
-        if (newToken) {
-          try {
-            const payload: any = {
-              ma_vt: serialData.ma_vt,
-              ma_serial: serialData.ma_serial,
-              ten_serial: serialData.ten_serial,
-              action: serialData.action || '0',
-            };
-            if (serialData.ghi_chu) payload.ghi_chu = serialData.ghi_chu;
-            if (serialData.active !== undefined)
-              payload.active = serialData.active;
-
-            const retryResponse = await firstValueFrom(
-              this.httpService.post(`${this.baseUrl}/Serial`, payload, {
-                headers: {
-                  'Content-Type': 'application/json',
-                  Authorization: `Bearer ${newToken}`,
-                },
-              }),
-            );
-            this.logger.log(
-              `Serial ${serialData.ma_serial} for item ${serialData.ma_vt} created/updated successfully (after retry)`,
-            );
-            return retryResponse.data;
-          } catch (retryError) {
-            this.logger.error(`Retry serial API failed: ${retryError}`);
-            throw retryError;
-          }
-        }
-      }
-
-      throw error;
+      // Không block flow chính nếu loyalty sync fail
     }
+
+    return data;
   }
 
-  /**
-   * Cleanup khi module bị destroy
-   */
   /**
    * Gọi API POCharges (Phí đơn hàng)
    * 2.25/ Phí đơn hàng
    */
   async submitPOCharges(payload: any): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Gọi API POCharges với token
-      const endpoint = `${this.baseUrl}/POCharges`;
-      this.logger.log(`Calling FastAPI endpoint: ${endpoint}`);
-
-      const response = await firstValueFrom(
-        this.httpService.post(endpoint, payload, {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-      );
-
-      this.logger.log('POCharges submitted successfully');
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(
-        `Error submitting POCharges: ${error?.message || error}`,
-      );
-
-      // Nếu lỗi 401 (Unauthorized), refresh token và retry
-      if (error?.response?.status === 401) {
-        this.logger.log('Token expired, refreshing and retrying POCharges API...');
-        const newToken = await this.login();
-        if (newToken) {
-          try {
-            const retryResponse = await firstValueFrom(
-              this.httpService.post(`${this.baseUrl}/POCharges`, payload, {
-                headers: {
-                  'Content-Type': 'application/json',
-                  Authorization: `Bearer ${newToken}`,
-                },
-              }),
-            );
-            return retryResponse.data;
-          } catch (retryError) {
-            this.logger.error(`Retry POCharges API failed: ${retryError}`);
-            throw retryError;
-          }
-        }
-      }
-
-      throw error;
-    }
+    this.logger.log(`Calling FastAPI endpoint: ${this.baseUrl}/POCharges`);
+    const data = await this.post('POCharges', payload, 'POCharges');
+    this.logger.log('POCharges submitted successfully');
+    return data;
   }
 
   /**
@@ -1536,59 +768,15 @@ export class FastApiClientService implements OnModuleInit, OnModuleDestroy {
    * 2.27/ Đơn hàng nhập khẩu
    */
   async syncPurchaseOrder(payload: any): Promise<any> {
-    try {
-      // Lấy token (tự động refresh nếu cần)
-      const token = await this.getToken();
-      if (!token) {
-        throw new Error('Không thể lấy token đăng nhập');
-      }
-
-      // Gọi API PO2 với token
-      const endpoint = `${this.baseUrl}/PO2`;
-      this.logger.log(`Calling FastAPI endpoint: ${endpoint}`);
-
-      const response = await firstValueFrom(
-        this.httpService.post(endpoint, payload, {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-      );
-
-      this.logger.log('PO2 submitted successfully');
-      return response.data;
-    } catch (error: any) {
-      this.logger.error(
-        `Error submitting PO2: ${error?.message || error}`,
-      );
-
-      // Nếu lỗi 401 (Unauthorized), refresh token và retry
-      if (error?.response?.status === 401) {
-        this.logger.log('Token expired, refreshing and retrying PO2 API...');
-        const newToken = await this.login();
-        if (newToken) {
-          try {
-            const retryResponse = await firstValueFrom(
-              this.httpService.post(`${this.baseUrl}/PO2`, payload, {
-                headers: {
-                  'Content-Type': 'application/json',
-                  Authorization: `Bearer ${newToken}`,
-                },
-              }),
-            );
-            return retryResponse.data;
-          } catch (retryError) {
-            this.logger.error(`Retry PO2 API failed: ${retryError}`);
-            throw retryError;
-          }
-        }
-      }
-
-      throw error;
-    }
+    this.logger.log(`Calling FastAPI endpoint: ${this.baseUrl}/PO2`);
+    const data = await this.post('PO2', payload, 'PO2');
+    this.logger.log('PO2 submitted successfully');
+    return data;
   }
 
+  /**
+   * Cleanup khi module bị destroy
+   */
   onModuleDestroy() {
     this.stopAutoRefresh();
   }
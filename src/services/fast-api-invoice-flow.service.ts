@@ -10,11 +10,10 @@ import { CategoriesService } from '../modules/categories/categories.service';
 import { SyncService } from '../modules/sync/sync.service';
 import { N8nService } from './n8n.service';
 import { LoyaltyService } from './loyalty.service';
-import { Repository } from 'typeorm';
-import { InjectRepository } from '@nestjs/typeorm';
-import { PaymentSyncLog } from '../entities/payment-sync-log.entity';
 import { FastApiPayloadHelper } from './fast-api-payload.helper';
 import { InvoiceLogicUtils } from '../utils/invoice-logic.utils';
+import { mapCompanyToBrand } from '../utils/sales.utils';
+import { PaymentPartnerRegistryService } from '../modules/payment-partners/payment-partner-registry.service';
 
 /**
  * Service quản lý tạo invoice trong Fast API
@@ -30,9 +29,8 @@ export class FastApiInvoiceFlowService {
     @Inject(forwardRef(() => SyncService))
     private readonly syncService: SyncService,
     private readonly loyaltyService: LoyaltyService,
-    @InjectRepository(PaymentSyncLog)
-    private readonly paymentSyncLogRepository: Repository<PaymentSyncLog>,
     private readonly n8nService: N8nService,
+    private readonly paymentPartnerRegistryService: PaymentPartnerRegistryService,
   ) { }
 
   /**
@@ -135,12 +133,7 @@ export class FastApiInvoiceFlowService {
     options?: { skipLotSync?: boolean; skipCustomerSync?: boolean },
   ): Promise<any> {
     try {
-      const cleanOrderData = FastApiPayloadHelper.buildCleanPayload(
-        orderData,
-        action,
-      );
-      const finalPayload =
-        FastApiPayloadHelper.removeEmptyFields(cleanOrderData);
+      const finalPayload = this.buildSalesOrderPayload(orderData, action);
       const dataPromotion = finalPayload.detail.filter(
         (item) => item.ma_ck01 || item.ma_ctkm_th,
       );
@@ -222,6 +215,37 @@ export class FastApiInvoiceFlowService {
     }
   }
 
+  /**
+   * Payload salesOrder gửi sang Fast (dùng chung cho tạo chứng từ và preview)
+   */
+  buildSalesOrderPayload(orderData: any, action: number = 0): any {
+    const cleanOrderData = FastApiPayloadHelper.buildCleanPayload(
+      orderData,
+      action,
+    );
+    return FastApiPayloadHelper.removeEmptyFields(cleanOrderData);
+  }
+
+  /**
+   * Payload salesInvoice gửi sang Fast (giống salesOrder nhưng action luôn = 0)
+   */
+  buildSalesInvoicePayload(invoiceData: any): any {
+    const cleanInvoiceData = FastApiPayloadHelper.buildCleanPayload(
+      invoiceData,
+      0,
+      'saleInvoice',
+    );
+    return FastApiPayloadHelper.removeEmptyFields(cleanInvoiceData);
+  }
+
+  buildSalesReturnPayload(salesReturnData: any): any {
+    return FastApiPayloadHelper.removeEmptyFields(salesReturnData, false);
+  }
+
+  buildGxtInvoicePayload(gxtInvoiceData: any): any {
+    return FastApiPayloadHelper.removeEmptyFields(gxtInvoiceData, false);
+  }
+
   async callPromotion(promotionData: any): Promise<any> {
     try {
       return await this.fastApiService.callPromotion(promotionData);
@@ -349,14 +373,7 @@ export class FastApiInvoiceFlowService {
         await this.syncMissingLotSerial(invoiceData);
       }
 
-      // Build clean payload (giống salesOrder nhưng action luôn = 0)
-      const cleanInvoiceData = FastApiPayloadHelper.buildCleanPayload(
-        invoiceData,
-        0,
-        'saleInvoice',
-      );
-      const finalPayload =
-        FastApiPayloadHelper.removeEmptyFields(cleanInvoiceData);
+      const finalPayload = this.buildSalesInvoicePayload(invoiceData);
 
       // [NEW] Strict Validation
       FastApiPayloadHelper.validateSalesInvoice(finalPayload);
@@ -417,10 +434,7 @@ export class FastApiInvoiceFlowService {
       `[Flow] Creating sales return ${salesReturnData.so_ct || 'N/A'}...`,
     );
     try {
-      const finalPayload = FastApiPayloadHelper.removeEmptyFields(
-        salesReturnData,
-        false,
-      );
+      const finalPayload = this.buildSalesReturnPayload(salesReturnData);
 
       // [NEW] Strict Validation
       FastApiPayloadHelper.validateSalesReturn(finalPayload);
@@ -487,10 +501,7 @@ export class FastApiInvoiceFlowService {
       `[Flow] Creating gxt invoice ${gxtInvoiceData.so_ct || 'N/A'}...`,
     );
     try {
-      const finalPayload = FastApiPayloadHelper.removeEmptyFields(
-        gxtInvoiceData,
-        false,
-      );
+      const finalPayload = this.buildGxtInvoicePayload(gxtInvoiceData);
 
       const result = await this.fastApiService.submitGxtInvoice(finalPayload);
 
@@ -629,6 +640,20 @@ export class FastApiInvoiceFlowService {
         return;
       }
 
+      const maDvcsPt =
+        data.fop_syscode === 'CASH'
+          ? data.ma_dvcs_sale || ''
+          : data.ma_dvcs_cashio || '';
+
+      // Mã NCC theo cấu hình payment_partners (ưu tiên override theo brand / ma_dvcs)
+      const supplierCode =
+        await this.paymentPartnerRegistryService.resolveSupplierCode({
+          partnerCode: data.ma_doi_tac ?? data.ma_doi_tac_payment,
+          fopSyscode: data.fop_syscode,
+          brand: mapCompanyToBrand(data.company),
+          maDvcs: maDvcsPt,
+        });
+
       // Map data from PaymentService to Fast API payload structure
       const payload = {
         httt: data.fop_syscode,
@@ -641,14 +666,11 @@ export class FastApiInvoiceFlowService {
         ngay_hd: data.docDate,
         tien_hd: Number(data.revenue || 0),
         ma_bp: data.branch_code_cashio || '',
-        ma_dvcs_pt:
-          data.fop_syscode === 'CASH'
-            ? data.ma_dvcs_sale || ''
-            : data.ma_dvcs_cashio || '',
+        ma_dvcs_pt: maDvcsPt,
         ma_dvcs_hd: data.ma_dvcs_sale || '',
         ma_ca: data.maCa || '',
         ma_kh: data.partnerCode || '',
-        ma_kh2: data.ma_doi_tac_payment || '', // Đối tác
+        ma_kh2: supplierCode || '', // Đối tác
         ma_tc: data.refno || data.so_code || '', // Mã tham chiếu cũng fallback về so_code
         ky_han: data.period_code || '',
       };
@@ -668,48 +690,13 @@ export class FastApiInvoiceFlowService {
   }
 
   /**
-   * Gửi thông tin hình thức thanh toán lên Fast API và lưu log audit
-   * API: /Fast/paymentMethod
+   * Gửi thông tin hình thức thanh toán lên Fast API
+   * API: /Fast/paymentMethod (audit ghi tại FastApiClientService - integration_audit_logs)
    */
   async submitPaymentPayload(payload: any): Promise<any> {
     try {
       const result = await this.fastApiService.submitPaymentMethod(payload);
 
-      // Audit Logging
-      try {
-        const log = new PaymentSyncLog();
-        log.docCode = payload.so_hd;
-        log.docDate = payload.ngay_pt ? new Date(payload.ngay_pt) : new Date();
-        log.requestPayload = JSON.stringify(payload);
-        log.responsePayload = JSON.stringify(result);
-
-        // Determine status
-        let isSuccess = false;
-        let errorMessage = null;
-
-        if (Array.isArray(result) && result.length > 0) {
-          // Case: Response is an array like [{ status: 1, message: 'OK' }]
-          const firstItem = result[0];
-          isSuccess = firstItem.status === 1;
-          if (!isSuccess) {
-            errorMessage = firstItem.message || 'Unknown error (status !== 1)';
-          }
-        } else if (result && typeof result === 'object') {
-          // Case: Response is an object like { status: 1, success: true }
-          isSuccess = result.status === 1 || result.success === true;
-          if (!isSuccess) {
-            errorMessage = result.message || result.error || 'Unknown error';
-          }
-        }
-
-        log.status = isSuccess ? 'SUCCESS' : 'ERROR';
-        log.errorMessage = errorMessage;
-
-        await this.paymentSyncLogRepository.save(log);
-      } catch (logErr) {
-        this.logger.error(`Failed to save payment sync log: ${logErr}`);
-      }
-
       // Validate response logic from original code
       if (Array.isArray(result) && result.length > 0) {
         const firstItem = result[0];
@@ -728,21 +715,6 @@ export class FastApiInvoiceFlowService {
 
       return result;
     } catch (error) {
-      // Audit Logging for Exception
-      try {
-        const log = new PaymentSyncLog();
-        log.docCode = payload.so_hd;
-        log.docDate = payload.ngay_pt ? new Date(payload.ngay_pt) : new Date();
-        log.requestPayload = JSON.stringify(payload);
-        log.status = 'ERROR';
-        log.errorMessage = error.message;
-        await this.paymentSyncLogRepository.save(log);
-      } catch (logErr) {
-        this.logger.error(
-          `Failed to save payment sync log (exception): ${logErr}`,
-        );
-      }
-
       this.logger.error(
         `[Flow] Failed to submit payment method: ${error?.message || error}`,
       );
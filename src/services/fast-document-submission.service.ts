@@ -0,0 +1,364 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, Not } from 'typeorm';
+import { FastDocumentSubmission } from '../entities/fast-document-submission.entity';
+import {
+  FAST_REVERSAL_STATUS,
+  FastDocumentReversal,
+} from '../entities/fast-document-reversal.entity';
+import { ACTION } from '../modules/sales/constants/sales-invoice.constants';
+import {
+  FAST_DOCUMENT_ENDPOINTS,
+  FAST_REVERSIBLE_ENDPOINTS,
+  FAST_SUBMISSION_IN_FLIGHT_TIMEOUT_MS,
+  FAST_SUBMISSION_STATUS,
+  FastSubmissionStatus,
+  buildFastIdempotencyKey,
+  hashFastPayload,
+  resolveFastAction,
+  resolveFastDocCode,
+  resolveFastReversalDocCode,
+} from '../utils/fast-idempotency.utils';
+
+/**
+ * Sổ idempotency cho chứng từ gửi sang Fast.
+ * Mỗi lần gửi được ghi nhận theo key docCode + loại chứng từ + hash payload:
+ * - Key đã SUCCESS: không gọi lại Fast, trả về response đã lưu
+ * - Key UNKNOWN (timeout sau khi gửi): chặn gửi lại cho tới khi được đối soát
+ * - Key REJECTED / FAILED: cho phép gửi lại
+ * Chứng từ đã huỷ (fast_document_reversals) bị chặn gửi lại cho tới khi được mở lại
+ */
+@Injectable()
+export class FastDocumentSubmissionService {
+  private readonly logger = new Logger(FastDocumentSubmissionService.name);
+
+  constructor(
+    @InjectRepository(FastDocumentSubmission)
+    private submissionRepository: Repository<FastDocumentSubmission>,
+    @InjectRepository(FastDocumentReversal)
+    private reversalRepository: Repository<FastDocumentReversal>,
+  ) {}
+
+  /**
+   * Giữ key trước khi gọi Fast
+   * @returns null nếu endpoint không phải chứng từ (không cần idempotency),
+   * { replay } nếu chứng từ đã gửi thành công trước đó,
+   * { submission } nếu được phép gọi Fast
+   */
+  async begin(
+    documentKind: string,
+    payload: any,
+  ): Promise<{ submission?: FastDocumentSubmission; replay?: any } | null> {
+    await this.assertNotReversed(documentKind, payload);
+
+    if (!FAST_DOCUMENT_ENDPOINTS.includes(documentKind)) {
+      return null;
+    }
+    const docCode = resolveFastDocCode(payload);
+    if (!docCode) {
+      return null;
+    }
+
+    const payloadHash = hashFastPayload(payload);
+    const idempotencyKey = buildFastIdempotencyKey(
+      documentKind,
+      docCode,
+      payloadHash,
+    );
+    const existing = await this.submissionRepository.findOne({
+      where: { idempotencyKey },
+    });
+
+    if (!existing) {
+      try {
+        const submission = await this.submissionRepository.save(
+          this.submissionRepository.create({
+            idempotencyKey,
+            docCode,
+            documentKind,
+            payloadHash,
+            status: FAST_SUBMISSION_STATUS.IN_FLIGHT,
+          }),
+        );
+        return { submission };
+      } catch (error: any) {
+        // 23505: unique_violation - một process khác vừa giữ cùng key
+        if (error?.code === '23505') {
+          throw new Error(
+            `${documentKind} ${docCode} đang được gửi sang Fast bởi tiến trình khác`,
+          );
+        }
+        throw error;
+      }
+    }
+
+    switch (existing.status) {
+      case FAST_SUBMISSION_STATUS.SUCCESS:
+        this.logger.log(
+          `[Idempotency] ${documentKind} ${docCode} đã gửi thành công trước đó, bỏ qua gọi Fast`,
+        );
+        return { replay: this.parseResponse(existing.fastApiResponse) };
+
+      case FAST_SUBMISSION_STATUS.UNKNOWN:
+        throw new Error(this.unknownMessage(existing));
+
+      case FAST_SUBMISSION_STATUS.IN_FLIGHT: {
+        const inFlightFor = Date.now() - existing.updatedAt.getTime();
+        if (inFlightFor < FAST_SUBMISSION_IN_FLIGHT_TIMEOUT_MS) {
+          throw new Error(
+            `${documentKind} ${docCode} đang được gửi sang Fast bởi tiến trình khác`,
+          );
+        }
+        // Process gửi trước đó đã chết giữa chừng: không biết Fast đã nhận hay chưa
+        await this.complete(
+          existing,
+          FAST_SUBMISSION_STATUS.UNKNOWN,
+          null,
+          'Tiến trình gửi bị gián đoạn',
+        );
+        throw new Error(this.unknownMessage(existing));
+      }
+
+      default: {
+        // REJECTED / FAILED: giữ lại key, chỉ một tiến trình được gửi lại
+        const claim = await this.submissionRepository.update(
+          { id: existing.id, status: existing.status },
+          { status: FAST_SUBMISSION_STATUS.IN_FLIGHT, lastErrorMessage: null },
+        );
+        if (!claim.affected) {
+          throw new Error(
+            `${documentKind} ${docCode} đang được gửi sang Fast bởi tiến trình khác`,
+          );
+        }
+        existing.status = FAST_SUBMISSION_STATUS.IN_FLIGHT;
+        return { submission: existing };
+      }
+    }
+  }
+
+  /**
+   * Chặn gửi lại chứng từ đã huỷ trên Fast (trừ chính chứng từ huỷ)
+   */
+  async assertNotReversed(documentKind: string, payload: any): Promise<void> {
+    if (
+      !FAST_REVERSIBLE_ENDPOINTS.includes(documentKind) ||
+      resolveFastAction(payload) === ACTION.CANCEL_UPDATE
+    ) {
+      return;
+    }
+    const docCode = resolveFastReversalDocCode(documentKind, payload);
+    if (!docCode) {
+      return;
+    }
+
+    const reversal = await this.reversalRepository.findOne({
+      where: {
+        documentKind,
+        docCode,
+        status: In([
+          FAST_REVERSAL_STATUS.SUBMITTING,
+          FAST_REVERSAL_STATUS.REVERSED,
+        ]),
+      },
+      select: ['id', 'status'],
+    });
+    if (reversal) {
+      throw new BadRequestException(
+        `${documentKind} ${docCode} đã được huỷ trên Fast (reversal ${reversal.id}). Cần mở lại trước khi gửi lại`,
+      );
+    }
+  }
+
+  /**
+   * Sau khi huỷ thành công: các key SUCCESS của chứng từ gốc chuyển FAILED
+   * để khi mở lại, gửi lại cùng payload sẽ gọi Fast thay vì trả response cũ
+   */
+  async releaseReversedKeys(
+    documentKind: string,
+    docCode: string,
+    reversalKey: string | null,
+    note: string,
+  ): Promise<number> {
+    const result = await this.submissionRepository.update(
+      {
+        documentKind,
+        docCode,
+        status: FAST_SUBMISSION_STATUS.SUCCESS,
+        ...(reversalKey && { idempotencyKey: Not(reversalKey) }),
+      },
+      { status: FAST_SUBMISSION_STATUS.FAILED, lastErrorMessage: note },
+    );
+    return result.affected || 0;
+  }
+
+  /**
+   * Tăng số lần gọi Fast thực tế của key
+   */
+  async recordAttempt(submission: FastDocumentSubmission): Promise<void> {
+    submission.attempts += 1;
+    await this.submissionRepository.update(submission.id, {
+      attempts: () => 'attempts + 1',
+    });
+  }
+
+  /**
+   * Lưu kết quả lần gửi
+   */
+  async complete(
+    submission: FastDocumentSubmission,
+    status: FastSubmissionStatus,
+    response: any,
+    errorMessage?: string | null,
+  ): Promise<void> {
+    submission.status = status;
+    await this.submissionRepository.update(submission.id, {
+      status,
+      fastApiResponse:
+        response !== null && response !== undefined
+          ? JSON.stringify(response)
+          : null,
+      lastErrorMessage: errorMessage || null,
+    });
+  }
+
+  /**
+   * Key của lần gửi gần nhất cho docCode (lưu kèm FastApiInvoice / WarehouseProcessed)
+   */
+  async getLatestKey(
+    docCode: string,
+    documentKinds?: string[],
+  ): Promise<string | null> {
+    const submission = await this.submissionRepository.findOne({
+      where: {
+        docCode,
+        ...(documentKinds && { documentKind: In(documentKinds) }),
+      },
+      order: { updatedAt: 'DESC' },
+      select: ['id', 'idempotencyKey'],
+    });
+    return submission?.idempotencyKey || null;
+  }
+
+  async findSubmissions(params: {
+    docCode?: string;
+    documentKind?: string;
+    status?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const page = params.page || 1;
+    const limit = params.limit || 50;
+
+    const queryBuilder =
+      this.submissionRepository.createQueryBuilder('submission');
+
+    if (params.docCode) {
+      queryBuilder.andWhere('submission.docCode ILIKE :docCode', {
+        docCode: `%${params.docCode}%`,
+      });
+    }
+    if (params.documentKind) {
+      queryBuilder.andWhere('submission.documentKind = :documentKind', {
+        documentKind: params.documentKind,
+      });
+    }
+    if (params.status) {
+      queryBuilder.andWhere('submission.status = :status', {
+        status: params.status.toUpperCase(),
+      });
+    }
+
+    const [data, total] = await queryBuilder
+      .orderBy('submission.updatedAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      data,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async findSubmission(id: string) {
+    const submission = await this.submissionRepository.findOne({
+      where: { id },
+    });
+    if (!submission) {
+      throw new NotFoundException(`Fast submission ${id} not found`);
+    }
+    return submission;
+  }
+
+  /**
+   * Đối soát thủ công key UNKNOWN sau khi kiểm tra trên Fast
+   * - SUCCESS: chứng từ đã có trên Fast, lần gửi sau sẽ bỏ qua gọi Fast
+   * - FAILED: chứng từ chưa có trên Fast, cho phép gửi lại
+   */
+  async reconcile(
+    id: string,
+    data: { outcome: string; guid?: string; note?: string },
+  ) {
+    const submission = await this.findSubmission(id);
+    const outcome = (data.outcome || '').toUpperCase();
+
+    if (
+      outcome !== FAST_SUBMISSION_STATUS.SUCCESS &&
+      outcome !== FAST_SUBMISSION_STATUS.FAILED
+    ) {
+      throw new BadRequestException('outcome phải là SUCCESS hoặc FAILED');
+    }
+    if (
+      submission.status !== FAST_SUBMISSION_STATUS.UNKNOWN &&
+      submission.status !== FAST_SUBMISSION_STATUS.IN_FLIGHT
+    ) {
+      throw new BadRequestException(
+        `Chỉ đối soát được lần gửi UNKNOWN hoặc IN_FLIGHT (hiện tại: ${submission.status})`,
+      );
+    }
+
+    submission.status = outcome;
+    submission.reconcileNote = data.note || null;
+    submission.reconciledAt = new Date();
+    if (outcome === FAST_SUBMISSION_STATUS.SUCCESS) {
+      // Response giả lập để flow tạo hóa đơn ghi nhận thành công khi chạy lại
+      submission.fastApiResponse = JSON.stringify([
+        {
+          status: 1,
+          message: 'Đã đối soát thủ công',
+          guid: data.guid || null,
+        },
+      ]);
+    }
+
+    this.logger.log(
+      `[Idempotency] Đối soát ${submission.idempotencyKey}: ${outcome}`,
+    );
+    return this.submissionRepository.save(submission);
+  }
+
+  private parseResponse(response: string | null): any {
+    if (!response) {
+      return null;
+    }
+    try {
+      return JSON.parse(response);
+    } catch {
+      return response;
+    }
+  }
+
+  private unknownMessage(submission: FastDocumentSubmission): string {
+    return `${submission.documentKind} ${submission.docCode} có thể đã được Fast ghi nhận (lần gửi trước bị timeout). Cần đối soát submission ${submission.id} trước khi gửi lại`;
+  }
+}
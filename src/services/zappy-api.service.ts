@@ -8,6 +8,8 @@ import {
   convertOrderToOrderLineFormat,
   convertOrderToOrderLineFormatPOS,
 } from 'src/utils/convert.utils';
+import { BrandRegistryService } from '../modules/brands/brand-registry.service';
+import { BRAND_SALES_SOURCES } from '../modules/brands/constants/brand.constants';
 
 /**
  * Service để gọi API từ Zappy và transform dữ liệu
@@ -18,31 +20,24 @@ export class ZappyApiService {
   private readonly DEFAULT_ZAPPY_API_BASE_URL =
     process.env.ZAPPY_API_BASE_URL || 'https://zappy.io.vn/ords/vmt/api';
 
-  // Map brand name to Zappy API base URL
-  private readonly brandApiUrls: Record<string, string> = {
-    f3: 'https://zappy.io.vn/ords/vmt/api',
-    labhair: 'https://zappy.io.vn/ords/labhair/api',
-    yaman: 'https://zappy.io.vn/ords/yaman/api',
-    menard: 'https://vmterp.com/ords/erp/retail/api',
-  };
-
-  constructor(private readonly httpService: HttpService) { }
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly brandRegistryService: BrandRegistryService,
+  ) { }
 
   /**
-   * Lấy base URL cho brand
+   * Lấy base URL cho brand (cấu hình zappyApiUrl trong bảng brands)
    */
-  private getBaseUrlForBrand(brand?: string): string {
-    if (brand && this.brandApiUrls[brand.toLowerCase()]) {
-      return this.brandApiUrls[brand.toLowerCase()];
-    }
-    return this.DEFAULT_ZAPPY_API_BASE_URL;
+  private async getBaseUrlForBrand(brand?: string): Promise<string> {
+    const brandUrl = await this.brandRegistryService.getZappyApiUrl(brand);
+    return brandUrl || this.DEFAULT_ZAPPY_API_BASE_URL;
   }
 
   /**
    * Lấy dữ liệu bán buôn theo NGÀY
    */
   public async getDailyWsale(date: string, brand?: string): Promise<Order[]> {
-    const baseUrl = this.getBaseUrlForBrand(brand);
+    const baseUrl = await this.getBaseUrlForBrand(brand);
 
     try {
       const url = `${baseUrl}/get_daily_wsale?P_DATE=${date}`;
@@ -75,7 +70,8 @@ export class ZappyApiService {
     const formattedDate = convertDate(date);
     try {
       const orderChando: any[] = [];
-      if (brand === 'chando') {
+      const salesSource = await this.brandRegistryService.getSalesSource(brand);
+      if (salesSource === BRAND_SALES_SOURCES.ECS) {
         const urlOrder = 'https://ecs.vmt.vn/api/sale-orders';
         const responseOrder = await axios.post(
           urlOrder,
@@ -124,7 +120,7 @@ export class ZappyApiService {
         orderChando.push(...orderChandoPOS);
         return this.transformZappySalesToOrders(orderChando);
       } else {
-        const baseUrl = this.getBaseUrlForBrand(brand);
+        const baseUrl = await this.getBaseUrlForBrand(brand);
         const url = `${baseUrl}/get_daily_sale?P_DATE=${date}`;
 
         const response = await firstValueFrom(
@@ -184,12 +180,9 @@ export class ZappyApiService {
    */
   async getDailyCash(date: string, brand?: string): Promise<any[]> {
     try {
-      const baseUrl = this.getBaseUrlForBrand(brand);
-      // labhair, yaman, menard dùng get_daily_cashio, f3 và default dùng get_daily_cash
-      const brandLower = brand?.toLowerCase();
-      const endpoint = ['labhair', 'yaman', 'menard'].includes(brandLower || '')
-        ? 'get_daily_cashio'
-        : 'get_daily_cash';
+      const baseUrl = await this.getBaseUrlForBrand(brand);
+      // Endpoint phiếu thu theo brand (brands.cashioEndpoint)
+      const endpoint = await this.brandRegistryService.getCashioEndpoint(brand);
       const url = `${baseUrl}/${endpoint}?P_DATE=${date}`;
 
       const response = await firstValueFrom(
@@ -215,7 +208,7 @@ export class ZappyApiService {
    */
   async getShiftEndCash(date: string, brand?: string): Promise<any[]> {
     try {
-      const baseUrl = this.getBaseUrlForBrand(brand);
+      const baseUrl = await this.getBaseUrlForBrand(brand);
       const url = `${baseUrl}/get_shift_end_cash?P_DATE=${date}`;
 
       const response = await firstValueFrom(
@@ -252,7 +245,7 @@ export class ZappyApiService {
     brand?: string,
   ): Promise<any[]> {
     try {
-      const baseUrl = this.getBaseUrlForBrand(brand);
+      const baseUrl = await this.getBaseUrlForBrand(brand);
       const url = `${baseUrl}/get_promotion?P_FDATE=${dateFrom}&P_TDATE=${dateTo}`;
 
       const response = await firstValueFrom(
@@ -286,7 +279,7 @@ export class ZappyApiService {
    */
   async getPromotionLine(promotionId: number, brand?: string): Promise<any> {
     try {
-      const baseUrl = this.getBaseUrlForBrand(brand);
+      const baseUrl = await this.getBaseUrlForBrand(brand);
       const url = `${baseUrl}/get_1promotion_line?P_ID=${promotionId}`;
 
       const response = await firstValueFrom(
@@ -351,7 +344,7 @@ export class ZappyApiService {
     brand?: string,
   ): Promise<any[]> {
     try {
-      const baseUrl = this.getBaseUrlForBrand(brand);
+      const baseUrl = await this.getBaseUrlForBrand(brand);
       const url = `${baseUrl}/get_voucher_issue?P_FDATE=${dateFrom}&P_TDATE=${dateTo}`;
 
       const response = await firstValueFrom(
@@ -388,7 +381,7 @@ export class ZappyApiService {
     brand?: string,
   ): Promise<any> {
     try {
-      const baseUrl = this.getBaseUrlForBrand(brand);
+      const baseUrl = await this.getBaseUrlForBrand(brand);
       const url = `${baseUrl}/get_1voucher_issue?P_ID=${voucherIssueId}`;
 
       const response = await firstValueFrom(
@@ -421,7 +414,7 @@ export class ZappyApiService {
     brand?: string,
   ): Promise<any[]> {
     try {
-      const baseUrl = this.getBaseUrlForBrand(brand);
+      const baseUrl = await this.getBaseUrlForBrand(brand);
       const url = `${baseUrl}/get_repack_formula?P_FDATE=${dateFrom}&P_TDATE=${dateTo}`;
 
       const response = await firstValueFrom(
@@ -460,7 +453,7 @@ export class ZappyApiService {
     part?: number,
   ): Promise<any[]> {
     try {
-      const baseUrl = this.getBaseUrlForBrand(brand);
+      const baseUrl = await this.getBaseUrlForBrand(brand);
       let url = `${baseUrl}/get_daily_stock_trans?P_DATE=${date}`;
 
       // Thêm P_PART nếu có
@@ -499,7 +492,7 @@ export class ZappyApiService {
    */
   async getDailyPO(date: string, brand?: string): Promise<any[]> {
     try {
-      const baseUrl = this.getBaseUrlForBrand(brand);
+      const baseUrl = await this.getBaseUrlForBrand(brand);
       const url = `${baseUrl}/get_daily_po?P_DATE=${date}`;
 
       const response = await firstValueFrom(
@@ -533,7 +526,7 @@ export class ZappyApiService {
    */
   async getDailyGR(date: string, brand?: string): Promise<any[]> {
     try {
-      const baseUrl = this.getBaseUrlForBrand(brand);
+      const baseUrl = await this.getBaseUrlForBrand(brand);
       const url = `${baseUrl}/get_daily_gr?P_DATE=${date}`;
 
       const response = await firstValueFrom(
@@ -568,7 +561,7 @@ export class ZappyApiService {
    */
   async getPartnerFromSvc(serial: string, brand?: string): Promise<any | null> {
     if (!serial || serial.trim() === '') return null;
-    const baseUrl = this.getBaseUrlForBrand(brand);
+    const baseUrl = await this.getBaseUrlForBrand(brand);
     const url = `${baseUrl}/get_partner_from_svc?P_SERIAL=${encodeURIComponent(serial.trim())}`;
     try {
       const response = await firstValueFrom(
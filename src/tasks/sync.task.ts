@@ -9,6 +9,8 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Sale } from '../entities/sale.entity';
 import { ZappyApiService } from 'src/services/zappy-api.service';
+import { BrandRegistryService } from '../modules/brands/brand-registry.service';
+import { BRAND_SYNC_JOBS } from '../modules/brands/constants/brand.constants';
 
 @Injectable()
 export class SyncTask {
@@ -20,6 +22,7 @@ export class SyncTask {
     private readonly salesInvoiceService: SalesInvoiceService,
     @InjectRepository(Sale)
     private saleRepository: Repository<Sale>,
+    private readonly brandRegistryService: BrandRegistryService,
   ) {}
 
   /**
@@ -62,7 +65,9 @@ export class SyncTask {
       const date = this.formatYesterdayDate();
 
       // Đồng bộ dữ liệu xuất kho cho từng brand
-      const brands = ['f3', 'labhair', 'yaman', 'menard'];
+      const brands = await this.brandRegistryService.getBrandCodesForJob(
+        BRAND_SYNC_JOBS.STOCK_TRANSFER,
+      );
       for (const brand of brands) {
         try {
           this.logger.log(
@@ -185,7 +190,9 @@ export class SyncTask {
 
     try {
       // Đồng bộ từng brand tuần tự
-      const brands = ['f3', 'labhair', 'yaman', 'menard', 'chando'];
+      const brands = await this.brandRegistryService.getBrandCodesForJob(
+        BRAND_SYNC_JOBS.SALES,
+      );
       for (const brand of brands) {
         try {
           this.logger.log(
@@ -228,7 +235,9 @@ export class SyncTask {
       const date = this.formatYesterdayDate();
 
       // Đồng bộ báo cáo nộp quỹ cuối ca cho tất cả brands
-      const brands = ['f3', 'labhair', 'yaman', 'menard'];
+      const brands = await this.brandRegistryService.getBrandCodesForJob(
+        BRAND_SYNC_JOBS.SHIFT_END_CASH,
+      );
       const allNewRecordIds: string[] = [];
 
       for (const brand of brands) {
@@ -415,7 +424,9 @@ export class SyncTask {
       );
 
       // Đồng bộ promotion cho tất cả brands
-      const brands = ['f3', 'labhair', 'yaman', 'menard'];
+      const brands = await this.brandRegistryService.getBrandCodesForJob(
+        BRAND_SYNC_JOBS.PROMOTION,
+      );
       for (const brand of brands) {
         try {
           this.logger.log(
@@ -463,7 +474,9 @@ export class SyncTask {
     );
     try {
       const date = this.formatYesterdayDate();
-      const brands = ['menard'];
+      const brands = await this.brandRegistryService.getBrandCodesForJob(
+        BRAND_SYNC_JOBS.WHOLESALE,
+      );
       for (const brand of brands) {
         this.logger.log(
           `[Scheduled Wsale] Đang đồng bộ bán buôn brand ${brand} cho ngày ${date}`,
@@ -0,0 +1,82 @@
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+/**
+ * Utility functions cho xác thực: hash mật khẩu (scrypt) và JWT HS256
+ */
+
+const SCRYPT_KEY_LENGTH = 64;
+
+/**
+ * Hash mật khẩu, kết quả dạng scrypt$<salt>$<hash>
+ */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = (stored || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+const base64Url = (input: Buffer | string): string =>
+  Buffer.from(input).toString('base64url');
+
+const signSegment = (data: string, secret: string): string =>
+  createHmac('sha256', secret).update(data).digest('base64url');
+
+/**
+ * Tạo JWT HS256
+ */
+export function signJwt(
+  payload: Record<string, any>,
+  secret: string,
+  expiresInSeconds: number,
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const body = base64Url(
+    JSON.stringify({ ...payload, iat: now, exp: now + expiresInSeconds }),
+  );
+  return `${header}.${body}.${signSegment(`${header}.${body}`, secret)}`;
+}
+
+/**
+ * Xác thực JWT HS256
+ * @returns payload nếu chữ ký đúng và chưa hết hạn, ngược lại null
+ */
+export function verifyJwt(token: string, secret: string): any {
+  const parts = (token || '').split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+  const [header, body, signature] = parts;
+
+  const expected = Buffer.from(signSegment(`${header}.${body}`, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const decodedHeader = JSON.parse(
+      Buffer.from(header, 'base64url').toString('utf8'),
+    );
+    if (decodedHeader?.alg !== 'HS256') {
+      return null;
+    }
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    if (!payload?.exp || payload.exp < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Utility functions cho retry policy của Fast API
+ */
+
+/**
+ * Phân loại lỗi khi gọi Fast API
+ */
+export const FAST_API_ERROR_KINDS = {
+  TOKEN_EXPIRED: 'TOKEN_EXPIRED', // 401 - đăng nhập lại rồi gọi lại
+  TRANSIENT: 'TRANSIENT', // Network, timeout, 5xx - backoff rồi gọi lại
+  FATAL: 'FATAL', // 4xx khác hoặc lỗi code - không gọi lại
+} as const;
+
+export type FastApiErrorKind =
+  (typeof FAST_API_ERROR_KINDS)[keyof typeof FAST_API_ERROR_KINDS];
+
+const TRANSIENT_NETWORK_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ERR_NETWORK',
+];
+
+const TRANSIENT_HTTP_STATUSES = [408, 429];
+
+/**
+ * Xác định loại lỗi từ error của axios
+ */
+export function classifyFastApiError(error: any): FastApiErrorKind {
+  const httpStatus = error?.response?.status;
+
+  if (httpStatus === 401) {
+    return FAST_API_ERROR_KINDS.TOKEN_EXPIRED;
+  }
+
+  if (httpStatus) {
+    return httpStatus >= 500 || TRANSIENT_HTTP_STATUSES.includes(httpStatus)
+      ? FAST_API_ERROR_KINDS.TRANSIENT
+      : FAST_API_ERROR_KINDS.FATAL;
+  }
+
+  // Không có response: lỗi network / timeout
+  if (error?.isAxiosError || TRANSIENT_NETWORK_CODES.includes(error?.code)) {
+    return FAST_API_ERROR_KINDS.TRANSIENT;
+  }
+
+  return FAST_API_ERROR_KINDS.FATAL;
+}
+
+/**
+ * Lỗi network xảy ra khi request có thể đã tới Fast (timeout, mất kết nối giữa chừng).
+ * Với chứng từ không được tự động gọi lại vì Fast có thể đã ghi nhận.
+ * ECONNREFUSED / EAI_AGAIN / EHOSTUNREACH... là chưa kết nối được nên vẫn an toàn để gọi lại.
+ */
+const AMBIGUOUS_NETWORK_CODES = [
+  'ECONNRESET',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+];
+
+export function isAmbiguousFastApiError(error: any): boolean {
+  return !error?.response && AMBIGUOUS_NETWORK_CODES.includes(error?.code);
+}
+
+/**
+ * Kiểm tra Fast đã nhận request nhưng từ chối về nghiệp vụ (status != 1).
+ * Response dạng [{ status, message }] hoặc { status, message }
+ */
+export function isFastApiBusinessRejection(data: any): boolean {
+  const result = Array.isArray(data) ? data[0] : data;
+  if (!result || typeof result !== 'object' || result.status === undefined) {
+    return false;
+  }
+  return Number(result.status) !== 1;
+}
+
+/**
+ * Lấy message lỗi nghiệp vụ từ response Fast
+ */
+export function getFastApiMessage(data: any): string {
+  const result = Array.isArray(data) ? data[0] : data;
+  return result?.message || '';
+}
+
+/**
+ * Tính delay trước lần gọi tiếp theo: exponential backoff + jitter
+ * Delay nằm trong khoảng [exp/2, exp] với exp = min(maxDelay, baseDelay * 2^(attempt-1))
+ * @param attempt - Số thứ tự lần gọi vừa lỗi (bắt đầu từ 1)
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+): number {
+  const exponential = Math.min(
+    maxDelayMs,
+    baseDelayMs * Math.pow(2, attempt - 1),
+  );
+  return Math.round(exponential / 2 + (Math.random() * exponential) / 2);
+}
@@ -0,0 +1,139 @@
+import { createHash } from 'crypto';
+
+/**
+ * Utility functions cho idempotency key của chứng từ gửi sang Fast
+ */
+
+export const FAST_SUBMISSION_STATUS = {
+  IN_FLIGHT: 'IN_FLIGHT', // Đang gọi Fast
+  SUCCESS: 'SUCCESS', // Fast trả status = 1
+  REJECTED: 'REJECTED', // Fast trả status != 1 - được phép gửi lại
+  FAILED: 'FAILED', // Lỗi chắc chắn Fast chưa ghi nhận - được phép gửi lại
+  UNKNOWN: 'UNKNOWN', // Timeout / mất kết nối sau khi gửi - cần đối soát trước khi gửi lại
+} as const;
+
+export type FastSubmissionStatus =
+  (typeof FAST_SUBMISSION_STATUS)[keyof typeof FAST_SUBMISSION_STATUS];
+
+/**
+ * Các endpoint Fast tạo chứng từ (gửi trùng sẽ sinh chứng từ trùng).
+ * Danh mục (Customer, Item, Lot, ...) là upsert nên không cần idempotency key.
+ */
+export const FAST_DOCUMENT_ENDPOINTS = [
+  'salesOrder',
+  'salesInvoice',
+  'salesReturn',
+  'gxtInvoice',
+  'cashReceipt',
+  'creditAdvice',
+  'payment',
+  'debitAdvice',
+  'warehouseReceipt',
+  'warehouseRelease',
+  'warehouseTransfer',
+  'POCharges',
+  'PO2',
+];
+
+/**
+ * Thời gian tối đa một lần gửi ở trạng thái IN_FLIGHT.
+ * Quá thời gian này coi như process đã chết giữa chừng -> UNKNOWN
+ */
+export const FAST_SUBMISSION_IN_FLIGHT_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * JSON với key được sắp xếp để hash không phụ thuộc thứ tự field
+ */
+export function canonicalStringify(value: any): string {
+  if (value === null || value === undefined) {
+    return JSON.stringify(value ?? null);
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalStringify(item)).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashFastPayload(payload: any): string {
+  return createHash('sha256').update(canonicalStringify(payload)).digest('hex');
+}
+
+/**
+ * Lấy số chứng từ từ payload: so_ct (đa số chứng từ),
+ * master.dh_so (POCharges), master.so_ct (PO2), so_hd (paymentMethod)
+ */
+export function resolveFastDocCode(payload: any): string | null {
+  const docCode =
+    payload?.so_ct ||
+    payload?.master?.so_ct ||
+    payload?.master?.dh_so ||
+    payload?.dh_so ||
+    payload?.so_hd ||
+    null;
+  return docCode ? String(docCode) : null;
+}
+
+/**
+ * Khoá chứng từ khi huỷ (fast_document_reversals.docCode).
+ * paymentMethod: các dòng cashio của 1 đơn dùng chung so_hd (mỗi hình thức thanh toán 1 dòng)
+ * nên khoá thêm so_pt (refno) + httt để huỷ dòng này không chặn các dòng còn lại
+ */
+export function resolveFastReversalDocCode(
+  documentKind: string,
+  payload: any,
+): string | null {
+  const docCode = resolveFastDocCode(payload);
+  if (documentKind !== 'paymentMethod' || !docCode) {
+    return docCode;
+  }
+  return [docCode, payload?.so_pt, payload?.httt].filter(Boolean).join('/');
+}
+
+export function buildFastIdempotencyKey(
+  documentKind: string,
+  docCode: string,
+  payloadHash: string,
+): string {
+  return `${documentKind}:${docCode}:${payloadHash}`;
+}
+
+/**
+ * Chứng từ có thể huỷ bằng action = CANCEL_UPDATE (xem fast_document_reversals).
+ * PO2 dùng action riêng (1: Đóng, 2: Xóa) nên không nằm trong danh sách
+ */
+export const FAST_REVERSIBLE_ENDPOINTS = [
+  'salesOrder',
+  'salesInvoice',
+  'salesReturn',
+  'gxtInvoice',
+  'warehouseReceipt',
+  'warehouseRelease',
+  'warehouseTransfer',
+  'POCharges',
+  'paymentMethod',
+];
+
+/**
+ * Gắn action vào payload: chứng từ master/detail (POCharges) đặt action trong master
+ */
+export function withFastAction(payload: any, action: number): any {
+  if (payload?.master) {
+    return { ...payload, master: { ...payload.master, action } };
+  }
+  return { ...payload, action };
+}
+
+export function resolveFastAction(payload: any): number | null {
+  const action = payload?.master ? payload.master.action : payload?.action;
+  return action === undefined || action === null ? null : Number(action);
+}
@@ -0,0 +1,161 @@
+import * as _ from 'lodash';
+
+/**
+ * Utility functions so sánh payload hóa đơn giữa 2 lần gửi Fast
+ * Payload lưu dạng payloadLog của các flow: { salesOrder, salesInvoice, salesReturn, gxtInvoice, ... }
+ */
+
+export interface PayloadFieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface PayloadLineChange {
+  list: string; // detail, ndetail...
+  key: string; // ma_vt (kèm số thứ tự nếu trùng mã vật tư)
+  change: 'added' | 'removed' | 'changed';
+  fields: PayloadFieldChange[];
+}
+
+export interface PayloadDocumentDiff {
+  document: string; // salesOrder, salesInvoice#1, ...
+  change: 'added' | 'removed' | 'changed';
+  header: PayloadFieldChange[];
+  lines: PayloadLineChange[];
+}
+
+/**
+ * Tách payloadLog thành từng chứng từ
+ * salesInvoice tách theo ngày được lưu dạng mảng [{ docCode, payload }] -> salesInvoice#1, salesInvoice#2...
+ */
+export function extractPayloadDocuments(
+  payload: string | object | null | undefined,
+): Record<string, any> {
+  let parsed: any = payload;
+  if (typeof payload === 'string') {
+    try {
+      parsed = JSON.parse(payload);
+    } catch {
+      return {};
+    }
+  }
+  if (!_.isPlainObject(parsed)) {
+    return {};
+  }
+  // Payload là 1 chứng từ đơn lẻ
+  if (Array.isArray(parsed.detail)) {
+    return { document: parsed };
+  }
+
+  const documents: Record<string, any> = {};
+  for (const [name, value] of Object.entries(parsed)) {
+    if (Array.isArray(value)) {
+      value.forEach((item: any, index) => {
+        const doc = item?.payload ?? item;
+        if (_.isPlainObject(doc)) {
+          documents[`${name}#${index + 1}`] = doc;
+        }
+      });
+    } else if (_.isPlainObject(value)) {
+      documents[name] = value;
+    }
+  }
+  return documents;
+}
+
+/**
+ * So sánh 2 payload: header theo tên trường, các dòng chi tiết theo ma_vt
+ */
+export function diffInvoicePayloads(
+  fromPayload: string | object | null | undefined,
+  toPayload: string | object | null | undefined,
+): PayloadDocumentDiff[] {
+  const fromDocs = extractPayloadDocuments(fromPayload);
+  const toDocs = extractPayloadDocuments(toPayload);
+  const names = _.union(Object.keys(fromDocs), Object.keys(toDocs));
+
+  const diffs: PayloadDocumentDiff[] = [];
+  for (const name of names) {
+    const from = fromDocs[name];
+    const to = toDocs[name];
+    const header = diffHeader(from || {}, to || {});
+    const lines = diffLines(from || {}, to || {});
+
+    if (!from || !to || header.length > 0 || lines.length > 0) {
+      diffs.push({
+        document: name,
+        change: !from ? 'added' : !to ? 'removed' : 'changed',
+        header,
+        lines,
+      });
+    }
+  }
+  return diffs;
+}
+
+function isLineList(value: any): value is any[] {
+  return (
+    Array.isArray(value) &&
+    value.some((line) => _.isPlainObject(line) && 'ma_vt' in line)
+  );
+}
+
+function diffFields(from: any, to: any, skip: (value: any) => boolean) {
+  const changes: PayloadFieldChange[] = [];
+  for (const field of _.union(Object.keys(from), Object.keys(to))) {
+    if (skip(from[field]) || skip(to[field])) {
+      continue;
+    }
+    if (!_.isEqual(from[field], to[field])) {
+      changes.push({ field, from: from[field], to: to[field] });
+    }
+  }
+  return changes;
+}
+
+function diffHeader(from: any, to: any): PayloadFieldChange[] {
+  return diffFields(from, to, isLineList);
+}
+
+/**
+ * Key dòng chi tiết theo ma_vt, nếu trùng mã vật tư thì thêm số thứ tự xuất hiện (ma_vt#2)
+ */
+function keyLines(lines: any[]): Map<string, any> {
+  const keyed = new Map<string, any>();
+  const seen = new Map<string, number>();
+  for (const line of lines) {
+    const code = String(line?.ma_vt ?? '').trim() || '(trống)';
+    const count = (seen.get(code) || 0) + 1;
+    seen.set(code, count);
+    keyed.set(count > 1 ? `${code}#${count}` : code, line);
+  }
+  return keyed;
+}
+
+function diffLines(from: any, to: any): PayloadLineChange[] {
+  const changes: PayloadLineChange[] = [];
+  const lists = _.union(Object.keys(from), Object.keys(to)).filter(
+    (field) => isLineList(from[field]) || isLineList(to[field]),
+  );
+
+  for (const list of lists) {
+    const fromLines = keyLines(Array.isArray(from[list]) ? from[list] : []);
+    const toLines = keyLines(Array.isArray(to[list]) ? to[list] : []);
+
+    for (const key of _.union([...fromLines.keys()], [...toLines.keys()])) {
+      const fromLine = fromLines.get(key);
+      const toLine = toLines.get(key);
+      const fields = diffFields(fromLine || {}, toLine || {}, () => false);
+      if (!fromLine || !toLine || fields.length > 0) {
+        changes.push({
+          list,
+          key,
+          change: !fromLine ? 'added' : !toLine ? 'removed' : 'changed',
+          fields,
+        });
+      }
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,26 @@
+import { FindOptionsWhere, In, ObjectLiteral, Repository } from 'typeorm';
+import * as _ from 'lodash';
+
+/**
+ * Số key tối đa trong 1 câu IN (...)
+ */
+export const LOOKUP_CHUNK_SIZE = 1000;
+
+/**
+ * Tìm các dòng có `field` thuộc danh sách keys, chia nhỏ theo LOOKUP_CHUNK_SIZE
+ */
+export async function findByKeys<T extends ObjectLiteral>(
+  repository: Repository<T>,
+  field: string,
+  keys: string[],
+): Promise<T[]> {
+  const results: T[] = [];
+  for (const chunk of _.chunk(_.uniq(keys), LOOKUP_CHUNK_SIZE)) {
+    results.push(
+      ...(await repository.find({
+        where: { [field]: In(chunk) } as FindOptionsWhere<T>,
+      })),
+    );
+  }
+  return results;
+}
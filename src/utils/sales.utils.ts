@@ -3,6 +3,11 @@
  * Các hàm tiện ích cho sales module
  */
 
+import {
+  DEFAULT_FAST_DVCS_PREFIX,
+  findBrandInSnapshot,
+} from '../modules/brands/constants/brand.constants';
+
 /**
  * Validate integer value để tránh NaN
  */
@@ -56,19 +61,8 @@ export function getPromotionDisplayCode(
  * menard → MN, f3 → FBV, chando → CDV, labhair → LHV, yaman → BTH
  */
 export function mapBrandToCode(brand: string | null | undefined): string {
-  if (!brand) return 'MN'; // Default
-
-  const brandLower = brand.toLowerCase().trim();
-  const brandMap: Record<string, string> = {
-    menard: 'MN',
-    f3: 'FBV',
-    facialbar: 'FBV',
-    chando: 'CDV',
-    labhair: 'LHV',
-    yaman: 'BTH',
-  };
-
-  return brandMap[brandLower] || 'MN'; // Default to MN
+  // Mã brand lấy từ registry brand (brands.fastDvcsPrefix), mặc định MN
+  return findBrandInSnapshot(brand)?.fastDvcsPrefix || DEFAULT_FAST_DVCS_PREFIX;
 }
 
 /**
@@ -179,91 +173,6 @@ export function getOrderTypePrefix(
   return null;
 }
 
-/**
- * Helper generic kiểm tra loại đơn hàng
- */
-function checkOrderTypeMatches(
-  value: string | null | undefined,
-  keywords: string[],
-): boolean {
-  const s = value || '';
-  return keywords.some((k) => s.includes(k));
-}
-
-/**
- * Helper: Kiểm tra xem đơn hàng có phải "03. Đổi điểm" không
- */
-export function isDoiDiemOrder(
-  ordertypeName: string | null | undefined,
-): boolean {
-  return checkOrderTypeMatches(ordertypeName, [
-    '03. Đổi điểm',
-    '03.Đổi điểm',
-    '03.  Đổi điểm',
-  ]);
-}
-
-/**
- * Helper: Kiểm tra xem đơn hàng có phải "04. Đổi DV" không
- */
-export function isDoiDvOrder(
-  ordertypeName: string | null | undefined,
-): boolean {
-  return checkOrderTypeMatches(ordertypeName, [
-    '04. Đổi DV',
-    '04.Đổi DV',
-    '04.  Đổi DV',
-  ]);
-}
-
-/**
- * Helper: Kiểm tra xem đơn hàng có phải "05. Tặng sinh nhật" không
- */
-export function isTangSinhNhatOrder(
-  ordertypeName: string | null | undefined,
-): boolean {
-  return checkOrderTypeMatches(ordertypeName, [
-    '05. Tặng sinh nhật',
-    '05.Tặng sinh nhật',
-    '05.  Tặng sinh nhật',
-  ]);
-}
-
-/**
- * Helper: Kiểm tra xem đơn hàng có phải "06. Đầu tư" không
- */
-export function isDauTuOrder(
-  ordertypeName: string | null | undefined,
-): boolean {
-  return checkOrderTypeMatches(ordertypeName, [
-    '06. Đầu tư',
-    '06.Đầu tư',
-    '06.  Đầu tư',
-  ]);
-}
-
-/**
- * Helper: Kiểm tra xem đơn hàng có phải "08. Tách thẻ" không
- */
-export function isTachTheOrder(
-  ordertypeName: string | null | undefined,
-): boolean {
-  return checkOrderTypeMatches(ordertypeName, [
-    '08. Tách thẻ',
-    '08.Tách thẻ',
-    '08.  Tách thẻ',
-  ]);
-}
-
-/**
- * Helper: Kiểm tra xem đơn hàng có phải "Đổi vỏ" không
- */
-export function isDoiVoOrder(
-  ordertypeName: string | null | undefined,
-): boolean {
-  return checkOrderTypeMatches(ordertypeName, ['Đổi vỏ']);
-}
-
 /**
  * Helper: Kiểm tra xem item có phải "TRUTONKEEP" không
  * Items này sẽ bị bỏ qua khi map kho và tạo hóa đơn
@@ -278,11 +187,7 @@ export function isTrutonkeepItem(itemCode: string | null | undefined): boolean {
  */
 export function normalizeBrand(brand: string | null | undefined): string {
   if (!brand) return '';
-  let brandLower = brand.toLowerCase().trim();
-  if (brandLower === 'facialbar') {
-    brandLower = 'f3';
-  }
-  return brandLower;
+  return findBrandInSnapshot(brand)?.code || brand.toLowerCase().trim();
 }
 
 /**
@@ -624,17 +529,7 @@ export function parseDateFromDDMMMYYYY(dateStr: string): Date {
 export function mapCompanyToBrand(company: string | null | undefined): string {
   if (!company) return '';
 
-  const companyUpper = company.toUpperCase();
-  const brandMap: Record<string, string> = {
-    F3: 'f3',
-    FACIALBAR: 'f3',
-    MENARD: 'menard',
-    LABHAIR: 'labhair',
-    YAMAN: 'yaman',
-    CHANDO: 'chando',
-  };
-
-  return brandMap[companyUpper] || company.toLowerCase();
+  return findBrandInSnapshot(company)?.code || company.toLowerCase();
 }
 
 /**
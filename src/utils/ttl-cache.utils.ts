@@ -0,0 +1,31 @@
+/**
+ * Thời gian giữ cache các bảng cấu hình (brand, loại đơn, luật định tuyến hóa đơn, đối tác thanh toán, mã phí POCharges).
+ * Ngắn để các instance khác nhận thay đổi mà không cần restart; instance vừa sửa thì invalidate() ngay
+ */
+export const REGISTRY_CACHE_TTL_MS = 30 * 1000;
+
+/**
+ * Cache 1 giá trị trong bộ nhớ, tải lại bằng `load` khi hết hạn hoặc sau invalidate()
+ */
+export class TtlCache<T> {
+  private value: T | null = null;
+  private loadedAt = 0;
+
+  constructor(
+    private readonly load: () => Promise<T>,
+    private readonly ttlMs = REGISTRY_CACHE_TTL_MS,
+  ) {}
+
+  async get(): Promise<T> {
+    if (this.value !== null && Date.now() - this.loadedAt < this.ttlMs) {
+      return this.value;
+    }
+    this.value = await this.load();
+    this.loadedAt = Date.now();
+    return this.value;
+  }
+
+  invalidate() {
+    this.value = null;
+  }
+}
@@ -0,0 +1,29 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Utility functions cho chữ ký webhook
+ * Chữ ký = hex(HMAC-SHA256(secret, `${timestamp}.${rawBody}`)), gửi dạng "sha256=<hex>"
+ */
+
+export function computeWebhookSignature(
+  secret: string,
+  timestamp: string,
+  rawBody: string,
+): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${rawBody}`)
+    .digest('hex');
+}
+
+export function isValidWebhookSignature(
+  secret: string,
+  timestamp: string,
+  rawBody: string,
+  signature: string,
+): boolean {
+  const expected = Buffer.from(
+    computeWebhookSignature(secret, timestamp, rawBody),
+  );
+  const actual = Buffer.from(signature.replace(/^sha256=/, ''));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}